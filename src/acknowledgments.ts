@@ -1,5 +1,26 @@
+/**
+ * Acknowledged findings: accepted risks recorded in
+ * `.vlayer/acknowledgments.yaml` under an `acknowledgments` list.
+ *
+ * Findings of severities listed in `acknowledgmentApprovals` (by default
+ * critical and high) stay open until the acknowledgment's `approvedBy` names
+ * enough approvers: the CODEOWNERS owners of the finding's file, or the
+ * configured list. The person who acknowledged a finding cannot approve it.
+ */
 import { minimatch } from 'minimatch';
-import type { Finding, VlayerConfig } from './types.js';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import * as path from 'path';
+import { Document, isMap, isSeq, parse as parseYaml, parseDocument } from 'yaml';
+import type { AcknowledgedFinding, AcknowledgmentApprovalRule, Finding, Severity, VlayerConfig } from './types.js';
+import { ownersOf, type Codeowners } from './utils/codeowners.js';
+import { isPastExpiry } from './utils/expiry.js';
+
+export const ACKNOWLEDGMENTS_FILE = '.vlayer/acknowledgments.yaml';
+
+const DEFAULT_APPROVALS: Partial<Record<Severity, AcknowledgmentApprovalRule>> = {
+  critical: { approvers: 'codeowners' },
+  high: { approvers: 'codeowners' },
+};
 
 export interface AcknowledgmentMatch {
   acknowledged: boolean;
@@ -8,19 +29,98 @@ export interface AcknowledgmentMatch {
   acknowledgedAt?: string;
   ticketUrl?: string;
   expired?: boolean;
+  /** An acknowledgment matched but lacks the approvals the finding needs. */
+  unapproved?: boolean;
+}
+
+/**
+ * Approval rule for findings of a severity, or undefined if their
+ * acknowledgments need no approval
+ */
+export function approvalRule(
+  severity: Severity,
+  config: VlayerConfig
+): AcknowledgmentApprovalRule | undefined {
+  return (config.acknowledgmentApprovals ?? DEFAULT_APPROVALS)[severity];
+}
+
+/** Names compare case-insensitively, with or without a leading `@`. */
+function normalizeName(name: string): string {
+  return name.trim().replace(/^@/, '').toLowerCase();
+}
+
+/**
+ * Whether an acknowledgment has the approvals a finding needs
+ */
+export function isAcknowledgmentApproved(
+  ack: AcknowledgedFinding,
+  finding: Finding,
+  config: VlayerConfig,
+  codeowners?: Codeowners
+): boolean {
+  const rule = approvalRule(finding.severity, config);
+  if (!rule) return true;
+
+  const eligible = new Set(
+    (rule.approvers === 'codeowners' ? (codeowners ? ownersOf(codeowners, finding.file) : []) : rule.approvers)
+      .map(normalizeName)
+  );
+  const acknowledger = normalizeName(ack.acknowledgedBy);
+  const approvals = new Set(
+    (ack.approvedBy ?? []).map(normalizeName).filter(name => name !== acknowledger && eligible.has(name))
+  );
+  return approvals.size >= (rule.required ?? 1);
+}
+
+/**
+ * Why acknowledgments of `severity` findings (in `file`, when given) can never
+ * be approved, or undefined if someone can approve them: the approver list is
+ * empty, or approvers come from CODEOWNERS and the project has no CODEOWNERS
+ * file or no rule with owners covers the file.
+ */
+export function missingApprovers(
+  severity: Severity,
+  config: VlayerConfig,
+  codeowners?: Codeowners,
+  file?: string
+): string | undefined {
+  const rule = approvalRule(severity, config);
+  if (!rule) return undefined;
+  const fallback = `list approvers under acknowledgmentApprovals.${severity} in the config file`;
+
+  if (rule.approvers !== 'codeowners') {
+    return rule.approvers.length === 0
+      ? `acknowledgmentApprovals.${severity} has no approvers, so acknowledgments of ${severity} findings can never be approved`
+      : undefined;
+  }
+  if (!codeowners?.file) {
+    return `no CODEOWNERS file, so acknowledgments of ${severity} findings can never be approved; ` +
+      `add .github/CODEOWNERS or ${fallback}`;
+  }
+  if (file !== undefined && ownersOf(codeowners, file).length === 0) {
+    const relativePath = path.relative(codeowners.rootPath, path.resolve(codeowners.rootPath, file)).split(path.sep).join('/');
+    return `no CODEOWNERS rule covers ${relativePath}, so acknowledgments of its ${severity} findings can never be approved; ` +
+      `add a rule for it to ${path.relative(codeowners.rootPath, codeowners.file)} or ${fallback}`;
+  }
+  return undefined;
 }
 
 /**
- * Check if a finding matches any acknowledged finding pattern in the config
+ * Check if a finding matches any acknowledged finding pattern in the config.
+ * Acknowledgments without the approvals the finding needs are passed over;
+ * CODEOWNERS approvers are resolved from `codeowners`.
  */
 export function checkAcknowledgment(
   finding: Finding,
-  config: VlayerConfig
+  config: VlayerConfig,
+  codeowners?: Codeowners
 ): AcknowledgmentMatch {
   if (!config.acknowledgedFindings || config.acknowledgedFindings.length === 0) {
     return { acknowledged: false };
   }
 
+  let unapproved = false;
+
   for (const ack of config.acknowledgedFindings) {
     // Check if file path matches the pattern. `dot: true` lets `**` traverse
     // dot-directories — finding.file is an absolute path, and a checkout under
@@ -38,6 +138,12 @@ export function checkAcknowledgment(
       }
     }
 
+    // Check if the fingerprint matches (if specified): one finding only,
+    // wherever it has moved to in the file
+    if (ack.fingerprint && ack.fingerprint !== finding.fingerprint) {
+      continue;
+    }
+
     // Check if category matches (if specified)
     if (ack.category && ack.category !== finding.category) {
       continue;
@@ -48,8 +154,14 @@ export function checkAcknowledgment(
       continue;
     }
 
+    // Check if the acknowledgment has been approved, where required
+    if (!isAcknowledgmentApproved(ack, finding, config, codeowners)) {
+      unapproved = true;
+      continue;
+    }
+
     // Check if acknowledgment has expired
-    const expired = ack.expiresAt ? new Date(ack.expiresAt) < new Date() : false;
+    const expired = ack.expiresAt ? isPastExpiry(ack.expiresAt) : false;
 
     // All criteria matched
     return {
@@ -62,18 +174,20 @@ export function checkAcknowledgment(
     };
   }
 
-  return { acknowledged: false };
+  return unapproved ? { acknowledged: false, unapproved } : { acknowledged: false };
 }
 
 /**
- * Apply acknowledgments to all findings
+ * Apply acknowledgments to all findings. Unapproved acknowledgments of
+ * findings that need approval leave them open.
  */
 export function applyAcknowledgments(
   findings: Finding[],
-  config: VlayerConfig
+  config: VlayerConfig,
+  codeowners?: Codeowners
 ): Finding[] {
   return findings.map(finding => {
-    const ack = checkAcknowledgment(finding, config);
+    const ack = checkAcknowledgment(finding, config, codeowners);
 
     if (ack.acknowledged) {
       return {
@@ -98,38 +212,125 @@ export function applyAcknowledgments(
  */
 export function validateAcknowledgedFinding(
   ack: any,
-  index: number
+  index: number,
+  field = 'acknowledgedFindings'
 ): string[] {
   const errors: string[] = [];
 
   if (!ack.pattern || typeof ack.pattern !== 'string') {
-    errors.push(`acknowledgedFindings[${index}]: 'pattern' is required and must be a string`);
+    errors.push(`${field}[${index}]: 'pattern' is required and must be a string`);
   }
 
   if (!ack.reason || typeof ack.reason !== 'string') {
-    errors.push(`acknowledgedFindings[${index}]: 'reason' is required and must be a string`);
+    errors.push(`${field}[${index}]: 'reason' is required and must be a string`);
   }
 
   if (!ack.acknowledgedBy || typeof ack.acknowledgedBy !== 'string') {
-    errors.push(`acknowledgedFindings[${index}]: 'acknowledgedBy' is required and must be a string`);
+    errors.push(`${field}[${index}]: 'acknowledgedBy' is required and must be a string`);
   }
 
   if (!ack.acknowledgedAt || typeof ack.acknowledgedAt !== 'string') {
-    errors.push(`acknowledgedFindings[${index}]: 'acknowledgedAt' is required and must be a string`);
+    errors.push(`${field}[${index}]: 'acknowledgedAt' is required and must be a string`);
   } else {
     // Validate ISO 8601 date format
     const date = new Date(ack.acknowledgedAt);
     if (isNaN(date.getTime())) {
-      errors.push(`acknowledgedFindings[${index}]: 'acknowledgedAt' must be a valid ISO 8601 date`);
+      errors.push(`${field}[${index}]: 'acknowledgedAt' must be a valid ISO 8601 date`);
     }
   }
 
+  if (ack.fingerprint !== undefined && (typeof ack.fingerprint !== 'string' || !/^[0-9a-f]{16}$/.test(ack.fingerprint))) {
+    errors.push(`${field}[${index}]: 'fingerprint' must be a 16-character hex fingerprint`);
+  }
+
+  if (ack.approvedBy !== undefined && (!Array.isArray(ack.approvedBy)
+    || !ack.approvedBy.every((name: unknown) => typeof name === 'string' && name.trim().length > 0))) {
+    errors.push(`${field}[${index}]: 'approvedBy' must be a list of names`);
+  }
+
   if (ack.expiresAt) {
     const date = new Date(ack.expiresAt);
     if (isNaN(date.getTime())) {
-      errors.push(`acknowledgedFindings[${index}]: 'expiresAt' must be a valid ISO 8601 date`);
+      errors.push(`${field}[${index}]: 'expiresAt' must be a valid ISO 8601 date`);
     }
   }
 
   return errors;
 }
+
+/**
+ * Acknowledgments that expire before `until`, already expired ones included,
+ * soonest first
+ */
+export function findExpiringAcknowledgments(
+  acknowledgments: AcknowledgedFinding[],
+  until: Date
+): AcknowledgedFinding[] {
+  return acknowledgments
+    .filter(ack => ack.expiresAt && new Date(ack.expiresAt) <= until)
+    .sort((a, b) => new Date(a.expiresAt!).getTime() - new Date(b.expiresAt!).getTime());
+}
+
+/**
+ * Path of the acknowledgments file of a project
+ */
+export function getAcknowledgmentsPath(rootPath: string): string {
+  return path.join(rootPath, ACKNOWLEDGMENTS_FILE);
+}
+
+/**
+ * Load the acknowledgments of a file. A missing file has none; an unreadable
+ * or invalid one throws with the validation errors.
+ */
+export async function loadAcknowledgments(filePath: string): Promise<AcknowledgedFinding[]> {
+  let parsed: unknown;
+  try {
+    parsed = parseYaml(await readFile(filePath, 'utf-8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw new Error(`Cannot read ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const acknowledgments = (parsed as { acknowledgments?: unknown } | null)?.acknowledgments ?? [];
+  if (!Array.isArray(acknowledgments)) {
+    throw new Error(`Invalid ${filePath}: 'acknowledgments' must be a list`);
+  }
+  const errors = acknowledgments.flatMap((ack, index) => validateAcknowledgedFinding(ack, index, 'acknowledgments'));
+  if (errors.length > 0) {
+    throw new Error(`Invalid ${filePath}:\n  ${errors.join('\n  ')}`);
+  }
+  return acknowledgments as AcknowledgedFinding[];
+}
+
+/**
+ * Append an acknowledgment to an acknowledgments file, creating it if needed.
+ * Comments and other entries are written back unchanged. Throws with the
+ * validation errors if the acknowledgment is invalid.
+ */
+export async function addAcknowledgment(
+  filePath: string,
+  ack: AcknowledgedFinding
+): Promise<void> {
+  const existing = await loadAcknowledgments(filePath);
+  const errors = validateAcknowledgedFinding(ack, existing.length, 'acknowledgments');
+  if (errors.length > 0) {
+    throw new Error(errors.join('\n'));
+  }
+
+  let doc: Document;
+  try {
+    doc = parseDocument(await readFile(filePath, 'utf-8'));
+  } catch {
+    doc = new Document({});
+  }
+  if (isSeq(doc.get('acknowledgments'))) {
+    doc.addIn(['acknowledgments'], ack);
+  } else if (isMap(doc.contents)) {
+    doc.set('acknowledgments', doc.createNode([ack]));
+  } else {
+    doc = new Document({ acknowledgments: [ack] });
+  }
+
+  await mkdir(path.dirname(filePath), { recursive: true });
+  await writeFile(filePath, doc.toString(), 'utf-8');
+}
@@ -0,0 +1,359 @@
+import {
+  createHash,
+  createPrivateKey,
+  createPublicKey,
+  generateKeyPairSync,
+  randomUUID,
+  sign,
+  verify,
+  type KeyObject,
+} from 'crypto';
+import { existsSync } from 'fs';
+import { chmod, mkdir, readFile, writeFile } from 'fs/promises';
+import { homedir } from 'os';
+import { dirname, join } from 'path';
+import type {
+  AuditChainLink,
+  AuditEvidence,
+  AuditRollback,
+  AuditTrail,
+  ManualReviewEvent,
+  ManualReviewItem,
+  ManualReviewState,
+} from '../types.js';
+import { generateAuditTrailHash, hashContent } from './evidence.js';
+
+export type AuditChainEntryKind = 'evidence' | 'rollback' | 'review';
+
+interface ChainEntry {
+  kind: AuditChainEntryKind;
+  entry: AuditEvidence | AuditRollback | ManualReviewEvent;
+}
+
+export interface AuditChainError {
+  message: string;
+  sequence?: number;
+  kind?: AuditChainEntryKind;
+  id?: string;
+}
+
+export interface AuditVerificationResult {
+  /** `unchained` trails were written before hash chaining and cannot be verified. */
+  status: 'valid' | 'broken' | 'unchained';
+  entries: number;
+  signed: boolean;
+  keyFingerprint?: string;
+  head?: string;
+  /** The first problem found, in chain order. */
+  error?: AuditChainError;
+}
+
+export interface VerifyAuditTrailOptions {
+  /** PEM public key the trail must be signed with, instead of the key it embeds. */
+  publicKey?: string;
+}
+
+const REVIEW_STATE_FIELDS: (keyof ManualReviewState)[] = [
+  'status', 'assignedTo', 'notes', 'resolution', 'resolvedBy', 'resolvedAt',
+];
+
+/**
+ * JSON with object keys sorted, so a hash does not depend on key order
+ */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(v => canonicalJson(v ?? null)).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const fields = Object.keys(value)
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+    return `{${fields.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function reviewState(review: ManualReviewItem): ManualReviewState {
+  const state: ManualReviewState = { status: review.status };
+  for (const field of REVIEW_STATE_FIELDS) {
+    if (review[field] !== undefined) (state as Record<string, unknown>)[field] = review[field];
+  }
+  return state;
+}
+
+/**
+ * Record a change to a manual review. The event is linked into the hash
+ * chain when the trail is next saved.
+ */
+export function recordReviewEvent(
+  trail: AuditTrail,
+  review: ManualReviewItem,
+  action: ManualReviewEvent['action'],
+  by?: string,
+  timestamp: string = review.updatedAt
+): ManualReviewEvent {
+  const event: ManualReviewEvent = {
+    id: randomUUID(),
+    reviewId: review.id,
+    action,
+    by,
+    timestamp,
+    state: reviewState(review),
+  };
+  trail.reviewEvents = [...(trail.reviewEvents ?? []), event];
+  return event;
+}
+
+/**
+ * Hash the first link of a trail's chain starts from
+ */
+export function genesisHash(trail: AuditTrail): string {
+  return hashContent(`vlayer-audit-trail|${trail.id}|${trail.createdAt}`);
+}
+
+function hashEntry({ kind, entry }: ChainEntry, sequence: number, previousHash: string): string {
+  return hashContent(canonicalJson({ kind, sequence, previousHash, entry: { ...entry, chain: undefined } }));
+}
+
+function chainEntries(trail: AuditTrail): ChainEntry[] {
+  return [
+    ...trail.evidence.map(entry => ({ kind: 'evidence' as const, entry })),
+    ...(trail.rollbacks ?? []).map(entry => ({ kind: 'rollback' as const, entry })),
+    ...(trail.reviewEvents ?? []).map(entry => ({ kind: 'review' as const, entry })),
+  ];
+}
+
+/**
+ * Fingerprint of a public key: SHA256 of its DER encoding
+ */
+export function getKeyFingerprint(key: KeyObject | string): string {
+  const publicKey = typeof key !== 'string' && key.type === 'public' ? key : createPublicKey(key);
+  const der = publicKey.export({ type: 'spki', format: 'der' });
+  return createHash('sha256').update(der).digest('hex');
+}
+
+function headPayload(length: number, head: string): Buffer {
+  return Buffer.from(`${length}|${head}`, 'utf8');
+}
+
+/**
+ * Link every entry not yet in the hash chain, oldest first, and sign the new
+ * links when a signing key is given. Entries already linked never change, so
+ * editing one later breaks the chain. Throws when new entries would go into a
+ * signed chain without its key.
+ */
+export function sealAuditTrail(trail: AuditTrail, signingKey?: KeyObject | null): void {
+  // Reviews from trails written before review events were recorded
+  const tracked = new Set((trail.reviewEvents ?? []).map(e => e.reviewId));
+  for (const review of trail.manualReviews) {
+    if (!tracked.has(review.id)) recordReviewEvent(trail, review, 'open', undefined, review.createdAt);
+  }
+
+  const entries = chainEntries(trail);
+  const linked = entries.filter(e => e.entry.chain).sort((a, b) => a.entry.chain!.sequence - b.entry.chain!.sequence);
+  const unlinked = entries
+    .filter(e => !e.entry.chain)
+    .sort((a, b) => a.entry.timestamp.localeCompare(b.entry.timestamp));
+  if (unlinked.length === 0 && trail.integrity) return;
+
+  const reviews = new Map(trail.manualReviews.map(r => [r.id, r]));
+  for (const event of trail.reviewEvents ?? []) {
+    const review = !event.chain && event.action === 'open' ? reviews.get(event.reviewId) : undefined;
+    if (review) event.findingHash = hashContent(canonicalJson(review.finding));
+  }
+
+  let publicKey = trail.integrity?.publicKey;
+  let key = signingKey ?? undefined;
+  if (linked.length === 0 && key) {
+    publicKey = createPublicKey(key).export({ type: 'spki', format: 'pem' }).toString();
+  } else if (publicKey && (!key || getKeyFingerprint(key) !== trail.integrity?.keyFingerprint)) {
+    // Unsigned or foreign-signed links would make the whole trail unverifiable
+    throw new Error(
+      `Audit trail is signed with key ${getKeyFingerprint(publicKey).slice(0, 16)}; ` +
+      'new entries can only be added with that signing key'
+    );
+  } else if (!publicKey) {
+    // Keep an unsigned chain unsigned
+    key = undefined;
+  }
+
+  let previous = linked.length > 0 ? linked[linked.length - 1].entry.chain! : null;
+  for (const item of unlinked) {
+    const sequence = (previous?.sequence ?? 0) + 1;
+    const previousHash = previous?.hash ?? genesisHash(trail);
+    const hash = hashEntry(item, sequence, previousHash);
+    const link: AuditChainLink = { sequence, previousHash, hash };
+    if (key) link.signature = sign(null, Buffer.from(hash, 'hex'), key).toString('base64');
+    item.entry.chain = link;
+    previous = link;
+  }
+
+  const length = previous?.sequence ?? 0;
+  const head = previous?.hash ?? genesisHash(trail);
+  trail.integrity = {
+    algorithm: 'sha256',
+    length,
+    head,
+    publicKey,
+    keyFingerprint: publicKey ? getKeyFingerprint(publicKey) : undefined,
+    headSignature: key ? sign(null, headPayload(length, head), key).toString('base64') : trail.integrity?.headSignature,
+  };
+}
+
+/**
+ * Check the trail's hash chain, signatures and recorded review history, and
+ * report the first problem found
+ */
+export function verifyAuditTrail(trail: AuditTrail, options: VerifyAuditTrailOptions = {}): AuditVerificationResult {
+  const entries = chainEntries(trail);
+  const integrity = trail.integrity;
+
+  if (!integrity) {
+    return { status: 'unchained', entries: 0, signed: false };
+  }
+
+  const signed = Boolean(integrity.publicKey);
+  const result: AuditVerificationResult = {
+    status: 'valid',
+    entries: integrity.length,
+    signed,
+    keyFingerprint: integrity.keyFingerprint,
+    head: integrity.head,
+  };
+  const fail = (error: AuditChainError): AuditVerificationResult => ({ ...result, status: 'broken', error });
+
+  let publicKey: KeyObject | undefined;
+  try {
+    if (options.publicKey) {
+      publicKey = createPublicKey(options.publicKey);
+      if (!signed) return fail({ message: 'audit trail is not signed' });
+      if (getKeyFingerprint(publicKey) !== getKeyFingerprint(integrity.publicKey!)) {
+        return fail({ message: `audit trail is signed with a different key (${getKeyFingerprint(integrity.publicKey!)})` });
+      }
+    } else if (integrity.publicKey) {
+      publicKey = createPublicKey(integrity.publicKey);
+    }
+  } catch {
+    return fail({ message: 'public key is not a valid PEM key' });
+  }
+
+  const unlinked = entries.find(e => !e.entry.chain);
+  const linked = entries.filter(e => e.entry.chain).sort((a, b) => a.entry.chain!.sequence - b.entry.chain!.sequence);
+
+  let previousHash = genesisHash(trail);
+  for (const [index, item] of linked.entries()) {
+    const link = item.entry.chain!;
+    const at = { sequence: index + 1, kind: item.kind, id: item.entry.id };
+
+    if (link.sequence !== index + 1) {
+      return fail({ ...at, message: `entry #${index + 1} is missing from the chain` });
+    }
+    if (link.previousHash !== previousHash) {
+      return fail({ ...at, message: 'link does not match the hash of the previous entry' });
+    }
+    if (hashEntry(item, link.sequence, link.previousHash) !== link.hash) {
+      return fail({ ...at, message: 'entry was modified after it was recorded' });
+    }
+    if (publicKey) {
+      if (!link.signature) return fail({ ...at, message: 'entry is not signed' });
+      if (!verify(null, Buffer.from(link.hash, 'hex'), publicKey, Buffer.from(link.signature, 'base64'))) {
+        return fail({ ...at, message: 'invalid signature' });
+      }
+    }
+    previousHash = link.hash;
+  }
+
+  if (unlinked) {
+    return fail({ kind: unlinked.kind, id: unlinked.entry.id, message: 'entry was added outside the hash chain' });
+  }
+  if (linked.length !== integrity.length || previousHash !== integrity.head) {
+    return fail({ message: `chain has ${linked.length} entries but its head records ${integrity.length}; entries were removed` });
+  }
+  if (publicKey && (!integrity.headSignature
+    || !verify(null, headPayload(integrity.length, integrity.head), publicKey, Buffer.from(integrity.headSignature, 'base64')))) {
+    return fail({ message: 'invalid signature on the chain head' });
+  }
+
+  // Reviews are updated in place, so each must match its latest recorded event
+  const lastEvents = new Map<string, ManualReviewEvent>();
+  const openEvents = new Map<string, ManualReviewEvent>();
+  for (const event of trail.reviewEvents ?? []) {
+    lastEvents.set(event.reviewId, event);
+    if (event.action === 'open') openEvents.set(event.reviewId, event);
+  }
+  const reviewIds = new Set(trail.manualReviews.map(r => r.id));
+  const removed = [...lastEvents.keys()].find(id => !reviewIds.has(id));
+  if (removed) {
+    return fail({ kind: 'review', id: removed, message: `manual review ${removed.slice(0, 8)} was removed` });
+  }
+  for (const review of trail.manualReviews) {
+    const last = lastEvents.get(review.id);
+    const opened = openEvents.get(review.id);
+    const at = { kind: 'review' as const, id: review.id };
+    if (!last || !opened) {
+      return fail({ ...at, message: `manual review ${review.id.slice(0, 8)} has no recorded history` });
+    }
+    if (opened.findingHash !== hashContent(canonicalJson(review.finding))) {
+      return fail({ ...at, message: `finding of manual review ${review.id.slice(0, 8)} was modified` });
+    }
+    if (canonicalJson(last.state) !== canonicalJson(reviewState(review))) {
+      return fail({ ...at, message: `manual review ${review.id.slice(0, 8)} does not match its recorded history` });
+    }
+  }
+
+  if (trail.reportHash && trail.reportHash !== generateAuditTrailHash(trail.evidence, trail.rollbacks)) {
+    return fail({ message: 'report hash does not match the evidence' });
+  }
+
+  return result;
+}
+
+/**
+ * Path of the local Ed25519 signing key: `VLAYER_SIGNING_KEY`, or
+ * ~/.vlayer/audit-signing-key.pem
+ */
+export function getSigningKeyPath(): string {
+  return process.env.VLAYER_SIGNING_KEY || join(homedir(), '.vlayer', 'audit-signing-key.pem');
+}
+
+/**
+ * Load the local signing key, if there is one
+ */
+export async function loadSigningKey(keyPath: string = getSigningKeyPath()): Promise<KeyObject | null> {
+  if (!existsSync(keyPath)) {
+    if (process.env.VLAYER_SIGNING_KEY) {
+      throw new Error(`Signing key not found at ${keyPath} (set by VLAYER_SIGNING_KEY)`);
+    }
+    return null;
+  }
+
+  const key = createPrivateKey(await readFile(keyPath, 'utf-8'));
+  if (key.asymmetricKeyType !== 'ed25519') {
+    throw new Error(`Signing key at ${keyPath} is not an Ed25519 private key`);
+  }
+  return key;
+}
+
+/**
+ * Create an Ed25519 key pair for signing audit trails. The public key is
+ * written next to the private one, for pinning with `vlayer audit verify`.
+ */
+export async function generateSigningKey(
+  keyPath: string = getSigningKeyPath(),
+  force = false
+): Promise<{ privateKeyPath: string; publicKeyPath: string; fingerprint: string }> {
+  if (existsSync(keyPath) && !force) {
+    throw new Error(`Signing key already exists at ${keyPath}; use --force to replace it`);
+  }
+
+  const { privateKey, publicKey } = generateKeyPairSync('ed25519');
+  const publicKeyPath = keyPath.replace(/\.pem$/, '') + '.pub.pem';
+
+  await mkdir(dirname(keyPath), { recursive: true });
+  await writeFile(keyPath, privateKey.export({ type: 'pkcs8', format: 'pem' }), { mode: 0o600 });
+  await chmod(keyPath, 0o600);
+  await writeFile(publicKeyPath, publicKey.export({ type: 'spki', format: 'pem' }));
+
+  return { privateKeyPath: keyPath, publicKeyPath, fingerprint: getKeyFingerprint(publicKey) };
+}
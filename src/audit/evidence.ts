@@ -1,6 +1,6 @@
 import { createHash, randomUUID } from 'crypto';
 import { readFile } from 'fs/promises';
-import type { AuditEvidence, CodeSnapshot, ContextLine, Finding, FixType } from '../types.js';
+import type { AuditEvidence, AuditRollback, CodeSnapshot, ContextLine, Finding, FixType } from '../types.js';
 
 /**
  * Generate SHA256 hash of file content
@@ -37,7 +37,8 @@ export function extractCodeSnapshot(
 }
 
 /**
- * Create audit evidence for a fix
+ * Create audit evidence for a fix of `lineCount` lines starting at the
+ * 0-based `lineNumber`
  */
 export async function createEvidence(
   finding: Finding,
@@ -45,13 +46,18 @@ export async function createEvidence(
   contentBefore: string,
   contentAfter: string,
   lineNumber: number,
-  fixType: FixType
+  fixType: FixType,
+  lineCount: number = 1
 ): Promise<AuditEvidence> {
   const linesBefore = contentBefore.split('\n');
   const linesAfter = contentAfter.split('\n');
 
   const before = extractCodeSnapshot(linesBefore, lineNumber);
   const after = extractCodeSnapshot(linesAfter, lineNumber);
+  // Keep every replaced and replacing line so the fix can be rolled back
+  const span = Math.max(1, linesAfter.length - linesBefore.length + lineCount);
+  before.content = linesBefore.slice(lineNumber, lineNumber + lineCount).join('\n');
+  after.content = linesAfter.slice(lineNumber, lineNumber + span).join('\n');
 
   return {
     id: randomUUID(),
@@ -71,10 +77,11 @@ export async function createEvidence(
 /**
  * Generate a hash for the entire audit trail (for verification)
  */
-export function generateAuditTrailHash(evidence: AuditEvidence[]): string {
-  const evidenceStr = evidence
-    .map(e => `${e.id}|${e.fileHashBefore}|${e.fileHashAfter}|${e.timestamp}`)
-    .join('\n');
+export function generateAuditTrailHash(evidence: AuditEvidence[], rollbacks: AuditRollback[] = []): string {
+  const evidenceStr = [
+    ...evidence.map(e => `${e.id}|${e.fileHashBefore}|${e.fileHashAfter}|${e.timestamp}`),
+    ...rollbacks.map(r => `rollback|${r.id}|${r.evidenceId}|${r.fileHashBefore}|${r.fileHashAfter}|${r.timestamp}`),
+  ].join('\n');
   return hashContent(evidenceStr);
 }
 
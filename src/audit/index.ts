@@ -6,9 +6,14 @@ import type {
   AuditEvidence,
   ManualReviewItem,
   Finding,
+  ManualReviewAction,
   ManualReviewStatus,
 } from '../types.js';
 import { generateAuditTrailHash } from './evidence.js';
+import { stableRuleId } from '../fingerprint.js';
+import { getKeyFingerprint, getSigningKeyPath, loadSigningKey, recordReviewEvent, sealAuditTrail } from './chain.js';
+
+export type { ManualReviewAction } from '../types.js';
 
 const AUDIT_DIR = '.vlayer';
 const AUDIT_FILE = 'audit-trail.json';
@@ -74,13 +79,30 @@ export function createManualReview(finding: Finding): ManualReviewItem {
 }
 
 /**
- * Add manual review items for non-fixable findings
+ * Whether a finding is among `findings`: by fingerprint where both have one,
+ * else by rule id (without its line number) and file
+ */
+function findingMatcher(findings: Finding[]): (finding: Finding) => boolean {
+  const ruleKey = (f: Finding) => `${stableRuleId(f)}\0${f.file}`;
+  const fingerprints = new Set(findings.flatMap(f => (f.fingerprint ? [f.fingerprint] : [])));
+  const unfingerprinted = new Set(findings.filter(f => !f.fingerprint).map(ruleKey));
+  const rules = new Set(findings.map(ruleKey));
+  return finding => finding.fingerprint
+    ? fingerprints.has(finding.fingerprint) || unfingerprinted.has(ruleKey(finding))
+    : rules.has(ruleKey(finding));
+}
+
+/**
+ * Add manual review items for non-fixable findings that have none yet, so
+ * repeated runs keep the state of existing items
  */
 export function addManualReviews(trail: AuditTrail, findings: Finding[]): void {
-  const nonFixableFindings = findings.filter(f => !f.fixType);
+  const reviewed = findingMatcher(trail.manualReviews.map(r => r.finding));
+  const nonFixableFindings = findings.filter(f => !f.fixType && !reviewed(f));
   for (const finding of nonFixableFindings) {
     const review = createManualReview(finding);
     trail.manualReviews.push(review);
+    recordReviewEvent(trail, review, 'open');
   }
   trail.manualReviewCount = trail.manualReviews.length;
 }
@@ -103,16 +125,28 @@ export function updateScanStats(
  * Finalize audit trail with hash
  */
 export function finalizeAuditTrail(trail: AuditTrail): void {
-  trail.reportHash = generateAuditTrailHash(trail.evidence);
+  trail.reportHash = generateAuditTrailHash(trail.evidence, trail.rollbacks);
 }
 
 /**
- * Save audit trail to file
+ * Save audit trail to file, linking new entries into its hash chain and
+ * signing them with the local signing key if there is one. A signed trail
+ * can only be saved with the key it was signed with.
  */
 export async function saveAuditTrail(trail: AuditTrail, projectPath: string): Promise<string> {
   const auditDir = join(projectPath, AUDIT_DIR);
   const auditPath = join(auditDir, AUDIT_FILE);
 
+  const signingKey = await loadSigningKey();
+  const signedWith = trail.integrity?.keyFingerprint;
+  if (signedWith && (!signingKey || getKeyFingerprint(signingKey) !== signedWith)) {
+    throw new Error(
+      `Audit trail is signed with key ${signedWith.slice(0, 16)}, which is not the signing key at ` +
+      `${getSigningKeyPath()}; set VLAYER_SIGNING_KEY to that key to add entries`
+    );
+  }
+  sealAuditTrail(trail, signingKey);
+
   try {
     await mkdir(auditDir, { recursive: true });
   } catch {
@@ -161,10 +195,131 @@ export function updateManualReviewStatus(
   review.updatedAt = new Date().toISOString();
   if (assignedTo) review.assignedTo = assignedTo;
   if (notes) review.notes = notes;
+  recordReviewEvent(trail, review, 'update');
 
   return true;
 }
 
+const CLOSED_REVIEW_STATUSES: ManualReviewStatus[] = ['resolved', 'accepted_risk'];
+
+export interface ManualReviewUpdate {
+  assignee?: string;
+  /** Required to resolve or accept the risk; otherwise stored as a note. */
+  note?: string;
+  /** Who performs the step. */
+  by?: string;
+  now?: Date;
+}
+
+/**
+ * Check whether a manual review still needs work
+ */
+export function isManualReviewOpen(review: ManualReviewItem): boolean {
+  return !CLOSED_REVIEW_STATUSES.includes(review.status);
+}
+
+/**
+ * Check whether an open manual review is past its suggested deadline
+ */
+export function isManualReviewOverdue(review: ManualReviewItem, now: Date = new Date()): boolean {
+  return isManualReviewOpen(review) && new Date(review.suggestedDeadline) < now;
+}
+
+/**
+ * Find a manual review by id or unambiguous id prefix
+ */
+export function findManualReview(trail: AuditTrail, reviewId: string): ManualReviewItem {
+  const exact = trail.manualReviews.find(r => r.id === reviewId);
+  if (exact) return exact;
+
+  const matches = trail.manualReviews.filter(r => r.id.startsWith(reviewId));
+  if (matches.length === 0) {
+    throw new Error(`No manual review with id ${reviewId} in the audit trail`);
+  }
+  if (matches.length > 1) {
+    throw new Error(`Review id ${reviewId} is ambiguous (${matches.length} matches); use more characters`);
+  }
+  return matches[0];
+}
+
+/**
+ * Apply a workflow step to a manual review. Resolved and accepted-risk items
+ * are closed and cannot change; closing one requires a note.
+ */
+export function applyManualReviewAction(
+  trail: AuditTrail,
+  reviewId: string,
+  action: ManualReviewAction,
+  update: ManualReviewUpdate = {}
+): ManualReviewItem {
+  const review = findManualReview(trail, reviewId);
+  if (!isManualReviewOpen(review)) {
+    throw new Error(`Review ${review.id.slice(0, 8)} is already closed (${review.status.replace(/_/g, ' ')})`);
+  }
+
+  const now = (update.now ?? new Date()).toISOString();
+  const note = update.note?.trim();
+
+  switch (action) {
+    case 'assign': {
+      const assignee = update.assignee?.trim();
+      if (!assignee) throw new Error('An assignee is required');
+      review.assignedTo = assignee;
+      if (review.status === 'pending_review') review.status = 'assigned';
+      break;
+    }
+    case 'start':
+      review.status = 'in_progress';
+      if (!review.assignedTo && update.by) review.assignedTo = update.by;
+      break;
+    case 'resolve':
+    case 'accept-risk':
+      if (!note) {
+        throw new Error(action === 'resolve'
+          ? 'A resolution note is required to resolve a review'
+          : 'A note explaining the accepted risk is required');
+      }
+      review.status = action === 'resolve' ? 'resolved' : 'accepted_risk';
+      review.resolution = note;
+      review.resolvedBy = update.by;
+      review.resolvedAt = now;
+      break;
+  }
+
+  if (note && (action === 'assign' || action === 'start')) review.notes = note;
+  review.updatedAt = now;
+  recordReviewEvent(trail, review, action, update.by);
+  return review;
+}
+
+/**
+ * Resolve open manual reviews whose finding the latest scan no longer
+ * reports. Findings are matched by fingerprint, so moved code keeps its
+ * review open; reviews recorded before fingerprints match by rule id
+ * (without its line number) and file. Returns the reviews resolved.
+ */
+export function reconcileManualReviews(
+  trail: AuditTrail,
+  findings: Finding[],
+  now: Date = new Date()
+): ManualReviewItem[] {
+  const isReported = findingMatcher(findings);
+  const resolved: ManualReviewItem[] = [];
+
+  for (const review of trail.manualReviews) {
+    if (!isManualReviewOpen(review) || isReported(review.finding)) continue;
+    review.status = 'resolved';
+    review.resolution = 'Finding no longer reported by the latest scan';
+    review.resolvedBy = 'vlayer';
+    review.resolvedAt = now.toISOString();
+    review.updatedAt = review.resolvedAt;
+    recordReviewEvent(trail, review, 'auto-resolve', 'vlayer');
+    resolved.push(review);
+  }
+
+  return resolved;
+}
+
 /**
  * Get summary statistics from audit trail
  */
@@ -179,13 +334,12 @@ export function getAuditSummary(trail: AuditTrail) {
     return acc;
   }, {} as Record<string, number>);
 
-  const overdueReviews = trail.manualReviews.filter(
-    r => new Date(r.suggestedDeadline) < new Date() && r.status === 'pending_review'
-  );
+  const overdueReviews = trail.manualReviews.filter(r => isManualReviewOverdue(r));
 
   return {
     totalFindings: trail.totalFindings,
     autoFixed: trail.autoFixedCount,
+    rolledBack: trail.rollbacks?.length ?? 0,
     pendingManualReview: trail.manualReviewCount,
     reviewsByStatus,
     reviewsBySeverity,
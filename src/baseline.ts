@@ -1,15 +1,31 @@
 import { readFile, writeFile } from 'fs/promises';
 import { createHash } from 'crypto';
-import type { Finding } from './types.js';
+import type { BaselineSummary, Finding } from './types.js';
+import { computeFingerprint, stableRuleId } from './fingerprint.js';
+import { isPastExpiry } from './utils/expiry.js';
 
 export interface BaselineEntry {
-  hash: string;
+  /** Stable fingerprint of the finding (see `src/fingerprint.ts`). */
+  fingerprint?: string;
+  /** Location hash of version 1.0 baselines, kept until the entry is migrated. */
+  hash?: string;
   id: string;
   file: string;
   line?: number;
   title: string;
   severity: string;
   category: string;
+  /** Why the finding was accepted (`vlayer baseline update --reason`). */
+  reason?: string;
+  addedAt?: string;
+  /** After this date the finding is reported again (ISO 8601). */
+  expiresAt?: string;
+}
+
+/** Fields recorded on entries added by `vlayer baseline` and `baseline update`. */
+export interface BaselineEntryDetails {
+  reason?: string;
+  expiresAt?: string;
 }
 
 export interface Baseline {
@@ -18,12 +34,21 @@ export interface Baseline {
   findings: BaselineEntry[];
 }
 
+export interface BaselineMigration {
+  baseline: Baseline;
+  /** Entries given a fingerprint. */
+  migrated: number;
+  /** Entries no current finding matched; they keep their legacy hash. */
+  unmatched: number;
+}
+
+export const BASELINE_VERSION = '2.0';
+
 /**
- * Generate a stable hash for a finding
+ * Location hash used by version 1.0 baselines. It changes whenever the
+ * finding's line moves, so it is only used to migrate old entries.
  */
 export function generateFindingHash(finding: Finding): string {
-  // Use file path, line number, finding ID, and title to create a stable hash
-  // This allows the same issue at the same location to be matched
   const key = `${finding.file}:${finding.line || 0}:${finding.id}:${finding.title}`;
   return createHash('sha256').update(key).digest('hex').substring(0, 16);
 }
@@ -31,9 +56,9 @@ export function generateFindingHash(finding: Finding): string {
 /**
  * Create a baseline entry from a finding
  */
-export function createBaselineEntry(finding: Finding): BaselineEntry {
-  return {
-    hash: generateFindingHash(finding),
+export function createBaselineEntry(finding: Finding, details: BaselineEntryDetails = {}): BaselineEntry {
+  const entry: BaselineEntry = {
+    fingerprint: finding.fingerprint ?? computeFingerprint(finding),
     id: finding.id,
     file: finding.file,
     line: finding.line,
@@ -41,6 +66,12 @@ export function createBaselineEntry(finding: Finding): BaselineEntry {
     severity: finding.severity,
     category: finding.category,
   };
+  if (details.reason) {
+    entry.reason = details.reason;
+    entry.addedAt = new Date().toISOString();
+  }
+  if (details.expiresAt) entry.expiresAt = details.expiresAt;
+  return entry;
 }
 
 /**
@@ -59,34 +90,193 @@ export async function loadBaseline(path: string): Promise<Baseline | null> {
 /**
  * Save baseline to file
  */
-export async function saveBaseline(path: string, findings: Finding[]): Promise<void> {
+export async function saveBaseline(path: string, findings: Finding[], details: BaselineEntryDetails = {}): Promise<void> {
   const baseline: Baseline = {
-    version: '1.0',
+    version: BASELINE_VERSION,
     createdAt: new Date().toISOString(),
-    findings: findings.map(createBaselineEntry),
+    findings: findings.map(finding => createBaselineEntry(finding, details)),
   };
 
   await writeFile(path, JSON.stringify(baseline, null, 2), 'utf-8');
 }
 
+/**
+ * Add findings to a baseline file, creating it if needed. Findings already in
+ * the baseline, expired or not, are skipped. Returns the number of entries added.
+ */
+export async function addToBaseline(
+  path: string,
+  findings: Finding[],
+  details: BaselineEntryDetails = {}
+): Promise<number> {
+  const baseline: Baseline = await loadBaseline(path) ?? {
+    version: BASELINE_VERSION,
+    createdAt: new Date().toISOString(),
+    findings: [],
+  };
+
+  const known = new Set<string>();
+  const added = findings
+    .filter(finding => !isInBaseline(finding, baseline))
+    .map(finding => createBaselineEntry(finding, details))
+    .filter(entry => {
+      if (known.has(entry.fingerprint!)) return false;
+      known.add(entry.fingerprint!);
+      return true;
+    });
+
+  if (added.length > 0) {
+    baseline.findings.push(...added);
+    await writeBaseline(path, baseline);
+  }
+  return added.length;
+}
+
 /**
  * Check if a finding exists in the baseline
  */
 export function isInBaseline(finding: Finding, baseline: Baseline): boolean {
-  const hash = generateFindingHash(finding);
-  return baseline.findings.some(entry => entry.hash === hash);
+  return baseline.findings.some(entry => entryMatches(entry, finding));
+}
+
+function entryMatches(entry: BaselineEntry, finding: Finding): boolean {
+  return entry.fingerprint
+    ? entry.fingerprint === (finding.fingerprint ?? computeFingerprint(finding))
+    : entry.hash === generateFindingHash(finding);
+}
+
+/**
+ * Whether an entry's `expiresAt` has passed, so its finding is reported
+ * again. A date-only `expiresAt` lasts through the end of that day (UTC).
+ */
+export function isBaselineEntryExpired(entry: BaselineEntry, now = new Date()): boolean {
+  return entry.expiresAt ? isPastExpiry(entry.expiresAt, now) : false;
+}
+
+/**
+ * Entries no current finding matches: the issue was fixed or its code
+ * removed. `inScope` limits the check to entries the scan could have
+ * reported again, e.g. those of the scanned categories.
+ */
+export function findStaleEntries(
+  baseline: Baseline,
+  findings: Finding[],
+  inScope: (entry: BaselineEntry) => boolean = () => true
+): BaselineEntry[] {
+  const fingerprints = new Set(findings.map(f => f.fingerprint ?? computeFingerprint(f)));
+  const hashes = new Set(findings.map(generateFindingHash));
+  return baseline.findings.filter(entry =>
+    inScope(entry) && !(entry.fingerprint ? fingerprints.has(entry.fingerprint) : hashes.has(entry.hash!))
+  );
+}
+
+/**
+ * Drop stale entries from a baseline, and with `expired` also the entries
+ * whose expiry date has passed.
+ */
+export function pruneBaseline(
+  baseline: Baseline,
+  findings: Finding[],
+  options: { expired?: boolean; inScope?: (entry: BaselineEntry) => boolean; now?: Date } = {}
+): { baseline: Baseline; removed: BaselineEntry[] } {
+  const stale = new Set(findStaleEntries(baseline, findings, options.inScope));
+  const removed = baseline.findings.filter(entry =>
+    stale.has(entry) || (options.expired === true && isBaselineEntryExpired(entry, options.now))
+  );
+  return {
+    baseline: { ...baseline, findings: baseline.findings.filter(entry => !removed.includes(entry)) },
+    removed,
+  };
+}
+
+/** Entry counts reported with a scan that used a baseline. */
+export function summarizeBaseline(
+  baseline: Baseline,
+  findings: Finding[],
+  inScope?: (entry: BaselineEntry) => boolean,
+  now = new Date()
+): BaselineSummary {
+  return {
+    entries: baseline.findings.length,
+    stale: findStaleEntries(baseline, findings, inScope).length,
+    expired: baseline.findings.filter(entry => isBaselineEntryExpired(entry, now)).length,
+  };
+}
+
+/** Whether a baseline still has entries from before fingerprints. */
+export function needsMigration(baseline: Baseline): boolean {
+  return baseline.findings.some(entry => !entry.fingerprint);
+}
+
+/**
+ * Give version 1.0 entries the fingerprint of the finding they stand for. An
+ * entry matches the finding with its legacy hash; failing that (the code has
+ * moved since the baseline was written), the finding of the same rule, file
+ * and title nearest to its recorded line. Each finding is claimed once.
+ */
+export function migrateBaseline(baseline: Baseline, findings: Finding[]): BaselineMigration {
+  const claimed = new Set<string>(
+    baseline.findings.flatMap(entry => (entry.fingerprint ? [entry.fingerprint] : []))
+  );
+  const open = (): Finding[] => findings.filter(f => f.fingerprint && !claimed.has(f.fingerprint));
+  const matches = new Map<BaselineEntry, Finding>();
+  const claim = (entry: BaselineEntry, finding: Finding | undefined): void => {
+    if (!finding) return;
+    matches.set(entry, finding);
+    claimed.add(finding.fingerprint!);
+  };
+
+  const legacy = baseline.findings.filter(entry => !entry.fingerprint);
+  // Entries whose code has not moved first, so they keep their own finding
+  for (const entry of legacy) {
+    claim(entry, open().find(f => generateFindingHash(f) === entry.hash));
+  }
+  for (const entry of legacy.filter(e => !matches.has(e))) {
+    const ruleId = stableRuleId(entry);
+    const distance = (f: Finding): number => Math.abs((f.line ?? 0) - (entry.line ?? 0));
+    claim(entry, open()
+      .filter(f => f.file === entry.file && f.title === entry.title && stableRuleId(f) === ruleId)
+      .sort((a, b) => distance(a) - distance(b))[0]);
+  }
+
+  const entries = baseline.findings.map(entry => {
+    const match = matches.get(entry);
+    if (!match) return entry;
+    return {
+      fingerprint: match.fingerprint,
+      id: match.id,
+      file: entry.file,
+      line: match.line,
+      title: entry.title,
+      severity: entry.severity,
+      category: entry.category,
+    };
+  });
+
+  return {
+    baseline: { ...baseline, version: BASELINE_VERSION, findings: entries },
+    migrated: matches.size,
+    unmatched: legacy.length - matches.size,
+  };
+}
+
+/** Write a baseline loaded (and possibly migrated) earlier back to its file. */
+export async function writeBaseline(path: string, baseline: Baseline): Promise<void> {
+  await writeFile(path, JSON.stringify(baseline, null, 2), 'utf-8');
 }
 
 /**
- * Apply baseline to findings
+ * Apply baseline to findings. Findings whose entry has expired are reported
+ * again.
  */
-export function applyBaseline(findings: Finding[], baseline: Baseline | null): Finding[] {
+export function applyBaseline(findings: Finding[], baseline: Baseline | null, now = new Date()): Finding[] {
   if (!baseline) {
     return findings;
   }
 
+  const active = baseline.findings.filter(entry => !isBaselineEntryExpired(entry, now));
   return findings.map(finding => {
-    if (isInBaseline(finding, baseline)) {
+    if (active.some(entry => entryMatches(entry, finding))) {
       return {
         ...finding,
         isBaseline: true,
@@ -3,22 +3,57 @@
 import { Command } from 'commander';
 import chalk from 'chalk';
 import ora from 'ora';
-import { resolve } from 'path';
+import { isAbsolute, relative, resolve } from 'path';
 import { scan } from './scan.js';
+import { defaultJobCount } from './engine/index.js';
 import { generateReport } from './reporters/index.js';
 import { applyFixes } from './fixer/index.js';
 import { generateFixReport } from './reporters/fix-report.js';
-import { loadAuditTrail, getAuditSummary } from './audit/index.js';
+import {
+  loadAuditTrail,
+  saveAuditTrail,
+  getAuditSummary,
+  applyManualReviewAction,
+  findManualReview,
+  isManualReviewOpen,
+  isManualReviewOverdue,
+  reconcileManualReviews,
+  type ManualReviewAction,
+} from './audit/index.js';
 import { generateAuditReport, generateTextAuditReport } from './reporters/audit-report.js';
 import { loadCustomRules, validateRulesFile } from './rules/index.js';
 import { RULE_CATALOG, getCategoryCounts } from './rules/catalog.js';
+import { FRAMEWORK_NAMES, buildFrameworkReport, parseCrosswalkFramework, type CrosswalkFramework } from './rules/crosswalk.js';
+import { getAssessmentScope } from './rules/controls.js';
+import { parseProfile } from './profiles.js';
 import { formatScore, getScoreColor } from './compliance-score.js';
 import { generateAuditorReport } from './reporters/auditor-report.js';
 import { generateScanPdf } from './reporters/scan-pdf-report.js';
 import { loadConfig } from './config.js';
+import {
+  ACKNOWLEDGMENTS_FILE,
+  findExpiringAcknowledgments,
+  getAcknowledgmentsPath,
+  loadAcknowledgments,
+  missingApprovers,
+} from './acknowledgments.js';
 import { resolveBranding } from './reporters/branding.js';
+import { existsSync } from 'fs';
 import { writeFile } from 'fs/promises';
-import type { ComplianceCategory, ReportOptions, AuditReportOptions, ResolvedBranding } from './types.js';
+import { getGitIdentity, getGitPrefix } from './utils/git-diff.js';
+import { loadCodeowners } from './utils/codeowners.js';
+import { isPastExpiry } from './utils/expiry.js';
+import type {
+  AuditTrail,
+  ComplianceCategory,
+  ComplianceProfileId,
+  Finding,
+  ReportOptions,
+  AuditReportOptions,
+  ResolvedBranding,
+  PolicyEvaluation,
+  Severity,
+} from './types.js';
 
 /**
  * Build branding from CLI flags (precedence) + config, and print any warnings
@@ -50,6 +85,48 @@ program
   .description('HIPAA compliance scanner for healthcare applications')
   .version('0.2.0');
 
+/** Split a comma-separated id list option (`--scanners a,b`). */
+function parseIdList(value: string | undefined): string[] | undefined {
+  if (!value) return undefined;
+  return value.split(',').map(id => id.trim()).filter(id => id.length > 0);
+}
+
+/** Resolve `--framework`, exiting on an unknown framework. */
+function resolveFrameworkOption(value: string | undefined): CrosswalkFramework | undefined {
+  if (!value) return undefined;
+  const framework = parseCrosswalkFramework(value);
+  if (!framework) {
+    console.error(chalk.red(`Invalid --framework "${value}". Use "nist", "hitrust" or "soc2".`));
+    process.exit(1);
+  }
+  return framework;
+}
+
+/** Validate `--expires`, exiting unless it is a YYYY-MM-DD date in the future. */
+function resolveExpiresOption(value: string | undefined): string | undefined {
+  if (!value) return undefined;
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value) || isNaN(new Date(value).getTime())) {
+    console.error(chalk.red(`Invalid --expires "${value}". Use the YYYY-MM-DD format.`));
+    process.exit(1);
+  }
+  if (isPastExpiry(value)) {
+    console.error(chalk.red(`Invalid --expires "${value}". The expiry date is already past.`));
+    process.exit(1);
+  }
+  return value;
+}
+
+/** Resolve `--profile`, exiting on an unknown profile. */
+function resolveProfileOption(value: string | undefined): ComplianceProfileId | undefined {
+  if (!value) return undefined;
+  const profile = parseProfile(value);
+  if (!profile) {
+    console.error(chalk.red(`Invalid --profile "${value}". Use "hipaa", "part2", "cmia" or "wa-mhmda".`));
+    process.exit(1);
+  }
+  return profile;
+}
+
 program
   .command('scan')
   .description('Scan a repository for HIPAA compliance issues')
@@ -57,20 +134,51 @@ program
   .option('-c, --categories <categories...>', 'Compliance categories to check')
   .option('-e, --exclude <patterns>', 'Glob patterns to exclude (comma-separated or space-separated)')
   .option('-o, --output <path>', 'Output file path for the report')
-  .option('-f, --format <format>', 'Report format: json, html, markdown, pdf', 'json')
+  .option('-f, --format <format>', 'Report format: json, html, markdown, pdf, sarif', 'json')
   .option('--config <path>', 'Path to configuration file')
   .option('--rules <path>', 'Path to custom rules YAML file')
   .option('--baseline <path>', 'Path to baseline file for comparison')
   .option('--min-confidence <level>', 'Minimum confidence level (high, medium, low)', 'low')
   .option('--fix', 'Automatically fix detected issues where possible')
+  .option('--dry-run', 'With --fix: print the fixes as a colored diff instead of writing them')
+  .option('--fix-output <file>', 'With --fix: write the fixes to a git-apply patch instead of the working tree')
   .option('--no-ai', 'Disable AI-powered triage and analysis')
   .option('--audit', 'Run npm audit and include dependency vulnerabilities in report')
   .option('--verbose', 'Show all individual findings instead of grouped summary')
   .option('--brand-name <name>', 'White-label: name shown as report author (html/pdf reports)')
   .option('--brand-logo <path>', 'White-label: logo image (png/jpg/svg) for cover and header')
   .option('--include-own-artifacts', "Also scan vlayer's own outputs (reports, baseline, samples/) — excluded by default")
+  .option('--since <ref>', 'Only scan files changed since branching from a git ref (e.g. origin/main)')
+  .option('--diff', 'Only scan uncommitted changes (shorthand for --since HEAD)')
+  .option('--diff-scope <scope>', 'With --since/--diff: report findings in changed files (file) or on changed lines (line)', 'file')
+  .option('--no-cache', 'Rescan every file instead of reusing cached results for unchanged files')
+  .option('-j, --jobs <n>', 'Worker threads to scan with, or "auto" for one per CPU', '1')
+  .option('--scanners <ids>', 'Run only these scanners (comma-separated ids, see "vlayer scanners list")')
+  .option('--skip-scanners <ids>', 'Do not run these scanners (comma-separated ids)')
+  .option('--policy <file>', 'Policy file (JSON or YAML) with failure thresholds; overrides the policy block in config')
+  .option('--framework <framework>', 'Regroup findings and scores by framework controls: nist, hitrust, soc2')
+  .option('--profile <profile>', 'Compliance profile: hipaa (default), part2, cmia, wa-mhmda')
+  .option('--report-unused-suppressions', 'List vlayer-ignore directives that no longer match any finding')
   .action(async (path: string, options) => {
-    const spinner = ora('Scanning repository...').start();
+    const framework = resolveFrameworkOption(options.framework);
+    const profile = resolveProfileOption(options.profile);
+    const diffScope = options.diffScope as string;
+    if (diffScope !== 'file' && diffScope !== 'line') {
+      console.error(chalk.red(`Invalid --diff-scope "${diffScope}". Use "file" or "line".`));
+      process.exit(1);
+    }
+    const jobs = options.jobs === 'auto' ? defaultJobCount() : Number(options.jobs);
+    if (!Number.isInteger(jobs) || jobs < 1) {
+      console.error(chalk.red(`Invalid --jobs "${options.jobs}". Use a positive integer or "auto".`));
+      process.exit(1);
+    }
+    if ((options.dryRun || options.fixOutput) && !options.fix) {
+      console.error(chalk.red('--dry-run and --fix-output only apply together with --fix.'));
+      process.exit(1);
+    }
+    const since: string | undefined = options.since ?? (options.diff ? 'HEAD' : undefined);
+
+    const spinner = ora(since ? `Scanning changes since ${since}...` : 'Scanning repository...').start();
     const absolutePath = resolve(path);
 
     try {
@@ -109,6 +217,14 @@ program
         minConfidence: options.minConfidence as 'high' | 'medium' | 'low' | undefined,
         includeOwnArtifacts: options.includeOwnArtifacts,
         enableAI: options.ai !== false,
+        since,
+        diffScope,
+        cache: options.cache,
+        jobs,
+        scanners: parseIdList(options.scanners),
+        skipScanners: parseIdList(options.skipScanners),
+        profile,
+        reportUnusedSuppressions: options.reportUnusedSuppressions,
       });
 
       spinner.succeed(`Scan complete. Found ${result.groupedFindings.length} unique issues (${result.rawFindingsCount} total occurrences).`);
@@ -131,33 +247,92 @@ program
 
       // Apply fixes if --fix flag is provided
       if (options.fix) {
-        const fixSpinner = ora('Applying automatic fixes...').start();
+        const preview = options.dryRun || options.fixOutput;
+        const fixSpinner = ora(preview ? 'Preparing automatic fixes...' : 'Applying automatic fixes...').start();
+        const patchFile = options.fixOutput ? resolve(options.fixOutput) : undefined;
+        const { fixes: fixConfig } = await loadConfig(absolutePath, options.config);
         const fixReport = await applyFixes(
           result.findings,
           absolutePath,
           result.scannedFiles,
-          result.scanDuration
+          result.scanDuration,
+          { dryRun: options.dryRun, patchFile, redactionHelper: fixConfig?.redactionHelper }
         );
-        fixSpinner.succeed(`Applied ${fixReport.fixedCount} automatic fixes.`);
-        console.log(generateFixReport(fixReport));
+
+        if (options.dryRun) {
+          fixSpinner.succeed(`${fixReport.fixedCount} automatic fix(es) in ${fixReport.files.length} file(s) (dry run, nothing written).`);
+          const { createFileDiff, colorizeDiff } = await import('./fixer/patch.js');
+          for (const file of fixReport.files) {
+            console.log('\n' + colorizeDiff(createFileDiff(file, absolutePath)));
+          }
+        } else {
+          fixSpinner.succeed(patchFile
+            ? `Wrote ${fixReport.fixedCount} automatic fix(es) to ${patchFile}.`
+            : `Applied ${fixReport.fixedCount} automatic fixes.`);
+          console.log(generateFixReport(fixReport));
+        }
+
+        if (patchFile) {
+          console.log(chalk.cyan('\nApply with: ') + chalk.white(`git apply ${patchFile}`) + chalk.gray(' (from the repository root, or the scanned directory outside git)'));
+        }
 
         // Show audit trail info
-        console.log(chalk.cyan('\nAudit Trail saved to: ') + chalk.white(`${absolutePath}/.vlayer/audit-trail.json`));
-        console.log(chalk.cyan('Evidence hash: ') + chalk.white(fixReport.auditTrail.reportHash || 'N/A'));
-        console.log(chalk.cyan('Manual reviews pending: ') + chalk.yellow(fixReport.auditTrail.manualReviewCount.toString()));
+        if (!preview) {
+          console.log(chalk.cyan('\nAudit Trail saved to: ') + chalk.white(`${absolutePath}/.vlayer/audit-trail.json`));
+          console.log(chalk.cyan('Evidence hash: ') + chalk.white(fixReport.auditTrail.reportHash || 'N/A'));
+          const pendingReviews = fixReport.auditTrail.manualReviews.filter(isManualReviewOpen).length;
+          console.log(chalk.cyan('Manual reviews pending: ') + chalk.yellow(pendingReviews.toString()));
+
+          if (pendingReviews > 0) {
+            console.log(chalk.yellow('\nRun `vlayer audit <path> --generate-report` to generate PDF audit report.'));
+          }
+        }
+      }
 
-        if (fixReport.auditTrail.manualReviewCount > 0) {
-          console.log(chalk.yellow('\nRun `vlayer audit <path> --generate-report` to generate PDF audit report.'));
+      // Close manual reviews whose finding is gone. Only a full scan can tell:
+      // diff, category, scanner or exclude-limited scans, and scans of a
+      // directory below the repository root, do not see every finding
+      const fullScan = !result.diff && !categories && !options.scanners && !options.skipScanners
+        && !excludePatterns?.length && !(await getGitPrefix(absolutePath));
+      if (!options.fix && fullScan) {
+        const trail = await loadAuditTrail(absolutePath);
+        const resolvedReviews = trail ? reconcileManualReviews(trail, result.findings) : [];
+        if (trail && resolvedReviews.length > 0) {
+          await saveAuditTrail(trail, absolutePath);
+          console.log(chalk.green(`Auto-resolved ${resolvedReviews.length} manual review item(s) no longer reported by this scan.`));
         }
       }
 
       // Get previous scan history and create comparison
-      const { getMostRecentScan, compareScan, saveScanHistory } = await import('./utils/scan-history.js');
+      const { getMostRecentScan, getAllScans, compareScan, saveScanHistory } = await import('./utils/scan-history.js');
       const previousScan = await getMostRecentScan(absolutePath);
-      const comparison = result.complianceScore
+      const comparison = result.complianceScore && !result.diff
         ? compareScan(result.complianceScore.score, result.findings, previousScan)
         : null;
 
+      // Evaluate the policy gate: --policy takes precedence over the config block
+      let policy: PolicyEvaluation | undefined;
+      const config = await loadConfig(absolutePath, options.config);
+      if (options.policy || config.policy) {
+        const { evaluatePolicy, loadPolicyFile, validatePolicy } = await import('./policy.js');
+        let policyConfig = config.policy;
+        if (options.policy) {
+          policyConfig = await loadPolicyFile(resolve(options.policy));
+        } else {
+          const errors = validatePolicy(config.policy);
+          if (errors.length > 0) {
+            throw new Error(`Invalid policy in config:\n  ${errors.join('\n  ')}`);
+          }
+        }
+        policy = evaluatePolicy(policyConfig!, {
+          findings: result.findings,
+          complianceScore: result.complianceScore,
+          comparison,
+          history: await getAllScans(absolutePath),
+          rootPath: absolutePath,
+        }, options.policy ?? 'config');
+      }
+
       // Branding only affects the rendered html/pdf reports.
       const branding = options.format === 'html' || options.format === 'pdf'
         ? await buildBranding(path, options.config, options)
@@ -169,12 +344,17 @@ program
         vulnerabilities,
         scanComparison: comparison,
         branding,
+        policy,
+        framework,
       };
 
       await generateReport(result, path, reportOptions);
 
-      // Save current scan to history
-      if (result.complianceScore) {
+      // Save current scan to history. Diff scans cover a subset of the tree and
+      // would distort the score trend, so they are not recorded. Neither are
+      // scans failing the policy: re-running one would make its new findings
+      // look old and let the gate pass.
+      if (result.complianceScore && !result.diff && (!policy || policy.passed)) {
         await saveScanHistory(
           absolutePath,
           result.complianceScore.score,
@@ -188,7 +368,36 @@ program
       const grouped = result.groupedFindings;
 
       console.log('\n' + chalk.bold(`Found ${chalk.white(String(grouped.length))} types of HIPAA violations across ${chalk.white(String(result.rawFindingsCount))} locations in ${chalk.white(String(totalFiles))} files`));
-      console.log(`  Files scanned: ${result.scannedFiles}  |  Duration: ${result.scanDuration}ms\n`);
+      const cacheNote = result.cache && result.cache.hits > 0 ? `  |  Cached: ${result.cache.hits}` : '';
+      console.log(`  Files scanned: ${result.scannedFiles}  |  Duration: ${result.scanDuration}ms${cacheNote}\n`);
+      if (result.profile) {
+        console.log(chalk.cyan(`  Profile: ${result.profile.name} rules and references on top of HIPAA\n`));
+      }
+      if (result.baseline) {
+        const { entries, stale, expired } = result.baseline;
+        const line = `  Baseline: ${entries} entries, ${stale} stale, ${expired} expired`;
+        console.log(stale > 0 || expired > 0
+          ? chalk.yellow(`${line} (vlayer baseline prune removes stale entries; expired ones are reported again)\n`)
+          : chalk.gray(`${line}\n`));
+      }
+      if (result.unusedSuppressions) {
+        if (result.unusedSuppressions.length === 0) {
+          console.log(chalk.gray('  Unused suppressions: none\n'));
+        } else {
+          console.log(chalk.yellow(`  Unused suppressions: ${result.unusedSuppressions.length}`));
+          for (const unused of result.unusedSuppressions) {
+            console.log(chalk.yellow(`    ${relative(absolutePath, unused.file)}:${unused.line}  ${unused.comment}`));
+          }
+          console.log('');
+        }
+      }
+      if (result.diff) {
+        const scopeLabel = result.diff.scope === 'line' ? 'changed lines' : 'changed files';
+        console.log(chalk.cyan(`  Diff mode: ${scopeLabel} since ${result.diff.since} (${result.diff.changedFiles} file(s))`));
+        if (result.diff.skippedAggregateFindings > 0) {
+          console.log(chalk.gray(`  Skipped ${result.diff.skippedAggregateFindings} project-level finding(s) — run a full scan to evaluate them\n`));
+        }
+      }
 
       if (options.verbose) {
         // --verbose: show every individual finding
@@ -252,6 +461,24 @@ program
         }
       }
 
+      if (policy) {
+        const status = policy.passed ? chalk.green.bold('PASSED') : chalk.red.bold('FAILED');
+        console.log('\n' + chalk.bold(`Policy (${policy.source}): `) + status);
+        for (const clause of policy.clauses) {
+          const mark = clause.passed ? chalk.green('✓') : chalk.red('✗');
+          console.log(`  ${mark} ${clause.description} ${chalk.gray(`(actual: ${clause.actual})`)}`);
+          for (const detail of clause.details ?? []) {
+            console.log(chalk.gray(`      ${detail}`));
+          }
+        }
+
+        // With a policy, the policy alone decides the exit code
+        if (!policy.passed) {
+          process.exit(1);
+        }
+        return;
+      }
+
       // Exit with error code if new critical issues found (only if not fixing)
       const criticalCount = result.groupedFindings.filter(g => g.severity === 'critical').length;
       if (criticalCount > 0 && !options.fix) {
@@ -498,15 +725,22 @@ program
     }
   });
 
-program
+const baselineCommand = program
   .command('baseline')
-  .description('Generate a baseline file from current scan results')
+  .description('Generate and maintain the baseline of accepted findings');
+
+baselineCommand
+  .command('create', { isDefault: true })
+  .description('Generate a baseline file from current scan results (default)')
   .argument('[path]', 'Path to the repository to scan', '.')
   .option('-o, --output <path>', 'Output path for baseline file', '.vlayer-baseline.json')
   .option('-c, --categories <categories...>', 'Compliance categories to check')
   .option('-e, --exclude <patterns>', 'Glob patterns to exclude')
   .option('--config <path>', 'Path to configuration file')
+  .option('--reason <text>', 'Why the findings are accepted, recorded on each entry')
+  .option('--expires <date>', 'Report the findings again after this date (YYYY-MM-DD)')
   .action(async (path: string, options) => {
+    const expiresAt = resolveExpiresOption(options.expires);
     const spinner = ora('Generating baseline...').start();
 
     try {
@@ -541,7 +775,7 @@ program
 
       const { saveBaseline } = await import('./baseline.js');
       const outputPath = resolve(options.output);
-      await saveBaseline(outputPath, result.findings);
+      await saveBaseline(outputPath, result.findings, { reason: options.reason, expiresAt });
 
       spinner.succeed(`Baseline generated with ${result.findings.length} findings`);
       console.log(chalk.green(`\nBaseline saved to: ${outputPath}`));
@@ -553,6 +787,294 @@ program
     }
   });
 
+baselineCommand
+  .command('update')
+  .description('Add findings that are not in the baseline yet, keeping existing entries')
+  .argument('[path]', 'Path to the repository to scan', '.')
+  .requiredOption('--reason <text>', 'Why the new findings are accepted, recorded on each entry')
+  .option('--expires <date>', 'Report the added findings again after this date (YYYY-MM-DD)')
+  .option('--baseline <path>', 'Baseline file to update', '.vlayer-baseline.json')
+  .option('-c, --categories <categories...>', 'Compliance categories to check')
+  .option('--config <path>', 'Path to configuration file')
+  .action(async (path: string, options) => {
+    const expiresAt = resolveExpiresOption(options.expires);
+    if (!options.reason.trim()) {
+      console.error(chalk.red('A reason is required: --reason "<why these findings are accepted>"'));
+      process.exit(1);
+    }
+    const spinner = ora('Scanning repository...').start();
+
+    try {
+      const baselinePath = resolve(options.baseline);
+      const result = await scan({
+        path,
+        categories: options.categories as ComplianceCategory[] | undefined,
+        configFile: options.config,
+        baselineFile: existsSync(baselinePath) ? baselinePath : undefined,
+      });
+
+      // Suppressed and acknowledged findings are already accounted for
+      const open = result.findings.filter(f => !f.suppressed && !(f.acknowledged && !f.acknowledgment?.expired));
+      const { addToBaseline } = await import('./baseline.js');
+      const added = await addToBaseline(baselinePath, open, { reason: options.reason.trim(), expiresAt });
+
+      spinner.succeed(added > 0
+        ? `Added ${added} new finding(s) to ${baselinePath}`
+        : 'No new findings; the baseline is unchanged');
+      if (result.baseline && result.baseline.stale > 0) {
+        console.log(chalk.gray(`Stale entries: ${result.baseline.stale}. Run "vlayer baseline prune" to remove them.`));
+      }
+    } catch (error) {
+      spinner.fail('Baseline update failed');
+      console.error(chalk.red(error instanceof Error ? error.message : 'Unknown error'));
+      process.exit(1);
+    }
+  });
+
+baselineCommand
+  .command('prune')
+  .description('Remove baseline entries whose finding no longer exists')
+  .argument('[path]', 'Path to the repository to scan', '.')
+  .option('--baseline <path>', 'Baseline file to prune', '.vlayer-baseline.json')
+  .option('--expired', 'Also remove entries past their expiry date')
+  .option('--dry-run', 'List the entries that would be removed without changing the file')
+  .option('-c, --categories <categories...>', 'Compliance categories to check; entries of other categories are kept')
+  .option('--config <path>', 'Path to configuration file')
+  .action(async (path: string, options) => {
+    const absolutePath = resolve(path);
+    const baselinePath = resolve(options.baseline);
+    if (!existsSync(baselinePath)) {
+      console.error(chalk.red(`No baseline at ${baselinePath}`));
+      process.exit(1);
+    }
+    const spinner = ora('Scanning repository...').start();
+
+    try {
+      const result = await scan({
+        path,
+        categories: options.categories as ComplianceCategory[] | undefined,
+        configFile: options.config,
+        baselineFile: baselinePath,
+      });
+
+      // Read after the scan, which migrates version 1.0 baselines in place
+      const { loadBaseline, pruneBaseline, writeBaseline, isBaselineEntryExpired } = await import('./baseline.js');
+      const baseline = await loadBaseline(baselinePath);
+      if (!baseline) {
+        throw new Error(`Could not read the baseline at ${baselinePath}`);
+      }
+      const categories: string[] | undefined = options.categories ?? (await loadConfig(absolutePath, options.config)).categories;
+      const { baseline: pruned, removed } = pruneBaseline(baseline, result.findings, {
+        expired: options.expired === true,
+        inScope: categories ? entry => categories.includes(entry.category) : undefined,
+      });
+      spinner.stop();
+
+      if (removed.length === 0) {
+        console.log(chalk.green('✓ No stale entries; the baseline is unchanged.'));
+        return;
+      }
+
+      for (const entry of removed) {
+        const location = `${relative(absolutePath, entry.file) || entry.file}${entry.line ? `:${entry.line}` : ''}`;
+        const expired = isBaselineEntryExpired(entry) ? chalk.yellow(` (expired ${entry.expiresAt})`) : '';
+        console.log(`  ${chalk.gray('-')} ${entry.id} ${chalk.gray(location)}${expired}`);
+      }
+
+      if (options.dryRun) {
+        console.log(chalk.gray(`\n${removed.length} of ${baseline.findings.length} entries would be removed (dry run).`));
+        return;
+      }
+      await writeBaseline(baselinePath, pruned);
+      console.log(chalk.green(`\n✓ Removed ${removed.length} of ${baseline.findings.length} entries from ${baselinePath}`));
+    } catch (error) {
+      if (spinner.isSpinning) spinner.fail('Baseline prune failed');
+      console.error(chalk.red(error instanceof Error ? error.message : 'Unknown error'));
+      process.exit(1);
+    }
+  });
+
+program
+  .command('triage')
+  .description('Interactively acknowledge, suppress, fix or baseline open findings')
+  .argument('[path]', 'Path to the repository to scan', '.')
+  .option('-c, --categories <categories...>', 'Compliance categories to check')
+  .option('--config <path>', 'Path to configuration file')
+  .option('--acknowledgments <path>', 'Acknowledgments file to read and add to (default: <path>/.vlayer/acknowledgments.yaml)')
+  .option('--baseline <path>', 'Baseline file to read and add findings to', '.vlayer-baseline.json')
+  .option('--no-ai', 'Disable AI-powered triage and analysis')
+  .option('--scanners <ids>', 'Run only these scanners (comma-separated ids, see "vlayer scanners list")')
+  .option('--skip-scanners <ids>', 'Do not run these scanners (comma-separated ids)')
+  .action(async (path: string, options) => {
+    if (!process.stdin.isTTY) {
+      console.error(chalk.red('vlayer triage is interactive and needs a terminal.'));
+      process.exit(1);
+    }
+
+    const spinner = ora('Scanning repository...').start();
+    const absolutePath = resolve(path);
+
+    try {
+      const configPath = options.config ? resolve(options.config) : resolve(absolutePath, '.vlayerrc.json');
+      const acknowledgmentsPath = options.acknowledgments
+        ? resolve(options.acknowledgments)
+        : getAcknowledgmentsPath(absolutePath);
+      const baselinePath = resolve(options.baseline);
+      const result = await scan({
+        path,
+        categories: options.categories as ComplianceCategory[] | undefined,
+        configFile: configPath,
+        acknowledgmentsFile: acknowledgmentsPath,
+        baselineFile: baselinePath,
+        enableAI: options.ai !== false,
+        scanners: parseIdList(options.scanners),
+        skipScanners: parseIdList(options.skipScanners),
+      });
+      spinner.succeed(`Scan complete. Found ${result.rawFindingsCount} occurrences.`);
+
+      const { runTriage } = await import('./triage/index.js');
+      const config = await loadConfig(absolutePath, configPath);
+      const summary = await runTriage(result, { rootPath: absolutePath, acknowledgmentsPath, baselinePath, config });
+
+      console.log(chalk.bold('\nTriage summary'));
+      console.log(`  Acknowledged: ${summary.acknowledged}`);
+      console.log(`  Suppressed:   ${summary.suppressed}`);
+      console.log(`  Fixed:        ${summary.fixed}`);
+      console.log(`  Baselined:    ${summary.baselined}`);
+      console.log(`  Skipped:      ${summary.skipped}\n`);
+    } catch (error) {
+      if (spinner.isSpinning) spinner.fail('Triage failed');
+      console.error(chalk.red(error instanceof Error ? error.message : 'Unknown error'));
+      process.exit(1);
+    }
+  });
+
+// Acknowledgment subcommands
+const ackCommand = program
+  .command('ack')
+  .description('Review acknowledged findings');
+
+ackCommand
+  .command('list')
+  .description('List acknowledgments with their approvers and expiry')
+  .argument('[path]', 'Path to the project', '.')
+  .option('--acknowledgments <path>', 'Acknowledgments file (default: <path>/.vlayer/acknowledgments.yaml)')
+  .option('--expiring <period>', 'Only acknowledgments expiring within this period (e.g. 14d, 2w), expired ones included')
+  .option('--config <path>', 'Path to configuration file')
+  .option('-f, --format <type>', 'Output format: text or json', 'text')
+  .action(async (path: string, options) => {
+    try {
+      const absolutePath = resolve(path);
+      const filePath = options.acknowledgments ? resolve(options.acknowledgments) : getAcknowledgmentsPath(absolutePath);
+      const now = new Date();
+
+      let acknowledgments = await loadAcknowledgments(filePath);
+      if (options.expiring) {
+        const period = /^(\d+)([dw])$/.exec(options.expiring);
+        if (!period) {
+          console.error(chalk.red(`Invalid --expiring "${options.expiring}". Use a number of days or weeks, e.g. 14d or 2w.`));
+          process.exit(1);
+        }
+        const days = Number(period[1]) * (period[2] === 'w' ? 7 : 1);
+        acknowledgments = findExpiringAcknowledgments(acknowledgments, new Date(now.getTime() + days * 24 * 60 * 60 * 1000));
+      }
+
+      if (options.format === 'json') {
+        console.log(JSON.stringify(acknowledgments, null, 2));
+        return;
+      }
+
+      const config = await loadConfig(absolutePath, options.config);
+      const legacy = config.acknowledgedFindings ?? [];
+      if (acknowledgments.length === 0) {
+        console.log(chalk.gray(options.expiring ? `No acknowledgments expire within ${options.expiring}.` : `No acknowledgments in ${filePath}.`));
+      } else {
+        console.log(chalk.gray('  Expires     Acknowledged by       Approved by           Finding'));
+        console.log(chalk.gray('  ' + '─'.repeat(100)));
+        for (const ack of acknowledgments) {
+          const expired = ack.expiresAt ? isPastExpiry(ack.expiresAt, now) : false;
+          const expires = ack.expiresAt?.slice(0, 10) ?? '-';
+          const approvedBy = (ack.approvedBy?.join(', ') || '-').slice(0, 20).padEnd(20);
+          const rule = [ack.id, ack.severity, ack.category].filter(Boolean).join(' ');
+          console.log([
+            '  ' + (expired ? chalk.red(`${expires}!`.padEnd(10)) : expires.padEnd(10)),
+            ack.acknowledgedBy.slice(0, 20).padEnd(20),
+            ack.approvedBy?.length ? approvedBy : chalk.yellow(approvedBy),
+            `${rule ? `${rule} ` : ''}${ack.pattern}${ack.fingerprint ? ` (${ack.fingerprint})` : ''}`,
+          ].join('  '));
+          console.log(chalk.gray(`              ${ack.reason}`));
+        }
+        const expiredCount = acknowledgments.filter(a => a.expiresAt && isPastExpiry(a.expiresAt, now)).length;
+        console.log(chalk.gray('  ' + '─'.repeat(100)));
+        console.log(`  ${acknowledgments.length} acknowledgment(s)` + (expiredCount > 0 ? chalk.red(`, ${expiredCount} expired (!)`) : ''));
+      }
+      if (legacy.length > 0) {
+        console.log(chalk.yellow(`  ${legacy.length} more in the config file's acknowledgedFindings (deprecated); move them to ${ACKNOWLEDGMENTS_FILE}`));
+      }
+
+      // Acknowledgments nobody is allowed to approve stay open forever
+      const codeowners = await loadCodeowners(absolutePath);
+      const severities: Severity[] = ['critical', 'high', 'medium', 'low', 'info'];
+      const unapprovable = new Set(acknowledgments.flatMap(ack => {
+        const file = ack.pattern.replace(/^\*\*\//, '');
+        return (ack.severity ? [ack.severity] : severities).map(severity =>
+          missingApprovers(severity, config, codeowners, /[*?[\]{}]/.test(file) ? undefined : file)
+        );
+      }));
+      for (const reason of unapprovable) {
+        if (reason) console.log(chalk.yellow(`  Warning: ${reason}`));
+      }
+    } catch (error) {
+      console.error(chalk.red(error instanceof Error ? error.message : 'Unknown error'));
+      process.exit(1);
+    }
+  });
+
+// Fix subcommands
+const fixCommand = program
+  .command('fix')
+  .description('Manage automatic fixes');
+
+fixCommand
+  .command('rollback')
+  .description('Undo fixes recorded in the audit trail, restoring the original lines')
+  .argument('[path]', 'Path to the project', '.')
+  .option('--evidence <id>', 'Roll back the fix with this evidence id (or unambiguous prefix)')
+  .option('--all', 'Roll back every fix in the audit trail, latest first')
+  .action(async (path: string, options) => {
+    if (!options.evidence === !options.all) {
+      console.error(chalk.red('Specify exactly one of --evidence <id> or --all.'));
+      process.exit(1);
+    }
+
+    try {
+      const { rollbackFixes } = await import('./fixer/rollback.js');
+      const projectPath = resolve(path);
+      const results = await rollbackFixes(projectPath, { evidenceId: options.evidence, all: options.all });
+
+      if (results.length === 0) {
+        console.log(chalk.gray('No fixes to roll back.'));
+        return;
+      }
+
+      for (const { evidence, rolledBack, reason } of results) {
+        const location = `${relative(projectPath, evidence.filePath)}:${evidence.before.lineNumber}`;
+        if (rolledBack) {
+          console.log(chalk.green(`✓ Restored ${location}`) + chalk.gray(` (${evidence.id.slice(0, 8)})`));
+        } else {
+          console.log(chalk.red(`✗ Refused ${location}`) + chalk.gray(` (${evidence.id.slice(0, 8)}): ${reason}`));
+        }
+      }
+
+      const refused = results.filter(r => !r.rolledBack).length;
+      console.log(chalk.bold(`\n${results.length - refused} rolled back, ${refused} refused.`));
+      if (refused > 0) process.exit(1);
+    } catch (error) {
+      console.error(chalk.red(error instanceof Error ? error.message : 'Unknown error'));
+      process.exit(1);
+    }
+  });
+
 program
   .command('watch')
   .description('Watch for file changes and scan automatically')
@@ -561,6 +1083,7 @@ program
   .option('-e, --exclude <patterns>', 'Glob patterns to exclude (comma-separated)')
   .option('--config <path>', 'Path to configuration file')
   .option('--min-confidence <level>', 'Minimum confidence level (low, medium, high)', 'low')
+  .option('--no-cache', 'Rescan every file on each change instead of only changed files')
   .action(async (path: string, options) => {
     const { watch: watchScan } = await import('chokidar');
     const absolutePath = resolve(path);
@@ -608,6 +1131,7 @@ program
           exclude: excludePatterns,
           configFile: options.config,
           minConfidence: options.minConfidence as any,
+          cache: options.cache,
         });
 
         // Filter active findings (not baseline, not suppressed, not acknowledged)
@@ -701,6 +1225,8 @@ program
       '**/build/**',
       '**/.git/**',
       '**/coverage/**',
+      // vlayer's own state (scan cache, audit trail) — writing it must not retrigger a scan
+      '**/.vlayer/**',
     ];
 
     const excludePatterns = options.exclude
@@ -842,12 +1368,16 @@ program
   .option('--brand-name <name>', 'White-label: name shown as report author')
   .option('--brand-logo <path>', 'White-label: logo image (png/jpg/svg) for cover and header')
   .option('--include-own-artifacts', "Also scan vlayer's own outputs (reports, baseline, samples/) — excluded by default")
+  .option('--framework <framework>', 'Regroup findings and scores by framework controls: nist, hitrust, soc2')
+  .option('--profile <profile>', 'Compliance profile: hipaa (default), part2, cmia, wa-mhmda')
   .action(async (path: string, options) => {
     const format = (options.format || 'html').toLowerCase();
     if (format !== 'html' && format !== 'pdf') {
       console.error(chalk.red(`Invalid format "${options.format}". Use "html" or "pdf".`));
       process.exit(1);
     }
+    const framework = resolveFrameworkOption(options.framework);
+    const profile = resolveProfileOption(options.profile);
     const spinner = ora('Generating auditor report...').start();
 
     try {
@@ -874,6 +1404,7 @@ program
         configFile: options.config,
         baselineFile: options.baseline,
         includeOwnArtifacts: options.includeOwnArtifacts,
+        profile,
       });
 
       if (!result.complianceScore) {
@@ -892,6 +1423,7 @@ program
           auditorName: options.auditor,
           includeBaseline: options.includeBaseline,
           branding,
+          framework,
         });
         await writeFile(outputPath, pdf.buffer);
         hash = pdf.hash;
@@ -902,6 +1434,7 @@ program
           auditorName: options.auditor,
           includeBaseline: options.includeBaseline,
           branding,
+          framework,
         });
         await writeFile(outputPath, report.html, 'utf-8');
         hash = report.hash;
@@ -917,6 +1450,11 @@ program
       }
       console.log(`${chalk.cyan('SHA256 Hash:')} ${chalk.gray(hash)}`);
       console.log(`${chalk.cyan('Compliance Score:')} ${formatScore(result.complianceScore)}`);
+      if (framework) {
+        const frameworkReport = buildFrameworkReport(result.findings, framework, getAssessmentScope(result));
+        const { pass, total } = frameworkReport.summary;
+        console.log(`${chalk.cyan(`${FRAMEWORK_NAMES[framework]}:`)} ${pass} of ${total} controls pass`);
+      }
       console.log(`${chalk.cyan('Total Findings:')} ${result.complianceScore.breakdown.total}`);
       console.log(`${chalk.cyan('Files Scanned:')} ${result.scannedFiles}`);
 
@@ -939,7 +1477,7 @@ program
     }
   });
 
-program
+const auditCommand = program
   .command('audit')
   .description('Manage audit trail and generate compliance reports')
   .argument('<path>', 'Path to the project with audit trail')
@@ -979,6 +1517,10 @@ program
 
       console.log('');
       console.log(`Report Hash: ${chalk.gray(summary.reportHash || 'N/A')}`);
+      if (trail.integrity) {
+        const signed = trail.integrity.keyFingerprint ? `, signed by ${trail.integrity.keyFingerprint.slice(0, 16)}` : '';
+        console.log(`Hash Chain: ${chalk.gray(`${trail.integrity.length} entries${signed}`)}`);
+      }
 
       // Show review status breakdown
       if (Object.keys(summary.reviewsByStatus).length > 0) {
@@ -1062,6 +1604,363 @@ program
     }
   });
 
+auditCommand
+  .command('verify')
+  .description('Check the audit trail hash chain and signatures for tampering')
+  .argument('[path]', 'Path to the project with audit trail', '.')
+  .option('--public-key <file>', 'Require signatures by this Ed25519 public key (PEM)')
+  .action(async (path: string, options: { publicKey?: string }) => {
+    try {
+      const { verifyAuditTrail } = await import('./audit/chain.js');
+      const { readFile } = await import('fs/promises');
+      const trail = await loadTrailOrExit(path);
+      const publicKey = options.publicKey ? await readFile(resolve(options.publicKey), 'utf-8') : undefined;
+      const result = verifyAuditTrail(trail, { publicKey });
+
+      if (result.status === 'unchained') {
+        console.log(chalk.yellow('Audit trail has no hash chain (written by an older vlayer) and cannot be verified.'));
+        process.exit(1);
+      }
+
+      if (result.status === 'broken') {
+        const { error } = result;
+        const entry = error?.sequence ? `entry #${error.sequence} (${error.kind} ${error.id?.slice(0, 8)}): ` : '';
+        console.log(chalk.red(`✗ Audit trail verification failed: ${entry}${error?.message}`));
+        process.exit(1);
+      }
+
+      console.log(chalk.green(`✓ Audit trail intact: ${result.entries} chained entries`));
+      console.log(chalk.gray(`  Head: ${result.head}`));
+      if (result.signed) {
+        const pinned = options.publicKey ? '' : ' (key embedded in the trail; pin it with --public-key)';
+        console.log(chalk.gray(`  Signed with Ed25519 key ${result.keyFingerprint}${pinned}`));
+      } else {
+        console.log(chalk.yellow('  Not signed. Run `vlayer audit keygen` to sign new audit trails.'));
+      }
+    } catch (error) {
+      console.error(chalk.red(error instanceof Error ? error.message : 'Unknown error'));
+      process.exit(1);
+    }
+  });
+
+auditCommand
+  .command('keygen')
+  .description('Create the local Ed25519 key used to sign audit trails')
+  .option('--force', 'Replace an existing key')
+  .action(async (options: { force?: boolean }) => {
+    try {
+      const { generateSigningKey } = await import('./audit/chain.js');
+      const key = await generateSigningKey(undefined, options.force);
+      console.log(chalk.green(`✓ Signing key written to ${key.privateKeyPath}`));
+      console.log(`Public key: ${key.publicKeyPath}`);
+      console.log(`Fingerprint: ${chalk.cyan(key.fingerprint)}`);
+      console.log(chalk.gray('\nAudit trails created from now on are signed. Share the public key with auditors.'));
+    } catch (error) {
+      console.error(chalk.red(error instanceof Error ? error.message : 'Unknown error'));
+      process.exit(1);
+    }
+  });
+
+// Manual review workflow
+const REVIEW_SEVERITY_ORDER: Record<string, number> = { critical: 0, high: 1, medium: 2, low: 3, info: 4 };
+
+/** Findings of project-level checks carry a placeholder instead of a file path. */
+function reviewLocation(finding: Finding, rootPath: string): string {
+  const file = isAbsolute(finding.file) ? relative(rootPath, finding.file) : finding.file;
+  return `${file}${finding.line ? `:${finding.line}` : ''}`;
+}
+
+async function loadTrailOrExit(path: string): Promise<AuditTrail> {
+  const trail = await loadAuditTrail(resolve(path));
+  if (!trail) {
+    console.error(chalk.red('No audit trail found.'));
+    console.log(chalk.yellow('Run `vlayer scan <path> --fix` to generate an audit trail.'));
+    process.exit(1);
+  }
+  return trail;
+}
+
+async function runReviewAction(
+  id: string,
+  path: string,
+  action: ManualReviewAction,
+  update: { assignee?: string; note?: string; by?: string }
+): Promise<void> {
+  try {
+    const absolutePath = resolve(path);
+    const trail = await loadTrailOrExit(absolutePath);
+    const by = update.by ?? await getGitIdentity(absolutePath);
+    const review = applyManualReviewAction(trail, id, action, { ...update, by: by || undefined });
+    await saveAuditTrail(trail, absolutePath);
+
+    const status = review.status.replace(/_/g, ' ');
+    const assignee = review.assignedTo ? chalk.gray(` (${review.assignedTo})`) : '';
+    console.log(chalk.green(`✓ Review ${review.id.slice(0, 8)} is now ${status}`) + assignee);
+  } catch (error) {
+    console.error(chalk.red(error instanceof Error ? error.message : 'Unknown error'));
+    process.exit(1);
+  }
+}
+
+const reviewCommand = program
+  .command('review')
+  .description('Work through the manual review items of the audit trail');
+
+reviewCommand
+  .command('list')
+  .description('List manual review items, flagging those past their deadline')
+  .argument('[path]', 'Path to the project with audit trail', '.')
+  .option('--status <status>', 'Only items with this status (pending_review, assigned, in_progress, resolved, accepted_risk)')
+  .option('--overdue', 'Only open items past their suggested deadline')
+  .option('--all', 'Include resolved and accepted-risk items')
+  .option('-f, --format <type>', 'Output format: text or json', 'text')
+  .action(async (path: string, options) => {
+    const absolutePath = resolve(path);
+    const trail = await loadTrailOrExit(absolutePath);
+    const now = new Date();
+
+    const reviews = trail.manualReviews
+      .filter(r => options.status ? r.status === options.status : options.all || isManualReviewOpen(r))
+      .filter(r => !options.overdue || isManualReviewOverdue(r, now))
+      .sort((a, b) =>
+        (REVIEW_SEVERITY_ORDER[a.finding.severity] ?? 5) - (REVIEW_SEVERITY_ORDER[b.finding.severity] ?? 5)
+        || a.suggestedDeadline.localeCompare(b.suggestedDeadline));
+
+    if (options.format === 'json') {
+      console.log(JSON.stringify(reviews.map(r => ({ ...r, overdue: isManualReviewOverdue(r, now) })), null, 2));
+      return;
+    }
+
+    if (reviews.length === 0) {
+      console.log(chalk.gray('No manual review items match.'));
+      return;
+    }
+
+    console.log(chalk.gray('  ID        Severity  Status           Deadline      Assignee              Finding'));
+    console.log(chalk.gray('  ' + '─'.repeat(100)));
+    for (const review of reviews) {
+      const overdue = isManualReviewOverdue(review, now);
+      const deadline = review.suggestedDeadline.slice(0, 10);
+      const location = reviewLocation(review.finding, absolutePath);
+      console.log([
+        '  ' + chalk.gray(review.id.slice(0, 8)),
+        review.finding.severity.toUpperCase().padEnd(8),
+        review.status.replace(/_/g, ' ').padEnd(15),
+        overdue ? chalk.red(`${deadline}!`.padEnd(12)) : deadline.padEnd(12),
+        (review.assignedTo ?? '-').slice(0, 20).padEnd(20),
+        `${review.finding.id} ${location}`,
+      ].join('  '));
+    }
+
+    const overdueCount = reviews.filter(r => isManualReviewOverdue(r, now)).length;
+    console.log(chalk.gray('  ' + '─'.repeat(100)));
+    console.log(`  ${reviews.length} item(s)` + (overdueCount > 0 ? chalk.red(`, ${overdueCount} overdue (!)`) : ''));
+  });
+
+reviewCommand
+  .command('show')
+  .description('Show a manual review item')
+  .argument('<id>', 'Review id (or unambiguous prefix)')
+  .argument('[path]', 'Path to the project with audit trail', '.')
+  .action(async (id: string, path: string) => {
+    try {
+      const absolutePath = resolve(path);
+      const trail = await loadTrailOrExit(absolutePath);
+      const review = findManualReview(trail, id);
+      const { finding } = review;
+
+      console.log(chalk.bold(`\n${finding.title}`));
+      console.log(`  Review:     ${review.id}`);
+      console.log(`  Rule:       ${finding.id} (${finding.severity})`);
+      console.log(`  Location:   ${reviewLocation(finding, absolutePath)}`);
+      if (finding.hipaaReference) console.log(`  HIPAA:      ${finding.hipaaReference}`);
+      console.log(`  Status:     ${review.status.replace(/_/g, ' ')}`);
+      console.log(`  Assignee:   ${review.assignedTo ?? '-'}`);
+      const overdue = isManualReviewOverdue(review) ? chalk.red(' (overdue)') : '';
+      console.log(`  Deadline:   ${review.suggestedDeadline.slice(0, 10)}${overdue}`);
+      console.log(`  Created:    ${review.createdAt}`);
+      console.log(`  Updated:    ${review.updatedAt}`);
+      if (review.notes) console.log(`  Notes:      ${review.notes}`);
+      if (review.resolution) {
+        console.log(`  Resolution: ${review.resolution}`);
+        console.log(chalk.gray(`              by ${review.resolvedBy ?? 'unknown'} at ${review.resolvedAt ?? '?'}`));
+      }
+      console.log(`\n  ${finding.description}`);
+      console.log(chalk.cyan(`  Recommendation: ${finding.recommendation}\n`));
+    } catch (error) {
+      console.error(chalk.red(error instanceof Error ? error.message : 'Unknown error'));
+      process.exit(1);
+    }
+  });
+
+reviewCommand
+  .command('assign')
+  .description('Assign a manual review item')
+  .argument('<id>', 'Review id (or unambiguous prefix)')
+  .argument('<assignee>', 'Person responsible for the item')
+  .argument('[path]', 'Path to the project with audit trail', '.')
+  .option('-m, --note <text>', 'Note to record with the assignment')
+  .action(async (id: string, assignee: string, path: string, options) => {
+    await runReviewAction(id, path, 'assign', { assignee, note: options.note });
+  });
+
+reviewCommand
+  .command('start')
+  .description('Mark a manual review item as in progress')
+  .argument('<id>', 'Review id (or unambiguous prefix)')
+  .argument('[path]', 'Path to the project with audit trail', '.')
+  .option('-m, --note <text>', 'Note to record')
+  .option('--by <name>', 'Who is working on it (default: git user.email)')
+  .action(async (id: string, path: string, options) => {
+    await runReviewAction(id, path, 'start', { note: options.note, by: options.by });
+  });
+
+reviewCommand
+  .command('resolve')
+  .description('Resolve a manual review item')
+  .argument('<id>', 'Review id (or unambiguous prefix)')
+  .argument('[path]', 'Path to the project with audit trail', '.')
+  .requiredOption('-m, --note <text>', 'How the item was resolved')
+  .option('--by <name>', 'Who resolved it (default: git user.email)')
+  .action(async (id: string, path: string, options) => {
+    await runReviewAction(id, path, 'resolve', { note: options.note, by: options.by });
+  });
+
+reviewCommand
+  .command('accept-risk')
+  .description('Close a manual review item as an accepted risk')
+  .argument('<id>', 'Review id (or unambiguous prefix)')
+  .argument('[path]', 'Path to the project with audit trail', '.')
+  .requiredOption('-m, --note <text>', 'Why the risk is accepted')
+  .option('--by <name>', 'Who accepted it (default: git user.email)')
+  .action(async (id: string, path: string, options) => {
+    await runReviewAction(id, path, 'accept-risk', { note: options.note, by: options.by });
+  });
+
+// Evidence bundles for auditors
+const EVIDENCE_KIND_LABELS: Record<string, string> = {
+  'compliance-report': 'Compliance report',
+  'audit-report': 'PDF audit report',
+  'audit-trail': 'Audit trail',
+  'baseline': 'Baseline',
+  'acknowledgments': 'Acknowledgments',
+  'training-certificate': 'Training certificate',
+};
+
+const evidenceCommand = program
+  .command('evidence')
+  .description('Package audit evidence for auditors and verify bundles');
+
+evidenceCommand
+  .command('export')
+  .description('Scan and bundle reports, audit trail, baseline, acknowledgments and training certificates')
+  .argument('[path]', 'Path to the project', '.')
+  .option('-o, --output <file>', 'Bundle path', 'vlayer-evidence.zip')
+  .option('--config <path>', 'Path to configuration file')
+  .option('--baseline <path>', 'Baseline file (default: .vlayer-baseline.json in the project)')
+  .option('--org <name>', 'Organization name for the reports')
+  .option('--auditor <name>', 'Auditor name for the reports')
+  .option('--no-training', 'Leave out training certificates')
+  .action(async (path: string, options) => {
+    const spinner = ora('Scanning project...').start();
+
+    try {
+      const { exportEvidenceBundle } = await import('./evidence-bundle.js');
+      const { loadSigningKey } = await import('./audit/chain.js');
+      const absolutePath = resolve(path);
+      const baselineFile = options.baseline ? resolve(options.baseline) : resolve(absolutePath, '.vlayer-baseline.json');
+      const configFile = options.config ? resolve(options.config) : undefined;
+
+      const scanStartedAt = new Date();
+      const result = await scan({
+        path: absolutePath,
+        configFile,
+        baselineFile: existsSync(baselineFile) ? baselineFile : undefined,
+      });
+
+      spinner.text = 'Building evidence bundle...';
+      const signingKey = await loadSigningKey();
+      const { path: bundlePath, manifest } = await exportEvidenceBundle(result, absolutePath, options.output, {
+        scanStartedAt,
+        configFile,
+        baselineFile,
+        includeTraining: options.training,
+        organizationName: options.org,
+        auditorName: options.auditor,
+        branding: await buildBranding(absolutePath, configFile, {}),
+        signingKey,
+      });
+      spinner.succeed(`Evidence bundle written to ${bundlePath}`);
+
+      for (const file of manifest.files) {
+        console.log(`  ${chalk.green('✓')} ${file.path} ${chalk.gray(`(${EVIDENCE_KIND_LABELS[file.kind]})`)}`);
+      }
+      if (!manifest.auditTrail) {
+        console.log(chalk.yellow('  No audit trail found; run `vlayer scan <path> --fix` to create one.'));
+      }
+      console.log(chalk.gray(`\n${manifest.files.length} files, SHA-256 of each recorded in manifest.json`));
+      console.log(manifest.signing
+        ? chalk.gray(`Manifest signed with Ed25519 key ${manifest.signing.keyFingerprint}`)
+        : chalk.yellow('Manifest not signed. Run `vlayer audit keygen` to sign bundles.'));
+    } catch (error) {
+      spinner.fail('Evidence export failed');
+      console.error(chalk.red(error instanceof Error ? error.message : 'Unknown error'));
+      process.exit(1);
+    }
+  });
+
+evidenceCommand
+  .command('verify')
+  .description('Re-check an evidence bundle against its manifest, offline')
+  .argument('<bundle>', 'Path to the evidence bundle (.zip)')
+  .option('--public-key <file>', 'Require signatures by this Ed25519 public key (PEM)')
+  .action(async (bundle: string, options: { publicKey?: string }) => {
+    try {
+      const { verifyEvidenceBundle } = await import('./evidence-bundle.js');
+      const { readFile } = await import('fs/promises');
+      const publicKey = options.publicKey ? await readFile(resolve(options.publicKey), 'utf-8') : undefined;
+      const result = await verifyEvidenceBundle(resolve(bundle), { publicKey });
+      const { manifest } = result;
+
+      console.log(chalk.bold(`\nEvidence bundle: ${manifest.project.name}`));
+      console.log(chalk.gray(`Created ${new Date(manifest.createdAt).toLocaleString()} by vlayer ${manifest.tool.version} (${manifest.ruleCatalog.rules} rules)\n`));
+
+      const marks: Record<string, string> = {
+        ok: chalk.green('✓'),
+        modified: chalk.red('✗ modified'),
+        missing: chalk.red('✗ missing'),
+        unlisted: chalk.red('✗ not in manifest'),
+      };
+      for (const file of result.files) {
+        console.log(`  ${marks[file.status]} ${file.path}`);
+      }
+
+      const signatures: Record<string, string> = {
+        valid: chalk.green(`Manifest signature valid (key ${manifest.signing?.keyFingerprint})`),
+        invalid: chalk.red('Manifest signature invalid'),
+        'wrong-key': chalk.red(`Manifest signed with a different key (${manifest.signing?.keyFingerprint})`),
+        unsigned: options.publicKey ? chalk.red('Manifest is not signed') : chalk.yellow('Manifest is not signed'),
+      };
+      console.log(`\n${signatures[result.signature]}`);
+
+      if (result.auditTrail) {
+        const trail = result.auditTrail;
+        if (trail.status === 'valid') console.log(chalk.green(`Audit trail hash chain intact (${trail.entries} entries)`));
+        else if (trail.status === 'broken') console.log(chalk.red(`Audit trail hash chain broken: ${trail.error?.message}`));
+        else console.log(chalk.yellow('Audit trail has no hash chain'));
+      }
+
+      if (!result.valid) {
+        console.log(chalk.red('\n✗ Evidence bundle failed verification'));
+        process.exit(1);
+      }
+      console.log(chalk.green('\n✓ Evidence bundle verified'));
+    } catch (error) {
+      console.error(chalk.red(error instanceof Error ? error.message : 'Unknown error'));
+      process.exit(1);
+    }
+  });
+
 program
   .command('init')
   .description('Initialize a vlayer configuration file')
@@ -1202,6 +2101,70 @@ rulesCommand
     }
   });
 
+// Scanner registry commands
+const scannersCommand = program
+  .command('scanners')
+  .description('Inspect the built-in scanners');
+
+scannersCommand
+  .command('list')
+  .description('List registered scanners and whether they are enabled')
+  .argument('[path]', 'Path to the project (for .vlayerrc.json)', '.')
+  .option('--config <path>', 'Path to configuration file')
+  .option('-f, --format <type>', 'Output format: text or json', 'text')
+  .action(async (path: string, options) => {
+    const { SCANNER_REGISTRY, isScannerEnabled, scannerCategories } = await import('./scanners/registry.js');
+    const { loadPlugins } = await import('./plugins/index.js');
+    const config = await loadConfig(resolve(path), options.config);
+    const ruleCounts = new Map<string, number>();
+    for (const rule of RULE_CATALOG) {
+      ruleCounts.set(rule.scanner, (ruleCounts.get(rule.scanner) ?? 0) + 1);
+    }
+
+    const { plugins, errors: pluginErrors } = await loadPlugins(resolve(path), config.plugins ?? []);
+    for (const error of pluginErrors) {
+      console.error(chalk.yellow(`Plugin ${error.plugin}: ${error.error}`));
+    }
+    const pluginOf = new Map<string, string>();
+    for (const { plugin } of plugins) {
+      for (const scanner of plugin.scanners ?? []) pluginOf.set(scanner.id, plugin.name);
+    }
+    const allScanners = [...SCANNER_REGISTRY, ...plugins.flatMap(p => p.plugin.scanners ?? [])];
+
+    const scanners = allScanners.map(scanner => ({
+      id: scanner.id,
+      name: scanner.name,
+      categories: scannerCategories(scanner),
+      fileTypes: scanner.fileTypes,
+      defaultEnabled: scanner.defaultEnabled ?? true,
+      enabled: isScannerEnabled(scanner, config),
+      projectWide: scanner.projectWide ?? false,
+      rules: ruleCounts.get(scanner.id) ?? 0,
+      plugin: pluginOf.get(scanner.id),
+    }));
+
+    if (options.format === 'json') {
+      console.log(JSON.stringify({ total: scanners.length, scanners }, null, 2));
+      return;
+    }
+
+    console.log(chalk.bold(`\nRegistered scanners — ${scanners.length}:\n`));
+    for (const scanner of scanners) {
+      const state = scanner.enabled ? chalk.green('enabled') : chalk.gray('disabled');
+      const overridden = scanner.enabled !== scanner.defaultEnabled ? chalk.gray(' (config)') : '';
+      console.log(`  ${chalk.cyan(scanner.id)} ${state}${overridden}`);
+      console.log(`    Name: ${scanner.name}`);
+      console.log(`    Category: ${scanner.categories.join(', ')}`);
+      console.log(`    File types: ${chalk.gray(scanner.fileTypes.join(', '))}`);
+      if (scanner.plugin) {
+        console.log(`    Plugin: ${scanner.plugin}`);
+      } else {
+        console.log(`    Rules: ${scanner.rules}${scanner.projectWide ? chalk.gray(' (project-wide)') : ''}`);
+      }
+      console.log('');
+    }
+  });
+
 // Marketplace commands
 const marketplaceCommand = program
   .command('marketplace')
@@ -1,4 +1,4 @@
-import type { ScanResult } from './types.js';
+import type { Finding, ScanResult } from './types.js';
 
 export interface ComplianceScore {
   score: number; // 0-100
@@ -32,6 +32,14 @@ const SEVERITY_PENALTIES = {
 
 const ACKNOWLEDGED_REDUCTION = 0.25; // 25% of original penalty
 
+/**
+ * Score penalty for one active finding, reduced for acknowledged findings
+ */
+export function getFindingPenalty(finding: Finding): number {
+  const basePenalty = SEVERITY_PENALTIES[finding.severity] || 0;
+  return finding.acknowledged === true ? basePenalty * ACKNOWLEDGED_REDUCTION : basePenalty;
+}
+
 /**
  * Calculate HIPAA compliance score from scan results
  */
@@ -70,16 +78,12 @@ export function calculateComplianceScore(result: ScanResult): ComplianceScore {
     else if (finding.severity === 'medium') breakdown.medium++;
     else if (finding.severity === 'low') breakdown.low++;
 
-    // Calculate penalty
-    const basePenalty = SEVERITY_PENALTIES[finding.severity] || 0;
-    const isAcknowledged = finding.acknowledged === true;
-
-    if (isAcknowledged) {
+    if (finding.acknowledged === true) {
       breakdown.acknowledged++;
     }
 
-    // Reduce penalty for acknowledged findings
-    const penalty = isAcknowledged ? basePenalty * ACKNOWLEDGED_REDUCTION : basePenalty;
+    // Acknowledged findings carry a reduced penalty
+    const penalty = getFindingPenalty(finding);
 
     // Apply penalty
     if (finding.severity === 'critical') penalties.critical += penalty;
@@ -0,0 +1,77 @@
+/**
+ * One scan batch: every selected scanner (and the custom rules) over a slice of
+ * the file list. This is the unit of work the engine hands to a worker thread,
+ * so everything it needs arrives in its arguments and everything it produces is
+ * returned — no state survives between batches.
+ */
+import type { CompiledCustomRule, Finding, ScanOptions, Scanner } from '../types.js';
+import { getScanner } from '../scanners/registry.js';
+import { getPluginScanners } from '../plugins/index.js';
+import { scanWithCustomRules } from '../rules/index.js';
+import { preloadSourceFiles, releaseSourceFiles } from './source-files.js';
+
+/** Settings shared by every batch of a scan. Must survive structured cloning. */
+export interface BatchContext {
+  options: ScanOptions;
+  /** Registry ids of the scanners to run, in run order. */
+  scannerIds: string[];
+  /** Module URLs of the plugins providing non-built-in scanner ids. */
+  pluginModules: string[];
+  customRules: CompiledCustomRule[];
+}
+
+export interface BatchInput {
+  /** Every file of the batch; project-wide scanners see all of them. */
+  batchFiles: string[];
+  /** Files not served from the incremental cache. */
+  filesToScan: string[];
+  /** File contents read once by the engine, as [path, content] pairs. */
+  contents: Array<[filePath: string, content: string]>;
+}
+
+export interface BatchResult {
+  /** Findings from `projectWide` scanners — never cached. */
+  projectWide: Finding[];
+  /** Findings derived from `filesToScan` one file at a time. */
+  cacheable: Finding[];
+}
+
+async function lookupScanners(context: BatchContext): Promise<Scanner[]> {
+  const pluginScanners = context.pluginModules.length > 0
+    ? new Map((await getPluginScanners(context.pluginModules)).map(s => [s.id, s]))
+    : undefined;
+  return context.scannerIds.map(id => {
+    const scanner = getScanner(id) ?? pluginScanners?.get(id);
+    if (!scanner) throw new Error(`Unknown scanner id "${id}"`);
+    return scanner;
+  });
+}
+
+/**
+ * Run the scanners over one batch. Scanner order is fixed, so the same input
+ * always yields findings in the same order.
+ */
+export async function scanBatch(context: BatchContext, input: BatchInput): Promise<BatchResult> {
+  const { options, customRules } = context;
+  const { batchFiles, filesToScan } = input;
+  const result: BatchResult = { projectWide: [], cacheable: [] };
+
+  preloadSourceFiles(input.contents);
+  try {
+    for (const scanner of await lookupScanners(context)) {
+      if (scanner.projectWide) {
+        result.projectWide.push(...await scanner.scan(batchFiles, options));
+      } else if (filesToScan.length > 0) {
+        result.cacheable.push(...await scanner.scan(filesToScan, options));
+      }
+    }
+
+    if (customRules.length > 0 && filesToScan.length > 0) {
+      result.cacheable.push(...await scanWithCustomRules(filesToScan, options, customRules));
+    }
+  } finally {
+    releaseSourceFiles();
+  }
+
+  return result;
+}
@@ -0,0 +1,65 @@
+/**
+ * Scan engine — runs scan batches either on the calling thread or across a
+ * pool of worker threads (`--jobs N`).
+ *
+ * The caller reads each file once and hands the contents over with the batch,
+ * so workers never touch the disk for batch files. Batches may finish in any
+ * order; `scan()` consumes results in batch order, which keeps findings
+ * identical to a single-threaded run.
+ */
+import { existsSync } from 'fs';
+import { fileURLToPath } from 'url';
+import { availableParallelism } from 'os';
+import { WorkerPool } from './pool.js';
+import { scanBatch, type BatchContext, type BatchInput, type BatchResult } from './batch.js';
+
+export type { BatchContext, BatchInput, BatchResult } from './batch.js';
+export { readSourceFile, type SourceFile } from './source-files.js';
+
+export interface ScanEngine {
+  /** Worker threads in use; 0 when batches run on the calling thread. */
+  readonly workers: number;
+  scanBatch(input: BatchInput): Promise<BatchResult>;
+  close(): Promise<void>;
+}
+
+/** Number of jobs for `--jobs auto`: one per available CPU. */
+export function defaultJobCount(): number {
+  return availableParallelism();
+}
+
+function createInProcessEngine(context: BatchContext): ScanEngine {
+  // Scanners share one preloaded source store, so batches run strictly one
+  // after another on this thread.
+  let tail: Promise<unknown> = Promise.resolve();
+  return {
+    workers: 0,
+    scanBatch(input) {
+      const run = tail.then(() => scanBatch(context, input));
+      tail = run.catch(() => undefined);
+      return run;
+    },
+    async close() {
+      await tail;
+    },
+  };
+}
+
+/**
+ * Create an engine with `jobs` worker threads. `jobs <= 1` runs in-process, as
+ * does running from TypeScript sources (tests, ts-node) where no compiled
+ * worker module exists.
+ */
+export function createScanEngine(context: BatchContext, jobs = 1): ScanEngine {
+  const workerUrl = new URL('./worker.js', import.meta.url);
+  if (jobs <= 1 || !existsSync(fileURLToPath(workerUrl))) {
+    return createInProcessEngine(context);
+  }
+
+  const pool = new WorkerPool<BatchInput, BatchResult>(workerUrl, jobs, context);
+  return {
+    workers: pool.size,
+    scanBatch: (input) => pool.run(input),
+    close: () => pool.close(),
+  };
+}
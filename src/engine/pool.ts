@@ -0,0 +1,119 @@
+/**
+ * Minimal worker-thread pool. Each worker runs one task at a time; queued tasks
+ * go to whichever worker frees up first. Results come back through the promise
+ * returned by `run()`, so callers decide the order they consume them in.
+ *
+ * Worker protocol: the worker receives `{ id, task }` messages and answers with
+ * `{ id, result }` or `{ id, error: { message, stack } }`.
+ */
+import { Worker } from 'worker_threads';
+
+interface PendingTask<TTask, TResult> {
+  id: number;
+  task: TTask;
+  resolve: (result: TResult) => void;
+  reject: (error: Error) => void;
+}
+
+type WorkerReply<TResult> =
+  | { id: number; result: TResult }
+  | { id: number; error: { message: string; stack?: string } };
+
+export class WorkerPool<TTask, TResult> {
+  private readonly workers: Worker[] = [];
+  private readonly idle: Worker[] = [];
+  private readonly queue: PendingTask<TTask, TResult>[] = [];
+  private readonly running = new Map<Worker, PendingTask<TTask, TResult>>();
+  private nextId = 0;
+  private closed = false;
+
+  /**
+   * @param workerUrl - ES module implementing the worker protocol
+   * @param size - number of worker threads (at least 1)
+   * @param workerData - passed to every worker as `workerData`
+   */
+  constructor(workerUrl: URL, size: number, workerData?: unknown) {
+    for (let i = 0; i < Math.max(1, size); i++) {
+      const worker = new Worker(workerUrl, { workerData });
+      worker.on('message', (reply: WorkerReply<TResult>) => this.settle(worker, reply));
+      worker.on('error', (error) => this.fail(worker, error));
+      worker.on('exit', (code) => {
+        if (!this.closed) {
+          this.fail(worker, new Error(`Scan worker exited unexpectedly (code ${code})`));
+        }
+      });
+      this.workers.push(worker);
+      this.idle.push(worker);
+    }
+  }
+
+  get size(): number {
+    return this.workers.length;
+  }
+
+  run(task: TTask): Promise<TResult> {
+    if (this.closed) {
+      return Promise.reject(new Error('Worker pool is closed'));
+    }
+    return new Promise<TResult>((resolve, reject) => {
+      this.queue.push({ id: this.nextId++, task, resolve, reject });
+      this.dispatch();
+    });
+  }
+
+  /** Terminate every worker. Tasks still queued or running are rejected. */
+  async close(): Promise<void> {
+    if (this.closed) return;
+    this.closed = true;
+    const error = new Error('Worker pool is closed');
+    for (const pending of [...this.running.values(), ...this.queue]) {
+      pending.reject(error);
+    }
+    this.running.clear();
+    this.queue.length = 0;
+    await Promise.all(this.workers.map(worker => worker.terminate()));
+  }
+
+  private dispatch(): void {
+    while (this.idle.length > 0 && this.queue.length > 0) {
+      const worker = this.idle.shift()!;
+      const pending = this.queue.shift()!;
+      this.running.set(worker, pending);
+      worker.postMessage({ id: pending.id, task: pending.task });
+    }
+  }
+
+  private settle(worker: Worker, reply: WorkerReply<TResult>): void {
+    const pending = this.running.get(worker);
+    if (!pending || pending.id !== reply.id) return;
+    this.running.delete(worker);
+    this.idle.push(worker);
+
+    if ('error' in reply) {
+      const error = new Error(reply.error.message);
+      if (reply.error.stack) error.stack = reply.error.stack;
+      pending.reject(error);
+    } else {
+      pending.resolve(reply.result);
+    }
+    this.dispatch();
+  }
+
+  /** A crashed worker takes its task down with it and leaves the pool. */
+  private fail(worker: Worker, error: Error): void {
+    const pending = this.running.get(worker);
+    this.running.delete(worker);
+    pending?.reject(error);
+
+    const idleIndex = this.idle.indexOf(worker);
+    if (idleIndex !== -1) this.idle.splice(idleIndex, 1);
+    const index = this.workers.indexOf(worker);
+    if (index === -1) return;
+    this.workers.splice(index, 1);
+
+    if (this.workers.length === 0) {
+      for (const queued of this.queue) queued.reject(error);
+      this.queue.length = 0;
+    }
+  }
+}
@@ -0,0 +1,48 @@
+/**
+ * Shared source-file store for one scan batch.
+ *
+ * The engine reads every file of a batch exactly once and preloads it here;
+ * scanners call `readSourceFile()` instead of `fs.readFile()` and all receive
+ * the same content string and line split. Outside an engine batch (a scanner
+ * invoked directly, e.g. `vlayer skill-scan` or unit tests) it falls back to
+ * reading from disk, so scanners work the same either way.
+ *
+ * The returned `lines` array is shared between scanners — treat it as
+ * read-only.
+ */
+import { readFile } from 'fs/promises';
+
+export interface SourceFile {
+  content: string;
+  lines: string[];
+}
+
+const preloaded = new Map<string, SourceFile>();
+
+function toSourceFile(content: string): SourceFile {
+  return { content, lines: content.split('\n') };
+}
+
+/** Make a batch's contents available to every scanner. Replaces any previous batch. */
+export function preloadSourceFiles(files: Iterable<[filePath: string, content: string]>): void {
+  preloaded.clear();
+  for (const [filePath, content] of files) {
+    preloaded.set(filePath, toSourceFile(content));
+  }
+}
+
+/** Drop the preloaded batch so its contents can be garbage-collected. */
+export function releaseSourceFiles(): void {
+  preloaded.clear();
+}
+
+/**
+ * Content and line split of a file. Served from the preloaded batch when
+ * available, otherwise read from disk. Rejects like `fs.readFile` when the
+ * file cannot be read.
+ */
+export async function readSourceFile(filePath: string): Promise<SourceFile> {
+  const cached = preloaded.get(filePath);
+  if (cached) return cached;
+  return toSourceFile(await readFile(filePath, 'utf-8'));
+}
@@ -0,0 +1,18 @@
+/**
+ * Scan worker entry point. Receives the scan-wide `BatchContext` as
+ * `workerData` and answers each batch task with its findings.
+ */
+import { parentPort, workerData } from 'worker_threads';
+import { scanBatch, type BatchContext, type BatchInput } from './batch.js';
+
+const context = workerData as BatchContext;
+
+parentPort?.on('message', async ({ id, task }: { id: number; task: BatchInput }) => {
+  try {
+    const result = await scanBatch(context, task);
+    parentPort?.postMessage({ id, result });
+  } catch (error) {
+    const err = error instanceof Error ? error : new Error(String(error));
+    parentPort?.postMessage({ id, error: { message: err.message, stack: err.stack } });
+  }
+});
@@ -0,0 +1,278 @@
+import { createHash, createPublicKey, sign, verify, type KeyObject } from 'crypto';
+import { existsSync } from 'fs';
+import { mkdtemp, readdir, readFile, rm, writeFile } from 'fs/promises';
+import { homedir, tmpdir } from 'os';
+import { basename, join, resolve } from 'path';
+import type { AuditTrail, ResolvedBranding, ScanResult } from './types.js';
+import { getAcknowledgmentsPath } from './acknowledgments.js';
+import { getAuditTrailPath, loadAuditTrail } from './audit/index.js';
+import { getKeyFingerprint, verifyAuditTrail, type AuditVerificationResult } from './audit/chain.js';
+import { generateAuditReport } from './reporters/audit-report.js';
+import { generateAuditorReport } from './reporters/auditor-report.js';
+import { RULE_CATALOG } from './rules/catalog.js';
+import { getAllScans } from './utils/scan-history.js';
+import { createZip, readZip, type ZipEntry } from './utils/zip.js';
+import { getToolVersion } from './version.js';
+
+export const MANIFEST_FILE = 'manifest.json';
+export const MANIFEST_SIGNATURE_FILE = 'manifest.json.sig';
+
+export type EvidenceFileKind =
+  | 'compliance-report'
+  | 'audit-report'
+  | 'audit-trail'
+  | 'baseline'
+  | 'acknowledgments'
+  | 'training-certificate';
+
+export interface EvidenceFile {
+  /** Path inside the bundle. */
+  path: string;
+  kind: EvidenceFileKind;
+  /** Where the file was collected from; absent for generated reports. */
+  source?: string;
+  size: number;
+  sha256: string;
+}
+
+export interface EvidenceManifest {
+  format: 'vlayer-evidence-bundle';
+  formatVersion: 1;
+  createdAt: string;
+  project: { name: string; path: string };
+  tool: { name: string; version: string };
+  /** Ships with the tool; the hash tells rule sets apart. */
+  ruleCatalog: { rules: number; sha256: string };
+  scans: {
+    /** The scan behind the compliance report in this bundle. */
+    report: { startedAt: string; durationMs: number; scannedFiles: number; findings: number; complianceScore?: number };
+    auditTrailCreatedAt?: string;
+    /** Timestamps of earlier scans from `.vlayer/history`. */
+    history: string[];
+  };
+  auditTrail?: { id: string; chain: AuditVerificationResult['status']; entries: number; head?: string };
+  /** Key that signed `manifest.json.sig`. */
+  signing?: { algorithm: 'ed25519'; publicKey: string; keyFingerprint: string };
+  files: EvidenceFile[];
+}
+
+export interface EvidenceBundleOptions {
+  /** Scan start, recorded in the manifest. */
+  scanStartedAt?: Date;
+  configFile?: string;
+  /** Defaults to `.vlayer-baseline.json` in the project. */
+  baselineFile?: string;
+  /** Directory of training certificates; defaults to ~/.vlayer/training. */
+  trainingDir?: string;
+  includeTraining?: boolean;
+  organizationName?: string;
+  auditorName?: string;
+  branding?: ResolvedBranding;
+  /** Signs the manifest when given. */
+  signingKey?: KeyObject | null;
+}
+
+export interface EvidenceFileCheck {
+  path: string;
+  kind?: EvidenceFileKind;
+  status: 'ok' | 'modified' | 'missing' | 'unlisted';
+}
+
+export interface EvidenceBundleVerification {
+  valid: boolean;
+  manifest: EvidenceManifest;
+  files: EvidenceFileCheck[];
+  signature: 'valid' | 'invalid' | 'unsigned' | 'wrong-key';
+  /** Hash chain check of the bundled audit trail, when there is one. */
+  auditTrail?: AuditVerificationResult;
+}
+
+function sha256(data: Buffer | string): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+async function collectTrainingCertificates(trainingDir: string): Promise<ZipEntry[]> {
+  if (!existsSync(trainingDir)) return [];
+  const files = (await readdir(trainingDir)).filter(f => f.endsWith('.json')).sort();
+  return Promise.all(files.map(async file => ({
+    name: `training/${file}`,
+    data: await readFile(join(trainingDir, file)),
+  })));
+}
+
+/**
+ * Package the compliance report, the PDF audit report, the audit trail,
+ * baseline, acknowledgments and training certificates into a ZIP bundle with a
+ * manifest of SHA-256 hashes, for handing to auditors.
+ */
+export async function exportEvidenceBundle(
+  result: ScanResult,
+  projectPath: string,
+  outputPath: string,
+  options: EvidenceBundleOptions = {}
+): Promise<{ path: string; manifest: EvidenceManifest }> {
+  const rootPath = resolve(projectPath);
+  const createdAt = new Date();
+  const entries: ZipEntry[] = [];
+  const files: EvidenceFile[] = [];
+
+  const add = (name: string, kind: EvidenceFileKind, data: Buffer, source?: string) => {
+    entries.push({ name, data, modifiedAt: createdAt });
+    files.push({ path: name, kind, source, size: data.length, sha256: sha256(data) });
+  };
+
+  const report = generateAuditorReport(result, rootPath, {
+    organizationName: options.organizationName,
+    auditorName: options.auditorName,
+    includeBaseline: true,
+    branding: options.branding,
+  });
+  add('reports/compliance-report.html', 'compliance-report', Buffer.from(report.html, 'utf-8'));
+
+  const trail = await loadAuditTrail(rootPath);
+  const chain = trail ? verifyAuditTrail(trail) : undefined;
+  if (trail) {
+    const tempDir = await mkdtemp(join(tmpdir(), 'vlayer-evidence-'));
+    try {
+      const pdfPath = join(tempDir, 'audit-report.pdf');
+      await generateAuditReport(trail, {
+        outputPath: pdfPath,
+        organizationName: options.organizationName,
+        auditorName: options.auditorName,
+        includeEvidence: true,
+        includeManualReviews: true,
+      });
+      add('reports/audit-report.pdf', 'audit-report', await readFile(pdfPath));
+    } finally {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+    const trailPath = getAuditTrailPath(rootPath);
+    add('audit/audit-trail.json', 'audit-trail', await readFile(trailPath), trailPath);
+  }
+
+  const baselinePath = resolve(rootPath, options.baselineFile ?? '.vlayer-baseline.json');
+  if (existsSync(baselinePath)) {
+    add(`baseline/${basename(baselinePath)}`, 'baseline', await readFile(baselinePath), baselinePath);
+  }
+
+  // Acknowledgments, and the project config with their approval rules
+  const acknowledgmentsPath = getAcknowledgmentsPath(rootPath);
+  if (existsSync(acknowledgmentsPath)) {
+    add(`acknowledgments/${basename(acknowledgmentsPath)}`, 'acknowledgments', await readFile(acknowledgmentsPath), acknowledgmentsPath);
+  }
+  const configPath = resolve(rootPath, options.configFile ?? '.vlayerrc.json');
+  if (existsSync(configPath)) {
+    add(`acknowledgments/${basename(configPath)}`, 'acknowledgments', await readFile(configPath), configPath);
+  }
+
+  if (options.includeTraining !== false) {
+    const trainingDir = options.trainingDir ?? join(homedir(), '.vlayer', 'training');
+    for (const certificate of await collectTrainingCertificates(trainingDir)) {
+      add(certificate.name, 'training-certificate', certificate.data, join(trainingDir, basename(certificate.name)));
+    }
+  }
+
+  const history = (await getAllScans(rootPath)).map(s => s.timestamp).sort();
+  const manifest: EvidenceManifest = {
+    format: 'vlayer-evidence-bundle',
+    formatVersion: 1,
+    createdAt: createdAt.toISOString(),
+    project: { name: basename(rootPath), path: rootPath },
+    tool: { name: 'vlayer', version: getToolVersion() },
+    ruleCatalog: {
+      rules: RULE_CATALOG.length,
+      sha256: sha256(JSON.stringify(RULE_CATALOG)),
+    },
+    scans: {
+      report: {
+        startedAt: (options.scanStartedAt ?? new Date(createdAt.getTime() - result.scanDuration)).toISOString(),
+        durationMs: result.scanDuration,
+        scannedFiles: result.scannedFiles,
+        findings: result.findings.length,
+        complianceScore: result.complianceScore?.score,
+      },
+      auditTrailCreatedAt: trail?.createdAt,
+      history,
+    },
+    auditTrail: trail && chain
+      ? { id: trail.id, chain: chain.status, entries: chain.entries, head: chain.head }
+      : undefined,
+    files,
+  };
+
+  if (options.signingKey) {
+    const publicKey = createPublicKey(options.signingKey).export({ type: 'spki', format: 'pem' }).toString();
+    manifest.signing = { algorithm: 'ed25519', publicKey, keyFingerprint: getKeyFingerprint(publicKey) };
+  }
+
+  const manifestData = Buffer.from(JSON.stringify(manifest, null, 2) + '\n', 'utf-8');
+  const bundle: ZipEntry[] = [{ name: MANIFEST_FILE, data: manifestData, modifiedAt: createdAt }, ...entries];
+  if (options.signingKey) {
+    const signature = sign(null, manifestData, options.signingKey).toString('base64');
+    bundle.push({ name: MANIFEST_SIGNATURE_FILE, data: Buffer.from(signature + '\n'), modifiedAt: createdAt });
+  }
+
+  const path = resolve(outputPath);
+  await writeFile(path, createZip(bundle));
+  return { path, manifest };
+}
+
+/**
+ * Re-check an evidence bundle offline: every file against its manifest hash,
+ * the manifest signature, and the bundled audit trail's hash chain
+ */
+export async function verifyEvidenceBundle(
+  bundlePath: string,
+  options: { publicKey?: string } = {}
+): Promise<EvidenceBundleVerification> {
+  const entries = new Map(readZip(await readFile(bundlePath)).map(e => [e.name, e.data]));
+
+  const manifestData = entries.get(MANIFEST_FILE);
+  if (!manifestData) {
+    throw new Error(`${bundlePath} is not a vlayer evidence bundle (no ${MANIFEST_FILE})`);
+  }
+  const manifest = JSON.parse(manifestData.toString('utf-8')) as EvidenceManifest;
+  if (manifest.format !== 'vlayer-evidence-bundle') {
+    throw new Error(`${bundlePath} is not a vlayer evidence bundle`);
+  }
+
+  const files: EvidenceFileCheck[] = manifest.files.map(file => {
+    const data = entries.get(file.path);
+    const status = !data ? 'missing' : sha256(data) === file.sha256 ? 'ok' : 'modified';
+    return { path: file.path, kind: file.kind, status };
+  });
+  const listed = new Set([MANIFEST_FILE, MANIFEST_SIGNATURE_FILE, ...manifest.files.map(f => f.path)]);
+  for (const name of entries.keys()) {
+    if (!listed.has(name)) files.push({ path: name, status: 'unlisted' });
+  }
+
+  let signature: EvidenceBundleVerification['signature'] = 'unsigned';
+  const signatureData = entries.get(MANIFEST_SIGNATURE_FILE);
+  if (manifest.signing && signatureData) {
+    const signedWith = manifest.signing.keyFingerprint;
+    if (options.publicKey && getKeyFingerprint(options.publicKey) !== signedWith) {
+      signature = 'wrong-key';
+    } else {
+      const key = createPublicKey(options.publicKey ?? manifest.signing.publicKey);
+      const decoded = Buffer.from(signatureData.toString('utf-8').trim(), 'base64');
+      signature = verify(null, manifestData, key, decoded) ? 'valid' : 'invalid';
+    }
+  } else if (manifest.signing || signatureData) {
+    signature = 'invalid';
+  }
+
+  let auditTrail: AuditVerificationResult | undefined;
+  const trailData = entries.get('audit/audit-trail.json');
+  if (trailData) {
+    const trail = JSON.parse(trailData.toString('utf-8')) as AuditTrail;
+    // An unsigned trail is still covered by the manifest signature
+    const publicKey = trail.integrity?.publicKey ? options.publicKey : undefined;
+    auditTrail = verifyAuditTrail(trail, { publicKey });
+  }
+
+  const valid = files.every(f => f.status === 'ok')
+    && (signature === 'valid' || (signature === 'unsigned' && !options.publicKey))
+    && auditTrail?.status !== 'broken';
+
+  return { valid, manifest, files, signature, auditTrail };
+}
@@ -18,6 +18,7 @@ export const DEFAULT_VLAYER_OUTPUT_EXCLUDES: readonly string[] = [
   '**/vlayer-report.html',
   '**/vlayer-report.md',
   '**/vlayer-report.pdf',
+  '**/vlayer-report.sarif',
   // Auditor report outputs (`vlayer report` / `vlayer audit --generate-report`)
   '**/vlayer-audit-report.html',
   '**/vlayer-audit-report.pdf',
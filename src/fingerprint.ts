@@ -0,0 +1,214 @@
+/**
+ * Stable finding fingerprints.
+ *
+ * A fingerprint identifies a finding by what it is rather than where it is:
+ * the rule id (without the line number many scanners embed in finding ids),
+ * the file path relative to the scan root, the matched line with whitespace
+ * collapsed, and the name of the enclosing function or class. Adding or
+ * removing lines elsewhere in the file leaves it unchanged, so baselines,
+ * acknowledgments and scan history keep matching after unrelated edits.
+ *
+ * When the same rule matches identical code twice in one scope, the
+ * occurrences are numbered in line order to keep their fingerprints apart.
+ */
+import { createHash } from 'crypto';
+import * as path from 'path';
+import { AST_NODE_TYPES, type TSESTree } from '@typescript-eslint/typescript-estree';
+import type { Finding } from './types.js';
+import { readSourceFile } from './engine/source-files.js';
+import { childNodes, parseModule } from './utils/ast.js';
+
+type Node = TSESTree.Node;
+
+const AST_FILE = /\.(ts|tsx|js|jsx|mjs|cjs)$/;
+
+/** Function and class declarations in languages scoped by indentation or braces. */
+const SCOPE_DECLARATION = /^\s*(?:(?:export|public|private|protected|static|async|pub)\s+)*(?:def|class|func|function|fn|module|struct|impl)\s+(?:\([^)]*\)\s*)?([A-Za-z_$][\w$]*)/;
+
+/**
+ * The rule a finding was reported under, without the line suffix of dynamic
+ * ids (`phi-ssn-hardcoded-42` → `phi-ssn-hardcoded`), so an acknowledgment
+ * keeps matching after the code moves.
+ */
+export function ruleFamily(id: string): string {
+  return /^[a-z]/.test(id) ? id.replace(/-\d+$/, '') : id;
+}
+
+/**
+ * Rule family of a finding. Custom rule ids also embed the file path
+ * (`custom-<rule>-<file>-<line>`), which is dropped too.
+ */
+export function stableRuleId(finding: Pick<Finding, 'id' | 'file'>): string {
+  return ruleFamily(finding.id.replace(`-${finding.file}-`, '-'));
+}
+
+/** A source line as it is fingerprinted: trimmed, runs of whitespace collapsed. */
+export function normalizeSnippet(line: string): string {
+  return line.trim().replace(/\s+/g, ' ');
+}
+
+/** Forward-slash path of a finding's file relative to the scan root. */
+function relativeFile(file: string, rootPath: string): string {
+  const relative = path.isAbsolute(file) ? path.relative(rootPath, file) || file : file;
+  return relative.split(path.sep).join('/');
+}
+
+function contains(node: Node, line: number): boolean {
+  return node.loc.start.line <= line && line <= node.loc.end.line;
+}
+
+function keyName(key: Node, computed: boolean): string | undefined {
+  if (!computed && (key.type === AST_NODE_TYPES.Identifier || key.type === AST_NODE_TYPES.PrivateIdentifier)) {
+    return key.name;
+  }
+  if (key.type === AST_NODE_TYPES.Literal && typeof key.value === 'string') return key.value;
+  return undefined;
+}
+
+function isFunctionOrClass(node: Node | null | undefined): boolean {
+  return node?.type === AST_NODE_TYPES.FunctionExpression
+    || node?.type === AST_NODE_TYPES.ArrowFunctionExpression
+    || node?.type === AST_NODE_TYPES.ClassExpression;
+}
+
+/** Name a node contributes to the scope path, if it declares a function, method or class. */
+function scopeName(node: Node): string | undefined {
+  switch (node.type) {
+    case AST_NODE_TYPES.FunctionDeclaration:
+    case AST_NODE_TYPES.FunctionExpression:
+    case AST_NODE_TYPES.ClassDeclaration:
+    case AST_NODE_TYPES.ClassExpression:
+      return node.id?.name;
+    case AST_NODE_TYPES.MethodDefinition:
+      return keyName(node.key, node.computed);
+    case AST_NODE_TYPES.PropertyDefinition:
+    case AST_NODE_TYPES.Property:
+      return isFunctionOrClass(node.value as Node) ? keyName(node.key, node.computed) : undefined;
+    case AST_NODE_TYPES.VariableDeclarator:
+      return node.id.type === AST_NODE_TYPES.Identifier && isFunctionOrClass(node.init) ? node.id.name : undefined;
+    default:
+      return undefined;
+  }
+}
+
+function astScope(program: TSESTree.Program, line: number): string {
+  const names: string[] = [];
+  let node: Node | undefined = program;
+  while (node) {
+    node = childNodes(node).find(child => contains(child, line));
+    const name = node && scopeName(node);
+    // A named function expression assigned to a named binding is one scope
+    if (name && names[names.length - 1] !== name) names.push(name);
+  }
+  return names.join('.');
+}
+
+function indentation(line: string): number {
+  return line.length - line.trimStart().length;
+}
+
+/** Enclosing declarations found by walking up to lines indented less than the match. */
+function indentationScope(lines: string[], line: number): string {
+  const names: string[] = [];
+  let index = Math.min(line, lines.length) - 1;
+  while (index >= 0 && lines[index].trim() === '') index--;
+  if (index < 0) return '';
+
+  let indent = indentation(lines[index]);
+  for (let i = index - 1; i >= 0 && indent > 0; i--) {
+    if (lines[i].trim() === '' || indentation(lines[i]) >= indent) continue;
+    indent = indentation(lines[i]);
+    const match = SCOPE_DECLARATION.exec(lines[i]);
+    if (match) names.unshift(match[1]);
+  }
+  return names.join('.');
+}
+
+/**
+ * Name of the innermost function, method or class around a line, joined with
+ * its enclosing ones (`PatientService.export`). JavaScript and TypeScript are
+ * parsed; other languages are read by indentation. Empty at the top level.
+ */
+export function findEnclosingScope(filePath: string, content: string, line: number): string {
+  const program = AST_FILE.test(filePath) ? parseModule(filePath, content) : undefined;
+  return program ? astScope(program, line) : indentationScope(content.split('\n'), line);
+}
+
+export interface FingerprintParts {
+  ruleId: string;
+  /** Path relative to the scan root, with forward slashes. */
+  file: string;
+  snippet: string;
+  scope: string;
+  /** Position among findings with the same other parts, from 0. */
+  occurrence?: number;
+}
+
+export function hashFingerprint(parts: FingerprintParts): string {
+  const key = [parts.ruleId, parts.file, parts.snippet, parts.scope, parts.occurrence ?? 0].join('\0');
+  return createHash('sha256').update(key).digest('hex').substring(0, 16);
+}
+
+/**
+ * Fingerprint of a finding whose file is not at hand: the snippet comes from
+ * the finding's context and the scope is left empty. Findings returned by
+ * `scan()` already carry their full fingerprint.
+ */
+export function computeFingerprint(finding: Finding, rootPath = process.cwd()): string {
+  const matched = finding.context?.find(c => c.isMatch)?.content ?? '';
+  return hashFingerprint({
+    ruleId: stableRuleId(finding),
+    file: relativeFile(finding.file, rootPath),
+    snippet: normalizeSnippet(matched),
+    scope: '',
+  });
+}
+
+/**
+ * Set `fingerprint` on every finding. Each file is read and parsed once;
+ * findings in files that cannot be read fall back to their context.
+ */
+export async function fingerprintFindings(findings: Finding[], rootPath: string): Promise<Finding[]> {
+  const partsByFinding = new Map<Finding, FingerprintParts>();
+  const byFile = new Map<string, Finding[]>();
+  for (const finding of findings) {
+    byFile.set(finding.file, [...(byFile.get(finding.file) ?? []), finding]);
+  }
+
+  for (const [file, fileFindings] of byFile) {
+    let lines: string[] | undefined;
+    let scopeAt = (_line: number): string => '';
+    try {
+      const source = await readSourceFile(file);
+      lines = source.lines;
+      const program = AST_FILE.test(file) ? parseModule(file, source.content) : undefined;
+      scopeAt = program ? line => astScope(program, line) : line => indentationScope(source.lines, line);
+    } catch {
+      // Virtual and unreadable files are fingerprinted from the finding alone
+    }
+
+    // Identical parts on different lines are numbered in line order
+    const lineOrder = [...fileFindings].sort((a, b) => (a.line ?? 0) - (b.line ?? 0));
+    const occurrences = new Map<string, number[]>();
+    for (const finding of lineOrder) {
+      const matched = finding.line && lines?.[finding.line - 1] !== undefined
+        ? lines[finding.line - 1]
+        : finding.context?.find(c => c.isMatch)?.content ?? '';
+      const parts: FingerprintParts = {
+        ruleId: stableRuleId(finding),
+        file: relativeFile(file, rootPath),
+        snippet: normalizeSnippet(matched),
+        scope: finding.line ? scopeAt(finding.line) : '',
+      };
+      const key = hashFingerprint(parts);
+      const seenLines = occurrences.get(key) ?? [];
+      const line = finding.line ?? 0;
+      if (!seenLines.includes(line)) seenLines.push(line);
+      occurrences.set(key, seenLines);
+      parts.occurrence = seenLines.indexOf(line);
+      partsByFinding.set(finding, parts);
+    }
+  }
+
+  return findings.map(finding => ({ ...finding, fingerprint: hashFingerprint(partsByFinding.get(finding)!) }));
+}
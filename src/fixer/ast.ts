@@ -0,0 +1,345 @@
+/**
+ * AST-aware fixes for TypeScript and JavaScript.
+ *
+ * The line strategies in `strategies.ts` see one line at a time, so a
+ * `console.log(` call spread over several lines, or a SQL template literal
+ * spanning a block, cannot be fixed without breaking syntax. Here the
+ * typescript-estree AST locates the whole construct: a fix replaces every
+ * line it occupies and may ask for imports (e.g. the redaction helper).
+ * Fix types without an AST strategy, and other languages, keep using the line
+ * strategies.
+ */
+
+import { AST_NODE_TYPES, type TSESTree } from '@typescript-eslint/typescript-estree';
+import type { BuiltinFixType, FixType, RedactionHelperConfig } from '../types.js';
+import { applyFixStrategy } from './strategies.js';
+
+type Node = TSESTree.Node;
+
+/** Replace `count` lines starting at the 0-based `index` with `lines`. */
+export interface LineEdit {
+  index: number;
+  count: number;
+  lines: string[];
+}
+
+export interface RequiredImport {
+  name: string;
+  module: string;
+}
+
+export interface AstFix {
+  edit: LineEdit;
+  /** Names the fixed code uses that the module may not import yet. */
+  imports: RequiredImport[];
+}
+
+export interface AstFixOptions {
+  /** Helper `phi-log-unredacted` wraps logged values in. Default name: `redactPHI`, no import. */
+  redactionHelper?: RedactionHelperConfig;
+}
+
+interface AstFixContext {
+  program: TSESTree.Program;
+  content: string;
+  lines: string[];
+  /** 1-based line of the finding. */
+  line: number;
+  fixType: FixType;
+  options: AstFixOptions;
+}
+
+type AstFixStrategy = (context: AstFixContext) => AstFix | null;
+
+const DEFAULT_REDACTION_HELPER = 'redactPHI';
+const LOGGER_METHODS = new Set(['log', 'info', 'debug', 'warn', 'error']);
+
+/** Logged values worth redacting; literals and message templates are left alone. */
+const REDACTED_ARGUMENT_TYPES = new Set<string>([
+  AST_NODE_TYPES.Identifier,
+  AST_NODE_TYPES.MemberExpression,
+  AST_NODE_TYPES.ChainExpression,
+  AST_NODE_TYPES.ObjectExpression,
+  AST_NODE_TYPES.ArrayExpression,
+  AST_NODE_TYPES.CallExpression,
+  AST_NODE_TYPES.AwaitExpression,
+]);
+
+/** Whether AST fixes apply to a file (TS/JS sources, not declarations). */
+export function supportsAstFixes(filePath: string): boolean {
+  return /\.(ts|tsx|mts|cts|js|jsx|mjs|cjs)$/.test(filePath) && !/\.d\.[mc]?ts$/.test(filePath);
+}
+
+export function applyLineEdit(content: string, edit: LineEdit): string {
+  const lines = content.split('\n');
+  lines.splice(edit.index, edit.count, ...edit.lines);
+  return lines.join('\n');
+}
+
+function isNode(value: unknown): value is Node {
+  return typeof value === 'object' && value !== null && typeof (value as Node).type === 'string';
+}
+
+/** Nodes spanning `line` that match, outermost first. */
+function nodesAt<T extends Node>(root: Node, line: number, match: (node: Node) => node is T): T[] {
+  const found: T[] = [];
+  const visit = (node: Node): void => {
+    if (node.loc.start.line > line || node.loc.end.line < line) return;
+    if (match(node)) found.push(node);
+    for (const [key, value] of Object.entries(node)) {
+      if (key === 'parent') continue;
+      if (Array.isArray(value)) {
+        for (const child of value) if (isNode(child)) visit(child);
+      } else if (isNode(value)) {
+        visit(value);
+      }
+    }
+  };
+  visit(root);
+  return found;
+}
+
+/** Offset of the start of a 0-based line. */
+function lineOffset(lines: string[], index: number): number {
+  let offset = 0;
+  for (let i = 0; i < index; i++) offset += lines[i].length + 1;
+  return offset;
+}
+
+/**
+ * Rewrite source ranges inside the full lines of `node`, as an edit of those
+ * lines.
+ */
+function replaceRanges(
+  context: AstFixContext,
+  node: Node,
+  replacements: Array<{ range: [number, number]; text: string }>
+): LineEdit {
+  const start = node.loc.start.line - 1;
+  const end = node.loc.end.line - 1;
+  const base = lineOffset(context.lines, start);
+  let text = context.lines.slice(start, end + 1).join('\n');
+  for (const { range, text: replacement } of [...replacements].sort((a, b) => b.range[0] - a.range[0])) {
+    text = text.slice(0, range[0] - base) + replacement + text.slice(range[1] - base);
+  }
+  return { index: start, count: end - start + 1, lines: text.split('\n') };
+}
+
+function sourceOf(context: AstFixContext, node: Node): string {
+  return context.content.slice(node.range[0], node.range[1]);
+}
+
+function isStatement(node: Node): node is TSESTree.ExpressionStatement | TSESTree.VariableDeclaration {
+  return node.type === AST_NODE_TYPES.ExpressionStatement || node.type === AST_NODE_TYPES.VariableDeclaration;
+}
+
+function isCall(node: Node): node is TSESTree.CallExpression {
+  return node.type === AST_NODE_TYPES.CallExpression;
+}
+
+/**
+ * For the line strategies that comment a statement out: comment out every
+ * line of a statement that continues below the finding line, not just the
+ * first. The statement must not share its lines with other code.
+ */
+const commentOutStatement: AstFixStrategy = context => {
+  const statement = nodesAt(context.program, context.line, isStatement)
+    .find(node => node.loc.start.line === context.line);
+  if (!statement || statement.loc.end.line === context.line) return null;
+
+  const start = statement.loc.start.line - 1;
+  const end = statement.loc.end.line - 1;
+  if (context.lines[start].slice(0, statement.loc.start.column).trim() !== '') return null;
+  if (context.lines[end].slice(statement.loc.end.column).trim() !== '') return null;
+
+  const first = applyFixStrategy(context.lines[start], context.fixType);
+  if (first === null) return null;
+  const fixed = first.split('\n');
+  if (!fixed.every(line => line.trimStart().startsWith('//'))) return null;
+
+  const indent = context.lines[start].match(/^\s*/)![0];
+  const rest = context.lines.slice(start + 1, end + 1).map(line => {
+    const code = line.startsWith(indent) ? line.slice(indent.length) : line.trimStart();
+    return `${indent}// ${code}`.trimEnd();
+  });
+  return { edit: { index: start, count: end - start + 1, lines: [...fixed, ...rest] }, imports: [] };
+};
+
+function isLoggerCall(node: Node): node is TSESTree.CallExpression {
+  if (node.type !== AST_NODE_TYPES.CallExpression) return false;
+  const callee = node.callee;
+  if (callee.type !== AST_NODE_TYPES.MemberExpression || callee.computed) return false;
+  if (callee.property.type !== AST_NODE_TYPES.Identifier || !LOGGER_METHODS.has(callee.property.name)) return false;
+  const object = callee.object;
+  return (object.type === AST_NODE_TYPES.Identifier && object.name === 'logger')
+    || (object.type === AST_NODE_TYPES.MemberExpression && !object.computed
+      && object.property.type === AST_NODE_TYPES.Identifier && object.property.name === 'logger');
+}
+
+/** Wrap the values passed to a logger call, on any of its lines, in the redaction helper. */
+const redactLoggedValues: AstFixStrategy = context => {
+  const call = nodesAt(context.program, context.line, isLoggerCall).pop();
+  if (!call) return null;
+
+  const helper = context.options.redactionHelper;
+  const name = helper?.name ?? DEFAULT_REDACTION_HELPER;
+  const values = call.arguments.filter(arg =>
+    REDACTED_ARGUMENT_TYPES.has(arg.type)
+    && !(arg.type === AST_NODE_TYPES.Identifier && arg.name === 'undefined')
+    && !(arg.type === AST_NODE_TYPES.CallExpression
+      && arg.callee.type === AST_NODE_TYPES.Identifier && arg.callee.name === name)
+  );
+  if (values.length === 0) return null;
+
+  return {
+    edit: replaceRanges(context, call, values.map(arg => ({
+      range: arg.range,
+      text: `${name}(${sourceOf(context, arg)})`,
+    }))),
+    imports: helper?.module ? [{ name, module: helper.module }] : [],
+  };
+};
+
+/** Turn a query call on an interpolated template literal into a parameterized one. */
+const parameterizeTemplateQuery: AstFixStrategy = context => {
+  const call = nodesAt(context.program, context.line, isCall)
+    .filter(node => node.arguments.length === 1
+      && node.arguments[0].type === AST_NODE_TYPES.TemplateLiteral
+      && node.arguments[0].expressions.length > 0)
+    .pop();
+  if (!call) return null;
+
+  const template = call.arguments[0] as TSESTree.TemplateLiteral;
+  const sql = template.quasis.map(quasi => quasi.value.raw).join('?');
+  const literal = /[\n'\\]/.test(sql) ? `\`${sql}\`` : `'${sql}'`;
+  const params = template.expressions.map(expression => sourceOf(context, expression));
+
+  return {
+    edit: replaceRanges(context, call, [{ range: template.range, text: `${literal}, [${params.join(', ')}]` }]),
+    imports: [],
+  };
+};
+
+const astFixStrategies: Partial<Record<BuiltinFixType, AstFixStrategy>> = {
+  'phi-console-log': commentOutStatement,
+  'phi-localstorage': commentOutStatement,
+  'phi-url-param': commentOutStatement,
+  'backup-unencrypted': commentOutStatement,
+  'phi-log-unredacted': redactLoggedValues,
+  'sql-injection-template': parameterizeTemplateQuery,
+};
+
+/**
+ * The AST fix of a finding at the 1-based `line`, or null when the fix type
+ * has no AST strategy or the construct is not one it handles (the line
+ * strategy is used then).
+ */
+export function createAstFix(
+  program: TSESTree.Program,
+  content: string,
+  line: number,
+  fixType: FixType,
+  options: AstFixOptions = {}
+): AstFix | null {
+  const strategy = astFixStrategies[fixType as BuiltinFixType];
+  if (!strategy) return null;
+  return strategy({ program, content, lines: content.split('\n'), line, fixType, options });
+}
+
+function isRequireDeclaration(node: Node): node is TSESTree.VariableDeclaration {
+  return node.type === AST_NODE_TYPES.VariableDeclaration && node.declarations.some(declaration =>
+    declaration.init?.type === AST_NODE_TYPES.CallExpression
+    && declaration.init.callee.type === AST_NODE_TYPES.Identifier
+    && declaration.init.callee.name === 'require'
+  );
+}
+
+function isDirective(node: Node): boolean {
+  return node.type === AST_NODE_TYPES.ExpressionStatement && node.directive !== undefined;
+}
+
+/** Names bound at the top level of a module. */
+function topLevelNames(program: TSESTree.Program): Set<string> {
+  const names = new Set<string>();
+  const addPattern = (pattern: Node): void => {
+    if (pattern.type === AST_NODE_TYPES.Identifier) {
+      names.add(pattern.name);
+    } else if (pattern.type === AST_NODE_TYPES.ObjectPattern) {
+      for (const property of pattern.properties) {
+        addPattern(property.type === AST_NODE_TYPES.Property ? property.value : property.argument);
+      }
+    } else if (pattern.type === AST_NODE_TYPES.ArrayPattern) {
+      for (const element of pattern.elements) if (element) addPattern(element);
+    } else if (pattern.type === AST_NODE_TYPES.AssignmentPattern) {
+      addPattern(pattern.left);
+    } else if (pattern.type === AST_NODE_TYPES.RestElement) {
+      addPattern(pattern.argument);
+    }
+  };
+
+  for (const statement of program.body) {
+    const declaration = statement.type === AST_NODE_TYPES.ExportNamedDeclaration ? statement.declaration : statement;
+    if (!declaration) continue;
+    if (declaration.type === AST_NODE_TYPES.ImportDeclaration) {
+      for (const specifier of declaration.specifiers) names.add(specifier.local.name);
+    } else if (declaration.type === AST_NODE_TYPES.VariableDeclaration) {
+      for (const declarator of declaration.declarations) addPattern(declarator.id);
+    } else if (
+      (declaration.type === AST_NODE_TYPES.FunctionDeclaration || declaration.type === AST_NODE_TYPES.ClassDeclaration)
+      && declaration.id
+    ) {
+      names.add(declaration.id.name);
+    }
+  }
+  return names;
+}
+
+/**
+ * Edit adding the imports a module does not bind yet, after its last import
+ * (`require` for CommonJS) or, without one, at the top after any shebang and
+ * directive prologue. Matches the quotes and semicolons of the existing
+ * imports. Null when nothing is missing.
+ */
+export function createImportEdit(
+  program: TSESTree.Program,
+  content: string,
+  filePath: string,
+  imports: RequiredImport[]
+): LineEdit | null {
+  const bound = topLevelNames(program);
+  const byModule = new Map<string, string[]>();
+  for (const { name, module } of imports) {
+    if (bound.has(name)) continue;
+    bound.add(name);
+    byModule.set(module, [...(byModule.get(module) ?? []), name]);
+  }
+  if (byModule.size === 0) return null;
+
+  const lines = content.split('\n');
+  const esImports = program.body.filter(statement => statement.type === AST_NODE_TYPES.ImportDeclaration);
+  const requires = program.body.filter(isRequireDeclaration);
+  const commonJs = esImports.length === 0 && (filePath.endsWith('.cjs') || requires.length > 0);
+  const anchor = (commonJs ? requires : esImports).at(-1);
+
+  const anchorSource = anchor ? content.slice(anchor.range[0], anchor.range[1]) : '';
+  const quote = anchorSource.match(/['"]/)?.[0] === '"' ? '"' : "'";
+  const semicolon = !anchor || anchorSource.endsWith(';') ? ';' : '';
+  const importLines = [...byModule].map(([module, names]) => commonJs
+    ? `const { ${names.join(', ')} } = require(${quote}${module}${quote})${semicolon}`
+    : `import { ${names.join(', ')} } from ${quote}${module}${quote}${semicolon}`);
+
+  if (anchor) {
+    const index = anchor.loc.end.line - 1;
+    return { index, count: 1, lines: [lines[index], ...importLines] };
+  }
+
+  const prologue = program.body.filter((statement, i) => program.body.slice(0, i + 1).every(isDirective)).at(-1);
+  if (prologue) {
+    const index = prologue.loc.end.line - 1;
+    return { index, count: 1, lines: [lines[index], '', ...importLines] };
+  }
+  if (lines[0].startsWith('#!')) {
+    return { index: 0, count: 1, lines: [lines[0], ...importLines] };
+  }
+  return { index: 0, count: 1, lines: [...importLines, '', lines[0]] };
+}
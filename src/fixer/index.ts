@@ -1,7 +1,19 @@
 import { readFile, writeFile } from 'fs/promises';
 import type { Finding, FixResult, FixReport, AuditTrail } from '../types.js';
 import { applyFixStrategy } from './strategies.js';
-import { createEvidence } from '../audit/evidence.js';
+import { createPatch, type FileChange } from './patch.js';
+import {
+  applyLineEdit,
+  createAstFix,
+  createImportEdit,
+  supportsAstFixes,
+  type AstFix,
+  type AstFixOptions,
+  type RequiredImport,
+} from './ast.js';
+import { parseModule } from '../utils/ast.js';
+import { getGitPrefix } from '../utils/git-diff.js';
+import { createEvidence, generateAuditTrailHash } from '../audit/evidence.js';
 import {
   createAuditTrail,
   addEvidence,
@@ -9,6 +21,7 @@ import {
   updateScanStats,
   finalizeAuditTrail,
   saveAuditTrail,
+  loadAuditTrail,
 } from '../audit/index.js';
 
 interface FileFixGroup {
@@ -18,6 +31,19 @@ interface FileFixGroup {
 
 interface FixReportWithAudit extends FixReport {
   auditTrail: AuditTrail;
+  /** Per-file changes, for diffs and patches. */
+  files: FileChange[];
+}
+
+export interface ApplyFixesOptions extends AstFixOptions {
+  /** Compute the fixes without writing files or the audit trail. */
+  dryRun?: boolean;
+  /**
+   * Write the fixes as a `git apply` patch to this path instead of changing
+   * the working tree. Inside a git work tree, paths are relative to its root.
+   * Nothing was applied, so the audit trail is not saved.
+   */
+  patchFile?: string;
 }
 
 function groupFindingsByFile(findings: Finding[]): FileFixGroup[] {
@@ -37,51 +63,107 @@ function groupFindingsByFile(findings: Finding[]): FileFixGroup[] {
   }));
 }
 
+/**
+ * Plan the fix of a finding on the current content of its file: the AST fix
+ * for TS/JS when its fix type has one, else the line strategy. In TS/JS files
+ * that parse, a fix whose result no longer parses is dropped.
+ */
+export function planFix(content: string, filePath: string, finding: Finding, options: AstFixOptions = {}): AstFix | null {
+  if (!finding.line || !finding.fixType) return null;
+  const lines = content.split('\n');
+  const lineIndex = finding.line - 1;
+  if (lineIndex < 0 || lineIndex >= lines.length) return null;
+
+  const program = supportsAstFixes(filePath) ? parseModule(filePath, content) : undefined;
+  let fix = program ? createAstFix(program, content, finding.line, finding.fixType, options) : null;
+  if (!fix) {
+    const fixedLine = applyFixStrategy(lines[lineIndex], finding.fixType);
+    if (fixedLine === null || fixedLine === lines[lineIndex]) return null;
+    fix = { edit: { index: lineIndex, count: 1, lines: fixedLine.split('\n') }, imports: [] };
+  }
+
+  if (program && !parseModule(filePath, applyLineEdit(content, fix.edit))) return null;
+  return fix;
+}
+
+/**
+ * Edit adding the imports that fixed code needs, when the module does not
+ * bind them yet and the result still parses.
+ */
+function planImports(content: string, filePath: string, imports: RequiredImport[]) {
+  const program = imports.length > 0 ? parseModule(filePath, content) : undefined;
+  const edit = program ? createImportEdit(program, content, filePath, imports) : null;
+  return edit && parseModule(filePath, applyLineEdit(content, edit)) ? edit : null;
+}
+
 export async function applyFixes(
   findings: Finding[],
   projectPath: string,
   scannedFiles: number = 0,
-  scanDuration: number = 0
+  scanDuration: number = 0,
+  options: ApplyFixesOptions = {}
 ): Promise<FixReportWithAudit> {
   const fixableFindings = findings.filter(f => f.fixType);
   const fixes: FixResult[] = [];
+  const files: FileChange[] = [];
+  const writeFiles = !options.dryRun && !options.patchFile;
 
-  // Create audit trail
-  const auditTrail = createAuditTrail(projectPath);
+  // Append to the project's audit trail, so its chain and history carry on
+  const auditTrail = await loadAuditTrail(projectPath) ?? createAuditTrail(projectPath);
+  const previousEvidence = auditTrail.evidence.length;
 
   const fileGroups = groupFindingsByFile(fixableFindings);
 
   for (const group of fileGroups) {
     try {
       const contentBefore = await readFile(group.filePath, 'utf-8');
-      const linesBefore = contentBefore.split('\n');
-      const lines = [...linesBefore]; // Copy for modification
-      let modified = false;
+      const replacements = new Map<number, string[]>();
+      let contentCurrent = contentBefore;
+      // Fixes run bottom-up, so lines above `edited` still have their original numbers
+      let edited = contentBefore.split('\n').length;
+      const imports: Array<{ finding: Finding; required: RequiredImport[] }> = [];
 
       // Process findings from bottom to top to preserve line numbers
       for (const finding of group.findings) {
         if (!finding.line || !finding.fixType) continue;
 
+        const lines = contentCurrent.split('\n');
         const lineIndex = finding.line - 1;
         if (lineIndex < 0 || lineIndex >= lines.length) continue;
 
-        const originalLine = lines[lineIndex];
-        const fixedLine = applyFixStrategy(originalLine, finding.fixType);
-
-        if (fixedLine !== null && fixedLine !== originalLine) {
-          lines[lineIndex] = fixedLine;
-          modified = true;
-
-          // Create evidence BEFORE writing (using original content and proposed new content)
-          const contentAfterFix = lines.join('\n');
+        const fix = planFix(contentCurrent, group.filePath, finding, options);
+        const edit = fix?.edit;
+        // A fix may only touch lines no earlier fix changed, or refine the
+        // first line of the last one
+        const free = edit && edit.index + edit.count <= edited;
+        const sameLine = edit && edit.index === edited && edit.count === 1;
+
+        if (fix && edit && (free || sameLine)) {
+          const originalLine = lines.slice(edit.index, edit.index + edit.count).join('\n');
+          const fixedLine = edit.lines.join('\n');
+          if (free) {
+            replacements.set(edit.index, edit.lines);
+            for (let i = 1; i < edit.count; i++) replacements.set(edit.index + i, []);
+            edited = edit.index;
+          } else {
+            replacements.set(edit.index, [...edit.lines, ...replacements.get(edit.index)!.slice(1)]);
+          }
+          if (fix.imports.length > 0) imports.push({ finding, required: fix.imports });
+
+          // Evidence chains per file: each fix starts from the content the
+          // previous one produced, so the first hash before and the last hash
+          // after are those of the file's patch
+          const contentAfterFix = applyLineEdit(contentCurrent, edit);
           const evidence = await createEvidence(
             finding,
             group.filePath,
-            contentBefore,
+            contentCurrent,
             contentAfterFix,
-            lineIndex,
-            finding.fixType
+            edit.index,
+            finding.fixType,
+            edit.count
           );
+          contentCurrent = contentAfterFix;
 
           addEvidence(auditTrail, evidence);
 
@@ -96,15 +178,37 @@ export async function applyFixes(
           fixes.push({
             finding,
             fixed: false,
-            originalLine,
-            fixedLine: originalLine,
+            originalLine: lines[lineIndex],
+            fixedLine: lines[lineIndex],
             fixType: finding.fixType,
           });
         }
       }
 
-      if (modified) {
-        await writeFile(group.filePath, lines.join('\n'));
+      // Imports go in last, above every fix, with evidence of their own
+      const importEdit = planImports(contentCurrent, group.filePath, imports.flatMap(i => i.required));
+      if (importEdit && importEdit.index + importEdit.count <= edited) {
+        const { finding } = imports[0];
+        replacements.set(importEdit.index, importEdit.lines);
+        const contentAfterImports = applyLineEdit(contentCurrent, importEdit);
+        const evidence = await createEvidence(
+          finding,
+          group.filePath,
+          contentCurrent,
+          contentAfterImports,
+          importEdit.index,
+          finding.fixType!
+        );
+        evidence.description = `Auto-fixed: ${finding.title} (added import)`;
+        contentCurrent = contentAfterImports;
+        addEvidence(auditTrail, evidence);
+      }
+
+      if (replacements.size > 0) {
+        files.push({ filePath: group.filePath, contentBefore, contentAfter: contentCurrent, replacements });
+        if (writeFiles) {
+          await writeFile(group.filePath, contentCurrent);
+        }
       }
     } catch {
       // If we can't read/write the file, mark all findings as not fixed
@@ -133,7 +237,15 @@ export async function applyFixes(
 
   // Finalize and save audit trail
   finalizeAuditTrail(auditTrail);
-  await saveAuditTrail(auditTrail, projectPath);
+  if (options.patchFile) {
+    // `git apply` resolves paths from the root of the work tree
+    const prefix = await getGitPrefix(projectPath) ?? '';
+    const evidenceHash = generateAuditTrailHash(auditTrail.evidence.slice(previousEvidence));
+    await writeFile(options.patchFile, createPatch(files, projectPath, { prefix, evidenceHash }));
+  }
+  if (writeFiles) {
+    await saveAuditTrail(auditTrail, projectPath);
+  }
 
   return {
     totalFindings: findings.length,
@@ -141,6 +253,64 @@ export async function applyFixes(
     skippedCount: nonFixableCount + skippedFixableCount,
     fixes,
     auditTrail,
+    files,
+  };
+}
+
+/**
+ * Apply the fix of one finding and append its evidence to the project's
+ * existing audit trail (used by interactive triage).
+ */
+export async function applyFixWithEvidence(
+  finding: Finding,
+  projectPath: string,
+  options: AstFixOptions = {}
+): Promise<FixResult> {
+  const notFixed = (originalLine: string): FixResult => ({
+    finding,
+    fixed: false,
+    originalLine,
+    fixedLine: originalLine,
+    fixType: finding.fixType!,
+  });
+  if (!finding.fixType || !finding.line) return notFixed('');
+
+  const contentBefore = await readFile(finding.file, 'utf-8');
+  const originalLine = contentBefore.split('\n')[finding.line - 1];
+  if (originalLine === undefined) return notFixed('');
+
+  const fix = planFix(contentBefore, finding.file, finding, options);
+  if (!fix) return notFixed(originalLine);
+
+  const { edit } = fix;
+  const contentAfter = applyLineEdit(contentBefore, edit);
+  const auditTrail = await loadAuditTrail(projectPath) ?? createAuditTrail(projectPath);
+  addEvidence(
+    auditTrail,
+    await createEvidence(finding, finding.file, contentBefore, contentAfter, edit.index, finding.fixType, edit.count)
+  );
+
+  let contentWritten = contentAfter;
+  const importEdit = planImports(contentAfter, finding.file, fix.imports);
+  if (importEdit && importEdit.index + importEdit.count <= edit.index) {
+    contentWritten = applyLineEdit(contentAfter, importEdit);
+    const evidence = await createEvidence(
+      finding, finding.file, contentAfter, contentWritten, importEdit.index, finding.fixType
+    );
+    evidence.description = `Auto-fixed: ${finding.title} (added import)`;
+    addEvidence(auditTrail, evidence);
+  }
+  finalizeAuditTrail(auditTrail);
+
+  await writeFile(finding.file, contentWritten);
+  await saveAuditTrail(auditTrail, projectPath);
+
+  return {
+    finding,
+    fixed: true,
+    originalLine: contentBefore.split('\n').slice(edit.index, edit.index + edit.count).join('\n'),
+    fixedLine: edit.lines.join('\n'),
+    fixType: finding.fixType,
   };
 }
 
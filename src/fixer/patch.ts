@@ -0,0 +1,150 @@
+import { createHash } from 'crypto';
+import * as path from 'path';
+import chalk from 'chalk';
+import { hashContent } from '../audit/evidence.js';
+
+const CONTEXT_LINES = 3;
+
+/** The fixes applied to one file: original lines replaced by one or more lines. */
+export interface FileChange {
+  filePath: string;
+  contentBefore: string;
+  contentAfter: string;
+  /** 0-based line of `contentBefore` → the lines that replace it. */
+  replacements: Map<number, string[]>;
+}
+
+/** Apply line replacements to file content. */
+export function applyReplacements(content: string, replacements: Map<number, string[]>): string {
+  return content
+    .split('\n')
+    .flatMap((line, index) => replacements.get(index) ?? [line])
+    .join('\n');
+}
+
+/** Git's object id for file content, as in the `index` line of a git diff. */
+function gitBlobId(content: string): string {
+  return createHash('sha1')
+    .update(`blob ${Buffer.byteLength(content, 'utf8')}\0`)
+    .update(content, 'utf8')
+    .digest('hex');
+}
+
+/** Lines of a file, without the empty element after a trailing newline. */
+function splitLines(content: string): { lines: string[]; missingNewline: boolean } {
+  const lines = content.split('\n');
+  if (lines[lines.length - 1] === '') {
+    lines.pop();
+    return { lines, missingNewline: false };
+  }
+  return { lines, missingNewline: true };
+}
+
+function patchPath(filePath: string, rootPath: string, prefix: string): string {
+  return prefix + path.relative(rootPath, filePath).split(path.sep).join('/');
+}
+
+/**
+ * Unified diff of one file in git format (`diff --git` header, `index` line
+ * with blob ids). Paths are relative to `rootPath`, after `prefix` (the path
+ * of `rootPath` in its git work tree, as `git apply` expects).
+ */
+export function createFileDiff(change: FileChange, rootPath: string, prefix = ''): string {
+  const relative = patchPath(change.filePath, rootPath, prefix);
+  const { lines, missingNewline } = splitLines(change.contentBefore);
+  const changed = [...change.replacements.keys()].filter(i => i < lines.length).sort((a, b) => a - b);
+
+  const output = [
+    `diff --git a/${relative} b/${relative}`,
+    `index ${gitBlobId(change.contentBefore).slice(0, 12)}..${gitBlobId(change.contentAfter).slice(0, 12)}`,
+    `--- a/${relative}`,
+    `+++ b/${relative}`,
+  ];
+
+  // Group changed lines whose context overlaps into hunks
+  const hunks: Array<{ start: number; end: number }> = [];
+  for (const index of changed) {
+    const start = Math.max(0, index - CONTEXT_LINES);
+    const end = Math.min(lines.length - 1, index + CONTEXT_LINES);
+    const last = hunks[hunks.length - 1];
+    if (last && start <= last.end + 1) {
+      last.end = end;
+    } else {
+      hunks.push({ start, end });
+    }
+  }
+
+  // Lines added by replacements above a hunk move its start in the new file
+  const growth = (from: number, to: number): number => changed
+    .filter(i => i >= from && i < to)
+    .reduce((sum, i) => sum + change.replacements.get(i)!.length - 1, 0);
+
+  const { lines: linesAfter, missingNewline: missingNewlineAfter } = splitLines(change.contentAfter);
+  const lastNewLine = linesAfter.length - 1;
+
+  for (const { start, end } of hunks) {
+    const oldCount = end - start + 1;
+    const newStart = start + growth(0, start);
+    const newCount = oldCount + growth(start, end + 1);
+    output.push(`@@ -${start + 1},${oldCount} +${newStart + 1},${newCount} @@`);
+
+    let newIndex = newStart;
+    for (let index = start; index <= end; index++) {
+      const replacement = change.replacements.get(index);
+      const isLastOld = index === lines.length - 1;
+      if (!replacement) {
+        output.push(` ${lines[index]}`);
+        if (isLastOld && missingNewline) output.push('\\ No newline at end of file');
+        newIndex++;
+        continue;
+      }
+      output.push(`-${lines[index]}`);
+      if (isLastOld && missingNewline) output.push('\\ No newline at end of file');
+      for (const line of replacement) {
+        output.push(`+${line}`);
+        if (newIndex === lastNewLine && missingNewlineAfter) output.push('\\ No newline at end of file');
+        newIndex++;
+      }
+    }
+  }
+
+  return output.join('\n') + '\n';
+}
+
+/**
+ * A `git apply`-compatible patch of the changes. The preamble (ignored by
+ * `git apply`) lists the SHA-256 of each file before and after, matching
+ * `fileHashBefore`/`fileHashAfter` in the evidence of the proposed fixes.
+ */
+export function createPatch(
+  changes: FileChange[],
+  rootPath: string,
+  options: { prefix?: string; evidenceHash?: string } = {}
+): string {
+  const prefix = options.prefix ?? '';
+  const preamble = [
+    `vlayer fix patch (${new Date().toISOString()})`,
+    ...(options.evidenceHash ? [`Evidence hash: ${options.evidenceHash}`] : []),
+    '',
+    ...changes.map(change =>
+      `${patchPath(change.filePath, rootPath, prefix)}: sha256 ${hashContent(change.contentBefore)} -> ${hashContent(change.contentAfter)}`
+    ),
+    '',
+  ];
+  return preamble.join('\n') + '\n' + changes.map(change => createFileDiff(change, rootPath, prefix)).join('');
+}
+
+/** Color a unified diff for the terminal. */
+export function colorizeDiff(diff: string): string {
+  return diff
+    .split('\n')
+    .map(line => {
+      if (line.startsWith('diff --git') || line.startsWith('index ')) return chalk.bold(line);
+      if (line.startsWith('---') || line.startsWith('+++')) return chalk.bold(line);
+      if (line.startsWith('@@')) return chalk.cyan(line);
+      if (line.startsWith('+')) return chalk.green(line);
+      if (line.startsWith('-')) return chalk.red(line);
+      return line;
+    })
+    .join('\n');
+}
@@ -0,0 +1,128 @@
+import { readFile, writeFile } from 'fs/promises';
+import { existsSync } from 'fs';
+import { randomUUID } from 'crypto';
+import type { AuditEvidence, AuditRollback, AuditTrail } from '../types.js';
+import { hashContent } from '../audit/evidence.js';
+import { finalizeAuditTrail, getAuditTrailPath, loadAuditTrail, saveAuditTrail } from '../audit/index.js';
+
+export interface RollbackOptions {
+  /** Evidence id, or an unambiguous prefix of one. */
+  evidenceId?: string;
+  /** Roll back every fix in the audit trail, latest first. */
+  all?: boolean;
+}
+
+export interface RollbackResult {
+  evidence: AuditEvidence;
+  rolledBack: boolean;
+  /** Why the rollback was refused. */
+  reason?: string;
+  rollback?: AuditRollback;
+}
+
+function findEvidence(trail: AuditTrail, evidenceId: string): AuditEvidence {
+  const exact = trail.evidence.find(e => e.id === evidenceId);
+  if (exact) return exact;
+
+  const matches = trail.evidence.filter(e => e.id.startsWith(evidenceId));
+  if (matches.length === 0) {
+    throw new Error(`No fix evidence with id ${evidenceId} in the audit trail`);
+  }
+  if (matches.length > 1) {
+    throw new Error(`Evidence id ${evidenceId} is ambiguous (${matches.length} matches); use more characters`);
+  }
+  return matches[0];
+}
+
+/**
+ * Restore the original lines of one fix. The file must be exactly as the fix
+ * left it: its hash must equal `fileHashAfter`, so edits made since (by hand
+ * or by a later fix) are never overwritten.
+ */
+async function rollbackEvidence(evidence: AuditEvidence): Promise<RollbackResult> {
+  const refuse = (reason: string): RollbackResult => ({ evidence, rolledBack: false, reason });
+
+  if (!existsSync(evidence.filePath)) {
+    return refuse('file no longer exists');
+  }
+
+  const content = await readFile(evidence.filePath, 'utf-8');
+  const currentHash = hashContent(content);
+  if (currentHash !== evidence.fileHashAfter) {
+    if (currentHash === evidence.fileHashBefore) {
+      return refuse('file does not contain the fix (it was never written, or is already undone)');
+    }
+    return refuse(
+      'file has changed since the fix was applied; roll back later fixes to it first, or restore it by hand'
+    );
+  }
+
+  const lines = content.split('\n');
+  const index = evidence.before.lineNumber - 1;
+  const fixedLines = evidence.after.content.split('\n');
+  if (lines.slice(index, index + fixedLines.length).join('\n') !== evidence.after.content) {
+    return refuse(`fixed lines not found at line ${evidence.before.lineNumber}`);
+  }
+
+  lines.splice(index, fixedLines.length, ...evidence.before.content.split('\n'));
+  const restored = lines.join('\n');
+  if (hashContent(restored) !== evidence.fileHashBefore) {
+    return refuse('restoring the recorded lines would not reproduce the original file');
+  }
+
+  await writeFile(evidence.filePath, restored, 'utf-8');
+
+  return {
+    evidence,
+    rolledBack: true,
+    rollback: {
+      id: randomUUID(),
+      evidenceId: evidence.id,
+      timestamp: new Date().toISOString(),
+      filePath: evidence.filePath,
+      lineNumber: evidence.before.lineNumber,
+      fileHashBefore: evidence.fileHashAfter,
+      fileHashAfter: evidence.fileHashBefore,
+    },
+  };
+}
+
+/**
+ * Undo fixes recorded in the project's audit trail and append a rollback
+ * record for each one restored. With `all`, fixes are undone in reverse
+ * order of application, so chained fixes to the same file unwind cleanly.
+ */
+export async function rollbackFixes(projectPath: string, options: RollbackOptions): Promise<RollbackResult[]> {
+  if (!options.evidenceId === !options.all) {
+    throw new Error('Specify either an evidence id or all');
+  }
+
+  const trail = await loadAuditTrail(projectPath);
+  if (!trail) {
+    throw new Error(`No audit trail found at ${getAuditTrailPath(projectPath)}`);
+  }
+
+  const rolledBack = new Set((trail.rollbacks ?? []).map(r => r.evidenceId));
+  const results: RollbackResult[] = [];
+
+  if (options.evidenceId) {
+    const evidence = findEvidence(trail, options.evidenceId);
+    results.push(rolledBack.has(evidence.id)
+      ? { evidence, rolledBack: false, reason: 'fix was already rolled back' }
+      : await rollbackEvidence(evidence));
+  } else {
+    for (const evidence of [...trail.evidence].reverse()) {
+      if (rolledBack.has(evidence.id)) continue;
+      results.push(await rollbackEvidence(evidence));
+    }
+  }
+
+  const records = results.flatMap(r => (r.rollback ? [r.rollback] : []));
+  if (records.length > 0) {
+    trail.rollbacks = [...(trail.rollbacks ?? []), ...records];
+    finalizeAuditTrail(trail);
+    await saveAuditTrail(trail, projectPath);
+  }
+
+  return results;
+}
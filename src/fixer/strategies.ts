@@ -1,7 +1,18 @@
-import type { FixType } from '../types.js';
+import type { BuiltinFixType, CompiledCustomRule, CustomRuleFixType, FixType, PluginFixType } from '../types.js';
 
 type FixStrategy = (line: string) => string | null;
 
+interface RegisteredFixStrategy {
+  apply: FixStrategy;
+  description?: string;
+}
+
+/** Strategies contributed by plugins, keyed by their namespaced fix type. */
+const pluginFixStrategies = new Map<PluginFixType, RegisteredFixStrategy>();
+
+/** Strategies built from the `fix` blocks of custom rules, keyed by `custom-<rule id>`. */
+const customRuleFixStrategies = new Map<CustomRuleFixType, RegisteredFixStrategy>();
+
 function toScreamingSnakeCase(varName: string): string {
   return varName
     .replace(/([a-z])([A-Z])/g, '$1_$2')
@@ -18,7 +29,7 @@ function extractVarName(line: string): string | null {
   return null;
 }
 
-const fixStrategies: Record<FixType, FixStrategy> = {
+const fixStrategies: Record<BuiltinFixType, FixStrategy> = {
   'sql-injection-template': (line: string): string | null => {
     // Pattern: query(`SELECT * FROM users WHERE id = ${userId}`)
     // Convert to: query('SELECT * FROM users WHERE id = ?', [userId])
@@ -242,9 +253,85 @@ const fixStrategies: Record<FixType, FixStrategy> = {
 };
 
 export function applyFixStrategy(line: string, fixType: FixType): string | null {
-  const strategy = fixStrategies[fixType];
+  const registered = pluginFixStrategies.get(fixType as PluginFixType)
+    ?? customRuleFixStrategies.get(fixType as CustomRuleFixType);
+  if (registered) {
+    return registered.apply(line);
+  }
+  const strategy = fixStrategies[fixType as BuiltinFixType];
   if (!strategy) {
     return null;
   }
   return strategy(line);
 }
+
+/**
+ * Register a plugin fix strategy. Plugin fix types are namespaced
+ * (`<namespace>:<fix>`), so they can never replace a built-in strategy.
+ */
+export function registerFixStrategy(fixType: PluginFixType, strategy: RegisteredFixStrategy): void {
+  if (!/^[\w@./-]+:[\w.-]+$/.test(fixType)) {
+    throw new Error(`Invalid plugin fix type "${fixType}": expected "<namespace>:<fix>"`);
+  }
+  pluginFixStrategies.set(fixType, strategy);
+}
+
+/**
+ * Build the strategy of a custom rule's `fix` block. Every match of the rule's
+ * pattern on the line is rewritten: `replace` substitutes `replacement`,
+ * `remove` deletes the match and `wrap` surrounds it with `wrapper.before` and
+ * `wrapper.after`. Replacements and wrappers may reference capture groups
+ * (`$1`, `$<name>`, `$&`).
+ */
+export function createCustomRuleFixStrategy(rule: CompiledCustomRule): FixStrategy | null {
+  const fix = rule.fix;
+  if (!fix) return null;
+
+  let replacement: string;
+  if (fix.type === 'replace' && fix.replacement !== undefined) {
+    replacement = fix.replacement;
+  } else if (fix.type === 'remove') {
+    replacement = '';
+  } else if (fix.type === 'wrap' && fix.wrapper) {
+    replacement = `${fix.wrapper.before}$&${fix.wrapper.after}`;
+  } else {
+    return null;
+  }
+
+  return (line: string): string | null => {
+    // A fresh regex per line, so lastIndex of the scanner's global pattern never leaks in
+    const pattern = new RegExp(rule.compiledPattern.source, rule.compiledPattern.flags);
+    pattern.lastIndex = 0;
+    if (!pattern.test(line)) return null;
+    pattern.lastIndex = 0;
+
+    const fixed = line.replace(pattern, replacement);
+    if (fix.type === 'remove' && fixed.trim() === '') return '';
+    return fix.type === 'remove' ? fixed.trimEnd() : fixed;
+  };
+}
+
+/**
+ * Register the fixes of custom rules as `custom-<rule id>` fix types,
+ * replacing those of previously loaded rules.
+ */
+export function registerCustomRuleFixes(rules: CompiledCustomRule[]): void {
+  customRuleFixStrategies.clear();
+  for (const rule of rules) {
+    const apply = createCustomRuleFixStrategy(rule);
+    if (apply) {
+      customRuleFixStrategies.set(`custom-${rule.id}`, {
+        apply,
+        description: `${rule.name} (custom ${rule.fix!.type})`,
+      });
+    }
+  }
+}
+
+/** Description of a plugin or custom rule fix strategy, for the fix report. */
+export function getFixStrategyDescription(fixType: FixType): string | undefined {
+  return (
+    pluginFixStrategies.get(fixType as PluginFixType)
+    ?? customRuleFixStrategies.get(fixType as CustomRuleFixType)
+  )?.description;
+}
@@ -1,16 +1,87 @@
 export { scan, groupFindings } from './scan.js';
 export { generateReport } from './reporters/index.js';
+export { generateSarif } from './reporters/sarif.js';
+export type { SarifLog } from './reporters/sarif.js';
 export { loadCustomRules, validateRulesFile, scanWithCustomRules } from './rules/index.js';
 export {
   RULE_CATALOG,
   getAllRules,
   getRulesByCategory,
   getCategoryCounts,
+  findCatalogRule,
 } from './rules/catalog.js';
 export type { CatalogRule, CatalogSeverity, Category } from './rules/catalog.js';
-export { loadBaseline, saveBaseline, applyBaseline, generateFindingHash } from './baseline.js';
-export { checkInlineSuppression, applyInlineSuppressions } from './suppression.js';
-export { checkAcknowledgment, applyAcknowledgments } from './acknowledgments.js';
+export {
+  HIPAA_SECURITY_CONTROLS,
+  buildControlCoverage,
+  getAssessmentScope,
+  getRuleControls,
+  getFindingControls,
+  parseControlCitations,
+} from './rules/controls.js';
+export type {
+  HipaaControl,
+  HipaaSafeguard,
+  ControlStatus,
+  ControlCoverage,
+  ControlCoverageMatrix,
+  AssessmentScope,
+} from './rules/controls.js';
+export {
+  CROSSWALK_FRAMEWORKS,
+  FRAMEWORK_NAMES,
+  FRAMEWORK_CONTROLS,
+  parseCrosswalkFramework,
+  getRuleFrameworkControls,
+  getFindingFrameworkControls,
+  buildFrameworkReport,
+} from './rules/crosswalk.js';
+export type { CrosswalkFramework, FrameworkControlResult, FrameworkReport } from './rules/crosswalk.js';
+export { SCANNER_REGISTRY, getScanner, resolveScanners } from './scanners/registry.js';
+export { PLUGIN_API_VERSION, loadPlugins, validatePlugin } from './plugins/index.js';
+export type {
+  VlayerPlugin,
+  PluginFixStrategy,
+  PluginReportSection,
+  LoadPluginsResult,
+  PluginLoadError,
+} from './plugins/index.js';
+export { loadBaseline, saveBaseline, applyBaseline, generateFindingHash, migrateBaseline } from './baseline.js';
+export {
+  computeFingerprint,
+  fingerprintFindings,
+  findEnclosingScope,
+  stableRuleId,
+} from './fingerprint.js';
+export {
+  checkInlineSuppression,
+  applyInlineSuppressions,
+  parseSuppressionDirectives,
+  findUnusedSuppressions,
+} from './suppression.js';
+export type { SuppressionDirective } from './suppression.js';
+export {
+  checkAcknowledgment,
+  applyAcknowledgments,
+  isAcknowledgmentApproved,
+  loadAcknowledgments,
+  addAcknowledgment,
+  findExpiringAcknowledgments,
+} from './acknowledgments.js';
+export { loadCodeowners, ownersOf } from './utils/codeowners.js';
+export type { Codeowners, CodeownersRule } from './utils/codeowners.js';
+export { evaluatePolicy, loadPolicyFile, validatePolicy } from './policy.js';
+export type { PolicyInput } from './policy.js';
+export {
+  COMPLIANCE_PROFILES,
+  DEFAULT_PROFILE,
+  PROFILE_IDS,
+  parseProfile,
+  getProfile,
+  resolveProfile,
+  applyProfile,
+} from './profiles.js';
+export type { ComplianceProfile } from './profiles.js';
 export { calculateComplianceScore, formatScore, getScoreColor, getScoreSummary } from './compliance-score.js';
 export type {
   Finding,
@@ -21,12 +92,26 @@ export type {
   Scanner,
   Severity,
   ComplianceCategory,
+  ComplianceProfileId,
+  ProfileInfo,
   Confidence,
   VlayerConfig,
   AcknowledgedFinding,
   ContextLine,
   CompiledCustomRule,
   CustomRuleFix,
+  CustomRuleCondition,
+  FixType,
+  PluginFixType,
+  CustomRuleFixType,
+  PluginInfo,
+  TaintSinkKind,
+  TaintSourceConfig,
+  TaintSinkConfig,
+  PolicyConfig,
+  RedactionHelperConfig,
+  PolicyClauseResult,
+  PolicyEvaluation,
   ComplianceScore,
   GroupedFinding,
   Occurrence,
@@ -6,10 +6,14 @@
 export type ComplianceFramework =
   | 'hipaa'
   | 'hitech'
+  | '42-cfr-part-2'
   | 'gdpr'
   | 'state-law'
   | 'payer-specific'
-  | 'framework-specific';
+  | 'framework-specific'
+  | 'nist-800-53'
+  | 'hitrust'
+  | 'soc2';
 
 export type StateJurisdiction =
   | 'federal'
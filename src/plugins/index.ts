@@ -0,0 +1,118 @@
+/**
+ * Scanner plugins — third-party detectors loaded from the `plugins` list in
+ * `.vlayerrc.json`.
+ *
+ * A plugin contributes `Scanner`s (run by the engine after the built-in
+ * scanners), namespaced fix strategies and report sections. Plugin findings
+ * enter `scan()` alongside built-in findings, so acknowledgments, inline
+ * suppressions, baseline and scoring apply to them unchanged.
+ *
+ * Imported plugins are kept per module URL for the life of the process, so
+ * watch mode and worker threads import each plugin once.
+ */
+import type { PluginFixType, PluginInfo, Report, Scanner } from '../types.js';
+import { getScanner } from '../scanners/registry.js';
+import { registerFixStrategy } from '../fixer/strategies.js';
+import { importPlugin, loadPluginModules } from './loader.js';
+import type { LoadedPlugin, LoadPluginsResult, PluginReportSection } from './types.js';
+
+export { PLUGIN_API_VERSION } from './types.js';
+export type {
+  VlayerPlugin,
+  PluginFixStrategy,
+  PluginReportSection,
+  LoadedPlugin,
+  PluginLoadError,
+  LoadPluginsResult,
+} from './types.js';
+export { validatePlugin, resolvePluginModule } from './loader.js';
+
+const activePlugins = new Map<string, LoadedPlugin>();
+
+function activate(loaded: LoadedPlugin): LoadedPlugin {
+  const existing = activePlugins.get(loaded.moduleUrl);
+  if (existing) return existing;
+
+  for (const [fixType, strategy] of Object.entries(loaded.plugin.fixStrategies ?? {})) {
+    registerFixStrategy(fixType as PluginFixType, strategy);
+  }
+  activePlugins.set(loaded.moduleUrl, loaded);
+  return loaded;
+}
+
+/**
+ * Load the plugins listed in config. Plugins that cannot be resolved, fail
+ * validation (including the API version check) or reuse a scanner id already
+ * taken are returned in `errors` and skipped.
+ */
+export async function loadPlugins(rootPath: string, specifiers: string[]): Promise<LoadPluginsResult> {
+  const { plugins: imported, errors } = await loadPluginModules(rootPath, specifiers);
+  const plugins: LoadedPlugin[] = [];
+  const takenIds = new Set<string>();
+
+  for (const loaded of imported) {
+    const scannerIds = (loaded.plugin.scanners ?? []).map(s => s.id);
+    const clash = scannerIds.find(id => getScanner(id) || takenIds.has(id));
+    if (clash) {
+      errors.push({
+        plugin: loaded.specifier,
+        error: `Plugin "${loaded.plugin.name}" declares scanner id "${clash}", which is already registered`,
+      });
+      continue;
+    }
+    scannerIds.forEach(id => takenIds.add(id));
+    plugins.push(activate(loaded));
+  }
+
+  return { plugins, errors };
+}
+
+/**
+ * Scanners of already-resolved plugin modules, importing any this thread has
+ * not loaded yet (worker threads start with none).
+ */
+export async function getPluginScanners(moduleUrls: string[]): Promise<Scanner[]> {
+  const scanners: Scanner[] = [];
+  for (const moduleUrl of moduleUrls) {
+    const loaded = activePlugins.get(moduleUrl) ?? activate(await importPlugin(moduleUrl, moduleUrl));
+    scanners.push(...(loaded.plugin.scanners ?? []));
+  }
+  return scanners;
+}
+
+/** Summary of loaded plugins recorded on the scan result. */
+export function describePlugins(plugins: LoadedPlugin[]): PluginInfo[] {
+  return plugins.map(({ plugin, specifier, moduleUrl }) => ({
+    name: plugin.name,
+    version: plugin.version,
+    specifier,
+    moduleUrl,
+    scanners: (plugin.scanners ?? []).map(s => s.id),
+  }));
+}
+
+/** Report sections of the plugins a scan ran with, in plugin order. */
+export function getPluginReportSections(plugins: PluginInfo[] | undefined): PluginReportSection[] {
+  return (plugins ?? []).flatMap(info => activePlugins.get(info.moduleUrl)?.plugin.reportSections ?? []);
+}
+
+/**
+ * Render one format of every plugin report section. A section that throws is
+ * skipped with a warning rather than failing the report.
+ */
+export function renderPluginSections<T>(
+  plugins: PluginInfo[] | undefined,
+  report: Report,
+  render: (section: PluginReportSection, report: Report) => T | undefined
+): Array<{ section: PluginReportSection; output: T }> {
+  const rendered: Array<{ section: PluginReportSection; output: T }> = [];
+  for (const section of getPluginReportSections(plugins)) {
+    try {
+      const output = render(section, report);
+      if (output !== undefined) rendered.push({ section, output });
+    } catch (error) {
+      console.warn(`[vlayer] Warning: plugin report section "${section.id}" failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+  return rendered;
+}
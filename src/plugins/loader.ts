@@ -0,0 +1,184 @@
+import { createRequire } from 'module';
+import { readFile, stat } from 'fs/promises';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import type { ComplianceCategory, Scanner } from '../types.js';
+import {
+  PLUGIN_API_VERSION,
+  type LoadedPlugin,
+  type LoadPluginsResult,
+  type PluginLoadError,
+  type VlayerPlugin,
+} from './types.js';
+
+const CATEGORIES: readonly ComplianceCategory[] = [
+  'phi-exposure',
+  'encryption',
+  'audit-logging',
+  'access-control',
+  'data-retention',
+];
+
+async function isFile(filePath: string): Promise<boolean> {
+  try {
+    return (await stat(filePath)).isFile();
+  } catch {
+    return false;
+  }
+}
+
+type ExportsField = string | { [condition: string]: ExportsField } | undefined;
+
+/** Pick the ESM entry from a package.json `exports` value. */
+function exportsEntry(exportsField: ExportsField): string | undefined {
+  if (typeof exportsField === 'string' || exportsField === undefined) return exportsField;
+  const root = '.' in exportsField ? exportsField['.'] : exportsField;
+  if (typeof root === 'string' || root === undefined) return root;
+  return exportsEntry(root.import) ?? exportsEntry(root.default) ?? exportsEntry(root.node);
+}
+
+/**
+ * Locate an ESM-only package (one whose `exports` has no `require` condition,
+ * which `require.resolve` rejects) by walking up `node_modules` directories.
+ */
+async function resolvePackageEntry(rootPath: string, name: string): Promise<string | undefined> {
+  let dir = rootPath;
+  for (;;) {
+    const pkgDir = path.join(dir, 'node_modules', name);
+    try {
+      const pkg = JSON.parse(await readFile(path.join(pkgDir, 'package.json'), 'utf-8'));
+      const entry = exportsEntry(pkg.exports) ?? pkg.module ?? pkg.main ?? 'index.js';
+      return path.resolve(pkgDir, entry);
+    } catch {
+      // Not installed at this level
+    }
+    const parent = path.dirname(dir);
+    if (parent === dir) return undefined;
+    dir = parent;
+  }
+}
+
+/**
+ * Resolve a plugin specifier from config to an importable `file:` URL.
+ * Paths (`./plugins/ehr.js`) are relative to the project root; anything else is
+ * a package name resolved from the project's `node_modules`.
+ */
+export async function resolvePluginModule(rootPath: string, specifier: string): Promise<string> {
+  const root = path.resolve(rootPath);
+
+  if (specifier.startsWith('.') || path.isAbsolute(specifier)) {
+    const filePath = path.resolve(root, specifier);
+    if (!await isFile(filePath)) {
+      throw new Error(`Plugin file not found: ${filePath}`);
+    }
+    return pathToFileURL(filePath).href;
+  }
+
+  try {
+    const require = createRequire(path.join(root, 'package.json'));
+    return pathToFileURL(require.resolve(specifier)).href;
+  } catch {
+    const entry = await resolvePackageEntry(root, specifier);
+    if (entry && await isFile(entry)) {
+      return pathToFileURL(entry).href;
+    }
+  }
+
+  throw new Error(`Cannot find plugin package "${specifier}" — install it in the project or fix the name in .vlayerrc.json`);
+}
+
+function validateScanner(value: unknown, pluginName: string): Scanner {
+  const scanner = value as Partial<Scanner> | null;
+  const label = `scanner ${typeof scanner?.id === 'string' ? `"${scanner.id}"` : '(no id)'} of plugin "${pluginName}"`;
+
+  if (!scanner || typeof scanner !== 'object') {
+    throw new Error(`Plugin "${pluginName}" exports a scanner that is not an object`);
+  }
+  if (typeof scanner.id !== 'string' || !/^[a-z0-9][\w@./-]*$/i.test(scanner.id)) {
+    throw new Error(`Invalid ${label}: "id" must be a non-empty identifier`);
+  }
+  if (typeof scanner.name !== 'string' || scanner.name.length === 0) {
+    throw new Error(`Invalid ${label}: "name" is required`);
+  }
+  const categories = [scanner.category, ...(scanner.additionalCategories ?? [])];
+  const badCategory = categories.find(c => !CATEGORIES.includes(c as ComplianceCategory));
+  if (badCategory !== undefined) {
+    throw new Error(`Invalid ${label}: unknown category "${String(badCategory)}" (use one of: ${CATEGORIES.join(', ')})`);
+  }
+  if (!Array.isArray(scanner.fileTypes) || !scanner.fileTypes.every(t => typeof t === 'string')) {
+    throw new Error(`Invalid ${label}: "fileTypes" must be an array of strings`);
+  }
+  if (typeof scanner.scan !== 'function') {
+    throw new Error(`Invalid ${label}: "scan" must be a function`);
+  }
+  return scanner as Scanner;
+}
+
+/**
+ * Check a plugin module's export against the plugin contract, including the
+ * declared API version. Throws an error describing the first problem.
+ */
+export function validatePlugin(moduleExports: unknown, specifier: string): VlayerPlugin {
+  const exports = moduleExports as { default?: unknown; plugin?: unknown } | null;
+  const candidate = (exports?.default ?? exports?.plugin) as Partial<VlayerPlugin> | undefined;
+
+  if (!candidate || typeof candidate !== 'object') {
+    throw new Error(`Plugin "${specifier}" has no plugin export — export the plugin object as default or as "plugin"`);
+  }
+  const name = typeof candidate.name === 'string' && candidate.name ? candidate.name : specifier;
+
+  if (candidate.apiVersion !== PLUGIN_API_VERSION) {
+    throw new Error(
+      `Plugin "${name}" targets plugin API version ${String(candidate.apiVersion ?? 'unknown')}, ` +
+      `but this vlayer supports version ${PLUGIN_API_VERSION}`
+    );
+  }
+
+  const scanners = (candidate.scanners ?? []).map(s => validateScanner(s, name));
+
+  for (const [fixType, strategy] of Object.entries(candidate.fixStrategies ?? {})) {
+    if (!fixType.includes(':') || typeof strategy?.apply !== 'function') {
+      throw new Error(
+        `Invalid fix strategy "${fixType}" in plugin "${name}": ` +
+        'fix types must be namespaced "<namespace>:<fix>" and provide apply(line)'
+      );
+    }
+  }
+
+  for (const section of candidate.reportSections ?? []) {
+    if (typeof section?.id !== 'string' || typeof section.title !== 'string') {
+      throw new Error(`Invalid report section in plugin "${name}": "id" and "title" are required`);
+    }
+  }
+
+  return { ...candidate, name, scanners } as VlayerPlugin;
+}
+
+/** Import and validate one plugin from a resolved module URL. */
+export async function importPlugin(moduleUrl: string, specifier: string): Promise<LoadedPlugin> {
+  const moduleExports: unknown = await import(moduleUrl);
+  return { specifier, moduleUrl, plugin: validatePlugin(moduleExports, specifier) };
+}
+
+/**
+ * Resolve, import and validate the plugins listed in config. A plugin that
+ * fails any step is reported in `errors` and left out; the rest still load.
+ */
+export async function loadPluginModules(rootPath: string, specifiers: string[]): Promise<LoadPluginsResult> {
+  const plugins: LoadedPlugin[] = [];
+  const errors: PluginLoadError[] = [];
+
+  for (const specifier of specifiers) {
+    try {
+      const moduleUrl = await resolvePluginModule(rootPath, specifier);
+      plugins.push(await importPlugin(moduleUrl, specifier));
+    } catch (error) {
+      errors.push({
+        plugin: specifier,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  return { plugins, errors };
+}
@@ -0,0 +1,68 @@
+/**
+ * Plugin API types — the contract between vlayer and third-party scanner
+ * packages listed under `plugins` in `.vlayerrc.json`.
+ */
+import type { PluginFixType, Report, Scanner } from '../types.js';
+
+/**
+ * Version of the plugin contract below. A plugin declares the version it was
+ * built against in `apiVersion`; vlayer refuses plugins built for another
+ * version. Bump only on breaking changes to `VlayerPlugin`, `Scanner`,
+ * `Finding` or `PluginReportSection`.
+ */
+export const PLUGIN_API_VERSION = 1;
+
+export interface PluginFixStrategy {
+  /** Shown in the fix report, e.g. "Raw EHR query -> audited client". */
+  description?: string;
+  /** Return the replacement line, or null when the line cannot be fixed. */
+  apply(line: string): string | null;
+}
+
+/** Extra section contributed to scan reports. Every renderer is optional. */
+export interface PluginReportSection {
+  id: string;
+  title: string;
+  /** HTML fragment placed inside a report section. */
+  html?(report: Report): string;
+  /** Markdown placed under a `## <title>` heading. */
+  markdown?(report: Report): string;
+  /** JSON-serializable data added under `pluginSections` in JSON reports. */
+  json?(report: Report): unknown;
+}
+
+/**
+ * What a plugin module exports, as its default export or as `plugin`.
+ */
+export interface VlayerPlugin {
+  name: string;
+  version?: string;
+  /** Must equal `PLUGIN_API_VERSION`. */
+  apiVersion: number;
+  scanners?: Scanner[];
+  /**
+   * Fix strategies keyed by fix type. Keys must be namespaced
+   * `<namespace>:<fix>` (e.g. `acme-ehr:audited-client`); findings opt in by
+   * setting that `fixType`.
+   */
+  fixStrategies?: Record<PluginFixType, PluginFixStrategy>;
+  reportSections?: PluginReportSection[];
+}
+
+export interface LoadedPlugin {
+  /** The specifier as written in config. */
+  specifier: string;
+  /** `file:` URL the plugin was imported from. */
+  moduleUrl: string;
+  plugin: VlayerPlugin;
+}
+
+export interface PluginLoadError {
+  plugin: string;
+  error: string;
+}
+
+export interface LoadPluginsResult {
+  plugins: LoadedPlugin[];
+  errors: PluginLoadError[];
+}
@@ -0,0 +1,181 @@
+import { readFile } from 'fs/promises';
+import { relative } from 'path';
+import { parse as parseYaml } from 'yaml';
+import type {
+  ComplianceScore,
+  Finding,
+  PolicyClauseResult,
+  PolicyConfig,
+  PolicyEvaluation,
+  ScanComparison,
+} from './types.js';
+import { wasReported, type ScanHistoryEntry } from './utils/scan-history.js';
+
+const POLICY_CLAUSES: Array<keyof PolicyConfig> = [
+  'maxNewCritical',
+  'maxNewHigh',
+  'maxCritical',
+  'maxHigh',
+  'minScore',
+  'maxUnacknowledgedAgeDays',
+];
+
+const MAX_DETAILS = 10;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface PolicyInput {
+  findings: Finding[];
+  complianceScore?: ComplianceScore;
+  /** Comparison with the previous scan in history, if there is one. */
+  comparison?: ScanComparison | null;
+  /** Earlier scans, most recent first (as returned by `getAllScans`). */
+  history?: ScanHistoryEntry[];
+  /** Project root, for relative paths in clause details. */
+  rootPath?: string;
+  now?: Date;
+}
+
+/**
+ * Validate a policy block
+ */
+export function validatePolicy(policy: unknown): string[] {
+  if (!policy || typeof policy !== 'object' || Array.isArray(policy)) {
+    return ['policy: must be an object'];
+  }
+
+  const errors: string[] = [];
+  for (const [key, value] of Object.entries(policy)) {
+    if (!POLICY_CLAUSES.includes(key as keyof PolicyConfig)) {
+      errors.push(`policy: unknown clause '${key}' (expected one of ${POLICY_CLAUSES.join(', ')})`);
+    } else if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+      errors.push(`policy.${key}: must be a non-negative number`);
+    } else if (key === 'minScore' && value > 100) {
+      errors.push('policy.minScore: must be between 0 and 100');
+    }
+  }
+  return errors;
+}
+
+/**
+ * Load a policy file (JSON or YAML). The file holds the clauses of a `policy`
+ * block, either at the top level or under a `policy` key.
+ */
+export async function loadPolicyFile(path: string): Promise<PolicyConfig> {
+  let parsed: unknown;
+  try {
+    const content = await readFile(path, 'utf-8');
+    parsed = /\.ya?ml$/i.test(path) ? parseYaml(content) : JSON.parse(content);
+  } catch (error) {
+    throw new Error(`Cannot read policy file ${path}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const policy = parsed && typeof parsed === 'object' && 'policy' in parsed
+    ? (parsed as { policy: unknown }).policy
+    : parsed;
+  const errors = validatePolicy(policy);
+  if (errors.length > 0) {
+    throw new Error(`Invalid policy file ${path}:\n  ${errors.join('\n  ')}`);
+  }
+  return policy as PolicyConfig;
+}
+
+/** Findings that count against the policy: not baselined, suppressed or acknowledged (unless expired). */
+function activeFindings(findings: Finding[]): Finding[] {
+  return findings.filter(f =>
+    !f.isBaseline &&
+    !f.suppressed &&
+    !(f.acknowledged && !f.acknowledgment?.expired)
+  );
+}
+
+/**
+ * When a finding was first reported in the unbroken run of recent scans that
+ * still report it. Undefined if the last scan did not report it.
+ */
+function firstSeen(finding: Finding, history: ScanHistoryEntry[]): Date | undefined {
+  let since: string | undefined;
+  for (const entry of history) {
+    if (!wasReported(finding, entry)) break;
+    since = entry.timestamp;
+  }
+  return since ? new Date(since) : undefined;
+}
+
+function describeFinding(finding: Finding, rootPath: string | undefined): string {
+  const file = rootPath ? relative(rootPath, finding.file) || finding.file : finding.file;
+  return `${finding.id} at ${file}${finding.line ? `:${finding.line}` : ''}`;
+}
+
+function withDetails(lines: string[]): string[] {
+  return lines.length > MAX_DETAILS
+    ? [...lines.slice(0, MAX_DETAILS), `... and ${lines.length - MAX_DETAILS} more`]
+    : lines;
+}
+
+/**
+ * Evaluate each configured clause of a policy against a scan. A policy with
+ * no clauses passes.
+ */
+export function evaluatePolicy(policy: PolicyConfig, input: PolicyInput, source = 'config'): PolicyEvaluation {
+  const active = activeFindings(input.findings);
+  const clauses: PolicyClauseResult[] = [];
+
+  const countClause = (clause: keyof PolicyConfig, label: string, matching: Finding[], actual = matching.length): void => {
+    const threshold = policy[clause];
+    if (threshold === undefined) return;
+    const passed = actual <= threshold;
+    clauses.push({
+      clause,
+      description: `${label} ≤ ${threshold}`,
+      threshold,
+      actual,
+      passed,
+      details: passed ? undefined : withDetails(matching.map(f => describeFinding(f, input.rootPath))),
+    });
+  };
+
+  const previous = input.comparison?.previousScan;
+  for (const severity of ['critical', 'high'] as const) {
+    const current = active.filter(f => f.severity === severity);
+    // New by identity: fixing one finding does not offset introducing another
+    const newFindings = current.filter(f => !previous || !wasReported(f, previous));
+    const critical = severity === 'critical';
+
+    countClause(critical ? 'maxNewCritical' : 'maxNewHigh', `New ${severity} findings`, newFindings);
+    countClause(critical ? 'maxCritical' : 'maxHigh', `${critical ? 'Critical' : 'High'} findings`, current);
+  }
+
+  if (policy.minScore !== undefined) {
+    const actual = input.complianceScore?.score ?? 0;
+    clauses.push({
+      clause: 'minScore',
+      description: `Compliance score ≥ ${policy.minScore}`,
+      threshold: policy.minScore,
+      actual,
+      passed: actual >= policy.minScore,
+    });
+  }
+
+  if (policy.maxUnacknowledgedAgeDays !== undefined) {
+    const now = (input.now ?? new Date()).getTime();
+    const maxDays = policy.maxUnacknowledgedAgeDays;
+    const aged = active.flatMap(f => {
+      const since = firstSeen(f, input.history ?? []);
+      const days = since ? Math.floor((now - since.getTime()) / DAY_MS) : 0;
+      return days > maxDays ? [{ finding: f, days }] : [];
+    }).sort((a, b) => b.days - a.days);
+
+    clauses.push({
+      clause: 'maxUnacknowledgedAgeDays',
+      description: `No unacknowledged findings open longer than ${maxDays} days`,
+      threshold: maxDays,
+      actual: aged[0]?.days ?? 0,
+      passed: aged.length === 0,
+      details: aged.length > 0
+        ? withDetails(aged.map(({ finding, days }) => `${describeFinding(finding, input.rootPath)} (${days} days)`))
+        : undefined,
+    });
+  }
+
+  return { passed: clauses.every(c => c.passed), source, clauses };
+}
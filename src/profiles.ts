@@ -0,0 +1,168 @@
+import { findCatalogRule } from './rules/catalog.js';
+import type { ComplianceFramework, StateJurisdiction } from './marketplace/types.js';
+import type { ComplianceCategory, ComplianceProfileId, Finding, ProfileInfo, Severity } from './types.js';
+
+/**
+ * A compliance profile: a law layered on top of HIPAA. Selecting one runs the
+ * profile's rules in the privacy scanner (`src/scanners/privacy`), re-rates
+ * built-in rules the law treats more strictly, and cites the law in reports.
+ */
+export interface ComplianceProfile {
+  id: ComplianceProfileId;
+  name: string;
+  description: string;
+  framework: ComplianceFramework;
+  jurisdiction: StateJurisdiction;
+  /** Citation prefix shared by the profile's references, e.g. "42 CFR". */
+  citation: string;
+  /** Severity of built-in rules under this profile, keyed by catalog rule id. */
+  severityOverrides: Record<string, Severity>;
+  /** Reference cited ahead of the HIPAA reference for findings of a category. */
+  references: Partial<Record<ComplianceCategory, string>>;
+}
+
+export const DEFAULT_PROFILE: ComplianceProfileId = 'hipaa';
+
+export const COMPLIANCE_PROFILES: Record<ComplianceProfileId, ComplianceProfile> = {
+  hipaa: {
+    id: 'hipaa',
+    name: 'HIPAA',
+    description: 'HIPAA Privacy and Security Rules (45 CFR Parts 160 and 164)',
+    framework: 'hipaa',
+    jurisdiction: 'federal',
+    citation: '45 CFR',
+    severityOverrides: {},
+    references: {},
+  },
+  part2: {
+    id: 'part2',
+    name: '42 CFR Part 2',
+    description: 'Confidentiality of substance use disorder patient records',
+    framework: '42-cfr-part-2',
+    jurisdiction: 'federal',
+    citation: '42 CFR',
+    severityOverrides: {
+      // Any SUD diagnosis in a record makes it a Part 2 record
+      'diagnosis-code': 'high',
+      'skill-phi-diagnosis': 'high',
+      // Part 2 records may not reach log stores or third parties without consent
+      'phi-debug-output': 'high',
+      'TAINT-LOGGER': 'critical',
+      'TAINT-ERROR-TRACKER': 'critical',
+      'ERROR-001': 'critical',
+    },
+    references: {
+      'phi-exposure': '42 CFR §2.13 - Confidentiality Restrictions and Safeguards',
+      'encryption': '42 CFR §2.16 - Security for Records',
+      'audit-logging': '42 CFR §2.16 - Security for Records',
+      'access-control': '42 CFR §2.16 - Security for Records',
+      'data-retention': '42 CFR §2.16 - Security for Records',
+    },
+  },
+  cmia: {
+    id: 'cmia',
+    name: 'California CMIA',
+    description: 'California Confidentiality of Medical Information Act (Cal. Civ. Code §56 et seq.)',
+    framework: 'state-law',
+    jurisdiction: 'california',
+    citation: 'Cal. Civ. Code',
+    severityOverrides: {
+      // Disclosures to third parties need an authorization, whatever the channel
+      'TAINT-ERROR-TRACKER': 'critical',
+      'TAINT-URL': 'critical',
+      'phi-email-subject': 'high',
+      'diagnosis-code': 'high',
+    },
+    references: {
+      'phi-exposure': 'Cal. Civ. Code §56.10 - Confidentiality of Medical Information',
+      'encryption': 'Cal. Civ. Code §56.101 - Preservation of Confidentiality',
+      'audit-logging': 'Cal. Civ. Code §56.101 - Preservation of Confidentiality',
+      'access-control': 'Cal. Civ. Code §56.101 - Preservation of Confidentiality',
+      'data-retention': 'Cal. Civ. Code §56.101 - Preservation of Confidentiality',
+    },
+  },
+  'wa-mhmda': {
+    id: 'wa-mhmda',
+    name: 'Washington My Health My Data Act',
+    description: 'Washington My Health My Data Act (RCW 19.373), covering consumer health data',
+    framework: 'state-law',
+    jurisdiction: 'washington',
+    citation: 'RCW 19.373',
+    severityOverrides: {
+      // Sharing consumer health data needs its own consent
+      'TAINT-ERROR-TRACKER': 'critical',
+      'TAINT-URL': 'critical',
+      'phi-cookie-storage': 'critical',
+      'email-phi-context': 'high',
+      'phone-phi-context': 'high',
+      'address-phi-context': 'high',
+    },
+    references: {
+      'phi-exposure': 'RCW 19.373.030 - Consent to Collect and Share',
+      'encryption': 'RCW 19.373.050 - Data Security',
+      'audit-logging': 'RCW 19.373.050 - Data Security',
+      'access-control': 'RCW 19.373.050 - Access Restrictions',
+      'data-retention': 'RCW 19.373.040 - Consumer Rights',
+    },
+  },
+};
+
+export const PROFILE_IDS = Object.keys(COMPLIANCE_PROFILES) as ComplianceProfileId[];
+
+/**
+ * Resolve a `--profile` value (or `profile` in config)
+ */
+export function parseProfile(value: string): ComplianceProfileId | undefined {
+  const id = value.trim().toLowerCase();
+  if (id === 'mhmda' || id === 'washington') return 'wa-mhmda';
+  if (id === '42-cfr-part-2' || id === 'part-2') return 'part2';
+  return (PROFILE_IDS as string[]).includes(id) ? (id as ComplianceProfileId) : undefined;
+}
+
+export function getProfile(id: ComplianceProfileId = DEFAULT_PROFILE): ComplianceProfile {
+  return COMPLIANCE_PROFILES[id];
+}
+
+/**
+ * The profile a scan runs under. The config value is not validated on load,
+ * so an unknown one falls back to the default with a warning, like other
+ * config issues.
+ */
+export function resolveProfile(cliProfile?: ComplianceProfileId, configProfile?: string): ComplianceProfile {
+  if (cliProfile) return getProfile(cliProfile);
+  if (!configProfile) return getProfile();
+
+  const id = parseProfile(configProfile);
+  if (!id) {
+    console.warn(`[vlayer] Warning: unknown profile "${configProfile}" in config, using ${DEFAULT_PROFILE}`);
+  }
+  return getProfile(id);
+}
+
+/** Profile metadata recorded on a scan result; none for the default profile. */
+export function describeProfile(profile: ComplianceProfile): ProfileInfo | undefined {
+  return profile.id === DEFAULT_PROFILE ? undefined : { id: profile.id, name: profile.name };
+}
+
+/**
+ * Apply a profile to findings: re-rate built-in rules listed in its severity
+ * overrides and cite the profile's law ahead of the HIPAA reference. Findings
+ * that already cite the law (the profile's own rules) are left as they are.
+ */
+export function applyProfile(findings: Finding[], profile: ComplianceProfile): Finding[] {
+  if (profile.id === DEFAULT_PROFILE) return findings;
+
+  return findings.map(finding => {
+    const rule = findCatalogRule(finding.id);
+    const severity = rule ? profile.severityOverrides[rule.id] ?? finding.severity : finding.severity;
+
+    let hipaaReference = finding.hipaaReference;
+    const reference = profile.references[finding.category];
+    if (reference && !hipaaReference?.includes(profile.citation)) {
+      hipaaReference = hipaaReference ? `${reference}, ${hipaaReference}` : reference;
+    }
+
+    if (severity === finding.severity && hipaaReference === finding.hipaaReference) return finding;
+    return { ...finding, severity, hipaaReference };
+  });
+}
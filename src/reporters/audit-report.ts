@@ -2,6 +2,7 @@ import PDFDocument from 'pdfkit';
 import { createWriteStream } from 'fs';
 import { createHash } from 'crypto';
 import type { AuditTrail, AuditEvidence, ManualReviewItem, AuditReportOptions } from '../types.js';
+import { verifyAuditTrail, type AuditVerificationResult } from '../audit/chain.js';
 
 const COLORS = {
   primary: '#1e40af',
@@ -51,15 +52,18 @@ export async function generateAuditReport(
     });
 
     const chunks: Buffer[] = [];
+    let hash = '';
     doc.on('data', (chunk) => chunks.push(chunk));
     doc.on('end', () => {
       const pdfBuffer = Buffer.concat(chunks);
-      const hash = createHash('sha256').update(pdfBuffer).digest('hex');
-      resolve({ path: options.outputPath, hash });
+      hash = createHash('sha256').update(pdfBuffer).digest('hex');
     });
     doc.on('error', reject);
 
+    // Resolve once the file is fully written, so callers can read it back
     const stream = createWriteStream(options.outputPath);
+    stream.on('finish', () => resolve({ path: options.outputPath, hash }));
+    stream.on('error', reject);
     doc.pipe(stream);
 
     // Cover Page
@@ -709,6 +713,17 @@ function renderManualReviewSection(doc: PDFKit.PDFDocument, reviews: ManualRevie
   }
 }
 
+function chainStatus(verification: AuditVerificationResult): [label: string, color: string] {
+  switch (verification.status) {
+    case 'valid':
+      return [verification.signed ? 'Verified (signed)' : 'Verified (unsigned)', COLORS.low];
+    case 'broken':
+      return ['TAMPERED', COLORS.critical];
+    default:
+      return ['Not chained', COLORS.secondary];
+  }
+}
+
 function renderVerificationPage(doc: PDFKit.PDFDocument, trail: AuditTrail) {
   const pageWidth = doc.page.width - 100;
 
@@ -748,6 +763,41 @@ function renderVerificationPage(doc: PDFKit.PDFDocument, trail: AuditTrail) {
       width: pageWidth - 20,
     });
 
+  y += 100;
+
+  // Hash chain status
+  const verification = verifyAuditTrail(trail);
+  const [statusLabel, statusColor] = chainStatus(verification);
+
+  doc.rect(50, y, pageWidth, 90).fill('#f9fafb');
+  doc.rect(50, y, pageWidth, 90).stroke(statusColor);
+
+  doc.fillColor(statusColor)
+    .fontSize(12)
+    .font('Helvetica-Bold')
+    .text(`Audit Trail Hash Chain: ${statusLabel}`, 60, y + 12);
+
+  const chainDetails = verification.status === 'unchained'
+    ? ['This audit trail was written before hash chaining and cannot be verified entry by entry.']
+    : [
+      `Chained entries: ${verification.entries}`,
+      `Chain head: ${verification.head}`,
+      verification.signed
+        ? `Signed with Ed25519 key ${verification.keyFingerprint}`
+        : 'Not signed',
+    ];
+  if (verification.error) {
+    const at = verification.error.sequence ? `Entry #${verification.error.sequence}: ` : '';
+    chainDetails.push(`First problem: ${at}${verification.error.message}`);
+  }
+
+  doc.fillColor('#000000')
+    .fontSize(8)
+    .font('Courier');
+  chainDetails.forEach((line, i) => {
+    doc.text(line, 60, y + 32 + i * 13, { width: pageWidth - 20 });
+  });
+
   y += 110;
 
   // Verification instructions
@@ -764,9 +814,9 @@ function renderVerificationPage(doc: PDFKit.PDFDocument, trail: AuditTrail) {
 
   const steps = [
     '1. Locate the audit-trail.json file in the .vlayer directory of the scanned project',
-    '2. Compute the SHA256 hash of the evidence array using the same algorithm',
-    '3. Compare the computed hash with the hash shown above',
-    '4. If hashes match, the audit trail has not been modified since generation',
+    '2. Run `vlayer audit verify <project> --public-key <key.pub.pem>` with the organization\'s public key',
+    '3. Every entry links to the hash of the previous one, so any edit is reported with its position',
+    '4. Compare the chain head and report hash with the values shown above',
   ];
 
   for (const step of steps) {
@@ -906,6 +956,13 @@ export function generateTextAuditReport(trail: AuditTrail): string {
   lines.push('VERIFICATION');
   lines.push(subSeparator);
   lines.push(`Report Hash: ${trail.reportHash || 'N/A'}`);
+  const verification = verifyAuditTrail(trail);
+  lines.push(`Hash Chain: ${chainStatus(verification)[0]}`);
+  if (verification.status !== 'unchained') {
+    lines.push(`Chain Head: ${verification.head} (${verification.entries} entries)`);
+    lines.push(`Signature: ${verification.signed ? `Ed25519 key ${verification.keyFingerprint}` : 'not signed'}`);
+  }
+  if (verification.error) lines.push(`Problem: ${verification.error.message}`);
   lines.push(`Audit Trail: ${trail.projectPath}/.vlayer/audit-trail.json`);
   lines.push('');
   lines.push(separator);
@@ -12,6 +12,8 @@ import {
   sortProposedFindings,
   toRelativeDisplayPath,
 } from './finding-presentation.js';
+import { buildFrameworkReport, type CrosswalkFramework } from '../rules/crosswalk.js';
+import { getAssessmentScope } from '../rules/controls.js';
 
 interface AuditorReportOptions {
   organizationName?: string;
@@ -19,6 +21,8 @@ interface AuditorReportOptions {
   auditorName?: string;
   includeBaseline?: boolean;
   branding?: ResolvedBranding;
+  /** Adds a section of findings and scores by this framework's controls. */
+  framework?: CrosswalkFramework;
 }
 
 /**
@@ -85,6 +89,9 @@ export function generateAuditorReport(
     breakdown: displayBreakdown,
     recommendations: generateRecommendations(displayBreakdown, score.score),
   };
+  const framework = options.framework
+    ? buildFrameworkReport(result.findings, options.framework, getAssessmentScope(result))
+    : undefined;
 
   const html = `<!DOCTYPE html>
 <html lang="en">
@@ -431,6 +438,11 @@ export function generateAuditorReport(
           <div class="meta-label">Files Scanned</div>
           <div class="meta-value">${result.scannedFiles}</div>
         </div>
+        ${result.profile ? `
+        <div class="meta-item">
+          <div class="meta-label">Compliance Profile</div>
+          <div class="meta-value">${escapeHtml(result.profile.name)}</div>
+        </div>` : ''}
       </div>
     </div>
 
@@ -439,6 +451,36 @@ export function generateAuditorReport(
 
       ${generateComplianceScoreGauge(displayScore)}
 
+      ${framework ? `
+        <h2>🧭 ${escapeHtml(framework.name)}</h2>
+        <p class="findings-count-note">
+          <strong>${framework.summary.pass} of ${framework.summary.total} controls pass, ${framework.summary.fail} with findings, ${framework.summary['not-assessed']} not assessed</strong> — findings regrouped by
+          ${escapeHtml(framework.name)} controls; each control is scored from the severity of its findings.
+        </p>
+        <table class="findings-table">
+          <thead>
+            <tr>
+              <th>Control</th>
+              <th>Name</th>
+              <th>Score</th>
+              <th>Findings</th>
+            </tr>
+          </thead>
+          <tbody>
+            ${framework.controls.map(c => `
+              <tr>
+                <td style="font-family: monospace; white-space: nowrap;">${escapeHtml(c.id)}</td>
+                <td>${escapeHtml(c.name)}</td>
+                <td>${c.score === undefined ? 'Not assessed' : `<strong>${c.score}</strong>`}</td>
+                <td>${c.findings.length > 0
+                  ? c.findings.map(f => `<div><span class="severity-badge severity-${f.severity}">${f.severity}</span> ${escapeHtml(f.title)} <span style="font-family: monospace; font-size: 0.8rem; color: #6b7280;">${escapeHtml(toRelativeDisplayPath(f.file, absTargetRoot))}:${f.line ?? 'N/A'}</span></div>`).join('')
+                  : '—'}</td>
+              </tr>
+            `).join('')}
+          </tbody>
+        </table>
+      ` : ''}
+
       <h2>📋 Findings Summary</h2>
       <p class="findings-count-note">
         <strong>${currentFindings.length} findings grouped into ${locationGroups.length} location${locationGroups.length === 1 ? '' : 's'}</strong>
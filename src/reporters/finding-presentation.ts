@@ -202,8 +202,9 @@ function normalizeOneRef(raw: string): string | null {
   const trimmed = raw.trim();
   if (!trimmed || trimmed === '-' || trimmed === '—') return null;
 
-  const sectionMatch = trimmed.match(/(\d{3}\.\d+(?:\s*\([^)]*\))*)/);
-  if (!sectionMatch) return trimmed; // unrecognised shape — leave untouched
+  const sectionMatch = trimmed.match(/(16[04]\.\d+(?:\s*\([^)]*\))*)/);
+  // Unrecognised shape, or another law cited by a compliance profile — leave untouched
+  if (!sectionMatch) return trimmed;
 
   const section = sectionMatch[1].replace(/\s+/g, '');
   // NPRM refs cite a PROPOSED rule, not a current obligation — keep that
@@ -229,6 +230,9 @@ function normalizeOneRef(raw: string): string | null {
  *     → kept distinct as a proposed rule:
  *       "45 CFR §164.312(d) — Person or Entity Authentication (NPRM — proposed rule)"
  *
+ * Citations of other laws, added by compliance profiles ("42 CFR §2.13 - ...",
+ * "Cal. Civ. Code §56.10 - ...", "RCW 19.373.030 - ..."), are kept as cited.
+ *
  * Multi-section refs (comma-separated) are expanded into each canonical ref,
  * joined with "; ". The original string is never mutated on the finding object.
  */
@@ -236,7 +240,7 @@ export function formatHipaaRef(raw: string | undefined | null): string {
   if (!raw) return '—';
   // Split only at commas that begin a new citation, so control names that
   // happen to contain a comma are not broken apart.
-  const parts = raw.split(/,\s*(?=(?:45 CFR|NPRM|§|\d{3}\.))/);
+  const parts = raw.split(/,\s*(?=(?:45 CFR|42 CFR|Cal\. Civ\. Code|RCW|NPRM|§|\d{3}\.))/);
   const normalized = parts.map(normalizeOneRef).filter((p): p is string => Boolean(p));
   return normalized.length > 0 ? normalized.join('; ') : '—';
 }
@@ -1,7 +1,8 @@
 import chalk from 'chalk';
-import type { FixReport, FixResult, FixType } from '../types.js';
+import type { BuiltinFixType, FixReport, FixResult } from '../types.js';
+import { getFixStrategyDescription } from '../fixer/strategies.js';
 
-const FIX_TYPE_DESCRIPTIONS: Record<FixType, string> = {
+const FIX_TYPE_DESCRIPTIONS: Record<BuiltinFixType, string> = {
   'sql-injection-template': 'SQL injection -> parameterized query',
   'sql-injection-concat': 'SQL injection -> parameterized query',
   'hardcoded-password': 'Hardcoded password -> process.env',
@@ -71,7 +72,9 @@ export function generateFixReport(report: FixReport): string {
       lines.push(chalk.blue(`  ${group.filePath}`));
       for (const fix of group.fixes) {
         const lineNum = fix.finding.line ?? '?';
-        const description = FIX_TYPE_DESCRIPTIONS[fix.fixType] || fix.fixType;
+        const description = FIX_TYPE_DESCRIPTIONS[fix.fixType as BuiltinFixType]
+          || getFixStrategyDescription(fix.fixType)
+          || fix.fixType;
         lines.push(chalk.gray(`    Line ${lineNum}: ${description}`));
       }
       lines.push('');
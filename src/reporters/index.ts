@@ -6,6 +6,10 @@ import { getRemediationGuide, type RemediationGuide } from './remediation-guides
 import { getStackSpecificGuides, type StackGuide } from '../stack-detector/stack-guides.js';
 import { brandFooterText, brandPreparedBy, logoDataUri } from './branding.js';
 import { generateScanPdf } from './scan-pdf-report.js';
+import { generateSarif } from './sarif.js';
+import { renderPluginSections } from '../plugins/index.js';
+import { buildControlCoverage, getAssessmentScope, type ControlCoverageMatrix } from '../rules/controls.js';
+import { buildFrameworkReport, type FrameworkReport } from '../rules/crosswalk.js';
 
 interface ComplianceScore {
   overall: number;
@@ -774,10 +778,21 @@ function buildReport(
     stack: result.stack,
     vulnerabilities,
     informationalArtifacts: result.informationalArtifacts,
+    diff: result.diff,
+    plugins: result.plugins,
+    scanners: result.scanners,
+    profile: result.profile,
+    baseline: result.baseline,
+    unusedSuppressions: result.unusedSuppressions,
   };
 }
 
-function generateJson(report: Report, complianceScore?: import('../types.js').ComplianceScore): string {
+function generateJson(
+  report: Report,
+  complianceScore?: import('../types.js').ComplianceScore,
+  policy?: import('../types.js').PolicyEvaluation,
+  framework?: FrameworkReport
+): string {
   // Build compact grouped view (examples only, no full occurrences list)
   const groupedCompact = (report.groupedFindings ?? []).map(g => ({
     ruleId: g.id,
@@ -793,6 +808,9 @@ function generateJson(report: Report, complianceScore?: import('../types.js').Co
 
   const totalFiles = new Set(report.findings.map(f => f.file)).size;
 
+  const pluginSections = renderPluginSections(report.plugins, report, (section, r) => section.json?.(r))
+    .map(({ section, output }) => ({ id: section.id, title: section.title, data: output }));
+
   const output = {
     score: complianceScore?.score ?? 0,
     grade: complianceScore?.grade ?? 'N/A',
@@ -812,10 +830,27 @@ function generateJson(report: Report, complianceScore?: import('../types.js').Co
     scannedFiles: report.scannedFiles,
     scanDuration: report.scanDuration,
     stack: report.stack,
+    // Present only for non-default compliance profiles (--profile)
+    profile: report.profile,
+    // Present only when a baseline file was used (--baseline)
+    baseline: report.baseline,
+    // Present only with --report-unused-suppressions
+    unusedSuppressions: report.unusedSuppressions,
     complianceScore,
+    // HIPAA Security Rule standards and implementation specifications with pass/fail/not-assessed status
+    hipaaControls: buildControlCoverage(report.findings, getAssessmentScope(report)),
+    // Present only with --framework: findings regrouped and scored by that framework's controls
+    framework,
     vulnerabilities: report.vulnerabilities,
     // Generated documentation (asset inventory, PHI flow map) — metadata, not findings
     informationalArtifacts: report.informationalArtifacts,
+    // Present only for diff-aware scans (--since / --diff)
+    diff: report.diff,
+    // Present only when scanner plugins were loaded
+    plugins: report.plugins,
+    pluginSections: pluginSections.length > 0 ? pluginSections : undefined,
+    // Present only when a policy gate was evaluated (policy config or --policy)
+    policy,
   };
   return JSON.stringify(output, null, 2);
 }
@@ -832,7 +867,7 @@ function renderContextMarkdown(context?: ContextLine[]): string {
   return '\n```\n' + lines.join('\n') + '\n```\n';
 }
 
-function generateMarkdown(report: Report): string {
+function generateMarkdown(report: Report, framework?: FrameworkReport): string {
   const lines: string[] = [
     '# HIPAA Compliance Report',
     '',
@@ -840,6 +875,7 @@ function generateMarkdown(report: Report): string {
     `**Target:** ${report.targetPath}`,
     `**Files Scanned:** ${report.scannedFiles}`,
     `**Duration:** ${report.scanDuration}ms`,
+    ...(report.profile ? [`**Profile:** ${report.profile.name}`] : []),
     '',
     '## Summary',
     '',
@@ -896,6 +932,25 @@ function generateMarkdown(report: Report): string {
     lines.push('---', '');
   }
 
+  for (const { section, output } of renderPluginSections(report.plugins, report, (sec, r) => sec.markdown?.(r))) {
+    lines.push(`## ${section.title}`, '', output, '', '---', '');
+  }
+
+  if (framework) {
+    lines.push(
+      `## ${framework.name}`,
+      '',
+      `**Controls:** ${framework.summary.pass} of ${framework.summary.total} pass, ${framework.summary.fail} with findings, ${framework.summary['not-assessed']} not assessed`,
+      '',
+      '| Control | Name | Score | Findings |',
+      '|---------|------|-------|----------|',
+      ...framework.controls.map(c => `| ${c.id} | ${c.name} | ${c.score ?? 'not assessed'} | ${c.findings.length} |`),
+      '',
+      '---',
+      ''
+    );
+  }
+
   if (report.findings.length > 0) {
     lines.push('## Findings', '');
 
@@ -1360,6 +1415,22 @@ async function generateHtml(report: Report, targetPath: string, options: ReportO
     .remediation-cell { color: #4b5563; font-size: 0.875rem; max-width: 300px; }
     .hipaa-cell { color: #6b7280; font-size: 0.8rem; font-family: 'SF Mono', Monaco, monospace; white-space: nowrap; }
 
+    /* Control Coverage Styles */
+    .control-coverage-section { margin: 2rem 0; padding: 1.5rem; background: white; border-radius: 12px; box-shadow: 0 1px 3px rgba(0,0,0,0.1); }
+    .control-coverage-section h2 { color: #111827; margin-bottom: 0.5rem; }
+    .control-coverage-section h3 { color: #374151; margin: 1.5rem 0 1rem; font-size: 1.1rem; text-transform: capitalize; }
+    .control-table { width: 100%; border-collapse: collapse; font-size: 0.875rem; }
+    .control-table th { background: #f9fafb; padding: 0.6rem 0.75rem; text-align: left; font-weight: 600; color: #374151; border-bottom: 2px solid #e5e7eb; }
+    .control-table td { padding: 0.6rem 0.75rem; border-bottom: 1px solid #e5e7eb; vertical-align: top; }
+    .control-spec td.control-name { padding-left: 1.75rem; }
+    .control-id { font-family: 'SF Mono', Monaco, monospace; font-size: 0.8rem; color: #4b5563; white-space: nowrap; }
+    .control-rules { font-family: 'SF Mono', Monaco, monospace; font-size: 0.75rem; color: #6b7280; }
+    .control-status { display: inline-block; padding: 0.2rem 0.6rem; border-radius: 4px; font-size: 0.75rem; font-weight: 600; text-transform: uppercase; white-space: nowrap; }
+    .control-pass { background: #d1fae5; color: #065f46; }
+    .control-fail { background: #fee2e2; color: #991b1b; }
+    .control-not-assessed { background: #f3f4f6; color: #6b7280; }
+    .framework-score { font-size: 1.1rem; font-weight: 600; color: #374151; margin-bottom: 1rem; }
+
     /* Backup & Recovery Styles */
     .backup-recovery-section { margin: 2rem 0; padding: 2rem; background: white; border-radius: 12px; box-shadow: 0 1px 3px rgba(0,0,0,0.1); }
     .backup-header h2 { color: #111827; margin: 0 0 0.5rem 0; }
@@ -1518,6 +1589,7 @@ async function generateHtml(report: Report, targetPath: string, options: ReportO
       <p><strong>Generated:</strong> ${report.timestamp}</p>
       <p><strong>Target:</strong> ${report.targetPath}</p>
       <p><strong>Files Scanned:</strong> ${report.scannedFiles} | <strong>Duration:</strong> ${report.scanDuration}ms</p>
+      ${report.profile ? `<p><strong>Profile:</strong> ${escapeHtml(report.profile.name)}</p>` : ''}
     </div>
 
     <div class="summary">
@@ -1547,6 +1619,10 @@ async function generateHtml(report: Report, targetPath: string, options: ReportO
 
     ${renderRiskAnalysisHtml(report)}
 
+    ${options.framework ? renderFrameworkHtml(buildFrameworkReport(report.findings, options.framework, getAssessmentScope(report))) : ''}
+
+    ${renderControlCoverageHtml(buildControlCoverage(report.findings, getAssessmentScope(report)))}
+
     ${assetInventoryHtml}
 
     ${dataFlowMapHtml}
@@ -1557,6 +1633,8 @@ async function generateHtml(report: Report, targetPath: string, options: ReportO
 
     ${report.vulnerabilities ? renderDependencyVulnerabilitiesHtml(report.vulnerabilities) : ''}
 
+    ${renderPluginSectionsHtml(report)}
+
     <h2>Findings</h2>
     <div class="findings">
       ${report.findings.map(f => {
@@ -1597,6 +1675,17 @@ async function generateHtml(report: Report, targetPath: string, options: ReportO
 </html>`;
 }
 
+/** Sections contributed by scanner plugins; their HTML is inserted as given. */
+function renderPluginSectionsHtml(report: Report): string {
+  return renderPluginSections(report.plugins, report, (section, r) => section.html?.(r))
+    .map(({ section, output }) => `
+    <div class="plugin-section" id="plugin-${escapeHtml(section.id)}">
+      <h2>${escapeHtml(section.title)}</h2>
+      ${output}
+    </div>`)
+    .join('');
+}
+
 function escapeHtml(text: string): string {
   return text
     .replace(/&/g, '&amp;')
@@ -3274,6 +3363,99 @@ function renderRiskAnalysisHtml(report: Report): string {
   `;
 }
 
+function renderFrameworkHtml(framework: FrameworkReport): string {
+  const scoreColor = (score: number) => score >= 90 ? '#059669' : score >= 70 ? '#ca8a04' : '#dc2626';
+  const statusLabels = { pass: 'Pass', fail: 'Fail', 'not-assessed': 'Not Assessed' };
+
+  return `
+    <div class="control-coverage-section">
+      <h2>🧭 ${escapeHtml(framework.name)}</h2>
+      <p style="color: #6b7280; margin-bottom: 1rem;">
+        Findings regrouped by the framework's controls. Each control is scored from the severity of its findings.
+      </p>
+      <div class="framework-score">${framework.summary.pass} of ${framework.summary.total} controls pass, <span style="color: ${framework.summary.fail > 0 ? '#dc2626' : '#059669'}">${framework.summary.fail} with findings</span>, ${framework.summary['not-assessed']} not assessed</div>
+      <table class="control-table">
+        <thead>
+          <tr>
+            <th>Control</th>
+            <th>Name</th>
+            <th>Score</th>
+            <th>Status</th>
+            <th>Findings</th>
+          </tr>
+        </thead>
+        <tbody>
+          ${framework.controls.map(c => `
+            <tr>
+              <td class="control-id">${escapeHtml(c.id)}</td>
+              <td class="control-name">${escapeHtml(c.name)}</td>
+              <td style="color: ${c.score === undefined ? '#6b7280' : scoreColor(c.score)}; font-weight: 600;">${c.score ?? '—'}</td>
+              <td><span class="control-status control-${c.status}">${statusLabels[c.status]}</span></td>
+              <td>${c.findings.length > 0
+                ? c.findings.slice(0, 5).map(f => `<div class="file-ref">${escapeHtml(f.title)} — ${escapeHtml(f.file)}${f.line ? `:${f.line}` : ''}</div>`).join('')
+                  + (c.findings.length > 5 ? `<div class="file-ref">+${c.findings.length - 5} more</div>` : '')
+                : '—'}</td>
+            </tr>
+          `).join('')}
+        </tbody>
+      </table>
+    </div>
+  `;
+}
+
+function renderControlCoverageHtml(matrix: ControlCoverageMatrix): string {
+  const statusLabels = { pass: 'Pass', fail: 'Fail', 'not-assessed': 'Not Assessed' };
+  const safeguards = ['administrative', 'physical', 'technical', 'documentation'] as const;
+
+  const tables = safeguards.map(safeguard => {
+    const controls = matrix.controls.filter(c => c.safeguard === safeguard);
+    return `
+      <h3>${safeguard} ${safeguard === 'documentation' ? 'Requirements' : 'Safeguards'}</h3>
+      <table class="control-table">
+        <thead>
+          <tr>
+            <th>Control</th>
+            <th>Name</th>
+            <th>Type</th>
+            <th>Status</th>
+            <th>Rules</th>
+            <th>Findings</th>
+          </tr>
+        </thead>
+        <tbody>
+          ${controls.map(c => `
+            <tr class="${c.kind === 'standard' ? 'control-standard' : 'control-spec'}">
+              <td class="control-id">§${escapeHtml(c.id)}</td>
+              <td class="control-name">${c.kind === 'standard' ? `<strong>${escapeHtml(c.name)}</strong>` : escapeHtml(c.name)}</td>
+              <td>${c.kind === 'standard' ? 'Standard' : c.requirement === 'required' ? 'Required' : 'Addressable'}</td>
+              <td><span class="control-status control-${c.status}">${statusLabels[c.status]}</span></td>
+              <td class="control-rules">${c.rules.length > 0
+                ? escapeHtml(c.rules.slice(0, 4).join(', ')) + (c.rules.length > 4 ? ` +${c.rules.length - 4} more` : '')
+                : '—'}</td>
+              <td>${c.findings.length > 0
+                ? c.findings.slice(0, 5).map(f => `<div class="file-ref">${escapeHtml(f.title)} — ${escapeHtml(f.file)}${f.line ? `:${f.line}` : ''}</div>`).join('')
+                  + (c.findings.length > 5 ? `<div class="file-ref">+${c.findings.length - 5} more</div>` : '')
+                : '—'}</td>
+            </tr>
+          `).join('')}
+        </tbody>
+      </table>
+    `;
+  }).join('');
+
+  return `
+    <div class="control-coverage-section">
+      <h2>🛡️ HIPAA Security Rule Control Coverage</h2>
+      <p style="color: #6b7280; margin-bottom: 1rem;">
+        Every standard and implementation specification of 45 CFR §164.308, §164.310, §164.312 and §164.316.
+        ${matrix.summary.pass} pass, ${matrix.summary.fail} fail, ${matrix.summary['not-assessed']} not assessed by automated scanning
+        (physical and most administrative safeguards need manual evidence).
+      </p>
+      ${tables}
+    </div>
+  `;
+}
+
 function severityBadge(severity: string): string {
   const badges: Record<string, string> = {
     critical: '🔴',
@@ -3291,10 +3473,13 @@ export async function generateReport(
   options: ReportOptions
 ): Promise<void> {
   const report = buildReport(result, targetPath, options.vulnerabilities);
+  const framework = options.framework
+    ? buildFrameworkReport(result.findings, options.framework, getAssessmentScope(result))
+    : undefined;
 
   // PDF is binary: generate the buffer and write it directly.
   if (options.format === 'pdf') {
-    const { buffer } = await generateScanPdf(result, targetPath, { branding: options.branding });
+    const { buffer } = await generateScanPdf(result, targetPath, { branding: options.branding, framework: options.framework });
     const pdfPath = options.outputPath || 'vlayer-report.pdf';
     await writeFile(pdfPath, buffer);
     console.log(chalk.green(`\nReport saved to: ${pdfPath}`));
@@ -3310,12 +3495,16 @@ export async function generateReport(
       extension = 'html';
       break;
     case 'markdown':
-      content = generateMarkdown(report);
+      content = generateMarkdown(report, framework);
       extension = 'md';
       break;
+    case 'sarif':
+      content = JSON.stringify(generateSarif(result, targetPath), null, 2);
+      extension = 'sarif';
+      break;
     case 'json':
     default:
-      content = generateJson(report, result.complianceScore);
+      content = generateJson(report, result.complianceScore, options.policy, framework);
       extension = 'json';
   }
 
@@ -0,0 +1,274 @@
+/**
+ * SARIF 2.1.0 reporter.
+ *
+ * Emits a single-run SARIF log that GitHub code scanning, Azure DevOps and any
+ * SARIF viewer can ingest. Rules are taken from the built-in rule catalog; a
+ * finding whose id does not resolve to a catalog rule (custom YAML rules,
+ * marketplace rules) gets a rule descriptor synthesized from the finding itself.
+ *
+ * Nothing is dropped: acknowledged and inline-suppressed findings are emitted
+ * with SARIF `suppressions`, and baseline findings carry `baselineState:
+ * "unchanged"` so consumers can hide them without losing the audit record.
+ */
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import type { Finding, Severity, ScanResult } from '../types.js';
+import { RULE_CATALOG, findCatalogRule, type CatalogRule } from '../rules/catalog.js';
+import { getToolVersion } from '../version.js';
+
+const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json';
+const INFORMATION_URI = 'https://github.com/Francosimon53/verification-layer';
+
+/** Aggregate/virtual findings that have no physical file to point at. */
+const VIRTUAL_FILES = new Set(['project-level', 'ASSET-INVENTORY', 'PHI-FLOW-MAP']);
+
+export type SarifLevel = 'error' | 'warning' | 'note' | 'none';
+
+/** SARIF has three result levels; vlayer's five severities fold onto them. */
+const SEVERITY_TO_LEVEL: Record<Severity, SarifLevel> = {
+  critical: 'error',
+  high: 'error',
+  medium: 'warning',
+  low: 'note',
+  info: 'note',
+};
+
+/**
+ * GitHub code scanning ranks alerts by `security-severity` (0.0–10.0, CVSS-like).
+ * Without it every error-level alert shows as "High".
+ */
+const SECURITY_SEVERITY: Record<Severity, string> = {
+  critical: '9.5',
+  high: '8.0',
+  medium: '5.5',
+  low: '3.0',
+  info: '1.0',
+};
+
+export interface SarifReportingDescriptor {
+  id: string;
+  name: string;
+  shortDescription: { text: string };
+  fullDescription: { text: string };
+  help: { text: string; markdown: string };
+  defaultConfiguration: { level: SarifLevel };
+  properties: {
+    category: string;
+    severity: Severity;
+    hipaaReference?: string;
+    tags: string[];
+    'security-severity': string;
+  };
+}
+
+export interface SarifSuppression {
+  kind: 'inSource' | 'external';
+  status?: 'accepted' | 'underReview' | 'rejected';
+  justification?: string;
+}
+
+export interface SarifResult {
+  ruleId: string;
+  ruleIndex: number;
+  level: SarifLevel;
+  message: { text: string };
+  locations?: Array<{
+    physicalLocation: {
+      artifactLocation: { uri: string; uriBaseId: string };
+      region?: { startLine: number; startColumn?: number; snippet?: { text: string } };
+    };
+  }>;
+  baselineState: 'new' | 'unchanged';
+  /** Stable fingerprint, so code scanning tracks a result across line shifts. */
+  partialFingerprints?: Record<string, string>;
+  suppressions?: SarifSuppression[];
+  properties: {
+    findingId: string;
+    category: string;
+    severity: Severity;
+    confidence?: string;
+    hipaaReference?: string;
+  };
+}
+
+export interface SarifLog {
+  $schema: string;
+  version: '2.1.0';
+  runs: Array<{
+    tool: {
+      driver: {
+        name: string;
+        version: string;
+        informationUri: string;
+        rules: SarifReportingDescriptor[];
+      };
+    };
+    originalUriBaseIds: Record<string, { uri: string }>;
+    results: SarifResult[];
+  }>;
+}
+
+function ruleHelp(recommendation: string | undefined, hipaaReference: string | undefined): SarifReportingDescriptor['help'] {
+  const rec = recommendation?.trim() || 'Review this finding against the HIPAA Security Rule.';
+  const text = hipaaReference ? `${rec}\n\nHIPAA reference: ${hipaaReference}` : rec;
+  const markdown = hipaaReference ? `${rec}\n\n**HIPAA reference:** ${hipaaReference}` : rec;
+  return { text, markdown };
+}
+
+function descriptorFromCatalog(rule: CatalogRule): SarifReportingDescriptor {
+  return {
+    id: rule.id,
+    name: rule.title,
+    shortDescription: { text: rule.title },
+    fullDescription: { text: rule.description },
+    help: ruleHelp(rule.recommendation, rule.hipaaReference),
+    defaultConfiguration: { level: SEVERITY_TO_LEVEL[rule.severity] },
+    properties: {
+      category: rule.category,
+      severity: rule.severity,
+      hipaaReference: rule.hipaaReference,
+      tags: ['security', 'hipaa', rule.category],
+      'security-severity': SECURITY_SEVERITY[rule.severity],
+    },
+  };
+}
+
+function descriptorFromFinding(ruleId: string, finding: Finding): SarifReportingDescriptor {
+  return {
+    id: ruleId,
+    name: finding.title,
+    shortDescription: { text: finding.title },
+    fullDescription: { text: finding.description },
+    help: ruleHelp(finding.recommendation, finding.hipaaReference),
+    defaultConfiguration: { level: SEVERITY_TO_LEVEL[finding.severity] },
+    properties: {
+      category: finding.category,
+      severity: finding.severity,
+      hipaaReference: finding.hipaaReference,
+      tags: ['security', 'hipaa', finding.category],
+      'security-severity': SECURITY_SEVERITY[finding.severity],
+    },
+  };
+}
+
+/**
+ * Rule id for a finding outside the catalog. Mirrors `groupFindings`: strip the
+ * line suffix from dynamic lowercase ids, keep static uppercase ids intact.
+ */
+function fallbackRuleId(finding: Finding): string {
+  return /^[a-z]/.test(finding.id) ? finding.id.replace(/-\d+$/, '') : finding.id;
+}
+
+/** Repository-relative, forward-slash URI for a finding's file. */
+function toArtifactUri(file: string, rootPath: string): string {
+  const relativePath = path.isAbsolute(file) ? path.relative(rootPath, file) : file;
+  return relativePath.split(path.sep).join('/');
+}
+
+function buildSuppressions(finding: Finding): SarifSuppression[] | undefined {
+  const suppressions: SarifSuppression[] = [];
+
+  if (finding.suppressed) {
+    suppressions.push({
+      kind: 'inSource',
+      status: 'accepted',
+      justification: finding.suppression?.reason,
+    });
+  }
+
+  // An expired acknowledgment no longer silences the finding.
+  if (finding.acknowledged && !finding.acknowledgment?.expired) {
+    const ack = finding.acknowledgment;
+    const justification = ack
+      ? [ack.reason, `acknowledged by ${ack.acknowledgedBy} on ${ack.acknowledgedAt}`, ack.ticketUrl]
+          .filter(Boolean)
+          .join(' — ')
+      : undefined;
+    suppressions.push({ kind: 'external', status: 'accepted', justification });
+  }
+
+  return suppressions.length > 0 ? suppressions : undefined;
+}
+
+/**
+ * Build a SARIF 2.1.0 log for a scan. `targetPath` is the scanned root; file
+ * URIs are made relative to it and anchored on the `%SRCROOT%` base id.
+ */
+export function generateSarif(result: ScanResult, targetPath: string): SarifLog {
+  const rootPath = path.resolve(targetPath);
+  const rules: SarifReportingDescriptor[] = RULE_CATALOG.map(descriptorFromCatalog);
+  const ruleIndex = new Map(rules.map((rule, index) => [rule.id, index]));
+
+  const results: SarifResult[] = result.findings.map(finding => {
+    const catalogRule = findCatalogRule(finding.id);
+    const ruleId = catalogRule?.id ?? fallbackRuleId(finding);
+
+    if (!ruleIndex.has(ruleId)) {
+      ruleIndex.set(ruleId, rules.length);
+      rules.push(descriptorFromFinding(ruleId, finding));
+    }
+
+    const sarifResult: SarifResult = {
+      ruleId,
+      ruleIndex: ruleIndex.get(ruleId)!,
+      level: SEVERITY_TO_LEVEL[finding.severity],
+      message: { text: `${finding.title}: ${finding.description}` },
+      baselineState: finding.isBaseline ? 'unchanged' : 'new',
+      properties: {
+        findingId: finding.id,
+        category: finding.category,
+        severity: finding.severity,
+        confidence: finding.confidence,
+        hipaaReference: finding.hipaaReference,
+      },
+    };
+
+    if (finding.fingerprint) {
+      sarifResult.partialFingerprints = { 'vlayerFingerprint/v1': finding.fingerprint };
+    }
+
+    if (!VIRTUAL_FILES.has(finding.file)) {
+      const matchLine = finding.context?.find(c => c.isMatch);
+      sarifResult.locations = [{
+        physicalLocation: {
+          artifactLocation: { uri: toArtifactUri(finding.file, rootPath), uriBaseId: '%SRCROOT%' },
+          region: finding.line
+            ? {
+                startLine: finding.line,
+                ...(finding.column ? { startColumn: finding.column } : {}),
+                ...(matchLine ? { snippet: { text: matchLine.content } } : {}),
+              }
+            : undefined,
+        },
+      }];
+    }
+
+    const suppressions = buildSuppressions(finding);
+    if (suppressions) {
+      sarifResult.suppressions = suppressions;
+    }
+
+    return sarifResult;
+  });
+
+  return {
+    $schema: SARIF_SCHEMA,
+    version: '2.1.0',
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: 'vlayer',
+            version: getToolVersion(),
+            informationUri: INFORMATION_URI,
+            rules,
+          },
+        },
+        originalUriBaseIds: {
+          '%SRCROOT%': { uri: pathToFileURL(rootPath).href.replace(/\/?$/, '/') },
+        },
+        results,
+      },
+    ],
+  };
+}
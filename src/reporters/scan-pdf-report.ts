@@ -12,6 +12,8 @@ import {
   toRelativeDisplayPath,
   type LocationGroup,
 } from './finding-presentation.js';
+import { buildControlCoverage, getAssessmentScope, type ControlCoverageMatrix, type ControlStatus } from '../rules/controls.js';
+import { buildFrameworkReport, type CrosswalkFramework, type FrameworkReport } from '../rules/crosswalk.js';
 
 const COLORS = {
   primary: '#4f46e5',
@@ -28,6 +30,13 @@ const COLORS = {
   background: '#f9fafb',
   border: '#e5e7eb',
   white: '#ffffff',
+  pass: '#059669',
+};
+
+const CONTROL_STATUS_COLOR: Record<ControlStatus, string> = {
+  pass: COLORS.pass,
+  fail: COLORS.critical,
+  'not-assessed': COLORS.muted,
 };
 
 const SEVERITY_COLOR: Record<Severity, string> = {
@@ -44,13 +53,16 @@ export interface ScanPdfReportOptions {
   auditorName?: string;
   includeBaseline?: boolean;
   branding?: ResolvedBranding;
+  /** Adds a page of findings and scores by this framework's controls. */
+  framework?: CrosswalkFramework;
 }
 
 /**
  * Generate a branded PDF compliance report from a scan result.
  *
  * Mirrors the HTML auditor report: a cover with the brand logo + "Prepared by",
- * a scan summary, a findings table, and a footer that repeats on every page
+ * a scan summary, a findings table, the HIPAA Security Rule control coverage
+ * matrix, and a footer that repeats on every page
  * ("Prepared by {brand} · Powered by VLayer"). With no branding it falls back
  * to default VLayer presentation.
  *
@@ -103,6 +115,12 @@ export function generateScanPdf(
       doc.addPage();
       renderFindings(doc, groups, current.length, absTargetRoot);
       if (proposed.length > 0) renderProposedSection(doc, proposed, absTargetRoot);
+      if (options.framework) {
+        doc.addPage();
+        renderFrameworkSection(doc, buildFrameworkReport(result.findings, options.framework, getAssessmentScope(result)), absTargetRoot);
+      }
+      doc.addPage();
+      renderControlCoverage(doc, buildControlCoverage(result.findings, getAssessmentScope(result)));
       stampFooters(doc, footerLine);
       doc.end();
     } catch (err) {
@@ -166,6 +184,7 @@ function renderCover(
     ['Organization:', options.organizationName || 'Not specified'],
     ['Report Generated:', new Date().toLocaleString()],
     ['Files Scanned:', String(result.scannedFiles)],
+    ...(result.profile ? [['Profile:', result.profile.name] as [string, string]] : []),
   ];
 
   let y = boxY + 48;
@@ -253,11 +272,11 @@ function renderFindings(doc: PDFKit.PDFDocument, groups: LocationGroup[], findin
 }
 
 /** Add a page (with a continued header) if `needed` vertical space is unavailable. */
-function ensureSpace(doc: PDFKit.PDFDocument, needed: number) {
+function ensureSpace(doc: PDFKit.PDFDocument, needed: number, section = 'Findings by Location') {
   if (doc.y + needed > doc.page.height - doc.page.margins.bottom) {
     doc.addPage();
     doc.fillColor(COLORS.primary).font('Helvetica-Bold').fontSize(14)
-      .text('Findings by Location (continued)', doc.page.margins.left, doc.page.margins.top);
+      .text(`${section} (continued)`, doc.page.margins.left, doc.page.margins.top);
     doc.moveDown(0.6);
   }
 }
@@ -385,6 +404,107 @@ function renderProposedSection(doc: PDFKit.PDFDocument, proposed: Finding[], abs
   }
 }
 
+function renderFrameworkSection(doc: PDFKit.PDFDocument, framework: FrameworkReport, absTargetRoot: string) {
+  const left = doc.page.margins.left;
+  const contentWidth = PAGE_WIDTH(doc);
+  const section = `${framework.name} Controls`;
+
+  doc.fillColor(COLORS.primary).font('Helvetica-Bold').fontSize(20)
+    .text(section, left, doc.page.margins.top, { width: contentWidth });
+  doc.fillColor(COLORS.secondary).font('Helvetica').fontSize(10)
+    .text(
+      `Findings regrouped by ${framework.name} controls, each scored from the severity of its findings. ${framework.summary.pass} of ${framework.summary.total} controls pass, ${framework.summary.fail} with findings, ${framework.summary['not-assessed']} not assessed.`,
+      { width: contentWidth },
+    );
+  doc.moveDown(0.6);
+
+  const idW = 60;
+  const scoreW = 50;
+  const nameX = left + idW;
+  const nameW = contentWidth - idW - scoreW;
+
+  for (const control of framework.controls) {
+    const lines = control.findings.slice(0, 3).map(f =>
+      `${f.severity.toUpperCase()} · ${f.title} — ${toRelativeDisplayPath(f.file, absTargetRoot)}${f.line ? `:${f.line}` : ''}`);
+    if (control.findings.length > 3) lines.push(`+${control.findings.length - 3} more`);
+    const nameH = doc.font('Helvetica-Bold').fontSize(9.5).heightOfString(control.name, { width: nameW });
+    const detailH = lines.length > 0 ? doc.font('Helvetica').fontSize(7.5).heightOfString(lines.join('\n'), { width: nameW }) : 0;
+    const rowH = Math.max(nameH + detailH + 8, 20);
+
+    ensureSpace(doc, rowH + 2, section);
+    const y = doc.y;
+    doc.fillColor(COLORS.secondary).font('Courier').fontSize(8.5)
+      .text(control.id, left, y + 2, { width: idW - 6 });
+    doc.fillColor(COLORS.text).font('Helvetica-Bold').fontSize(9.5)
+      .text(control.name, nameX, y + 1, { width: nameW });
+    if (lines.length > 0) {
+      doc.fillColor(COLORS.secondary).font('Helvetica').fontSize(7.5)
+        .text(lines.join('\n'), nameX, doc.y + 1, { width: nameW });
+    }
+    const color = control.score === undefined ? COLORS.muted
+      : control.status === 'pass' ? COLORS.pass : control.score >= 70 ? COLORS.medium : COLORS.critical;
+    doc.fillColor(color).font('Helvetica-Bold').fontSize(control.score === undefined ? 7.5 : 11)
+      .text(control.score === undefined ? 'NOT ASSESSED' : String(control.score), left + contentWidth - scoreW, y + 1, { width: scoreW, align: 'right' });
+    doc.y = y + rowH;
+    doc.moveTo(left, doc.y - 2).lineTo(left + contentWidth, doc.y - 2).strokeColor(COLORS.border).stroke();
+  }
+}
+
+function renderControlCoverage(doc: PDFKit.PDFDocument, matrix: ControlCoverageMatrix) {
+  const left = doc.page.margins.left;
+  const contentWidth = PAGE_WIDTH(doc);
+  const section = 'HIPAA Security Rule Control Coverage';
+  const { summary } = matrix;
+
+  doc.fillColor(COLORS.primary).font('Helvetica-Bold').fontSize(20)
+    .text(section, left, doc.page.margins.top);
+  doc.fillColor(COLORS.secondary).font('Helvetica').fontSize(10)
+    .text(
+      `Every standard and implementation specification of 45 CFR §164.308, §164.310, §164.312 and §164.316 — ${summary.pass} pass, ${summary.fail} fail, ${summary['not-assessed']} not assessed by automated scanning.`,
+      { width: contentWidth },
+    );
+  doc.moveDown(0.6);
+
+  const idW = 110;
+  const typeW = 70;
+  const statusW = 70;
+  const nameX = left + idW;
+  const nameW = contentWidth - idW - typeW - statusW;
+
+  for (const control of matrix.controls) {
+    const indent = control.kind === 'standard' ? 0 : 10;
+    const font = control.kind === 'standard' ? 'Helvetica-Bold' : 'Helvetica';
+    const nameH = doc.font(font).fontSize(9).heightOfString(control.name, { width: nameW - indent });
+    const detail = control.findings.length > 0
+      ? `${control.findings.length} finding${control.findings.length === 1 ? '' : 's'}: ${[...new Set(control.findings.map(f => f.title))].slice(0, 3).join('; ')}`
+      : '';
+    const detailH = detail ? doc.font('Helvetica').fontSize(7.5).heightOfString(detail, { width: nameW - indent }) : 0;
+    const rowH = Math.max(nameH + detailH + 6, 18);
+
+    ensureSpace(doc, rowH + 2, section);
+    const y = doc.y;
+    doc.fillColor(COLORS.secondary).font('Courier').fontSize(8)
+      .text(`§${control.id}`, left, y + 2, { width: idW - 6 });
+    doc.fillColor(COLORS.text).font(font).fontSize(9)
+      .text(control.name, nameX + indent, y + 1, { width: nameW - indent });
+    if (detail) {
+      doc.fillColor(COLORS.secondary).font('Helvetica').fontSize(7.5)
+        .text(detail, nameX + indent, doc.y + 1, { width: nameW - indent });
+    }
+    const type = control.kind === 'standard' ? 'Standard' : control.requirement === 'required' ? 'Required' : 'Addressable';
+    doc.fillColor(COLORS.secondary).font('Helvetica').fontSize(8)
+      .text(type, nameX + nameW, y + 2, { width: typeW });
+    doc.roundedRect(left + contentWidth - statusW + 4, y, statusW - 4, 14, 3).fill(CONTROL_STATUS_COLOR[control.status]);
+    doc.fillColor(COLORS.white).font('Helvetica-Bold').fontSize(7)
+      .text(control.status === 'not-assessed' ? 'NOT ASSESSED' : control.status.toUpperCase(), left + contentWidth - statusW + 4, y + 4, {
+        width: statusW - 4,
+        align: 'center',
+      });
+    doc.y = y + rowH;
+    doc.moveTo(left, doc.y - 2).lineTo(left + contentWidth, doc.y - 2).strokeColor(COLORS.border).stroke();
+  }
+}
+
 /** Stamp the brand footer + page numbers on every buffered page. */
 function stampFooters(doc: PDFKit.PDFDocument, footerLine: string) {
   const range = doc.bufferedPageRange();
@@ -4,6 +4,7 @@ import {
   getAllRules,
   getRulesByCategory,
   getCategoryCounts,
+  findCatalogRule,
 } from './catalog.js';
 import { CategoryEnum } from './schema.js';
 
@@ -92,4 +93,13 @@ describe('built-in rule catalog', () => {
       }
     }
   });
+
+  it('findCatalogRule resolves dynamic finding ids to their catalog rule', () => {
+    expect(findCatalogRule('ERROR-002')?.id).toBe('ERROR-002');
+    expect(findCatalogRule('enc-md5-12')?.id).toBe('enc-md5');
+    expect(findCatalogRule('retention-phi-cache-3')?.id).toBe('phi-cache');
+    expect(findCatalogRule('access-cors-wildcard-9')?.id).toBe('cors-wildcard');
+    expect(findCatalogRule('audit-unlogged-read-7')?.id).toBe('audit-unlogged-action');
+    expect(findCatalogRule('CUSTOM-RULE-1')).toBeUndefined();
+  });
 });
@@ -36,6 +36,8 @@ import { ALL_CREDENTIAL_PATTERNS } from '../scanners/credentials/patterns.js';
 import { ALL_RBAC_PATTERNS } from '../scanners/rbac/patterns.js';
 import { ALL_SANITIZATION_PATTERNS } from '../scanners/sanitization/patterns.js';
 import { ALL_REVOCATION_PATTERNS } from '../scanners/revocation/patterns.js';
+import { TAINT_RULES } from '../scanners/taint/patterns.js';
+import { ALL_PRIVACY_PATTERNS } from '../scanners/privacy/patterns.js';
 
 // Form 2 — inline rule arrays exported from a scanner's index.ts
 import { ACCESS_CONTROL_ISSUES } from '../scanners/access/index.js';
@@ -184,6 +186,8 @@ function buildCatalog(): CatalogRule[] {
     ...fromScanner('rbac', 'access-control', ALL_RBAC_PATTERNS),
     ...fromScanner('sanitization', 'access-control', ALL_SANITIZATION_PATTERNS),
     ...fromScanner('revocation', 'access-control', ALL_REVOCATION_PATTERNS),
+    ...fromScanner('taint', 'phi-exposure', TAINT_RULES),
+    ...fromScanner('privacy', 'phi-exposure', ALL_PRIVACY_PATTERNS),
     // Form 2 — inline arrays exported from index.ts
     ...fromScanner('access', 'access-control', ACCESS_CONTROL_ISSUES),
     ...fromScanner('retention', 'data-retention', RETENTION_ISSUES),
@@ -251,3 +255,43 @@ export function getCategoryCounts(): Record<Category, number> {
   }
   return counts;
 }
+
+/**
+ * Scanners that prefix their per-finding ids with a scanner token and append a
+ * line suffix (`phi-<rule>-<line>`, `access-<rule>-<line>`, ...). Mapped to the
+ * catalog `scanner` that owns the bare rule id.
+ */
+const FINDING_ID_PREFIXES: Record<string, string> = {
+  'phi-': 'phi',
+  'access-': 'access',
+  'retention-': 'retention',
+  'security-': 'security',
+};
+
+const RULES_BY_ID = new Map(RULE_CATALOG.map((rule) => [rule.id, rule]));
+
+/**
+ * Resolve the catalog rule a finding was produced by. Finding ids are often
+ * dynamic (`phi-ssn-hardcoded-41`, `enc-md5-12`, `audit-unlogged-read-7`), so an
+ * exact lookup is tried first, then the scanner-prefixed form, then the id with
+ * its trailing line number removed. Returns undefined for findings that do not
+ * come from a built-in rule (custom YAML rules, marketplace rules).
+ */
+export function findCatalogRule(findingId: string): CatalogRule | undefined {
+  const exact = RULES_BY_ID.get(findingId);
+  if (exact) return exact;
+
+  const withoutLine = findingId.replace(/-\d+$/, '');
+
+  for (const [prefix, scanner] of Object.entries(FINDING_ID_PREFIXES)) {
+    if (!withoutLine.startsWith(prefix)) continue;
+    const rule = RULES_BY_ID.get(withoutLine.slice(prefix.length));
+    if (rule && rule.scanner === scanner) return rule;
+  }
+
+  if (withoutLine.startsWith('audit-unlogged-')) {
+    return RULES_BY_ID.get('audit-unlogged-action');
+  }
+
+  return RULES_BY_ID.get(withoutLine);
+}
@@ -0,0 +1,268 @@
+/**
+ * HIPAA Security Rule control mapping — every standard and implementation
+ * specification of 45 CFR §164.308, §164.310, §164.312 and §164.316, linked to
+ * the built-in rules that assess it.
+ *
+ * A rule is linked through the citations in its `hipaaReference`. Privacy Rule
+ * citations (§164.502, §164.514, ...) are outside the Security Rule, so a rule
+ * citing only those falls back to its category's controls. Rules and findings
+ * citing the NPRM (proposed 2026 rule) are left out: they are not current
+ * obligations.
+ */
+
+import type { Finding, ScanResult } from '../types.js';
+import { RULE_CATALOG, findCatalogRule, type CatalogRule, type Category } from './catalog.js';
+
+export type HipaaSafeguard = 'administrative' | 'physical' | 'technical' | 'documentation';
+
+export interface HipaaControl {
+  /** Section without the "§", e.g. "164.312(a)(2)(iv)". */
+  id: string;
+  name: string;
+  safeguard: HipaaSafeguard;
+  kind: 'standard' | 'implementation-specification';
+  /** Standards are always required; implementation specifications are required or addressable. */
+  requirement: 'required' | 'addressable';
+  /** The standard an implementation specification belongs to. */
+  standard?: string;
+}
+
+export type ControlStatus = 'pass' | 'fail' | 'not-assessed';
+
+export interface ControlCoverage extends HipaaControl {
+  status: ControlStatus;
+  /** Ids of the rules that assess this control. */
+  rules: string[];
+  /** Active findings against this control. */
+  findings: Array<Pick<Finding, 'id' | 'title' | 'severity' | 'file' | 'line'>>;
+}
+
+/** What a scan covered: controls outside it are not assessed rather than passing. */
+export interface AssessmentScope {
+  /** Ids of the scanners that ran; only their rules assess controls. Every scanner when absent. */
+  scanners?: string[];
+  /** The scan saw only some files (`--since`/`--diff`), so no control can pass. */
+  partial?: boolean;
+}
+
+export interface ControlCoverageMatrix {
+  controls: ControlCoverage[];
+  summary: Record<ControlStatus, number> & { total: number };
+}
+
+function standard(id: string, name: string, safeguard: HipaaSafeguard): HipaaControl {
+  return { id, name, safeguard, kind: 'standard', requirement: 'required' };
+}
+
+function spec(
+  standardId: string,
+  id: string,
+  name: string,
+  requirement: HipaaControl['requirement'],
+  safeguard: HipaaSafeguard
+): HipaaControl {
+  return { id, name, safeguard, kind: 'implementation-specification', requirement, standard: standardId };
+}
+
+/** The Security Rule's standards and implementation specifications, in regulation order. */
+export const HIPAA_SECURITY_CONTROLS: HipaaControl[] = [
+  // §164.308 Administrative safeguards
+  standard('164.308(a)(1)', 'Security Management Process', 'administrative'),
+  spec('164.308(a)(1)', '164.308(a)(1)(ii)(A)', 'Risk Analysis', 'required', 'administrative'),
+  spec('164.308(a)(1)', '164.308(a)(1)(ii)(B)', 'Risk Management', 'required', 'administrative'),
+  spec('164.308(a)(1)', '164.308(a)(1)(ii)(C)', 'Sanction Policy', 'required', 'administrative'),
+  spec('164.308(a)(1)', '164.308(a)(1)(ii)(D)', 'Information System Activity Review', 'required', 'administrative'),
+  standard('164.308(a)(2)', 'Assigned Security Responsibility', 'administrative'),
+  standard('164.308(a)(3)', 'Workforce Security', 'administrative'),
+  spec('164.308(a)(3)', '164.308(a)(3)(ii)(A)', 'Authorization and/or Supervision', 'addressable', 'administrative'),
+  spec('164.308(a)(3)', '164.308(a)(3)(ii)(B)', 'Workforce Clearance Procedure', 'addressable', 'administrative'),
+  spec('164.308(a)(3)', '164.308(a)(3)(ii)(C)', 'Termination Procedures', 'addressable', 'administrative'),
+  standard('164.308(a)(4)', 'Information Access Management', 'administrative'),
+  spec('164.308(a)(4)', '164.308(a)(4)(ii)(A)', 'Isolating Health Care Clearinghouse Functions', 'required', 'administrative'),
+  spec('164.308(a)(4)', '164.308(a)(4)(ii)(B)', 'Access Authorization', 'addressable', 'administrative'),
+  spec('164.308(a)(4)', '164.308(a)(4)(ii)(C)', 'Access Establishment and Modification', 'addressable', 'administrative'),
+  standard('164.308(a)(5)', 'Security Awareness and Training', 'administrative'),
+  spec('164.308(a)(5)', '164.308(a)(5)(ii)(A)', 'Security Reminders', 'addressable', 'administrative'),
+  spec('164.308(a)(5)', '164.308(a)(5)(ii)(B)', 'Protection from Malicious Software', 'addressable', 'administrative'),
+  spec('164.308(a)(5)', '164.308(a)(5)(ii)(C)', 'Log-in Monitoring', 'addressable', 'administrative'),
+  spec('164.308(a)(5)', '164.308(a)(5)(ii)(D)', 'Password Management', 'addressable', 'administrative'),
+  standard('164.308(a)(6)', 'Security Incident Procedures', 'administrative'),
+  spec('164.308(a)(6)', '164.308(a)(6)(ii)', 'Response and Reporting', 'required', 'administrative'),
+  standard('164.308(a)(7)', 'Contingency Plan', 'administrative'),
+  spec('164.308(a)(7)', '164.308(a)(7)(ii)(A)', 'Data Backup Plan', 'required', 'administrative'),
+  spec('164.308(a)(7)', '164.308(a)(7)(ii)(B)', 'Disaster Recovery Plan', 'required', 'administrative'),
+  spec('164.308(a)(7)', '164.308(a)(7)(ii)(C)', 'Emergency Mode Operation Plan', 'required', 'administrative'),
+  spec('164.308(a)(7)', '164.308(a)(7)(ii)(D)', 'Testing and Revision Procedures', 'addressable', 'administrative'),
+  spec('164.308(a)(7)', '164.308(a)(7)(ii)(E)', 'Applications and Data Criticality Analysis', 'addressable', 'administrative'),
+  standard('164.308(a)(8)', 'Evaluation', 'administrative'),
+  standard('164.308(b)(1)', 'Business Associate Contracts and Other Arrangements', 'administrative'),
+  spec('164.308(b)(1)', '164.308(b)(3)', 'Written Contract or Other Arrangement', 'required', 'administrative'),
+
+  // §164.310 Physical safeguards
+  standard('164.310(a)(1)', 'Facility Access Controls', 'physical'),
+  spec('164.310(a)(1)', '164.310(a)(2)(i)', 'Contingency Operations', 'addressable', 'physical'),
+  spec('164.310(a)(1)', '164.310(a)(2)(ii)', 'Facility Security Plan', 'addressable', 'physical'),
+  spec('164.310(a)(1)', '164.310(a)(2)(iii)', 'Access Control and Validation Procedures', 'addressable', 'physical'),
+  spec('164.310(a)(1)', '164.310(a)(2)(iv)', 'Maintenance Records', 'addressable', 'physical'),
+  standard('164.310(b)', 'Workstation Use', 'physical'),
+  standard('164.310(c)', 'Workstation Security', 'physical'),
+  standard('164.310(d)(1)', 'Device and Media Controls', 'physical'),
+  spec('164.310(d)(1)', '164.310(d)(2)(i)', 'Disposal', 'required', 'physical'),
+  spec('164.310(d)(1)', '164.310(d)(2)(ii)', 'Media Re-use', 'required', 'physical'),
+  spec('164.310(d)(1)', '164.310(d)(2)(iii)', 'Accountability', 'addressable', 'physical'),
+  spec('164.310(d)(1)', '164.310(d)(2)(iv)', 'Data Backup and Storage', 'addressable', 'physical'),
+
+  // §164.312 Technical safeguards
+  standard('164.312(a)(1)', 'Access Control', 'technical'),
+  spec('164.312(a)(1)', '164.312(a)(2)(i)', 'Unique User Identification', 'required', 'technical'),
+  spec('164.312(a)(1)', '164.312(a)(2)(ii)', 'Emergency Access Procedure', 'required', 'technical'),
+  spec('164.312(a)(1)', '164.312(a)(2)(iii)', 'Automatic Logoff', 'addressable', 'technical'),
+  spec('164.312(a)(1)', '164.312(a)(2)(iv)', 'Encryption and Decryption', 'addressable', 'technical'),
+  standard('164.312(b)', 'Audit Controls', 'technical'),
+  standard('164.312(c)(1)', 'Integrity', 'technical'),
+  spec('164.312(c)(1)', '164.312(c)(2)', 'Mechanism to Authenticate Electronic PHI', 'addressable', 'technical'),
+  standard('164.312(d)', 'Person or Entity Authentication', 'technical'),
+  standard('164.312(e)(1)', 'Transmission Security', 'technical'),
+  spec('164.312(e)(1)', '164.312(e)(2)(i)', 'Integrity Controls', 'addressable', 'technical'),
+  spec('164.312(e)(1)', '164.312(e)(2)(ii)', 'Encryption', 'addressable', 'technical'),
+
+  // §164.316 Policies and procedures and documentation requirements
+  standard('164.316(a)', 'Policies and Procedures', 'documentation'),
+  standard('164.316(b)(1)', 'Documentation', 'documentation'),
+  spec('164.316(b)(1)', '164.316(b)(2)(i)', 'Time Limit', 'required', 'documentation'),
+  spec('164.316(b)(1)', '164.316(b)(2)(ii)', 'Availability', 'required', 'documentation'),
+  spec('164.316(b)(1)', '164.316(b)(2)(iii)', 'Updates', 'required', 'documentation'),
+];
+
+const CONTROLS_BY_ID = new Map(HIPAA_SECURITY_CONTROLS.map(control => [control.id, control]));
+
+/** Controls assumed for rules and findings that cite no Security Rule section. */
+const CATEGORY_CONTROLS: Record<Category, string[]> = {
+  'phi-exposure': ['164.312(a)(1)'],
+  'encryption': ['164.312(a)(2)(iv)', '164.312(e)(2)(ii)'],
+  'access-control': ['164.312(a)(1)'],
+  'audit-logging': ['164.312(b)'],
+  'data-retention': ['164.316(b)(2)(i)'],
+};
+
+/**
+ * Resolve one cited section to a listed control: the exact section, the
+ * standard it abbreviates ("164.312(c)" for "164.312(c)(1)"), or the nearest
+ * listed parent ("164.312(a)(2)(iv)(A)" → "164.312(a)(2)(iv)").
+ */
+function resolveControl(section: string): string | undefined {
+  let candidate = section;
+  while (candidate) {
+    if (CONTROLS_BY_ID.has(candidate)) return candidate;
+    if (CONTROLS_BY_ID.has(`${candidate}(1)`)) return `${candidate}(1)`;
+    const stripped = candidate.replace(/\([^)]*\)$/, '');
+    if (stripped === candidate) break;
+    candidate = stripped;
+  }
+  return undefined;
+}
+
+/**
+ * Security Rule controls cited by a free-text HIPAA reference. Returns null for
+ * NPRM references, which cite a proposed rule.
+ */
+export function parseControlCitations(reference: string | undefined): string[] | null {
+  if (!reference) return [];
+  if (/\bNPRM\b/i.test(reference)) return null;
+
+  const controls = new Set<string>();
+  for (const match of reference.matchAll(/(\d{3}\.\d+(?:\s*\([^)]*\))*)/g)) {
+    const control = resolveControl(match[1].replace(/\s+/g, ''));
+    if (control) controls.add(control);
+  }
+  return [...controls];
+}
+
+function controlsFor(reference: string | undefined, category: string, rule?: CatalogRule): string[] {
+  const cited = parseControlCitations(reference);
+  if (cited === null) return [];
+  if (cited.length > 0) return cited;
+  if (rule && rule.hipaaReference !== reference) return getRuleControls(rule);
+  return CATEGORY_CONTROLS[category as Category] ?? [];
+}
+
+/**
+ * Security Rule controls a catalog rule assesses
+ */
+export function getRuleControls(rule: CatalogRule): string[] {
+  return controlsFor(rule.hipaaReference, rule.category);
+}
+
+/**
+ * Security Rule controls a finding is evidence against: its own citations,
+ * else those of the rule that produced it, else its category's
+ */
+export function getFindingControls(finding: Finding): string[] {
+  return controlsFor(finding.hipaaReference, finding.category, findCatalogRule(finding.id));
+}
+
+/** The assessment scope of a scan result. */
+export function getAssessmentScope(result: Pick<ScanResult, 'scanners' | 'diff'>): AssessmentScope {
+  return { scanners: result.scanners, partial: Boolean(result.diff) };
+}
+
+/**
+ * Rules that ran in scope. AI rules only run with `vlayer ai-scan`, so they
+ * do not assess a regular scan.
+ */
+export function getAssessingRules(rules: CatalogRule[], scope: AssessmentScope): CatalogRule[] {
+  const ran = scope.scanners && new Set(scope.scanners);
+  return rules.filter(rule => rule.source === 'pattern' && (!ran || ran.has(rule.scanner)));
+}
+
+/**
+ * Build the control coverage matrix for a scan. A control fails when an active
+ * finding (not baselined or suppressed) maps to it, passes when a rule of a
+ * scanner that ran assesses it without findings in a full scan, and is
+ * otherwise not assessed.
+ */
+export function buildControlCoverage(
+  findings: Finding[],
+  scope: AssessmentScope = {},
+  rules: CatalogRule[] = RULE_CATALOG
+): ControlCoverageMatrix {
+  const rulesByControl = new Map<string, Set<string>>();
+  const findingsByControl = new Map<string, ControlCoverage['findings']>();
+  const link = (control: string, ruleId: string) => {
+    if (!rulesByControl.has(control)) rulesByControl.set(control, new Set());
+    rulesByControl.get(control)!.add(ruleId);
+  };
+
+  for (const rule of getAssessingRules(rules, scope)) {
+    for (const control of getRuleControls(rule)) link(control, rule.id);
+  }
+
+  for (const finding of findings) {
+    if (finding.isBaseline || finding.suppressed) continue;
+    const ruleId = findCatalogRule(finding.id)?.id ?? finding.id;
+    for (const control of getFindingControls(finding)) {
+      link(control, ruleId);
+      if (!findingsByControl.has(control)) findingsByControl.set(control, []);
+      findingsByControl.get(control)!.push({
+        id: finding.id,
+        title: finding.title,
+        severity: finding.severity,
+        file: finding.file,
+        line: finding.line,
+      });
+    }
+  }
+
+  const summary = { pass: 0, fail: 0, 'not-assessed': 0, total: HIPAA_SECURITY_CONTROLS.length };
+  const controls = HIPAA_SECURITY_CONTROLS.map((control): ControlCoverage => {
+    const controlRules = [...(rulesByControl.get(control.id) ?? [])].sort();
+    const controlFindings = findingsByControl.get(control.id) ?? [];
+    const status: ControlStatus = controlFindings.length > 0
+      ? 'fail'
+      : controlRules.length > 0 && !scope.partial ? 'pass' : 'not-assessed';
+    summary[status]++;
+    return { ...control, status, rules: controlRules, findings: controlFindings };
+  });
+
+  return { controls, summary };
+}
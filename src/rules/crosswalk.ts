@@ -0,0 +1,373 @@
+/**
+ * Crosswalk from the built-in rules to NIST SP 800-53 Rev. 5 controls, HITRUST
+ * CSF control references and SOC 2 Trust Services Criteria.
+ *
+ * Rules are grouped into themes (what the rule checks), and each theme maps to
+ * the controls of each framework. Every catalog rule is listed under at least
+ * one theme; findings from custom or marketplace rules fall back to the theme
+ * of their category.
+ */
+
+import type { Finding } from '../types.js';
+import type { ComplianceFramework } from '../marketplace/types.js';
+import { getFindingPenalty } from '../compliance-score.js';
+import { RULE_CATALOG, findCatalogRule, type CatalogRule, type Category } from './catalog.js';
+import { getAssessingRules, type AssessmentScope, type ControlStatus } from './controls.js';
+
+export type CrosswalkFramework = Extract<ComplianceFramework, 'nist-800-53' | 'hitrust' | 'soc2'>;
+
+export const CROSSWALK_FRAMEWORKS: CrosswalkFramework[] = ['nist-800-53', 'hitrust', 'soc2'];
+
+export const FRAMEWORK_NAMES: Record<CrosswalkFramework, string> = {
+  'nist-800-53': 'NIST SP 800-53 Rev. 5',
+  hitrust: 'HITRUST CSF',
+  soc2: 'SOC 2 Trust Services Criteria',
+};
+
+/** Control names, keyed by framework and control id. */
+export const FRAMEWORK_CONTROLS: Record<CrosswalkFramework, Record<string, string>> = {
+  'nist-800-53': {
+    'AC-2': 'Account Management',
+    'AC-3': 'Access Enforcement',
+    'AC-4': 'Information Flow Enforcement',
+    'AC-6': 'Least Privilege',
+    'AC-12': 'Session Termination',
+    'AU-2': 'Event Logging',
+    'AU-3': 'Content of Audit Records',
+    'AU-9': 'Protection of Audit Information',
+    'AU-12': 'Audit Record Generation',
+    'CA-8': 'Penetration Testing',
+    'CM-6': 'Configuration Settings',
+    'CM-7': 'Least Functionality',
+    'CM-8': 'System Component Inventory',
+    'CM-13': 'Data Action Mapping',
+    'CP-9': 'System Backup',
+    'CP-10': 'System Recovery and Reconstitution',
+    'IA-2': 'Identification and Authentication (Organizational Users)',
+    'IA-2(1)': 'Multi-factor Authentication to Privileged Accounts',
+    'IA-2(2)': 'Multi-factor Authentication to Non-privileged Accounts',
+    'IA-5': 'Authenticator Management',
+    'IR-4': 'Incident Handling',
+    'IR-6': 'Incident Reporting',
+    'MP-6': 'Media Sanitization',
+    'PS-4': 'Personnel Termination',
+    'PT-2': 'Authority to Process Personally Identifiable Information',
+    'RA-5': 'Vulnerability Monitoring and Scanning',
+    'SC-5': 'Denial-of-Service Protection',
+    'SC-7': 'Boundary Protection',
+    'SC-8': 'Transmission Confidentiality and Integrity',
+    'SC-12': 'Cryptographic Key Establishment and Management',
+    'SC-13': 'Cryptographic Protection',
+    'SC-23': 'Session Authenticity',
+    'SC-28': 'Protection of Information at Rest',
+    'SI-3': 'Malicious Code Protection',
+    'SI-4': 'System Monitoring',
+    'SI-10': 'Information Input Validation',
+    'SI-11': 'Error Handling',
+    'SI-12': 'Information Management and Retention',
+  },
+  hitrust: {
+    '01.c': 'Privilege Management',
+    '01.d': 'User Password Management',
+    '01.j': 'User Authentication for External Connections',
+    '01.m': 'Segregation in Networks',
+    '01.q': 'User Identification and Authentication',
+    '01.t': 'Session Time-out',
+    '01.v': 'Information Access Restriction',
+    '02.i': 'Removal of Access Rights',
+    '06.c': 'Protection of Organizational Records',
+    '06.d': 'Data Protection and Privacy of Covered Information',
+    '07.a': 'Inventory of Assets',
+    '09.aa': 'Audit Logging',
+    '09.ab': 'Monitoring System Use',
+    '09.ac': 'Protection of Log Information',
+    '09.j': 'Controls Against Malicious Code',
+    '09.l': 'Back-up',
+    '09.m': 'Network Controls',
+    '09.p': 'Disposal of Media',
+    '09.s': 'Information Exchange Policies and Procedures',
+    '09.v': 'Electronic Messaging',
+    '10.b': 'Input Data Validation',
+    '10.e': 'Output Data Validation',
+    '10.f': 'Policy on the Use of Cryptographic Controls',
+    '10.g': 'Key Management',
+    '10.h': 'Control of Operational Software',
+    '10.m': 'Control of Technical Vulnerabilities',
+    '11.a': 'Reporting Information Security Events',
+    '11.c': 'Responsibilities and Procedures',
+  },
+  soc2: {
+    'CC6.1': 'Logical Access Security',
+    'CC6.2': 'User Registration and Authorization',
+    'CC6.3': 'Role-Based Access and Removal',
+    'CC6.6': 'Protection Against External Threats',
+    'CC6.7': 'Restriction of Information Transmission',
+    'CC6.8': 'Prevention of Malicious Software',
+    'CC7.1': 'Detection of Configuration Changes and Vulnerabilities',
+    'CC7.2': 'Monitoring for Anomalies',
+    'CC7.3': 'Evaluation of Security Events',
+    'CC7.4': 'Incident Response',
+    'CC8.1': 'Change Management',
+    'A1.2': 'Backup and Recovery',
+    'C1.1': 'Identification and Protection of Confidential Information',
+    'C1.2': 'Disposal of Confidential Information',
+    'P4.2': 'Retention of Personal Information',
+  },
+};
+
+type Theme =
+  | 'phi-disclosure'
+  | 'phi-logging'
+  | 'phi-transmission'
+  | 'client-storage'
+  | 'hardcoded-secrets'
+  | 'malicious-code'
+  | 'weak-crypto'
+  | 'encryption-at-rest'
+  | 'transmission-encryption'
+  | 'backup-encryption'
+  | 'backup'
+  | 'retention'
+  | 'audit-logging'
+  | 'access-enforcement'
+  | 'least-privilege'
+  | 'authentication'
+  | 'session'
+  | 'account-revocation'
+  | 'input-validation'
+  | 'boundary-protection'
+  | 'secure-configuration'
+  | 'error-handling'
+  | 'incident-response'
+  | 'vulnerability-management'
+  | 'asset-inventory'
+  | 'data-flow';
+
+const THEME_CONTROLS: Record<Theme, Record<CrosswalkFramework, string[]>> = {
+  'phi-disclosure': { 'nist-800-53': ['PT-2', 'SC-28', 'SI-12'], hitrust: ['06.d', '01.v'], soc2: ['C1.1', 'CC6.1'] },
+  'phi-logging': { 'nist-800-53': ['AU-9', 'SI-12'], hitrust: ['09.ac', '06.d'], soc2: ['C1.1', 'CC6.1'] },
+  'phi-transmission': { 'nist-800-53': ['AC-4', 'SC-8'], hitrust: ['09.s', '09.v'], soc2: ['CC6.7', 'C1.1'] },
+  'client-storage': { 'nist-800-53': ['SC-28', 'AC-4'], hitrust: ['06.d'], soc2: ['CC6.1', 'C1.1'] },
+  'hardcoded-secrets': { 'nist-800-53': ['IA-5', 'SC-12'], hitrust: ['01.d', '10.g'], soc2: ['CC6.1'] },
+  'malicious-code': { 'nist-800-53': ['SI-3', 'SI-4'], hitrust: ['09.j'], soc2: ['CC6.8'] },
+  'weak-crypto': { 'nist-800-53': ['SC-13'], hitrust: ['10.f'], soc2: ['CC6.1', 'CC6.7'] },
+  'encryption-at-rest': { 'nist-800-53': ['SC-28', 'SC-13'], hitrust: ['06.d', '10.f'], soc2: ['CC6.1'] },
+  'transmission-encryption': { 'nist-800-53': ['SC-8', 'SC-13'], hitrust: ['09.s', '10.f'], soc2: ['CC6.7'] },
+  'backup-encryption': { 'nist-800-53': ['CP-9', 'SC-28'], hitrust: ['09.l', '10.f'], soc2: ['A1.2', 'CC6.1'] },
+  'backup': { 'nist-800-53': ['CP-9', 'CP-10'], hitrust: ['09.l'], soc2: ['A1.2'] },
+  'retention': { 'nist-800-53': ['SI-12', 'MP-6'], hitrust: ['06.c', '09.p'], soc2: ['C1.1', 'C1.2', 'P4.2'] },
+  'audit-logging': { 'nist-800-53': ['AU-2', 'AU-3', 'AU-12'], hitrust: ['09.aa', '09.ab'], soc2: ['CC7.2'] },
+  'access-enforcement': { 'nist-800-53': ['AC-3'], hitrust: ['01.v', '01.c'], soc2: ['CC6.1', 'CC6.3'] },
+  'least-privilege': { 'nist-800-53': ['AC-6'], hitrust: ['01.c'], soc2: ['CC6.3'] },
+  'authentication': { 'nist-800-53': ['IA-2', 'IA-2(1)', 'IA-2(2)'], hitrust: ['01.q', '01.j'], soc2: ['CC6.1'] },
+  'session': { 'nist-800-53': ['AC-12', 'SC-23'], hitrust: ['01.t'], soc2: ['CC6.1'] },
+  'account-revocation': { 'nist-800-53': ['AC-2', 'PS-4'], hitrust: ['02.i'], soc2: ['CC6.2', 'CC6.3'] },
+  'input-validation': { 'nist-800-53': ['SI-10'], hitrust: ['10.b'], soc2: ['CC7.1', 'CC8.1'] },
+  'boundary-protection': { 'nist-800-53': ['SC-7', 'SC-5'], hitrust: ['09.m', '01.m'], soc2: ['CC6.6'] },
+  'secure-configuration': { 'nist-800-53': ['CM-6', 'CM-7'], hitrust: ['10.h'], soc2: ['CC7.1', 'CC8.1'] },
+  'error-handling': { 'nist-800-53': ['SI-11'], hitrust: ['10.e'], soc2: ['C1.1'] },
+  'incident-response': { 'nist-800-53': ['IR-4', 'IR-6'], hitrust: ['11.a', '11.c'], soc2: ['CC7.3', 'CC7.4'] },
+  'vulnerability-management': { 'nist-800-53': ['RA-5', 'CA-8'], hitrust: ['10.m'], soc2: ['CC7.1'] },
+  'asset-inventory': { 'nist-800-53': ['CM-8'], hitrust: ['07.a'], soc2: ['CC6.1'] },
+  'data-flow': { 'nist-800-53': ['AC-4', 'CM-13'], hitrust: ['09.s'], soc2: ['CC6.1'] },
+};
+
+/** Built-in rule ids per theme. A rule may belong to more than one theme. */
+const THEME_RULES: Record<Theme, string[]> = {
+  'phi-disclosure': [
+    'ssn-hardcoded', 'medical-record-number', 'dob-exposed', 'diagnosis-code',
+    'email-phi-context', 'phone-phi-context', 'address-phi-context',
+    'skill-phi-hardcoded-ssn', 'skill-phi-patient-name', 'skill-phi-dob', 'skill-phi-mrn', 'skill-phi-diagnosis',
+    'PART2-SUD-DIAGNOSIS', 'MHMDA-GEOFENCE',
+  ],
+  'phi-logging': [
+    'patient-name-log', 'phi-console-log', 'phi-json-stringify-log', 'phi-template-log',
+    'phi-logger-unredacted', 'phi-log-file', 'phi-debug-output', 'skill-phi-in-logs',
+    'TAINT-LOGGER', 'TAINT-ERROR-TRACKER', 'ERROR-002', 'PART2-SUD-LOG',
+  ],
+  'phi-transmission': [
+    'phi-in-url', 'phi-query-param', 'phi-url-interpolation', 'phi-fetch-url',
+    'phi-header-set', 'phi-header-object', 'phi-authorization-header',
+    'phi-email-body', 'phi-email-template', 'phi-email-subject',
+    'skill-phi-in-url', 'skill-http-phi-transmission', 'TAINT-URL', 'TAINT-ANALYTICS', 'API-001',
+    'PART2-CONSENT-MISSING', 'PART2-REDISCLOSURE-NOTICE', 'CMIA-MEDICAL-INFO-SHARING', 'CMIA-AUTHORIZATION-MISSING',
+    'MHMDA-HEALTH-DATA-SHARING',
+  ],
+  'client-storage': [
+    'phi-localstorage', 'phi-sessionstorage', 'phi-cookie-storage', 'phi-indexeddb', 'TAINT-STORAGE', 'phi-cache',
+  ],
+  'hardcoded-secrets': [
+    'skill-api-key-exposed', 'skill-aws-credentials', 'skill-database-password', 'skill-bearer-token', 'skill-private-key',
+    'CRED-002', 'CRED-003', 'RBAC-002',
+    'hardcoded-password', 'hardcoded-pwd', 'hardcoded-secret', 'credentials-object',
+    'api-key-exposed', 'apikey-exposed', 'stripe-key-exposed', 'aws-key-exposed',
+    'bearer-token-exposed', 'auth-token-exposed', 'private-key-exposed',
+    'mongodb-uri-credentials', 'postgres-uri-credentials', 'mysql-uri-credentials', 'public-password',
+  ],
+  'malicious-code': [
+    'skill-data-exfiltration', 'skill-reverse-shell', 'skill-atomic-stealer', 'skill-credential-scraper',
+    'skill-obfuscated-command',
+  ],
+  'weak-crypto': ['enc-md5', 'enc-sha1', 'enc-des', 'enc-rc4', 'enc-deprecated-cipher', 'enc-ecb-mode', 'CRED-001'],
+  'encryption-at-rest': ['HIPAA-ENC-REST-001', 'skill-no-encryption', 'HIPAA-SEC-001'],
+  'transmission-encryption': ['enc-http-url', 'enc-ssl-disabled', 'enc-ssl-verify-disabled', 'enc-tls-cert-validation-disabled'],
+  'backup-encryption': [
+    'enc-backup-encryption-disabled', 'enc-db-backup-no-ssl', 'enc-backup-file-unencrypted',
+    'enc-phi-backup-unencrypted', 'enc-s3-backup-no-sse', 'enc-backup-storage-unencrypted',
+  ],
+  'backup': ['BACKUP-001', 'backup-disabled'],
+  'retention': ['RETENTION-001', 'short-retention', 'bulk-delete', 'HIPAA-RETENTION-001'],
+  'audit-logging': ['audit-no-framework', 'audit-unlogged-action', 'skill-no-audit-logging', 'unlogged-delete', 'HIPAA-AUDIT-001'],
+  'access-enforcement': ['RBAC-001', 'auth-bypass', 'hardcoded-admin', 'admin-flag', 'HIPAA-ACCESS-001'],
+  'least-privilege': ['RBAC-002', 'RBAC-003', 'select-star', 'HIPAA-PHI-003'],
+  'authentication': ['HIPAA-MFA-001', 'MFA-001', 'MFA-002', 'MFA-003'],
+  'session': ['HIPAA-SESSION-001', 'no-session-expiry', 'REVOKE-002', 'HIPAA-AUTH-001', 'cookie-no-httponly', 'cookie-config-insecure'],
+  'account-revocation': ['HIPAA-REVOKE-001', 'REVOKE-001'],
+  'input-validation': [
+    'SANITIZE-001', 'SANITIZE-002', 'innerhtml-unsanitized', 'dangerous-innerhtml-react',
+    'eval-usage', 'function-constructor', 'document-write',
+    'sql-string-concat', 'sql-template-literal', 'query-template-injection', 'execute-string-concat', 'raw-query-injection',
+  ],
+  'boundary-protection': ['RATE-001', 'CORS-001', 'cors-wildcard', 'HIPAA-SEGMENT-001', 'API-002'],
+  'secure-configuration': ['CONFIG-001', 'CONFIG-002', 'CONFIG-003'],
+  'error-handling': ['ERROR-001'],
+  'incident-response': ['HIPAA-BREACH-001'],
+  'vulnerability-management': ['HIPAA-PENTEST-001'],
+  'asset-inventory': ['HIPAA-ASSET-001'],
+  'data-flow': ['HIPAA-FLOW-001'],
+};
+
+/** Theme assumed for findings that do not come from a built-in rule. */
+const CATEGORY_THEMES: Record<Category, Theme> = {
+  'phi-exposure': 'phi-disclosure',
+  'encryption': 'encryption-at-rest',
+  'access-control': 'access-enforcement',
+  'audit-logging': 'audit-logging',
+  'data-retention': 'retention',
+};
+
+const THEMES_BY_RULE = new Map<string, Theme[]>();
+for (const [theme, ruleIds] of Object.entries(THEME_RULES) as Array<[Theme, string[]]>) {
+  for (const ruleId of ruleIds) {
+    THEMES_BY_RULE.set(ruleId, [...(THEMES_BY_RULE.get(ruleId) ?? []), theme]);
+  }
+}
+
+function controlsForThemes(themes: Theme[], framework: CrosswalkFramework): string[] {
+  return [...new Set(themes.flatMap(theme => THEME_CONTROLS[theme][framework]))];
+}
+
+/**
+ * Resolve a `--framework` value. Accepts the short names `nist`, `hitrust` and
+ * `soc2` as well as the full framework ids.
+ */
+export function parseCrosswalkFramework(value: string): CrosswalkFramework | undefined {
+  const normalized = value.trim().toLowerCase();
+  if (normalized === 'nist' || normalized === 'nist-800-53' || normalized === 'nist-800-53r5') return 'nist-800-53';
+  if (normalized === 'hitrust' || normalized === 'soc2') return normalized;
+  return undefined;
+}
+
+/**
+ * Controls of a framework that a built-in rule maps to
+ */
+export function getRuleFrameworkControls(rule: CatalogRule, framework: CrosswalkFramework): string[] {
+  return controlsForThemes(THEMES_BY_RULE.get(rule.id) ?? [CATEGORY_THEMES[rule.category]], framework);
+}
+
+/**
+ * Controls of a framework that a finding maps to, through the rule that
+ * produced it or, for custom rules, its category
+ */
+export function getFindingFrameworkControls(finding: Finding, framework: CrosswalkFramework): string[] {
+  const rule = findCatalogRule(finding.id);
+  if (rule) return getRuleFrameworkControls(rule, framework);
+  const theme = CATEGORY_THEMES[finding.category as Category];
+  return theme ? controlsForThemes([theme], framework) : [];
+}
+
+export interface FrameworkControlResult {
+  id: string;
+  name: string;
+  /** 0-100, from the same severity penalties as the compliance score; absent when not assessed. */
+  score?: number;
+  status: ControlStatus;
+  /** Ids of the built-in rules that ran and map to this control. */
+  rules: string[];
+  findings: Array<Pick<Finding, 'id' | 'title' | 'severity' | 'file' | 'line'>>;
+}
+
+export interface FrameworkReport {
+  framework: CrosswalkFramework;
+  name: string;
+  summary: Record<ControlStatus, number> & { total: number };
+  controls: FrameworkControlResult[];
+}
+
+/**
+ * Regroup a scan's active findings by the controls of a framework and score
+ * each control. Controls are listed when a pattern rule maps to them or a
+ * finding does. As in the HIPAA matrix, a control fails with active findings,
+ * passes when a rule of a scanner that ran assesses it in a full scan, and is
+ * otherwise not assessed.
+ */
+export function buildFrameworkReport(
+  findings: Finding[],
+  framework: CrosswalkFramework,
+  scope: AssessmentScope = {},
+  rules: CatalogRule[] = RULE_CATALOG
+): FrameworkReport {
+  const names = FRAMEWORK_CONTROLS[framework];
+  const byControl = new Map<string, { rules: Set<string>; findings: FrameworkControlResult['findings']; penalty: number }>();
+  const entry = (id: string) => {
+    if (!byControl.has(id)) byControl.set(id, { rules: new Set(), findings: [], penalty: 0 });
+    return byControl.get(id)!;
+  };
+
+  for (const rule of rules.filter(r => r.source === 'pattern')) {
+    for (const control of getRuleFrameworkControls(rule, framework)) entry(control);
+  }
+  for (const rule of getAssessingRules(rules, scope)) {
+    for (const control of getRuleFrameworkControls(rule, framework)) entry(control).rules.add(rule.id);
+  }
+
+  for (const finding of findings) {
+    if (finding.isBaseline || finding.suppressed) continue;
+    for (const control of getFindingFrameworkControls(finding, framework)) {
+      const result = entry(control);
+      result.findings.push({
+        id: finding.id,
+        title: finding.title,
+        severity: finding.severity,
+        file: finding.file,
+        line: finding.line,
+      });
+      result.penalty += getFindingPenalty(finding);
+    }
+  }
+
+  const summary = { pass: 0, fail: 0, 'not-assessed': 0, total: byControl.size };
+  const controls = [...byControl.entries()]
+    .sort(([a], [b]) => a.localeCompare(b, 'en', { numeric: true }))
+    .map(([id, result]): FrameworkControlResult => {
+      const status: ControlStatus = result.findings.length > 0
+        ? 'fail'
+        : result.rules.size > 0 && !scope.partial ? 'pass' : 'not-assessed';
+      summary[status]++;
+      return {
+        id,
+        name: names[id] ?? id,
+        score: status === 'not-assessed' ? undefined : Math.max(0, Math.round(100 - result.penalty)),
+        status,
+        rules: [...result.rules].sort(),
+        findings: result.findings,
+      };
+    });
+
+  return {
+    framework,
+    name: FRAMEWORK_NAMES[framework],
+    summary,
+    controls,
+  };
+}
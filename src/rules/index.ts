@@ -1,5 +1,5 @@
 export { loadCustomRules, validateRulesFile } from './loader.js';
 export type { LoadRulesResult, RuleLoadError } from './loader.js';
 export { scanWithCustomRules } from './scanner.js';
-export { CustomRuleSchema, RulesFileSchema } from './schema.js';
+export { CustomRuleSchema, RulesFileSchema, RuleConditionSchema } from './schema.js';
 export type { CustomRuleDefinition, RulesFile, CustomRuleFix } from './schema.js';
@@ -3,8 +3,9 @@ import path from 'path';
 import { parse as parseYaml } from 'yaml';
 import { ZodError } from 'zod';
 import { RulesFileSchema, CustomRuleSchema } from './schema.js';
-import type { CompiledCustomRule } from '../types.js';
+import type { CompiledCustomRule, CompiledRuleCondition, CustomRuleCondition } from '../types.js';
 import type { CustomRuleDefinition } from './schema.js';
+import { withDotAll } from '../scanners/utils.js';
 
 export interface LoadRulesResult {
   rules: CompiledCustomRule[];
@@ -23,6 +24,50 @@ function parseRegexFlags(flags: string): string {
   return flags.split('').filter(f => validFlags.includes(f)).join('');
 }
 
+/**
+ * Capture group references in a fix (`$1`, `$<name>`) that the rule's pattern
+ * does not define. `$$` is a literal dollar sign.
+ */
+function findUndefinedGroupReferences(rule: CustomRuleDefinition): string[] {
+  if (!rule.fix) return [];
+  const templates = [rule.fix.replacement, rule.fix.wrapper?.before, rule.fix.wrapper?.after]
+    .filter((t): t is string => t !== undefined)
+    .map(t => t.replace(/\$\$/g, ''));
+
+  const groupCount = new RegExp(`${rule.pattern}|`).exec('')!.length - 1;
+  const groupNames = new Set([...rule.pattern.matchAll(/\(\?<([A-Za-z_$][\w$]*)>/g)].map(m => m[1]));
+
+  const undefinedRefs: string[] = [];
+  for (const template of templates) {
+    for (const [ref, index, name] of template.matchAll(/\$(?:(\d{1,2})|<([^>]*)>)/g)) {
+      if (index !== undefined ? Number(index) > groupCount : !groupNames.has(name)) {
+        undefinedRefs.push(ref);
+      }
+    }
+  }
+  return undefinedRefs;
+}
+
+function compileCondition(condition: CustomRuleCondition, flags: string): CompiledRuleCondition {
+  if (condition.all) {
+    return { kind: 'all', conditions: condition.all.map(c => compileCondition(c, flags)) };
+  }
+  if (condition.any) {
+    return { kind: 'any', conditions: condition.any.map(c => compileCondition(c, flags)) };
+  }
+  if (condition.not) {
+    return { kind: 'not', condition: compileCondition(condition.not, flags) };
+  }
+  if (condition['same-file-contains'] !== undefined) {
+    return { kind: 'same-file-contains', pattern: new RegExp(condition['same-file-contains'], flags) };
+  }
+  return {
+    kind: 'pattern',
+    pattern: withDotAll(new RegExp(condition.pattern!, flags)),
+    within: condition.within ?? 0,
+  };
+}
+
 function compileRule(rule: CustomRuleDefinition): CompiledCustomRule {
   const flags = parseRegexFlags(rule.flags || 'gi');
 
@@ -32,6 +77,7 @@ function compileRule(rule: CustomRuleDefinition): CompiledCustomRule {
     compiledMustNotContain: rule.mustNotContain
       ? new RegExp(rule.mustNotContain, flags)
       : undefined,
+    compiledConditions: rule.conditions ? compileCondition(rule.conditions, flags) : undefined,
   };
 }
 
@@ -77,6 +123,16 @@ async function loadYamlFile(filePath: string): Promise<{ rules: CompiledCustomRu
           }
         }
 
+        const undefinedRefs = findUndefinedGroupReferences(rule);
+        if (undefinedRefs.length > 0) {
+          errors.push({
+            file: filePath,
+            error: `Invalid fix in rule "${rule.id}"`,
+            details: `References capture groups the pattern does not define: ${undefinedRefs.join(', ')}`,
+          });
+          continue;
+        }
+
         rules.push(compileRule(rule));
       } catch (ruleError) {
         if (ruleError instanceof ZodError) {
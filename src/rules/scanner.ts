@@ -1,9 +1,11 @@
-import { readFile } from 'fs/promises';
 import { minimatch } from 'minimatch';
 import path from 'path';
-import type { Finding, ScanOptions, CompiledCustomRule } from '../types.js';
+import type { Finding, ScanOptions, CompiledCustomRule, CompiledRuleCondition } from '../types.js';
 import { getContextLines } from '../utils/context.js';
 import { DEFAULT_CONFIG } from '../config.js';
+import { readSourceFile } from '../engine/source-files.js';
+import { analyzeSourceContext } from '../semantic-analysis.js';
+import { matchesWithinWindow } from '../scanners/utils.js';
 
 function matchesFileFilters(
   filePath: string,
@@ -35,6 +37,30 @@ function matchesFileFilters(
   return true;
 }
 
+/**
+ * Whether a rule's condition tree holds at a matched line (0-based)
+ */
+function conditionHolds(
+  condition: CompiledRuleCondition,
+  lines: string[],
+  lineIndex: number,
+  content: string
+): boolean {
+  switch (condition.kind) {
+    case 'all':
+      return condition.conditions.every(c => conditionHolds(c, lines, lineIndex, content));
+    case 'any':
+      return condition.conditions.some(c => conditionHolds(c, lines, lineIndex, content));
+    case 'not':
+      return !conditionHolds(condition.condition, lines, lineIndex, content);
+    case 'pattern':
+      return matchesWithinWindow(lines, lineIndex, condition.pattern, condition.within);
+    case 'same-file-contains':
+      condition.pattern.lastIndex = 0;
+      return condition.pattern.test(content);
+  }
+}
+
 export async function scanWithCustomRules(
   files: string[],
   options: ScanOptions,
@@ -56,8 +82,7 @@ export async function scanWithCustomRules(
     }
 
     try {
-      const content = await readFile(filePath, 'utf-8');
-      const lines = content.split('\n');
+      const { content, lines } = await readSourceFile(filePath);
 
       for (let lineNum = 0; lineNum < lines.length; lineNum++) {
         const line = lines[lineNum];
@@ -80,6 +105,22 @@ export async function scanWithCustomRules(
               }
             }
 
+            // Composite rules: the match must also meet the condition tree
+            if (rule.compiledConditions && !conditionHolds(rule.compiledConditions, lines, lineNum, content)) {
+              continue;
+            }
+
+            // Rules limited to some contexts (e.g. only executable code) skip
+            // matches inside comments or string literals
+            if (rule.contexts && rule.contexts.length > 0) {
+              const matched = rule.compiledPattern.exec(line)?.[0];
+              rule.compiledPattern.lastIndex = 0;
+              const { context } = analyzeSourceContext(filePath, content, lineNum + 1, matched);
+              if (!(rule.contexts as string[]).includes(context)) {
+                continue;
+              }
+            }
+
             findings.push({
               id: `custom-${rule.id}-${filePath}-${lineNum}`,
               category: rule.category,
@@ -91,7 +132,7 @@ export async function scanWithCustomRules(
               recommendation: rule.recommendation,
               hipaaReference: rule.hipaaReference,
               context: getContextLines(lines, lineNum, contextSize),
-              fixType: rule.fix ? (`custom-${rule.id}` as any) : undefined,
+              fixType: rule.fix ? `custom-${rule.id}` : undefined,
               confidence: rule.confidence,
               adjustConfidenceByContext: rule.adjustConfidenceByContext,
             });
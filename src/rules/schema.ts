@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import type { CustomRuleCondition } from '../types.js';
 
 export const CustomRuleFixSchema = z.object({
   type: z.enum(['replace', 'remove', 'wrap']),
@@ -7,6 +8,16 @@ export const CustomRuleFixSchema = z.object({
     before: z.string(),
     after: z.string(),
   }).optional(),
+}).superRefine((fix, ctx) => {
+  if (fix.type === 'replace' && fix.replacement === undefined) {
+    ctx.addIssue({ code: 'custom', path: ['replacement'], message: 'A replace fix needs a replacement' });
+  }
+  if (fix.type === 'wrap' && !fix.wrapper) {
+    ctx.addIssue({ code: 'custom', path: ['wrapper'], message: 'A wrap fix needs a wrapper' });
+  }
+  if (fix.type === 'remove' && (fix.replacement !== undefined || fix.wrapper)) {
+    ctx.addIssue({ code: 'custom', message: 'A remove fix takes no replacement or wrapper' });
+  }
 });
 
 /**
@@ -24,6 +35,43 @@ export const CategoryEnum = z.enum([
 
 export type Category = z.infer<typeof CategoryEnum>;
 
+const RegexSource = z.string().min(1).refine(source => {
+  try {
+    new RegExp(source);
+    return true;
+  } catch {
+    return false;
+  }
+}, 'Invalid regular expression');
+
+const CONDITION_KINDS = ['all', 'any', 'not', 'pattern', 'same-file-contains'] as const;
+
+/**
+ * Condition tree of a composite rule, evaluated at each line `pattern`
+ * matches: `all`, `any` and `not` combine conditions, `pattern` with
+ * `within: N` looks N lines above and below, `same-file-contains` looks at
+ * the whole file.
+ */
+export const RuleConditionSchema: z.ZodType<CustomRuleCondition> = z.lazy(() => z.object({
+  all: z.array(RuleConditionSchema).min(1).optional(),
+  any: z.array(RuleConditionSchema).min(1).optional(),
+  not: RuleConditionSchema.optional(),
+  pattern: RegexSource.optional(),
+  within: z.number().int().min(0).optional(),
+  'same-file-contains': RegexSource.optional(),
+}).strict().superRefine((condition, ctx) => {
+  const kinds = CONDITION_KINDS.filter(kind => condition[kind] !== undefined);
+  if (kinds.length !== 1) {
+    ctx.addIssue({
+      code: 'custom',
+      message: `A condition needs exactly one of ${CONDITION_KINDS.join(', ')}${kinds.length > 0 ? ` (found ${kinds.join(', ')})` : ''}`,
+    });
+  }
+  if (condition.within !== undefined && condition.pattern === undefined) {
+    ctx.addIssue({ code: 'custom', path: ['within'], message: 'within applies to pattern conditions' });
+  }
+}));
+
 export const CustomRuleSchema = z.object({
   id: z.string().regex(/^[a-z0-9-]+$/, 'Rule ID must be lowercase alphanumeric with hyphens'),
   name: z.string().min(1, 'Rule name is required'),
@@ -37,6 +85,7 @@ export const CustomRuleSchema = z.object({
   recommendation: z.string().min(1, 'Recommendation is required'),
   hipaaReference: z.string().optional(),
   mustNotContain: z.string().optional(),
+  conditions: RuleConditionSchema.optional(),
   fix: CustomRuleFixSchema.optional(),
   // Semantic awareness fields
   confidence: z.enum(['high', 'medium', 'low']).optional(),
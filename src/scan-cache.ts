@@ -0,0 +1,174 @@
+/**
+ * Incremental scan cache — reuse per-file findings for files whose content has
+ * not changed since the previous scan.
+ *
+ * Entries are keyed by the file's path (relative to the scan root) and the
+ * SHA-256 of its content. The whole cache is additionally bound to a rule-set
+ * fingerprint: vlayer version, built-in catalog, enabled categories, scanners
+ * and plugins, compiled custom rules and the config values scanners read. Any
+ * change to those invalidates every entry at once, so a cached result can never
+ * come from a different rule set.
+ *
+ * Only findings that a scanner derives from a single file are cached. Scanners
+ * flagged `projectWide` (asset inventory, PHI flow map, project-level checks)
+ * always re-run over the full file set — see `scan()`.
+ */
+import * as crypto from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type { ComplianceCategory, CompiledCustomRule, Finding, VlayerConfig } from './types.js';
+import { RULE_CATALOG } from './rules/catalog.js';
+import { getToolVersion } from './version.js';
+
+/** Bump when the on-disk layout or the meaning of cached findings changes. */
+const CACHE_FORMAT_VERSION = 1;
+
+export const SCAN_CACHE_FILE = path.join('.vlayer', 'cache', 'scan-cache.json');
+
+interface CachedFileEntry {
+  hash: string;
+  /** Findings with `file` stored relative to the scan root. */
+  findings: Finding[];
+}
+
+interface ScanCacheData {
+  formatVersion: number;
+  fingerprint: string;
+  entries: Record<string, CachedFileEntry>;
+}
+
+export interface RuleSetFingerprintInput {
+  categories: ComplianceCategory[];
+  /** Registry ids of the scanners that run. */
+  scannerIds: string[];
+  /** `name@version` of each loaded plugin. */
+  plugins?: string[];
+  customRules: CompiledCustomRule[];
+  config: VlayerConfig;
+  /** Compliance profile; it selects the privacy scanner's rules. */
+  profile?: string;
+}
+
+/**
+ * Fingerprint everything that can change a file's findings without changing
+ * the file itself.
+ */
+export function computeRuleSetFingerprint(input: RuleSetFingerprintInput): string {
+  const payload = {
+    toolVersion: getToolVersion(),
+    catalog: RULE_CATALOG.map(rule => `${rule.id}:${rule.severity}`),
+    categories: [...input.categories].sort(),
+    scanners: [...input.scannerIds].sort(),
+    plugins: [...(input.plugins ?? [])].sort(),
+    profile: input.profile ?? 'hipaa',
+    // Compiled RegExp objects do not serialize; the source definitions do.
+    customRules: input.customRules.map(rule => ({
+      ...rule,
+      compiledPattern: undefined,
+      compiledMustNotContain: undefined,
+      compiledConditions: undefined,
+    })),
+    config: {
+      contextLines: input.config.contextLines,
+      safeHttpDomains: input.config.safeHttpDomains,
+    },
+  };
+  return crypto.createHash('sha256').update(JSON.stringify(payload)).digest('hex');
+}
+
+export class ScanCache {
+  private entries: Record<string, CachedFileEntry>;
+  private touched = new Set<string>();
+  hits = 0;
+  misses = 0;
+
+  private constructor(
+    private readonly rootPath: string,
+    private readonly fingerprint: string,
+    entries: Record<string, CachedFileEntry>
+  ) {
+    this.entries = entries;
+  }
+
+  /**
+   * Load the cache for a scan root. A missing, unreadable or stale cache
+   * (different format version or fingerprint) yields an empty cache.
+   */
+  static async load(rootPath: string, fingerprint: string): Promise<ScanCache> {
+    const root = path.resolve(rootPath);
+    try {
+      const data = JSON.parse(await fs.readFile(path.join(root, SCAN_CACHE_FILE), 'utf-8')) as ScanCacheData;
+      if (data.formatVersion === CACHE_FORMAT_VERSION && data.fingerprint === fingerprint) {
+        return new ScanCache(root, fingerprint, data.entries ?? {});
+      }
+    } catch {
+      // No cache yet, or unreadable — start fresh
+    }
+    return new ScanCache(root, fingerprint, {});
+  }
+
+  /** SHA-256 of a file's raw content. */
+  hashContent(content: Buffer | string): string {
+    return crypto.createHash('sha256').update(content).digest('hex');
+  }
+
+  /** Cached findings for a file at a given content hash, or undefined on a miss. */
+  get(filePath: string, hash: string): Finding[] | undefined {
+    const key = this.keyFor(filePath);
+    const entry = this.entries[key];
+    if (!entry || entry.hash !== hash) {
+      this.misses++;
+      return undefined;
+    }
+    this.hits++;
+    this.touched.add(key);
+    return entry.findings.map(f => ({ ...f, file: filePath }));
+  }
+
+  /** Record a file's findings (possibly none) at a given content hash. */
+  set(filePath: string, hash: string, findings: Finding[]): void {
+    const key = this.keyFor(filePath);
+    this.touched.add(key);
+    this.entries[key] = {
+      hash,
+      findings: findings.map(f => ({ ...f, file: key })),
+    };
+  }
+
+  /**
+   * Persist the cache. With `pruneUntouched`, entries for files not seen in
+   * this run (deleted, now excluded) are dropped — only do this after a scan
+   * that covered the whole tree.
+   */
+  async save(options: { pruneUntouched?: boolean } = {}): Promise<void> {
+    const entries = options.pruneUntouched
+      ? Object.fromEntries(Object.entries(this.entries).filter(([key]) => this.touched.has(key)))
+      : this.entries;
+
+    const data: ScanCacheData = {
+      formatVersion: CACHE_FORMAT_VERSION,
+      fingerprint: this.fingerprint,
+      entries,
+    };
+
+    const cachePath = path.join(this.rootPath, SCAN_CACHE_FILE);
+    const tmpPath = `${cachePath}.${process.pid}.tmp`;
+    try {
+      await fs.mkdir(path.dirname(cachePath), { recursive: true });
+      await fs.writeFile(tmpPath, JSON.stringify(data), 'utf-8');
+      await fs.rename(tmpPath, cachePath);
+    } catch {
+      // A read-only checkout must not fail the scan; the next run simply misses.
+      await fs.rm(tmpPath, { force: true }).catch(() => undefined);
+    }
+  }
+
+  private keyFor(filePath: string): string {
+    return path.relative(this.rootPath, filePath).split(path.sep).join('/');
+  }
+}
+
+/** Delete the scan cache for a project. */
+export async function clearScanCache(rootPath: string): Promise<void> {
+  await fs.rm(path.join(path.resolve(rootPath), SCAN_CACHE_FILE), { force: true });
+}
@@ -1,34 +1,26 @@
 import { glob } from 'glob';
-import type { ScanOptions, ScanResult, Finding, ComplianceCategory, Scanner, StackInfo, GroupedFinding, InformationalArtifact } from './types.js';
+import type { ScanOptions, ScanResult, Finding, ComplianceCategory, StackInfo, GroupedFinding, InformationalArtifact, DiffScanInfo, BaselineSummary } from './types.js';
 import { loadConfig, isPathIgnored } from './config.js';
-import { phiScanner } from './scanners/phi/index.js';
-import { encryptionScanner } from './scanners/encryption/index.js';
-import { auditScanner } from './scanners/audit/index.js';
-import { accessScanner } from './scanners/access/index.js';
-import { retentionScanner } from './scanners/retention/index.js';
-import { securityScanner } from './scanners/security/index.js';
-import { skillsScanner } from './scanners/skills/index.js';
-import { hipaa2026Scanner } from './scanners/hipaa2026/index.js';
-import { authenticationScanner } from './scanners/authentication/index.js';
-import { rbacScanner } from './scanners/rbac/index.js';
-import { credentialsScanner } from './scanners/credentials/index.js';
-import { errorsScanner } from './scanners/errors/index.js';
-import { sanitizationScanner } from './scanners/sanitization/index.js';
-import { revocationScanner } from './scanners/revocation/index.js';
-import { configurationScanner } from './scanners/configuration/index.js';
-import { apiSecurityScanner } from './scanners/api-security/index.js';
-import { operationalScanner } from './scanners/operational/index.js';
 import { detectStack, getStackDisplayName } from './stack-detector/index.js';
 import { getStackSummary } from './stack-detector/stack-guides.js';
-import { loadCustomRules, scanWithCustomRules } from './rules/index.js';
-import { applyAcknowledgments } from './acknowledgments.js';
-import { applyInlineSuppressions } from './suppression.js';
-import { loadBaseline, applyBaseline } from './baseline.js';
+import { loadCustomRules } from './rules/index.js';
+import { registerCustomRuleFixes } from './fixer/strategies.js';
+import { applyAcknowledgments, checkAcknowledgment, getAcknowledgmentsPath, missingApprovers, loadAcknowledgments } from './acknowledgments.js';
+import { loadCodeowners } from './utils/codeowners.js';
+import { applyInlineSuppressions, findUnusedSuppressions } from './suppression.js';
+import { loadBaseline, applyBaseline, needsMigration, migrateBaseline, writeBaseline, summarizeBaseline } from './baseline.js';
+import { fingerprintFindings } from './fingerprint.js';
 import { batchAnalyzeSemanticContext } from './semantic-analysis.js';
 import { calculateComplianceScore } from './compliance-score.js';
 import { triageExistingFindings } from './ai/scanner.js';
 import { isAIAvailable } from './ai/client.js';
 import { DEFAULT_VLAYER_OUTPUT_EXCLUDES } from './exclusions.js';
+import { getGitDiff, isLineChanged, type GitDiff } from './utils/git-diff.js';
+import { ScanCache, computeRuleSetFingerprint } from './scan-cache.js';
+import { createScanEngine, type BatchInput, type BatchResult } from './engine/index.js';
+import { resolveScanners } from './scanners/registry.js';
+import { loadPlugins, describePlugins } from './plugins/index.js';
+import { resolveProfile, applyProfile, describeProfile } from './profiles.js';
 import * as fs from 'fs/promises';
 
 const ALL_CATEGORIES: ComplianceCategory[] = [
@@ -39,32 +31,31 @@ const ALL_CATEGORIES: ComplianceCategory[] = [
   'data-retention',
 ];
 
-const scanners: Record<ComplianceCategory, Scanner> = {
-  'phi-exposure': phiScanner,
-  'encryption': encryptionScanner,
-  'audit-logging': auditScanner,
-  'access-control': accessScanner,
-  'data-retention': retentionScanner,
-};
-
-// Additional scanners that run with specific categories
-const additionalScanners: Partial<Record<ComplianceCategory, Scanner[]>> = {
-  'access-control': [securityScanner, skillsScanner, hipaa2026Scanner, authenticationScanner, rbacScanner, sanitizationScanner, revocationScanner, apiSecurityScanner], // Security, Skills, HIPAA 2026, Authentication, RBAC, Sanitization, Revocation, and API Security scanners run with access-control
-  'encryption': [credentialsScanner], // Credentials scanner runs with encryption
-  'audit-logging': [errorsScanner, configurationScanner], // Errors and Configuration scanners run with audit-logging
-  'phi-exposure': [errorsScanner], // Errors scanner also runs with phi-exposure
-  'data-retention': [operationalScanner], // Operational scanner runs with data-retention
-};
-
 export async function scan(options: ScanOptions): Promise<ScanResult> {
   const startTime = Date.now();
 
   // Load configuration
   const config = await loadConfig(options.path, options.configFile);
-  const optionsWithConfig = { ...options, config };
+  // The privacy scanner reads the profile to pick its rules
+  const profile = resolveProfile(options.profile, config.profile);
+  const optionsWithConfig = { ...options, config, profile: profile.id };
 
   const categories = options.categories ?? config.categories ?? ALL_CATEGORIES;
 
+  // Scanner plugins listed in config; a broken plugin is skipped, not fatal
+  const { plugins, errors: pluginErrors } = await loadPlugins(options.path, config.plugins ?? []);
+  for (const error of pluginErrors) {
+    console.warn(`[vlayer] Warning: ${error.error} (plugin ${error.plugin})`);
+  }
+
+  const scannerIds = resolveScanners({
+    categories,
+    config,
+    pluginScanners: plugins.flatMap(p => p.plugin.scanners ?? []),
+    only: options.scanners,
+    skip: options.skipScanners,
+  }).map(scanner => scanner.id);
+
   // Get all files to scan
   const defaultExclude = [
     '**/node_modules/**',
@@ -79,6 +70,8 @@ export async function scan(options: ScanOptions): Promise<ScanResult> {
     '**/yarn.lock',
     '**/bun.lock',
     '**/bun.lockb',
+    // Incremental scan cache: serialized findings, never source
+    '**/.vlayer/cache/**',
   ];
 
   // Exclude vlayer's own generated outputs by default so the scanner never
@@ -102,7 +95,16 @@ export async function scan(options: ScanOptions): Promise<ScanResult> {
   });
 
   // Filter out ignored paths from config
-  const filteredFiles = files.filter(f => !isPathIgnored(f, config));
+  let filteredFiles = files.filter(f => !isPathIgnored(f, config));
+
+  // Diff-aware mode: only files changed relative to the ref go through the
+  // scanners. Excludes/ignorePaths above still apply to them.
+  let gitDiff: GitDiff | undefined;
+  if (options.since) {
+    gitDiff = await getGitDiff(options.path, options.since);
+    const changed = gitDiff.files;
+    filteredFiles = filteredFiles.filter(f => changed.has(f));
+  }
 
   // Pre-filter large files (>1MB) to prevent OOM on large repos
   const BATCH_SIZE = 50;
@@ -140,43 +142,134 @@ export async function scan(options: ScanOptions): Promise<ScanResult> {
     }
   }
 
-  // Process files in batches to limit memory usage
+  // Findings of rules with a `fix` block carry `custom-<id>` fix types
+  registerCustomRuleFixes(customRules);
+
+  // Incremental cache: unchanged files reuse the findings of the last run.
+  const cache = options.cache !== false
+    ? await ScanCache.load(
+        options.path,
+        computeRuleSetFingerprint({
+          categories,
+          scannerIds,
+          plugins: plugins.map(p => `${p.plugin.name}@${p.plugin.version ?? ''}`),
+          customRules,
+          config,
+          profile: profile.id,
+        })
+      )
+    : undefined;
+
+  // Process files in batches to limit memory usage. Batches are scanned by the
+  // engine (in-process or on worker threads) and merged strictly in batch
+  // order, so findings come out the same whatever the job count.
   const findings: Finding[] = [];
   const totalBatches = Math.ceil(normalFiles.length / BATCH_SIZE) || 1;
+  const engine = createScanEngine(
+    { options: optionsWithConfig, scannerIds, pluginModules: plugins.map(p => p.moduleUrl), customRules },
+    options.jobs
+  );
 
-  for (let batchIdx = 0; batchIdx < totalBatches; batchIdx++) {
-    const batchStart = batchIdx * BATCH_SIZE;
-    const batchFiles = normalFiles.slice(batchStart, batchStart + BATCH_SIZE);
+  interface InFlightBatch {
+    batchFiles: string[];
+    cached: Finding[];
+    fileHashes: Map<string, string>;
+    result: Promise<BatchResult>;
+  }
 
-    if (totalBatches > 1) {
-      console.error(`[vlayer] Processing batch ${batchIdx + 1}/${totalBatches} (${batchFiles.length} files)...`);
+  const mergeBatch = async ({ batchFiles, cached, fileHashes, result }: InFlightBatch): Promise<void> => {
+    const { projectWide, cacheable } = await result;
+
+    // Per-file findings go in file order (scanner order within a file), so a
+    // warm cache yields the same sequence as a cold run.
+    const fileOrder = new Map(batchFiles.map((file, index) => [file, index]));
+    const perFile = [...cached, ...cacheable].sort(
+      (a, b) => (fileOrder.get(a.file) ?? batchFiles.length) - (fileOrder.get(b.file) ?? batchFiles.length)
+    );
+    findings.push(...projectWide, ...perFile);
+
+    if (cache) {
+      const byFile = new Map<string, Finding[]>();
+      for (const f of cacheable) {
+        if (!byFile.has(f.file)) byFile.set(f.file, []);
+        byFile.get(f.file)!.push(f);
+      }
+      for (const [file, hash] of fileHashes) {
+        cache.set(file, hash, byFile.get(file) ?? []);
+      }
     }
+  };
 
-    for (const category of categories) {
-      const scanner = scanners[category];
-      if (scanner) {
-        const categoryFindings = await scanner.scan(batchFiles, optionsWithConfig);
-        findings.push(...categoryFindings);
+  // At most one batch per worker is in flight, bounding memory to roughly
+  // `jobs` batches of file contents.
+  const inFlight: InFlightBatch[] = [];
+  const maxInFlight = Math.max(1, engine.workers);
+
+  try {
+    for (let batchIdx = 0; batchIdx < totalBatches; batchIdx++) {
+      const batchStart = batchIdx * BATCH_SIZE;
+      const batchFiles = normalFiles.slice(batchStart, batchStart + BATCH_SIZE);
+
+      if (totalBatches > 1) {
+        console.error(`[vlayer] Processing batch ${batchIdx + 1}/${totalBatches} (${batchFiles.length} files)...`);
       }
 
-      const additional = additionalScanners[category];
-      if (additional) {
-        for (const extraScanner of additional) {
-          const extraFindings = await extraScanner.scan(batchFiles, optionsWithConfig);
-          findings.push(...extraFindings);
+      // Read each file once: the bytes feed the cache hash, the text is shared
+      // by every scanner. Unreadable files are left for scanners to skip.
+      const contents: BatchInput['contents'] = [];
+      const cached: Finding[] = [];
+      const fileHashes = new Map<string, string>();
+      const filesToScan: string[] = [];
+
+      for (const file of batchFiles) {
+        let raw: Buffer | undefined;
+        try {
+          raw = await fs.readFile(file);
+        } catch {
+          // Scanners handle the read error the way they always have
         }
+        if (raw) contents.push([file, raw.toString('utf-8')]);
+
+        // Split the batch into cache hits (findings reused) and files to scan.
+        if (cache) {
+          const hash = raw ? cache.hashContent(raw) : null;
+          const hit = hash ? cache.get(file, hash) : undefined;
+          if (hit) {
+            cached.push(...hit);
+            continue;
+          }
+          if (hash) fileHashes.set(file, hash);
+        }
+        filesToScan.push(file);
       }
-    }
 
-    if (customRules.length > 0) {
-      const customFindings = await scanWithCustomRules(batchFiles, optionsWithConfig, customRules);
-      findings.push(...customFindings);
+      const result = engine.scanBatch({ batchFiles, filesToScan, contents });
+      // Surfaced when merged; until then, don't let a failure count as unhandled.
+      result.catch(() => undefined);
+      inFlight.push({ batchFiles, cached, fileHashes, result });
+
+      if (inFlight.length >= maxInFlight) {
+        await mergeBatch(inFlight.shift()!);
+      }
+
+      // Hint GC between batches
+      if (globalThis.gc) {
+        globalThis.gc();
+      }
     }
 
-    // Hint GC between batches
-    if (globalThis.gc) {
-      globalThis.gc();
+    while (inFlight.length > 0) {
+      await mergeBatch(inFlight.shift()!);
     }
+  } finally {
+    // Settle anything left in flight after a failure before tearing down.
+    await Promise.allSettled(inFlight.map(batch => batch.result));
+    await engine.close();
+  }
+
+  // A diff scan only touches part of the tree, so keep entries it did not see.
+  if (cache) {
+    await cache.save({ pruneUntouched: !gitDiff });
   }
 
   // Deduplicate project-level / aggregate findings that appear once per batch
@@ -196,6 +289,28 @@ export async function scan(options: ScanOptions): Promise<ScanResult> {
   findings.length = 0;
   findings.push(...deduplicatedFindings);
 
+  // In diff mode, aggregate findings were computed from the changed subset
+  // only (e.g. "no audit framework" because package.json did not change), so
+  // they would mislead the PR score. Drop them, and optionally narrow the rest
+  // to the lines the diff touched.
+  let diffInfo: DiffScanInfo | undefined;
+  if (gitDiff) {
+    const scope = options.diffScope ?? 'file';
+    const attributable = findings.filter(f => !aggregateFiles.has(f.file));
+    const inScope = scope === 'line'
+      ? attributable.filter(f => isLineChanged(gitDiff!.files.get(f.file), f.line))
+      : attributable;
+
+    diffInfo = {
+      since: gitDiff.since,
+      scope,
+      changedFiles: normalFiles.length,
+      skippedAggregateFindings: findings.length - attributable.length,
+    };
+    findings.length = 0;
+    findings.push(...inScope);
+  }
+
   // Informational artifacts (asset inventory, PHI flow map) are generated
   // documentation, not violations — lift them out of the findings list into
   // report metadata so they never count toward stats or the unacknowledged
@@ -214,6 +329,9 @@ export async function scan(options: ScanOptions): Promise<ScanResult> {
   findings.length = 0;
   findings.push(...nonArtifactFindings);
 
+  // Profile severities and references, before anything orders or scores by severity
+  findings.splice(0, findings.length, ...applyProfile(findings, profile));
+
   // Sort findings by severity
   const severityOrder = { critical: 0, high: 1, medium: 2, low: 3, info: 4 };
   findings.sort((a, b) => severityOrder[a.severity] - severityOrder[b.severity]);
@@ -233,12 +351,41 @@ export async function scan(options: ScanOptions): Promise<ScanResult> {
     recommendations: stackRecommendations,
   };
 
-  // Apply acknowledgments from configuration
-  let processedFindings = applyAcknowledgments(findings, config);
+  // Stable identities for baseline, acknowledgment and history matching
+  let processedFindings = await fingerprintFindings(findings, options.path);
+
+  // Apply acknowledgments, those still in the config's legacy list included
+  if (config.acknowledgedFindings?.length) {
+    console.warn('[vlayer] Warning: acknowledgedFindings in the config file is deprecated; move the entries to .vlayer/acknowledgments.yaml');
+  }
+  const ackConfig = {
+    ...config,
+    acknowledgedFindings: [
+      ...await loadAcknowledgments(options.acknowledgmentsFile ?? getAcknowledgmentsPath(options.path)),
+      ...config.acknowledgedFindings ?? [],
+    ],
+  };
+  const codeowners = await loadCodeowners(options.path);
+  processedFindings = applyAcknowledgments(processedFindings, ackConfig, codeowners);
+  const unapproved = processedFindings.filter(f =>
+    !f.acknowledged && checkAcknowledgment(f, ackConfig, codeowners).unapproved
+  );
+  if (unapproved.length > 0) {
+    console.warn(`[vlayer] Warning: ${unapproved.length} finding(s) acknowledged without the required approval are reported as open`);
+  }
+  const unapprovable = new Set(unapproved.map(f => missingApprovers(f.severity, ackConfig, codeowners, f.file)));
+  for (const reason of unapprovable) {
+    if (reason) console.warn(`[vlayer] Warning: ${reason}`);
+  }
 
   // Apply inline suppressions
   processedFindings = await applyInlineSuppressions(processedFindings);
 
+  // Directives outside the changed lines of a diff scan would all look unused
+  const unusedSuppressions = options.reportUnusedSuppressions && diffInfo?.scope !== 'line'
+    ? await findUnusedSuppressions(normalFiles, processedFindings)
+    : undefined;
+
   // Apply semantic analysis to determine confidence levels
   const semanticContexts = await batchAnalyzeSemanticContext(
     processedFindings.map(f => ({ file: f.file, line: f.line, pattern: f.id }))
@@ -297,10 +444,26 @@ export async function scan(options: ScanOptions): Promise<ScanResult> {
   }
 
   // Apply baseline if provided
+  let baselineSummary: BaselineSummary | undefined;
   if (options.baselineFile) {
-    const baseline = await loadBaseline(options.baselineFile);
+    let baseline = await loadBaseline(options.baselineFile);
+    if (baseline && needsMigration(baseline)) {
+      // Baselines from before fingerprints are rewritten once, in place
+      const migration = migrateBaseline(baseline, processedFindings);
+      baseline = migration.baseline;
+      if (migration.migrated > 0) {
+        await writeBaseline(options.baselineFile, baseline);
+        console.warn(`[vlayer] Migrated ${migration.migrated} baseline entr${migration.migrated === 1 ? 'y' : 'ies'} in ${options.baselineFile} to stable fingerprints`);
+      }
+    }
     if (baseline) {
       processedFindings = applyBaseline(processedFindings, baseline);
+      // Entries outside the scanned categories, or in files a diff scan
+      // skipped, could not have matched and are not counted as stale
+      const scanned = new Set(normalFiles);
+      baselineSummary = summarizeBaseline(baseline, processedFindings, entry =>
+        categories.includes(entry.category as ComplianceCategory) && (!gitDiff || scanned.has(entry.file))
+      );
     }
   }
 
@@ -318,8 +481,8 @@ export async function scan(options: ScanOptions): Promise<ScanResult> {
     });
   }
 
-  // Collapse exact-duplicate findings (e.g. a scanner registered under two
-  // categories firing twice on the same line) BEFORE grouping, so every output
+  // Collapse exact-duplicate findings (e.g. the same rule id emitted by two
+  // scanners on the same line) BEFORE grouping, so every output
   // format — terminal, JSON, HTML, PDF — sees one entry per real finding.
   const rawFindingCount = processedFindings.length;
   processedFindings = dedupeFindings(processedFindings);
@@ -336,6 +499,13 @@ export async function scan(options: ScanOptions): Promise<ScanResult> {
     scanDuration: Date.now() - startTime,
     stack,
     informationalArtifacts,
+    diff: diffInfo,
+    cache: cache ? { hits: cache.hits, misses: cache.misses } : undefined,
+    plugins: plugins.length > 0 ? describePlugins(plugins) : undefined,
+    scanners: scannerIds,
+    profile: describeProfile(profile),
+    baseline: baselineSummary,
+    unusedSuppressions,
   };
 
   const complianceScore = calculateComplianceScore(result);
@@ -360,7 +530,7 @@ function normalizeSnippet(finding: Finding): string {
 /**
  * Remove exact-duplicate findings, keyed by ruleId + file + line + normalized
  * snippet. Two findings that share all four are the same real issue surfaced
- * twice (e.g. a scanner that runs under more than one category). The first
+ * twice (e.g. overlapping checks in two scanners emitting one rule id). The first
  * occurrence is kept; order is preserved.
  *
  * Runs in the results pipeline BEFORE grouping so it applies uniformly to every
@@ -381,6 +551,13 @@ export function dedupeFindings(findings: Finding[]): Finding[] {
   return result;
 }
 
+/** The group a finding is counted under: severity + normalized title. */
+export function findingGroupKey(finding: Finding): string {
+  // Normalize title: lowercase, trim, collapse whitespace
+  const normalizedTitle = finding.title.toLowerCase().trim().replace(/\s+/g, ' ');
+  return `${finding.severity}::${normalizedTitle}`;
+}
+
 /**
  * Group findings by severity + normalized title into deduplicated entries with occurrence lists.
  * This collapses all occurrences of the same violation type into one row.
@@ -390,9 +567,7 @@ export function groupFindings(findings: Finding[]): GroupedFinding[] {
   const severityOrder: Record<string, number> = { critical: 0, high: 1, medium: 2, low: 3, info: 4 };
 
   for (const f of findings) {
-    // Normalize title: lowercase, trim, collapse whitespace
-    const normalizedTitle = f.title.toLowerCase().trim().replace(/\s+/g, ' ');
-    const key = `${f.severity}::${normalizedTitle}`;
+    const key = findingGroupKey(f);
 
     if (!groups.has(key)) {
       // Strip line number suffix only from dynamic IDs (lowercase prefix like "phi-ssn-hardcoded-42")
@@ -1,7 +1,7 @@
-import { readFile } from 'fs/promises';
 import type { Scanner, Finding, ScanOptions } from '../../types.js';
 import { DEFAULT_CONFIG } from '../../config.js';
 import { getContextLines } from '../../utils/context.js';
+import { readSourceFile } from '../../engine/source-files.js';
 
 export const ACCESS_CONTROL_ISSUES = [
   {
@@ -63,8 +63,10 @@ export const ACCESS_CONTROL_ISSUES = [
 ];
 
 export const accessScanner: Scanner = {
+  id: 'access',
   name: 'Access Control Scanner',
   category: 'access-control',
+  fileTypes: ['.ts', '.tsx', '.js', '.jsx', '.py', '.java', '.go', '.rb', '.php', '.sql'],
 
   async scan(files: string[], options: ScanOptions): Promise<Finding[]> {
     const findings: Finding[] = [];
@@ -75,8 +77,7 @@ export const accessScanner: Scanner = {
 
     for (const filePath of codeFiles) {
       try {
-        const content = await readFile(filePath, 'utf-8');
-        const lines = content.split('\n');
+        const { lines } = await readSourceFile(filePath);
 
         for (let lineNum = 0; lineNum < lines.length; lineNum++) {
           const line = lines[lineNum];
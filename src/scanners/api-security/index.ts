@@ -5,11 +5,13 @@
 
 import type { Scanner, Finding, ScanOptions } from '../../types.js';
 import { ALL_API_SECURITY_PATTERNS } from './patterns.js';
-import * as fs from 'fs/promises';
+import { readSourceFile } from '../../engine/source-files.js';
 
 export const apiSecurityScanner: Scanner = {
+  id: 'api-security',
   name: 'API Security Scanner',
   category: 'access-control',
+  fileTypes: ['.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs'],
 
   async scan(files: string[], _options: ScanOptions): Promise<Finding[]> {
     const findings: Finding[] = [];
@@ -21,8 +23,7 @@ export const apiSecurityScanner: Scanner = {
       }
 
       try {
-        const content = await fs.readFile(file, 'utf-8');
-        const lines = content.split('\n');
+        const { lines } = await readSourceFile(file);
 
         for (const pattern of ALL_API_SECURITY_PATTERNS) {
           for (let i = 0; i < lines.length; i++) {
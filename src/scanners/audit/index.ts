@@ -1,7 +1,7 @@
-import { readFile } from 'fs/promises';
 import type { Scanner, Finding, ScanOptions } from '../../types.js';
 import { DEFAULT_CONFIG } from '../../config.js';
 import { getContextLines } from '../../utils/context.js';
+import { readSourceFile } from '../../engine/source-files.js';
 
 const LOGGING_FRAMEWORKS = [
   'winston', 'bunyan', 'pino', 'log4js', 'morgan',
@@ -42,8 +42,10 @@ export const AUDIT_RULES = [
 ];
 
 export const auditScanner: Scanner = {
+  id: 'audit',
   name: 'Audit Logging Scanner',
   category: 'audit-logging',
+  fileTypes: ['.ts', '.tsx', '.js', '.jsx', '.py', '.java', '.go', 'package.json'],
 
   async scan(files: string[], options: ScanOptions): Promise<Finding[]> {
     const findings: Finding[] = [];
@@ -56,7 +58,7 @@ export const auditScanner: Scanner = {
 
     for (const pkgFile of packageJsonFiles) {
       try {
-        const content = await readFile(pkgFile, 'utf-8');
+        const { content } = await readSourceFile(pkgFile);
         if (LOGGING_FRAMEWORKS.some(fw => content.includes(fw))) {
           hasLoggingFramework = true;
           break;
@@ -90,8 +92,7 @@ export const auditScanner: Scanner = {
       }
 
       try {
-        const content = await readFile(filePath, 'utf-8');
-        const lines = content.split('\n');
+        const { content, lines } = await readSourceFile(filePath);
 
         // Simple heuristic: check if file has PHI-related operations without logging
         const hasPhiKeywords = /patient|health|medical|diagnosis|treatment/i.test(content);
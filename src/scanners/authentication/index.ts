@@ -3,14 +3,16 @@
  * Detects missing or bypassed MFA in authentication flows
  */
 
-import * as fs from 'fs/promises';
 import type { Scanner, Finding, ScanOptions } from '../../types.js';
 import { ALL_MFA_PATTERNS, type MFAPattern } from './patterns.js';
 import { isImportLine, findWindowedViolations } from '../utils.js';
+import { readSourceFile } from '../../engine/source-files.js';
 
 export const authenticationScanner: Scanner = {
+  id: 'authentication',
   name: 'Multi-Factor Authentication Scanner',
   category: 'access-control', // Map to existing category for now
+  fileTypes: ['.ts', '.tsx', '.js', '.jsx', '.json', '.yaml', '.yml', '.env'],
 
   async scan(files: string[], _options: ScanOptions): Promise<Finding[]> {
     const findings: Finding[] = [];
@@ -22,8 +24,7 @@ export const authenticationScanner: Scanner = {
 
     for (const file of relevantFiles) {
       try {
-        const content = await fs.readFile(file, 'utf-8');
-        const lines = content.split('\n');
+        const { content, lines } = await readSourceFile(file);
 
         for (const pattern of ALL_MFA_PATTERNS) {
           // Special handling for MFA-001 (auth config files)
@@ -3,13 +3,15 @@
  * Detects insecure configuration settings and missing security controls
  */
 
-import * as fs from 'fs/promises';
 import type { Scanner, Finding, ScanOptions } from '../../types.js';
 import { ALL_CONFIGURATION_PATTERNS } from './patterns.js';
+import { readSourceFile } from '../../engine/source-files.js';
 
 export const configurationScanner: Scanner = {
+  id: 'configuration',
   name: 'Configuration Security Scanner',
   category: 'audit-logging',
+  fileTypes: ['.ts', '.tsx', '.js', '.jsx'],
 
   async scan(files: string[], _options: ScanOptions): Promise<Finding[]> {
     const findings: Finding[] = [];
@@ -21,8 +23,7 @@ export const configurationScanner: Scanner = {
 
     for (const file of codeFiles) {
       try {
-        const content = await fs.readFile(file, 'utf-8');
-        const lines = content.split('\n');
+        const { lines } = await readSourceFile(file);
 
         // Check if this is a test file for CONFIG-003
         const isTestFile = /\.(?:test|spec)\.[jt]sx?$/.test(file);
@@ -3,16 +3,18 @@
  * Detects weak password hashing, hardcoded credentials, and exposed secrets
  */
 
-import * as fs from 'fs/promises';
 import type { Scanner, Finding, ScanOptions } from '../../types.js';
 import {
   ALL_CREDENTIAL_PATTERNS,
   type CredentialPattern,
 } from './patterns.js';
+import { readSourceFile } from '../../engine/source-files.js';
 
 export const credentialsScanner: Scanner = {
+  id: 'credentials',
   name: 'Credential Security Scanner',
   category: 'encryption',
+  fileTypes: ['.ts', '.tsx', '.js', '.jsx', '.py', '.java', '.go', '.rb', '.php', '.cs', '.yaml', '.yml', '.json', '.env*'],
 
   async scan(files: string[], _options: ScanOptions): Promise<Finding[]> {
     const findings: Finding[] = [];
@@ -28,8 +30,7 @@ export const credentialsScanner: Scanner = {
 
     for (const file of codeFiles) {
       try {
-        const content = await fs.readFile(file, 'utf-8');
-        const lines = content.split('\n');
+        const { content, lines } = await readSourceFile(file);
 
         for (const pattern of ALL_CREDENTIAL_PATTERNS) {
           // Special handling for CRED-001 (weak password hashing)
@@ -1,7 +1,7 @@
-import { readFile } from 'fs/promises';
 import type { Scanner, Finding, ScanOptions, FixType } from '../../types.js';
 import { isSafeHttpUrl, DEFAULT_CONFIG } from '../../config.js';
 import { getContextLines } from '../../utils/context.js';
+import { readSourceFile } from '../../engine/source-files.js';
 
 export const WEAK_CRYPTO_PATTERNS = [
   { id: 'enc-md5', regex: /\bmd5\s*\(/i, issue: 'MD5 hash function', severity: 'high' as const },
@@ -47,8 +47,10 @@ function isCommentOrNonFunctional(line: string): boolean {
 }
 
 export const encryptionScanner: Scanner = {
+  id: 'encryption',
   name: 'Encryption Scanner',
   category: 'encryption',
+  fileTypes: ['.ts', '.tsx', '.js', '.jsx', '.py', '.java', '.go', '.rb', '.php', '.env', '.yaml', '.yml', '.json', '.xml'],
 
   async scan(files: string[], options: ScanOptions): Promise<Finding[]> {
     const findings: Finding[] = [];
@@ -59,8 +61,7 @@ export const encryptionScanner: Scanner = {
 
     for (const filePath of codeFiles) {
       try {
-        const content = await readFile(filePath, 'utf-8');
-        const lines = content.split('\n');
+        const { lines } = await readSourceFile(filePath);
 
         for (let lineNum = 0; lineNum < lines.length; lineNum++) {
           const line = lines[lineNum];
@@ -3,13 +3,16 @@
  * Detects unsafe error responses and PHI in error logs
  */
 
-import * as fs from 'fs/promises';
 import type { Scanner, Finding, ScanOptions } from '../../types.js';
 import { ALL_ERROR_PATTERNS } from './patterns.js';
+import { readSourceFile } from '../../engine/source-files.js';
 
 export const errorsScanner: Scanner = {
+  id: 'errors',
   name: 'Error Handling Security Scanner',
   category: 'audit-logging',
+  additionalCategories: ['phi-exposure'],
+  fileTypes: ['.ts', '.tsx', '.js', '.jsx'],
 
   async scan(files: string[], _options: ScanOptions): Promise<Finding[]> {
     const findings: Finding[] = [];
@@ -21,8 +24,7 @@ export const errorsScanner: Scanner = {
 
     for (const file of codeFiles) {
       try {
-        const content = await fs.readFile(file, 'utf-8');
-        const lines = content.split('\n');
+        const { lines } = await readSourceFile(file);
 
         // Check if this is a test file (check filename)
         const isTestFile = /\.(?:test|spec)\.[jt]sx?$/.test(file);
@@ -11,6 +11,7 @@ import {
   ALL_HIPAA_2026_PATTERNS,
 } from './patterns.js';
 import { findWindowedViolations } from '../utils.js';
+import { readSourceFile } from '../../engine/source-files.js';
 
 interface AssetInventoryItem {
   type: 'database' | 'storage' | 'api' | 'third-party';
@@ -283,8 +284,11 @@ function formatPHIFlowMap(flows: PHIFlowNode[]): string {
 }
 
 export const hipaa2026Scanner: Scanner = {
+  id: 'hipaa2026',
   name: 'HIPAA 2026 Security Rule Scanner',
   category: 'access-control',
+  fileTypes: ['.ts', '.tsx', '.js', '.jsx', '.py', '.java', '.go', '.rb', '.php', '.cs'],
+  projectWide: true,
 
   async scan(files: string[], options: ScanOptions): Promise<Finding[]> {
     const findings: Finding[] = [];
@@ -298,8 +302,7 @@ export const hipaa2026Scanner: Scanner = {
 
     for (const file of codeFiles) {
       try {
-        const content = await fs.readFile(file, 'utf-8');
-        const lines = content.split('\n');
+        const { content, lines } = await readSourceFile(file);
 
         // Scan each HIPAA 2026 pattern
         for (const pattern of ALL_HIPAA_2026_PATTERNS) {
@@ -6,11 +6,13 @@
 import type { Scanner, Finding, ScanOptions } from '../../types.js';
 import { ALL_OPERATIONAL_PATTERNS, DATABASE_WITHOUT_BACKUP } from './patterns.js';
 import { isImportLine } from '../utils.js';
-import * as fs from 'fs/promises';
+import { readSourceFile } from '../../engine/source-files.js';
 
 export const operationalScanner: Scanner = {
+  id: 'operational',
   name: 'Operational Security Scanner',
   category: 'data-retention',
+  fileTypes: ['.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs'],
 
   async scan(files: string[], _options: ScanOptions): Promise<Finding[]> {
     const findings: Finding[] = [];
@@ -29,8 +31,7 @@ export const operationalScanner: Scanner = {
       }
 
       try {
-        const content = await fs.readFile(file, 'utf-8');
-        const lines = content.split('\n');
+        const { lines } = await readSourceFile(file);
 
         for (const pattern of ALL_OPERATIONAL_PATTERNS) {
           // Skip BACKUP-001 (already handled)
@@ -142,8 +143,7 @@ async function scanForBackupConfiguration(files: string[]): Promise<Finding | nu
     }
 
     try {
-      const content = await fs.readFile(file, 'utf-8');
-      const lines = content.split('\n');
+      const { content, lines } = await readSourceFile(file);
 
       for (let i = 0; i < lines.length; i++) {
         if (usageAnchor) break; // best anchor already found
@@ -1,12 +1,14 @@
-import { readFile } from 'fs/promises';
 import type { Scanner, Finding, ScanOptions } from '../../types.js';
 import { DEFAULT_CONFIG } from '../../config.js';
 import { getContextLines } from '../../utils/context.js';
 import { PHI_PATTERNS } from './patterns.js';
+import { readSourceFile } from '../../engine/source-files.js';
 
 export const phiScanner: Scanner = {
+  id: 'phi',
   name: 'PHI Exposure Scanner',
   category: 'phi-exposure',
+  fileTypes: ['.ts', '.tsx', '.js', '.jsx', '.py', '.java', '.go', '.rb', '.php'],
 
   async scan(files: string[], options: ScanOptions): Promise<Finding[]> {
     const findings: Finding[] = [];
@@ -19,8 +21,7 @@ export const phiScanner: Scanner = {
 
     for (const filePath of codeFiles) {
       try {
-        const content = await readFile(filePath, 'utf-8');
-        const lines = content.split('\n');
+        const { lines } = await readSourceFile(filePath);
 
         for (let lineNum = 0; lineNum < lines.length; lineNum++) {
           const line = lines[lineNum];
@@ -0,0 +1,77 @@
+/**
+ * Tests for the Health Privacy Law Scanner
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { privacyScanner } from './index.js';
+import type { ComplianceProfileId } from '../../types.js';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+
+describe('Privacy Scanner', () => {
+  let tempDir = '';
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'privacy-test-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  async function scanWith(profile: ComplianceProfileId | undefined, content: string) {
+    const file = path.join(tempDir, 'records.ts');
+    await fs.writeFile(file, content, 'utf-8');
+    return privacyScanner.scan([file], { path: tempDir, profile });
+  }
+
+  const sudCode = `
+const OPIOID_USE_DISORDER = 'F11.20';
+console.log('Methadone dose for patient', patient.id, dose);
+await shareRecords(sudRecord, recipient);
+res.json({ sudRecord });
+`;
+
+  it('reports nothing under the default HIPAA profile', async () => {
+    expect(await scanWith(undefined, sudCode)).toEqual([]);
+    expect(await scanWith('hipaa', sudCode)).toEqual([]);
+  });
+
+  it('detects SUD codes, logging and disclosures under Part 2', async () => {
+    const findings = await scanWith('part2', sudCode);
+    expect(findings.map(f => [f.id, f.line])).toEqual([
+      ['PART2-SUD-DIAGNOSIS', 2],
+      ['PART2-SUD-LOG', 3],
+      ['PART2-CONSENT-MISSING', 4],
+      ['PART2-REDISCLOSURE-NOTICE', 5],
+    ]);
+    expect(findings[2].hipaaReference).toBe('42 CFR §2.31 - Consent Requirements');
+  });
+
+  it('accepts disclosures guarded by consent and the redisclosure notice', async () => {
+    const findings = await scanWith('part2', `
+if (!(await hasActiveConsent(patient.id, recipient.id))) throw new Error('No Part 2 consent');
+await shareRecords(sudRecord, recipient);
+res.json({ sudRecord, redisclosureNotice: PART2_NOTICE });
+`);
+    expect(findings).toEqual([]);
+  });
+
+  it('runs only the rules of the selected profile', async () => {
+    const content = `
+analytics.track('Viewed', { diagnosis: patient.diagnosis });
+const fence = addGeofence({ id: clinic.id, radius: 600 });
+`;
+    expect((await scanWith('cmia', content)).map(f => f.id)).toEqual(['CMIA-MEDICAL-INFO-SHARING']);
+    expect((await scanWith('wa-mhmda', content)).map(f => f.id)).toEqual([
+      'MHMDA-HEALTH-DATA-SHARING',
+      'MHMDA-GEOFENCE',
+    ]);
+    expect(await scanWith('part2', content)).toEqual([]);
+  });
+
+  it('does not treat "sudo" as a substance use disorder term', async () => {
+    expect(await scanWith('part2', `console.log('run with sudo to install');`)).toEqual([]);
+  });
+});
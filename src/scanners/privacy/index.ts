@@ -0,0 +1,65 @@
+/**
+ * Health Privacy Law Scanner
+ * Detects 42 CFR Part 2, California CMIA and Washington MHMDA violations.
+ * Runs the rules of the active compliance profile only; under the default
+ * `hipaa` profile it reports nothing.
+ */
+
+import type { Scanner, Finding, ScanOptions } from '../../types.js';
+import { ALL_PRIVACY_PATTERNS } from './patterns.js';
+import { findWindowedViolations } from '../utils.js';
+import { readSourceFile } from '../../engine/source-files.js';
+
+export const privacyScanner: Scanner = {
+  id: 'privacy',
+  name: 'Health Privacy Law Scanner',
+  category: 'phi-exposure',
+  fileTypes: ['.ts', '.tsx', '.js', '.jsx', '.py'],
+
+  async scan(files: string[], options: ScanOptions): Promise<Finding[]> {
+    const findings: Finding[] = [];
+
+    const profile = options.profile ?? options.config?.profile ?? 'hipaa';
+    const patterns = ALL_PRIVACY_PATTERNS.filter((p) => p.profiles.includes(profile));
+    if (patterns.length === 0) return findings;
+
+    // Filter to code files
+    const codeFiles = files.filter((f) => /\.(ts|tsx|js|jsx|py)$/.test(f));
+
+    for (const file of codeFiles) {
+      try {
+        const { lines } = await readSourceFile(file);
+
+        for (const pattern of patterns) {
+          const violations = findWindowedViolations(
+            lines,
+            pattern.patterns,
+            pattern.negativePatterns,
+            { skipCommentLines: true, skipImportLines: true },
+          );
+
+          for (const v of violations) {
+            findings.push({
+              id: pattern.id,
+              category: 'phi-exposure',
+              severity: pattern.severity,
+              title: pattern.name,
+              description: `${pattern.description}\n\nCode: ${v.code}`,
+              file: file,
+              line: v.lineIndex + 1,
+              recommendation: pattern.recommendation,
+              hipaaReference: pattern.hipaaReference,
+              confidence: 'high',
+            });
+          }
+        }
+      } catch {
+        // Skip files that can't be read
+      }
+    }
+
+    return findings;
+  },
+};
+
+export default privacyScanner;
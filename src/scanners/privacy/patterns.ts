@@ -0,0 +1,222 @@
+/**
+ * Health Privacy Law Detection Patterns
+ * Rules of the 42 CFR Part 2, California CMIA and Washington My Health My Data
+ * compliance profiles. Each rule runs only under the profiles it lists.
+ */
+
+import type { ComplianceProfileId } from '../../types.js';
+
+export interface PrivacyPattern {
+  id: string;
+  name: string;
+  description: string;
+  severity: 'critical' | 'high' | 'medium';
+  hipaaReference: string;
+  /** Compliance profiles the rule belongs to (`--profile`). */
+  profiles: ComplianceProfileId[];
+  patterns: RegExp[];
+  negativePatterns?: RegExp[]; // Patterns that indicate compliance, checked around the match
+  recommendation: string;
+  category: string;
+}
+
+/** Substance use disorder treatment terms */
+const SUD_TERMS = String.raw`(?:substance[_\s-]?(?:use|abuse)|\bsud(?:_|\b|Record|Data|Patient|Dx|Diagnos|Treatment|Program)|addiction|opioid|methadone|buprenorphine|suboxone|naltrexone|vivitrol|detox|rehab|\bpart[_\s-]?2(?!\d))`;
+
+/** Medical information terms (CMIA) */
+const MEDICAL_TERMS = String.raw`(?:diagnos|condition|medication|prescription|treatment|medical|patient|symptom|mrn|icd)`;
+
+/** Consumer health data terms (MHMDA) */
+const HEALTH_DATA_TERMS = String.raw`(?:health|symptom|condition|diagnos|medication|pregnan|reproductive|fertility|period[_-]?track|gender[_-]?affirm|mental|therapy|biometric|heart[_-]?rate|glucose)`;
+
+/** Analytics and advertising SDK calls */
+const TRACKER_CALLS = String.raw`(?:\b(?:analytics|gtag|fbq|ttq|mixpanel|amplitude|heap|hotjar|posthog|braze|appsflyer|firebase\.analytics)\s*(?:\.\s*(?:track|logEvent|identify|capture|event|page|people\.set|setUserProperties)\s*)?\()`;
+
+/** Calls that hand records to another party */
+const DISCLOSURE_CALLS = String.raw`(?:\b(?:share|disclose|release|export|sendTo|transmit|syndicate)\w*\s*\()`;
+
+/**
+ * PART2-SUD-DIAGNOSIS: Substance Use Disorder Diagnosis Codes
+ * Detects ICD-10 F10–F19 codes, which identify a patient as having an SUD
+ */
+export const SUD_DIAGNOSIS_CODES: PrivacyPattern = {
+  id: 'PART2-SUD-DIAGNOSIS',
+  name: 'Substance Use Disorder Diagnosis Code in Source',
+  description:
+    'ICD-10 F10–F19 codes identify a patient as having a substance use disorder. Records carrying them are Part 2 records and need consent-based handling separate from other PHI',
+  severity: 'high',
+  hipaaReference: '42 CFR §2.12 - Applicability',
+  profiles: ['part2'],
+  patterns: [
+    // 'F11.20', "F10.10", `F19`
+    /['"`]F1\d(?:\.\d{1,4}[A-Z]?)?['"`]/,
+    // ICD-10 ranges: F10-F19, F10–F19
+    /\bF10\s*[-–]\s*F19\b/,
+  ],
+  recommendation:
+    'Tag records with F10–F19 codes as Part 2 records, segment them from general PHI, and gate every use or disclosure on patient consent (42 CFR §2.31).',
+  category: 'phi-exposure',
+};
+
+/**
+ * PART2-SUD-LOG: Substance Use Disorder Data in Logs
+ * Detects SUD treatment details written to console or log output
+ */
+export const SUD_DATA_LOGGED: PrivacyPattern = {
+  id: 'PART2-SUD-LOG',
+  name: 'Substance Use Disorder Records Logged',
+  description:
+    'SUD treatment information is written to logs, which are copied to log aggregators and read by staff outside the Part 2 program',
+  severity: 'critical',
+  hipaaReference: '42 CFR §2.16 - Security for Records',
+  profiles: ['part2'],
+  patterns: [
+    new RegExp(String.raw`(?:console\.(?:log|info|debug|warn|error)|\blogger\.\w+|\blog\.(?:info|debug|warn|error))\s*\([^)]*${SUD_TERMS}`, 'i'),
+  ],
+  negativePatterns: [/redact/i, /mask/i, /sanitize/i],
+  recommendation:
+    'Log a record id and event type instead of SUD treatment details, or pass the payload through a redaction helper before logging.',
+  category: 'phi-exposure',
+};
+
+/**
+ * PART2-CONSENT-MISSING: SUD Record Disclosure Without Consent Check
+ * Detects disclosure of SUD records with no consent check nearby
+ */
+export const SUD_DISCLOSURE_WITHOUT_CONSENT: PrivacyPattern = {
+  id: 'PART2-CONSENT-MISSING',
+  name: 'SUD Record Disclosed Without Consent Check',
+  description:
+    'Substance use disorder records are shared or exported without checking for written patient consent. Part 2 permits disclosure without consent only in narrow cases such as medical emergencies',
+  severity: 'critical',
+  hipaaReference: '42 CFR §2.31 - Consent Requirements',
+  profiles: ['part2'],
+  patterns: [
+    new RegExp(String.raw`${DISCLOSURE_CALLS}[^)]*${SUD_TERMS}`, 'i'),
+  ],
+  negativePatterns: [
+    /consent/i,
+    /medicalEmergency|medical_emergency/i,
+    /qualifiedServiceOrganization|\bqsoa?\b/i,
+  ],
+  recommendation:
+    'Check for a current, unrevoked Part 2 consent that names the recipient and purpose before disclosing, and record the consent id with the disclosure.',
+  category: 'phi-exposure',
+};
+
+/**
+ * PART2-REDISCLOSURE-NOTICE: SUD Records Returned Without Redisclosure Notice
+ * Detects SUD records sent in responses or requests with no §2.32 notice
+ */
+export const SUD_REDISCLOSURE_NOTICE: PrivacyPattern = {
+  id: 'PART2-REDISCLOSURE-NOTICE',
+  name: 'SUD Records Sent Without Redisclosure Notice',
+  description:
+    'SUD records leave the system without the notice prohibiting redisclosure that must accompany each disclosure made with consent',
+  severity: 'high',
+  hipaaReference: '42 CFR §2.32 - Notice to Accompany Disclosure',
+  profiles: ['part2'],
+  patterns: [
+    new RegExp(String.raw`(?:\bres\.(?:json|send)|\baxios\.(?:post|put)|\bfetch)\s*\([^)]*${SUD_TERMS}`, 'i'),
+  ],
+  negativePatterns: [/redisclos/i, /2\.32/, /prohibit\w*\s+(?:further\s+)?disclos/i],
+  recommendation:
+    'Attach the §2.32 notice (e.g. a `redisclosureNotice` field or document header) to every payload that carries SUD records.',
+  category: 'phi-exposure',
+};
+
+/**
+ * CMIA-MEDICAL-INFO-SHARING: Medical Information Sent to Analytics or Ad SDKs
+ * Detects medical information passed to tracking SDKs without authorization
+ */
+export const CMIA_MEDICAL_INFO_TRACKING: PrivacyPattern = {
+  id: 'CMIA-MEDICAL-INFO-SHARING',
+  name: 'Medical Information Sent to Analytics or Advertising SDK',
+  description:
+    'Medical information is passed to an analytics or advertising SDK. CMIA treats this as a disclosure that needs the patient\'s prior authorization, including for digital health apps',
+  severity: 'critical',
+  hipaaReference: 'Cal. Civ. Code §56.10 - Confidentiality of Medical Information',
+  profiles: ['cmia'],
+  patterns: [
+    new RegExp(String.raw`${TRACKER_CALLS}[^)]*${MEDICAL_TERMS}`, 'i'),
+  ],
+  negativePatterns: [/authoriz/i, /consent/i],
+  recommendation:
+    'Remove medical information from analytics events, or send it only after a CMIA authorization (Cal. Civ. Code §56.11) is on file for the user.',
+  category: 'phi-exposure',
+};
+
+/**
+ * CMIA-AUTHORIZATION-MISSING: Medical Information Disclosed Without Authorization
+ * Detects medical records shared with other parties with no authorization check
+ */
+export const CMIA_DISCLOSURE_WITHOUT_AUTHORIZATION: PrivacyPattern = {
+  id: 'CMIA-AUTHORIZATION-MISSING',
+  name: 'Medical Information Disclosed Without Authorization Check',
+  description:
+    'Medical information is shared or exported to another party without checking for a signed patient authorization',
+  severity: 'high',
+  hipaaReference: 'Cal. Civ. Code §56.11 - Authorization for Disclosure',
+  profiles: ['cmia'],
+  patterns: [
+    new RegExp(String.raw`${DISCLOSURE_CALLS}[^)]*${MEDICAL_TERMS}`, 'i'),
+  ],
+  negativePatterns: [/authoriz/i, /consent/i],
+  recommendation:
+    'Verify a current §56.11 authorization (signed, naming the recipient, use and expiry) before disclosing, unless a §56.10(c) exception applies.',
+  category: 'phi-exposure',
+};
+
+/**
+ * MHMDA-HEALTH-DATA-SHARING: Consumer Health Data Shared Without Consent
+ * Detects consumer health data sent to trackers or other parties without consent
+ */
+export const MHMDA_HEALTH_DATA_SHARING: PrivacyPattern = {
+  id: 'MHMDA-HEALTH-DATA-SHARING',
+  name: 'Consumer Health Data Shared Without Consent',
+  description:
+    'Consumer health data is sent to an analytics SDK or another party. The My Health My Data Act requires separate consent for sharing, distinct from consent to collect',
+  severity: 'critical',
+  hipaaReference: 'RCW 19.373.030 - Consent to Collect and Share',
+  profiles: ['wa-mhmda'],
+  patterns: [
+    new RegExp(String.raw`${TRACKER_CALLS}[^)]*${HEALTH_DATA_TERMS}`, 'i'),
+    new RegExp(String.raw`${DISCLOSURE_CALLS}[^)]*${HEALTH_DATA_TERMS}`, 'i'),
+  ],
+  negativePatterns: [/consent/i, /optIn|opt_in/i],
+  recommendation:
+    'Record a sharing consent separate from collection consent and check it before sending consumer health data to any third party or SDK.',
+  category: 'phi-exposure',
+};
+
+/**
+ * MHMDA-GEOFENCE: Geofence Around Health Care Facilities
+ * Detects geofences tied to clinics, pharmacies or other in-person health services
+ */
+export const MHMDA_GEOFENCE: PrivacyPattern = {
+  id: 'MHMDA-GEOFENCE',
+  name: 'Geofence Around Health Care Facility',
+  description:
+    'A geofence is defined around a health care facility. Washington prohibits geofencing within 2,000 feet of in-person health services to identify or track consumers, collect data or send notifications',
+  severity: 'high',
+  hipaaReference: 'RCW 19.373.080 - Geofencing',
+  profiles: ['wa-mhmda'],
+  patterns: [
+    /geofenc\w*[^\n]*(?:clinic|hospital|pharmac|health|medical|facilit|provider)/i,
+    /(?:clinic|hospital|pharmac|health|medical|facilit|provider)\w*[^\n]*geofenc/i,
+  ],
+  recommendation:
+    'Remove geofences around health care facilities, or confine them to uses outside the Act such as on-premises wayfinding without data collection.',
+  category: 'phi-exposure',
+};
+
+export const ALL_PRIVACY_PATTERNS: PrivacyPattern[] = [
+  SUD_DIAGNOSIS_CODES,
+  SUD_DATA_LOGGED,
+  SUD_DISCLOSURE_WITHOUT_CONSENT,
+  SUD_REDISCLOSURE_NOTICE,
+  CMIA_MEDICAL_INFO_TRACKING,
+  CMIA_DISCLOSURE_WITHOUT_AUTHORIZATION,
+  MHMDA_HEALTH_DATA_SHARING,
+  MHMDA_GEOFENCE,
+];
@@ -3,13 +3,15 @@
  * Detects missing authorization checks and HIPAA minimum necessary violations
  */
 
-import * as fs from 'fs/promises';
 import type { Scanner, Finding, ScanOptions } from '../../types.js';
 import { ALL_RBAC_PATTERNS, type RBACPattern } from './patterns.js';
+import { readSourceFile } from '../../engine/source-files.js';
 
 export const rbacScanner: Scanner = {
+  id: 'rbac',
   name: 'Role-Based Access Control Scanner',
   category: 'access-control',
+  fileTypes: ['.ts', '.tsx', '.js', '.jsx', '.sql', '.prisma'],
 
   async scan(files: string[], _options: ScanOptions): Promise<Finding[]> {
     const findings: Finding[] = [];
@@ -21,8 +23,7 @@ export const rbacScanner: Scanner = {
 
     for (const file of codeFiles) {
       try {
-        const content = await fs.readFile(file, 'utf-8');
-        const lines = content.split('\n');
+        const { content, lines } = await readSourceFile(file);
 
         // Determine if this is a client-side file for RBAC-002
         const isClientFile = isClientSideFile(file, content);
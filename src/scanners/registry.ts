@@ -0,0 +1,118 @@
+/**
+ * Scanner registry — every built-in scanner, registered once, in run order.
+ *
+ * A scanner runs when its category (or one of its `additionalCategories`) is
+ * selected and it is enabled. Enablement starts from the scanner's
+ * `defaultEnabled`, is adjusted by the `scanners` block of `.vlayerrc.json`,
+ * and finally by the CLI: `--scanners` runs exactly the listed ids,
+ * `--skip-scanners` removes ids. Plugin scanners take part on the same terms.
+ */
+import type { ComplianceCategory, Scanner, VlayerConfig } from '../types.js';
+import { phiScanner } from './phi/index.js';
+import { taintScanner } from './taint/index.js';
+import { errorsScanner } from './errors/index.js';
+import { encryptionScanner } from './encryption/index.js';
+import { credentialsScanner } from './credentials/index.js';
+import { auditScanner } from './audit/index.js';
+import { configurationScanner } from './configuration/index.js';
+import { accessScanner } from './access/index.js';
+import { securityScanner } from './security/index.js';
+import { skillsScanner } from './skills/index.js';
+import { hipaa2026Scanner } from './hipaa2026/index.js';
+import { authenticationScanner } from './authentication/index.js';
+import { rbacScanner } from './rbac/index.js';
+import { sanitizationScanner } from './sanitization/index.js';
+import { revocationScanner } from './revocation/index.js';
+import { apiSecurityScanner } from './api-security/index.js';
+import { retentionScanner } from './retention/index.js';
+import { operationalScanner } from './operational/index.js';
+import { privacyScanner } from './privacy/index.js';
+
+export const SCANNER_REGISTRY: readonly Scanner[] = [
+  phiScanner,
+  taintScanner,
+  errorsScanner,
+  encryptionScanner,
+  credentialsScanner,
+  auditScanner,
+  configurationScanner,
+  accessScanner,
+  securityScanner,
+  skillsScanner,
+  hipaa2026Scanner,
+  authenticationScanner,
+  rbacScanner,
+  sanitizationScanner,
+  revocationScanner,
+  apiSecurityScanner,
+  retentionScanner,
+  operationalScanner,
+  privacyScanner,
+];
+
+const SCANNERS_BY_ID = new Map(SCANNER_REGISTRY.map(scanner => [scanner.id, scanner]));
+
+if (SCANNERS_BY_ID.size !== SCANNER_REGISTRY.length) {
+  throw new Error('[scanner-registry] Duplicate scanner id');
+}
+
+export function getScanner(id: string): Scanner | undefined {
+  return SCANNERS_BY_ID.get(id);
+}
+
+/** Categories whose selection runs a scanner. */
+export function scannerCategories(scanner: Scanner): ComplianceCategory[] {
+  return [scanner.category, ...(scanner.additionalCategories ?? [])];
+}
+
+export interface ScannerSelection {
+  categories: ComplianceCategory[];
+  config?: VlayerConfig;
+  /** Scanners contributed by plugins; they run after the built-in ones. */
+  pluginScanners?: Scanner[];
+  /** Run only these ids (CLI `--scanners`). */
+  only?: string[];
+  /** Never run these ids (CLI `--skip-scanners`). */
+  skip?: string[];
+}
+
+function assertKnownIds(ids: string[], known: Set<string>, source: string): void {
+  const unknown = ids.filter(id => !known.has(id));
+  if (unknown.length > 0) {
+    throw new Error(
+      `Unknown scanner id(s) in ${source}: ${unknown.join(', ')}. ` +
+      `Run "vlayer scanners list" to see available scanners.`
+    );
+  }
+}
+
+/** Whether a scanner is enabled by default and config, before CLI flags. */
+export function isScannerEnabled(scanner: Scanner, config?: VlayerConfig): boolean {
+  return config?.scanners?.[scanner.id] ?? scanner.defaultEnabled ?? true;
+}
+
+/**
+ * The scanners a scan runs, in registry order. Throws on unknown ids passed on
+ * the command line; unknown ids in config only warn, like other config issues.
+ */
+export function resolveScanners(selection: ScannerSelection): Scanner[] {
+  const { categories, config, only, skip } = selection;
+  const candidates = [...SCANNER_REGISTRY, ...(selection.pluginScanners ?? [])];
+  const known = new Set(candidates.map(scanner => scanner.id));
+
+  if (only) assertKnownIds(only, known, '--scanners');
+  if (skip) assertKnownIds(skip, known, '--skip-scanners');
+
+  const unknownInConfig = Object.keys(config?.scanners ?? {}).filter(id => !known.has(id));
+  if (unknownInConfig.length > 0) {
+    console.warn(`[vlayer] Warning: unknown scanner id(s) in config "scanners": ${unknownInConfig.join(', ')}`);
+  }
+
+  const selected = new Set(categories);
+  return candidates.filter(scanner => {
+    if (!scannerCategories(scanner).some(category => selected.has(category))) return false;
+    if (skip?.includes(scanner.id)) return false;
+    if (only) return only.includes(scanner.id);
+    return isScannerEnabled(scanner, config);
+  });
+}
@@ -1,7 +1,7 @@
-import { readFile } from 'fs/promises';
 import type { Scanner, Finding, ScanOptions } from '../../types.js';
 import { DEFAULT_CONFIG } from '../../config.js';
 import { getContextLines } from '../../utils/context.js';
+import { readSourceFile } from '../../engine/source-files.js';
 
 export const RETENTION_ISSUES = [
   {
@@ -55,8 +55,10 @@ export const RETENTION_ISSUES = [
 ];
 
 export const retentionScanner: Scanner = {
+  id: 'retention',
   name: 'Data Retention Scanner',
   category: 'data-retention',
+  fileTypes: ['.ts', '.tsx', '.js', '.jsx', '.py', '.java', '.go', '.rb', '.php', '.sql', '.yaml', '.yml'],
 
   async scan(files: string[], options: ScanOptions): Promise<Finding[]> {
     const findings: Finding[] = [];
@@ -67,8 +69,7 @@ export const retentionScanner: Scanner = {
 
     for (const filePath of codeFiles) {
       try {
-        const content = await readFile(filePath, 'utf-8');
-        const lines = content.split('\n');
+        const { lines } = await readSourceFile(filePath);
 
         for (let lineNum = 0; lineNum < lines.length; lineNum++) {
           const line = lines[lineNum];
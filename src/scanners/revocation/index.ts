@@ -3,13 +3,15 @@
  * Detects JWT usage without revocation and excessive token expiration
  */
 
-import * as fs from 'fs/promises';
 import type { Scanner, Finding, ScanOptions } from '../../types.js';
 import { ALL_REVOCATION_PATTERNS } from './patterns.js';
+import { readSourceFile } from '../../engine/source-files.js';
 
 export const revocationScanner: Scanner = {
+  id: 'revocation',
   name: 'Token Revocation Security Scanner',
   category: 'access-control',
+  fileTypes: ['.ts', '.tsx', '.js', '.jsx'],
 
   async scan(files: string[], _options: ScanOptions): Promise<Finding[]> {
     const findings: Finding[] = [];
@@ -21,8 +23,7 @@ export const revocationScanner: Scanner = {
 
     for (const file of codeFiles) {
       try {
-        const content = await fs.readFile(file, 'utf-8');
-        const lines = content.split('\n');
+        const { lines } = await readSourceFile(file);
 
         for (let i = 0; i < lines.length; i++) {
           const line = lines[i];
@@ -1,7 +1,7 @@
-import { readFile } from 'fs/promises';
 import type { Scanner, Finding, ScanOptions, FixType } from '../../types.js';
 import { DEFAULT_CONFIG } from '../../config.js';
 import { getContextLines } from '../../utils/context.js';
+import { readSourceFile } from '../../engine/source-files.js';
 
 export const SECURITY_PATTERNS: Array<{
   regex: RegExp;
@@ -247,8 +247,10 @@ export const SECURITY_PATTERNS: Array<{
 ];
 
 export const securityScanner: Scanner = {
+  id: 'security',
   name: 'Security Scanner',
   category: 'access-control', // Using access-control category for now
+  fileTypes: ['.ts', '.tsx', '.js', '.jsx', '.py', '.java', '.go', '.rb', '.php', '.env', '.sql'],
 
   async scan(files: string[], options: ScanOptions): Promise<Finding[]> {
     const findings: Finding[] = [];
@@ -262,8 +264,7 @@ export const securityScanner: Scanner = {
       const isTestFile = filePath.includes('test') || filePath.includes('spec') || filePath.includes('mock');
 
       try {
-        const content = await readFile(filePath, 'utf-8');
-        const lines = content.split('\n');
+        const { lines } = await readSourceFile(filePath);
 
         for (let lineNum = 0; lineNum < lines.length; lineNum++) {
           const line = lines[lineNum];
@@ -3,13 +3,15 @@
  * Scans SKILL.md files for HIPAA violations and security issues
  */
 
-import { readFile } from 'fs/promises';
 import type { Scanner, Finding, ScanOptions } from '../../types.js';
 import { ALL_SKILL_PATTERNS } from './patterns.js';
+import { readSourceFile } from '../../engine/source-files.js';
 
 export const skillsScanner: Scanner = {
+  id: 'skills',
   name: 'AI Agent Skills Scanner',
   category: 'access-control',
+  fileTypes: ['SKILL.md', '*.skill.md', 'skills/**', '.clawrc/**'],
 
   async scan(files: string[], _options: ScanOptions): Promise<Finding[]> {
     const findings: Finding[] = [];
@@ -32,8 +34,7 @@ export const skillsScanner: Scanner = {
 
     for (const file of skillFiles) {
       try {
-        const content = await readFile(file, 'utf-8');
-        const lines = content.split('\n');
+        const { content, lines } = await readSourceFile(file);
 
         // Scan each pattern
         for (const pattern of ALL_SKILL_PATTERNS) {
@@ -0,0 +1,140 @@
+/**
+ * PHI Taint Tracking Scanner Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { taintScanner } from './index.js';
+import type { ScanOptions, VlayerConfig } from '../../types.js';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+
+describe('PHI Taint Tracking Scanner', () => {
+  let tempDir = '';
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'taint-test-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  async function createTestFile(filename: string, content: string): Promise<string> {
+    const filePath = path.join(tempDir, filename);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, content.trimStart(), 'utf-8');
+    return filePath;
+  }
+
+  async function scan(files: string[], config?: VlayerConfig) {
+    const options: ScanOptions = { path: tempDir, config };
+    return taintScanner.scan(files, options);
+  }
+
+  it('reports a Prisma patient query reaching a logger with the full path', async () => {
+    const file = await createTestFile('patients.ts', `
+export async function show(id: string) {
+  const patient = await prisma.patient.findUnique({ where: { id } });
+  const summary = { name: patient.name, visits: 3 };
+  logger.info('loaded', summary);
+}
+`);
+    const findings = await scan([file]);
+
+    expect(findings).toHaveLength(1);
+    expect(findings[0]).toMatchObject({ id: 'TAINT-LOGGER', severity: 'high', line: 4, confidence: 'high' });
+    expect(findings[0].description).toContain('Source → sink path (Prisma patient query → logger):');
+    expect(findings[0].description).toContain('1. patients.ts:2  const patient = await prisma.patient.findUnique({ where: { id } });');
+    expect(findings[0].description).toContain('2. patients.ts:3  const summary = { name: patient.name, visits: 3 };');
+    expect(findings[0].description).toContain("3. patients.ts:4  logger.info('loaded', summary);");
+  });
+
+  it('only taints PHI fields of request bodies', async () => {
+    const file = await createTestFile('api.ts', `
+app.post('/intake', (req, res) => {
+  const { ssn, page } = req.body;
+  console.log('page', page);
+  console.log('body', req.body);
+  localStorage.setItem('ssn', ssn);
+  fetch(\`/lookup?dob=\${req.body.dob}\`);
+});
+`);
+    const findings = await scan([file]);
+
+    expect(findings.map(f => [f.id, f.line])).toEqual([
+      ['TAINT-STORAGE', 5],
+      ['TAINT-URL', 6],
+    ]);
+  });
+
+  it('follows taint through function parameters, returns and callbacks', async () => {
+    const file = await createTestFile('flows.ts', `
+function track(record) {
+  analytics.track('viewed', { diagnosis: record.diagnosis });
+}
+async function load() {
+  return supabase.from('patients').select('*');
+}
+const { data } = await load();
+data.forEach(row => Sentry.setContext('patient', row));
+track(data[0]);
+`);
+    const findings = await scan([file]);
+
+    expect(findings.map(f => [f.id, f.line])).toEqual([
+      ['TAINT-ANALYTICS', 2],
+      ['TAINT-ERROR-TRACKER', 8],
+    ]);
+    expect(findings[0].description).toContain('flows.ts:9  track(data[0]);');
+  });
+
+  it('stops at sanitizers', async () => {
+    const file = await createTestFile('safe.ts', `
+const patient = await prisma.patient.findFirst();
+console.log(redactPhi(patient));
+`);
+    expect(await scan([file])).toEqual([]);
+  });
+
+  it('follows tainted returns of imported functions across modules', async () => {
+    await createTestFile('lib/patients.ts', `
+export async function getPatient(id: string) {
+  const row = await prisma.patient.findUnique({ where: { id } });
+  return row;
+}
+`);
+    const page = await createTestFile('page.tsx', `
+import { getPatient } from './lib/patients.js';
+export async function Page({ id }) {
+  const patient = await getPatient(id);
+  window.location.href = '/chart/' + patient.mrn;
+}
+`);
+    const findings = await scan([page]);
+
+    expect(findings).toHaveLength(1);
+    expect(findings[0].id).toBe('TAINT-URL');
+    expect(findings[0].description).toContain(`${path.join('lib', 'patients.ts')}:2`);
+    expect(findings[0].description).toContain('page.tsx:4  window.location.href');
+  });
+
+  it('uses sources and sinks from config', async () => {
+    const file = await createTestFile('ehr.ts', `
+const chart = await ehr.charts.get(id);
+audit.write(chart);
+console.log(chart);
+`);
+    const config: VlayerConfig = {
+      taint: {
+        includeDefaults: false,
+        sources: [{ name: 'EHR chart', pattern: '^ehr\\.charts\\.get\\(' }],
+        sinks: [{ name: 'audit writer', kind: 'logger', pattern: '^audit\\.write$' }],
+      },
+    };
+    const findings = await scan([file], config);
+
+    expect(findings.map(f => f.line)).toEqual([2]);
+    expect(findings[0].description).toContain('(EHR chart → audit writer)');
+  });
+});
@@ -0,0 +1,193 @@
+/**
+ * PHI Taint Tracking Scanner
+ * Follows patient data from PHI sources (patient queries, request bodies) to
+ * sinks that leak it (loggers, browser storage, URLs, analytics SDKs, error
+ * trackers) and reports each flow with its full source → sink path.
+ *
+ * Flows cross module boundaries through imported functions, so findings depend
+ * on other files and the scanner is project-wide (never served from the cache).
+ */
+
+import * as path from 'path';
+import type { Scanner, Finding, ScanOptions, VlayerConfig } from '../../types.js';
+import { DEFAULT_CONFIG } from '../../config.js';
+import { getContextLines } from '../../utils/context.js';
+import { readSourceFile } from '../../engine/source-files.js';
+import { parseModule } from '../../utils/ast.js';
+import {
+  analyzeTaint,
+  collectImports,
+  normalizeFieldName,
+  type CompiledTaintConfig,
+  type ModuleTaint,
+  type Taint,
+  type TaintFlow,
+} from './analyzer.js';
+import {
+  DEFAULT_PHI_FIELDS,
+  DEFAULT_SANITIZERS,
+  DEFAULT_TAINT_SINKS,
+  DEFAULT_TAINT_SOURCES,
+  TAINT_RULES,
+} from './patterns.js';
+
+export { TAINT_RULES } from './patterns.js';
+
+const CODE_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx'];
+const RESOLVE_SUFFIXES = [...CODE_EXTENSIONS, ...CODE_EXTENSIONS.map(ext => `/index${ext}`)];
+
+const compiledConfigs = new WeakMap<object, CompiledTaintConfig>();
+
+function compilePattern(pattern: string, label: string): RegExp | undefined {
+  try {
+    return new RegExp(pattern, 'i');
+  } catch (error) {
+    console.warn(`[vlayer] Warning: invalid taint ${label} pattern "${pattern}": ${error instanceof Error ? error.message : String(error)}`);
+    return undefined;
+  }
+}
+
+/** Built-in sources and sinks plus the `taint` block of config, compiled once per config. */
+export function compileTaintConfig(config: VlayerConfig): CompiledTaintConfig {
+  const taint = config.taint ?? {};
+  const cached = compiledConfigs.get(taint);
+  if (cached) return cached;
+
+  const defaults = taint.includeDefaults !== false;
+  const sources = [...(defaults ? DEFAULT_TAINT_SOURCES : []), ...(taint.sources ?? [])];
+  const sinks = [...(defaults ? DEFAULT_TAINT_SINKS : []), ...(taint.sinks ?? [])];
+  const phiFields = [...(defaults ? DEFAULT_PHI_FIELDS : []), ...(taint.phiFields ?? [])];
+  const sanitizers = [...(defaults ? DEFAULT_SANITIZERS : []), ...(taint.sanitizers ?? [])];
+
+  const compiled: CompiledTaintConfig = {
+    sources: sources.flatMap(source => {
+      const regex = compilePattern(source.pattern, `source "${source.name}"`);
+      return regex ? [{ name: source.name, regex, phiFieldsOnly: source.phiFieldsOnly ?? false }] : [];
+    }),
+    sinks: sinks.flatMap(sink => {
+      const regex = compilePattern(sink.pattern, `sink "${sink.name}"`);
+      return regex ? [{ name: sink.name, kind: sink.kind, regex, arguments: sink.arguments }] : [];
+    }),
+    phiFields: new Set(phiFields.map(normalizeFieldName)),
+    sanitizers: sanitizers.flatMap(pattern => compilePattern(pattern, 'sanitizer') ?? []),
+  };
+  compiledConfigs.set(taint, compiled);
+  return compiled;
+}
+
+/** Resolve a relative import to a source file, trying TS/JS extensions and index files. */
+async function resolveImport(fromFile: string, specifier: string): Promise<string | undefined> {
+  if (!specifier.startsWith('.')) return undefined;
+  const base = path.resolve(path.dirname(fromFile), specifier);
+  const stem = base.replace(/\.(?:[cm]?js|jsx)$/, '');
+  const candidates = CODE_EXTENSIONS.some(ext => base.endsWith(ext)) ? [base] : [];
+  candidates.push(...RESOLVE_SUFFIXES.map(suffix => stem + suffix));
+
+  for (const candidate of candidates) {
+    try {
+      await readSourceFile(candidate);
+      return candidate;
+    } catch {
+      // Try the next candidate
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Analyze modules on demand, memoized for one scan. Imported modules are
+ * analyzed first so their tainted returns are known; import cycles are cut.
+ */
+function createModuleAnalyzer(config: CompiledTaintConfig) {
+  const analyzed = new Map<string, Promise<ModuleTaint | undefined>>();
+
+  const analyze = (file: string, ancestors: Set<string>): Promise<ModuleTaint | undefined> => {
+    let result = analyzed.get(file);
+    if (!result) {
+      result = (async () => {
+        let content: string;
+        try {
+          ({ content } = await readSourceFile(file));
+        } catch {
+          return undefined;
+        }
+        const program = parseModule(file, content);
+        if (!program) return undefined;
+
+        const imported = new Map<string, Taint>();
+        const chain = new Set(ancestors).add(file);
+        for (const { specifier, imported: name, local } of collectImports(program)) {
+          const target = await resolveImport(file, specifier);
+          if (!target || chain.has(target)) continue;
+          const taint = (await analyze(target, chain))?.exportedReturns.get(name);
+          if (taint) imported.set(local, taint);
+        }
+
+        return analyzeTaint(file, content, program, config, imported);
+      })();
+      analyzed.set(file, result);
+    }
+    return result;
+  };
+
+  return (file: string) => analyze(file, new Set());
+}
+
+function describeFlow(flow: TaintFlow, description: string, rootPath: string): string {
+  const steps = flow.steps.map((step, index) => {
+    const location = `${path.relative(rootPath, step.file) || path.basename(step.file)}:${step.line}`;
+    return `  ${index + 1}. ${location}  ${step.code}`;
+  });
+  return [
+    description,
+    '',
+    `Source → sink path (${flow.source} → ${flow.sink.name}):`,
+    ...steps,
+  ].join('\n');
+}
+
+export const taintScanner: Scanner = {
+  id: 'taint',
+  name: 'PHI Taint Tracking Scanner',
+  category: 'phi-exposure',
+  fileTypes: CODE_EXTENSIONS,
+  projectWide: true,
+
+  async scan(files: string[], options: ScanOptions): Promise<Finding[]> {
+    const findings: Finding[] = [];
+    const config = options.config ?? DEFAULT_CONFIG;
+    const contextSize = config.contextLines ?? 2;
+    const analyze = createModuleAnalyzer(compileTaintConfig(config));
+
+    const codeFiles = files.filter(f => CODE_EXTENSIONS.some(ext => f.endsWith(ext)));
+
+    for (const file of codeFiles) {
+      const module = await analyze(file);
+      if (!module || module.flows.length === 0) continue;
+      const { lines } = await readSourceFile(file);
+
+      for (const flow of module.flows) {
+        const rule = TAINT_RULES.find(r => r.kind === flow.sink.kind);
+        if (!rule) continue;
+        findings.push({
+          id: rule.id,
+          category: 'phi-exposure',
+          severity: rule.severity,
+          title: rule.title,
+          description: describeFlow(flow, rule.description, options.path),
+          file,
+          line: flow.line,
+          column: flow.column,
+          recommendation: rule.recommendation,
+          hipaaReference: rule.hipaaReference,
+          context: getContextLines(lines, flow.line - 1, contextSize),
+          confidence: 'high',
+        });
+      }
+    }
+
+    return findings;
+  },
+};
+
+export default taintScanner;
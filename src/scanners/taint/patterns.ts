@@ -0,0 +1,102 @@
+/**
+ * PHI taint tracking — built-in sources, sinks and the rules flows are
+ * reported under. Patterns are case-insensitive regexes over rendered
+ * expressions (see `renderPath` in analyzer.ts).
+ */
+
+import type { Severity, TaintSinkConfig, TaintSinkKind, TaintSourceConfig } from '../../types.js';
+
+interface TaintRule {
+  id: string;
+  kind: TaintSinkKind;
+  severity: Severity;
+  title: string;
+  description: string;
+  recommendation: string;
+  hipaaReference: string;
+}
+
+/** One rule per sink kind; findings use these ids unchanged. */
+export const TAINT_RULES: TaintRule[] = [
+  {
+    id: 'TAINT-LOGGER',
+    kind: 'logger',
+    severity: 'high',
+    title: 'PHI flows into a logger',
+    description: 'Patient data from a PHI source reaches a logging call. Log files are rarely access-controlled or retained like PHI stores.',
+    recommendation: 'Log identifiers (record ids) instead of patient data, or pass the value through a redaction helper first.',
+    hipaaReference: '§164.312(b), §164.502(b)',
+  },
+  {
+    id: 'TAINT-STORAGE',
+    kind: 'storage',
+    severity: 'high',
+    title: 'PHI flows into browser storage',
+    description: 'Patient data from a PHI source is written to localStorage, sessionStorage or cookies, where it persists unencrypted on the device.',
+    recommendation: 'Keep PHI in memory or server-side sessions; never persist it in browser storage.',
+    hipaaReference: '§164.312(a)(2)(iv)',
+  },
+  {
+    id: 'TAINT-URL',
+    kind: 'url',
+    severity: 'high',
+    title: 'PHI flows into a URL',
+    description: 'Patient data from a PHI source is placed in a URL, which ends up in browser history, proxy and server access logs, and Referer headers.',
+    recommendation: 'Send PHI in a POST body over TLS and reference records by opaque ids in URLs.',
+    hipaaReference: '§164.312(e)(1)',
+  },
+  {
+    id: 'TAINT-ANALYTICS',
+    kind: 'analytics',
+    severity: 'critical',
+    title: 'PHI flows into an analytics SDK',
+    description: 'Patient data from a PHI source is sent to a third-party analytics SDK, an impermissible disclosure without a BAA.',
+    recommendation: 'Strip PHI from analytics events and use pseudonymous ids; only send data to vendors covered by a BAA.',
+    hipaaReference: '§164.502(a), §164.504(e)',
+  },
+  {
+    id: 'TAINT-ERROR-TRACKER',
+    kind: 'error-tracker',
+    severity: 'high',
+    title: 'PHI flows into an error tracker',
+    description: 'Patient data from a PHI source is attached to an error-tracking event and leaves your infrastructure.',
+    recommendation: 'Scrub PHI with the SDK\'s beforeSend hook and attach record ids instead of patient data.',
+    hipaaReference: '§164.502(e)',
+  },
+];
+
+const PHI_MODELS = 'patients?|medicalRecords?|encounters?|diagnos[ie]s|prescriptions?|medications?|labResults?|clinicalNotes?|healthRecords?|insurances?';
+const PHI_TABLES = 'patients?|medical_records?|encounters?|diagnos[ie]s|prescriptions?|medications?|lab_results?|clinical_notes?|health_records?';
+
+export const DEFAULT_TAINT_SOURCES: TaintSourceConfig[] = [
+  { name: 'Prisma patient query', pattern: `(?:^|\\.)prisma\\.(?:${PHI_MODELS})\\.\\w+\\(` },
+  { name: 'Supabase patient query', pattern: `\\.from\\('(?:${PHI_TABLES})'\\)` },
+  { name: 'request body', pattern: '^(?:req|request|ctx\\.request)\\.(?:body|json\\(\\))$', phiFieldsOnly: true },
+];
+
+export const DEFAULT_TAINT_SINKS: TaintSinkConfig[] = [
+  { name: 'console', kind: 'logger', pattern: '^console\\.(?:log|info|warn|error|debug|trace)$' },
+  { name: 'logger', kind: 'logger', pattern: '(?:^|\\.)(?:logger|log|winston|pino|bunyan)\\.(?:log|info|warn|error|debug|trace|fatal|verbose)$' },
+  { name: 'web storage', kind: 'storage', pattern: '^(?:window\\.)?(?:localStorage|sessionStorage)\\.' },
+  { name: 'cookie', kind: 'storage', pattern: '^(?:document\\.cookie|cookies\\.set|Cookies\\.set)$' },
+  { name: 'location', kind: 'url', pattern: '^(?:window\\.)?location(?:\\.href|\\.assign|\\.replace)?$' },
+  { name: 'router', kind: 'url', pattern: '(?:^|\\.)router\\.(?:push|replace)$', arguments: [0] },
+  { name: 'fetch', kind: 'url', pattern: '^(?:fetch|axios(?:\\.(?:get|delete|head|post|put|patch))?)$', arguments: [0] },
+  { name: 'URL', kind: 'url', pattern: '^(?:URL|URLSearchParams)$' },
+  { name: 'analytics SDK', kind: 'analytics', pattern: '^(?:window\\.)?(?:analytics|mixpanel|amplitude|posthog|heap|segment|dataLayer)\\.\\w+$|^(?:gtag|fbq|ga)$' },
+  { name: 'error tracker', kind: 'error-tracker', pattern: '^(?:Sentry|Bugsnag|Rollbar|LogRocket|datadogRum|newrelic)\\.\\w+$' },
+];
+
+/** Field names that carry PHI on `phiFieldsOnly` sources; compared case- and separator-insensitively. */
+export const DEFAULT_PHI_FIELDS: string[] = [
+  'ssn', 'socialSecurityNumber', 'dob', 'dateOfBirth', 'birthDate',
+  'mrn', 'medicalRecordNumber', 'patientId', 'patientName',
+  'diagnosis', 'diagnoses', 'icd10', 'condition', 'conditions',
+  'medication', 'medications', 'prescription', 'prescriptions', 'allergies',
+  'labResults', 'insuranceId', 'memberId', 'policyNumber', 'healthPlanId',
+];
+
+/** Calls matching these (on the last path segment) return an untainted value. */
+export const DEFAULT_SANITIZERS: string[] = [
+  '(?:^|\\.)(?:redact|mask|sanitize|scrub|encrypt|hash|anonymi[sz]e|deidentify|pseudonymi[sz]e)\\w*$',
+];
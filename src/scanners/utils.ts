@@ -43,7 +43,7 @@ export interface WindowedMatchOptions {
 }
 
 /** Add the dotAll (`s`) flag so `.` spans newlines, enabling multi-line matches. */
-function withDotAll(re: RegExp): RegExp {
+export function withDotAll(re: RegExp): RegExp {
   return re.flags.includes('s') ? re : new RegExp(re.source, re.flags + 's');
 }
 
@@ -99,3 +99,16 @@ export function findWindowedViolations(
 
   return results;
 }
+
+/**
+ * Whether a pattern matches within `window` lines above or below a 0-based
+ * line, the line itself included. As with the compliance window above, the
+ * match may span lines, so compile the pattern with `withDotAll` once rather
+ * than per call.
+ */
+export function matchesWithinWindow(lines: string[], index: number, pattern: RegExp, window: number): boolean {
+  const around = lines.slice(Math.max(0, index - window), index + window + 1).join('\n');
+  const re = withDotAll(pattern);
+  re.lastIndex = 0;
+  return re.test(around);
+}
@@ -1,6 +1,7 @@
 import { parse } from '@typescript-eslint/typescript-estree';
 import { readFile } from 'fs/promises';
 import type { Confidence } from './types.js';
+import { languageForFile, tokenize, type LanguageSyntax } from './utils/tokenizer.js';
 
 export interface SemanticContext {
   confidence: Confidence;
@@ -17,6 +18,20 @@ function isTestFile(filePath: string): boolean {
     /\.spec\.(ts|tsx|js|jsx)$/,
     /\/__tests__\//,
     /\/tests?\//,
+    /\/spec\//,
+    // Python (pytest / unittest)
+    /\/test_[^/]*\.py$/,
+    /_test\.py$/,
+    /\/conftest\.py$/,
+    // Java (JUnit, Maven/Gradle layout)
+    /(Test|Tests|IT)\.java$/,
+    /\/src\/test\//,
+    // Go
+    /_test\.go$/,
+    // Ruby (RSpec / Minitest)
+    /_(spec|test)\.rb$/,
+    // PHP (PHPUnit)
+    /Test\.php$/,
   ];
 
   return testPatterns.some(pattern => pattern.test(filePath));
@@ -30,13 +45,49 @@ export async function analyzeSemanticContext(
   lineNumber: number,
   pattern?: string
 ): Promise<SemanticContext> {
+  if (!isTsJsFile(filePath) && !languageForFile(filePath)) {
+    // For other files, use simple heuristics
+    return {
+      confidence: 'medium',
+      context: 'code',
+      inTestFile: isTestFile(filePath),
+    };
+  }
+
+  try {
+    const content = await readFile(filePath, 'utf-8');
+    return analyzeSourceContext(filePath, content, lineNumber, pattern);
+  } catch {
+    return {
+      confidence: 'medium',
+      context: 'code',
+      inTestFile: isTestFile(filePath),
+    };
+  }
+}
+
+function isTsJsFile(filePath: string): boolean {
+  return /\.(ts|tsx|js|jsx)$/.test(filePath);
+}
+
+/**
+ * Semantic context at a line of already-loaded source. TS/JS is parsed into an
+ * AST; Python, Java, Go, Ruby and PHP are tokenized into comments and strings.
+ */
+export function analyzeSourceContext(
+  filePath: string,
+  content: string,
+  lineNumber: number,
+  pattern?: string
+): SemanticContext {
   // Check if it's a test file first
   const inTestFile = isTestFile(filePath);
 
-  // Only parse TypeScript/JavaScript files
-  const isTsJsFile = /\.(ts|tsx|js|jsx)$/.test(filePath);
-  if (!isTsJsFile) {
-    // For non-TS/JS files, use simple heuristics
+  if (!isTsJsFile(filePath)) {
+    const syntax = languageForFile(filePath);
+    if (syntax) {
+      return analyzeTokenized(content, syntax, lineNumber, pattern, inTestFile);
+    }
     return {
       confidence: 'medium',
       context: 'code',
@@ -45,7 +96,6 @@ export async function analyzeSemanticContext(
   }
 
   try {
-    const content = await readFile(filePath, 'utf-8');
     const lines = content.split('\n');
     const targetLine = lines[lineNumber - 1];
 
@@ -123,6 +173,36 @@ export async function analyzeSemanticContext(
   }
 }
 
+/**
+ * Context from comment and string tokens, for languages without an AST parser.
+ * Mirrors the AST path: comments first, then literals (containing `pattern`,
+ * when given), else executable code.
+ */
+function analyzeTokenized(
+  content: string,
+  syntax: LanguageSyntax,
+  lineNumber: number,
+  pattern: string | undefined,
+  inTestFile: boolean
+): SemanticContext {
+  const onLine = tokenize(content, syntax).filter(
+    token => token.startLine <= lineNumber && token.endLine >= lineNumber
+  );
+
+  if (onLine.some(token => token.kind === 'comment')) {
+    return { confidence: 'low', context: 'comment', inTestFile };
+  }
+
+  const literal = onLine.find(token => !pattern || token.text.includes(pattern));
+  if (literal) {
+    return literal.kind === 'template'
+      ? { confidence: 'medium', context: 'template', inTestFile }
+      : { confidence: 'low', context: 'string', inTestFile };
+  }
+
+  return { confidence: inTestFile ? 'low' : 'high', context: 'code', inTestFile };
+}
+
 /**
  * Fallback analysis without AST parsing
  */
@@ -1,112 +1,221 @@
-import { readFile } from 'fs/promises';
-import type { Finding } from './types.js';
+/**
+ * Inline suppression directives, written in a comment of the file's language:
+ *
+ *   vlayer-ignore <rule> -- <reason>             this line or the next
+ *   vlayer-ignore-next-line <rule> -- <reason>   the next line
+ *   vlayer-ignore-start <rule> -- <reason>       every line up to
+ *   vlayer-ignore-end                            (or the end of the file)
+ *   vlayer-ignore-file <rule> -- <reason>        the whole file
+ *
+ * `<rule>` is a finding id or rule id, `*` wildcards allowed. An optional
+ * `expires=YYYY-MM-DD` before the `--` makes the directive lapse once that
+ * day (UTC) is over. Directives without a reason suppress nothing.
+ */
+import { readFile, writeFile } from 'fs/promises';
+import type { Finding, UnusedSuppression } from './types.js';
+import { isPastExpiry } from './utils/expiry.js';
+import { LANGUAGE_SYNTAX } from './utils/tokenizer.js';
+import { stableRuleId } from './fingerprint.js';
 
-const SUPPRESSION_PATTERN = /\/\/\s*vlayer-ignore\s+([a-zA-Z0-9\-*]+)\s+--\s+(.+)/;
-const SUPPRESSION_PATTERN_NO_REASON = /\/\/\s*vlayer-ignore\s+([a-zA-Z0-9\-*]+)\s*$/;
+export type SuppressionKind = 'ignore' | 'next-line' | 'start' | 'file';
 
-interface SuppressionComment {
-  line: number;
+export interface SuppressionDirective {
+  kind: SuppressionKind;
   rulePattern: string;
   reason: string;
+  expires?: string;
+  /** 1-based line of the directive. */
+  line: number;
+  /** First and last line the directive covers, inclusive. */
+  startLine: number;
+  endLine: number;
+  /** The directive as written, without the comment delimiters. */
+  comment: string;
+}
+
+interface CommentSyntax {
+  open: string;
+  close?: string;
+}
+
+const C_LINE: CommentSyntax[] = [{ open: '//' }, { open: '/*', close: '*/' }];
+const HASH: CommentSyntax[] = [{ open: '#' }];
+const HTML: CommentSyntax[] = [{ open: '<!--', close: '-->' }];
+
+/**
+ * Comments directives are read from, by extension. Languages the tokenizer
+ * knows use its line comments; files of other types accept `//` and `#`.
+ */
+const COMMENT_SYNTAX: Record<string, CommentSyntax[]> = {
+  ...Object.fromEntries(
+    Object.entries(LANGUAGE_SYNTAX).map(([ext, syntax]) => [ext, syntax.lineComments.map(open => ({ open }))])
+  ),
+  '.ts': C_LINE,
+  '.tsx': C_LINE,
+  '.js': C_LINE,
+  '.jsx': C_LINE,
+  '.mjs': C_LINE,
+  '.cjs': C_LINE,
+  '.java': C_LINE,
+  '.go': C_LINE,
+  '.cs': C_LINE,
+  '.kt': C_LINE,
+  '.swift': C_LINE,
+  '.rs': C_LINE,
+  '.css': [{ open: '/*', close: '*/' }],
+  '.scss': C_LINE,
+  '.yaml': HASH,
+  '.yml': HASH,
+  '.toml': HASH,
+  '.sh': HASH,
+  '.tf': [...HASH, { open: '//' }],
+  '.env': HASH,
+  '.sql': [{ open: '--' }, { open: '/*', close: '*/' }],
+  '.html': HTML,
+  '.htm': HTML,
+  '.xml': HTML,
+  '.md': HTML,
+  '.vue': [...HTML, ...C_LINE],
+  '.svelte': [...HTML, ...C_LINE],
+};
+
+const DEFAULT_COMMENT_SYNTAX: CommentSyntax[] = [{ open: '//' }, { open: '#' }];
+
+/** File types without comments, which cannot carry directives. */
+const NO_COMMENTS = new Set(['.json']);
+
+const DIRECTIVE = /vlayer-ignore(?:-(next-line|start|end|file))?(?=\s|$)(.*)$/;
+const DIRECTIVE_BODY = /^\s+([\w\-*.]+)(?:\s+expires=(\d{4}-\d{2}-\d{2}))?(?:\s+--(?:\s+(.*))?)?\s*$/;
+const END_BODY = /^\s*([\w\-*.]+)?\s*$/;
+
+function extensionOf(filePath: string): string {
+  return /\.[^./\\]+$/.exec(filePath)?.[0].toLowerCase() ?? '';
+}
+
+function commentSyntax(filePath: string): CommentSyntax[] {
+  const extension = extensionOf(filePath);
+  if (NO_COMMENTS.has(extension)) return [];
+  return COMMENT_SYNTAX[extension] ?? DEFAULT_COMMENT_SYNTAX;
+}
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** The text after `vlayer-ignore` in a comment of one of the given kinds, if any. */
+function directiveText(line: string, syntax: CommentSyntax[]): { kind: string | undefined; body: string } | undefined {
+  for (const { open, close } of syntax) {
+    const match = new RegExp(`${escapeRegex(open)}\\s*${DIRECTIVE.source}`).exec(line);
+    if (!match) continue;
+    let body = match[2];
+    if (close) {
+      const end = body.indexOf(close);
+      if (end !== -1) body = body.slice(0, end);
+    }
+    return { kind: match[1], body: body.trimEnd() };
+  }
+  return undefined;
 }
 
 /**
- * Extract suppression comments from file content
+ * Extract the suppression directives of a file. `start` directives run to
+ * the next `vlayer-ignore-end` (for their rule, or without one) or to the end
+ * of the file.
  */
-function extractSuppressions(content: string): SuppressionComment[] {
+export function parseSuppressionDirectives(filePath: string, content: string): SuppressionDirective[] {
+  const syntax = commentSyntax(filePath);
   const lines = content.split('\n');
-  const suppressions: SuppressionComment[] = [];
+  const directives: SuppressionDirective[] = [];
+  const open: SuppressionDirective[] = [];
 
   for (let i = 0; i < lines.length; i++) {
-    const line = lines[i];
-    const match = line.match(SUPPRESSION_PATTERN);
-
-    if (match) {
-      suppressions.push({
-        line: i + 1,
-        rulePattern: match[1],
-        reason: match[2].trim(),
-      });
-    } else {
-      // Check for suppression without reason (will be flagged as error)
-      const noReasonMatch = line.match(SUPPRESSION_PATTERN_NO_REASON);
-      if (noReasonMatch) {
-        suppressions.push({
-          line: i + 1,
-          rulePattern: noReasonMatch[1],
-          reason: '', // Empty reason - invalid
-        });
+    if (!lines[i].includes('vlayer-ignore')) continue;
+    const text = directiveText(lines[i], syntax);
+    if (!text) continue;
+    const lineNumber = i + 1;
+
+    if (text.kind === 'end') {
+      const rule = END_BODY.exec(text.body)?.[1];
+      const index = rule ? open.map(d => d.rulePattern).lastIndexOf(rule) : open.length - 1;
+      if (index !== -1) {
+        open[index].endLine = lineNumber - 1;
+        open.splice(index, 1);
       }
+      continue;
     }
+
+    const body = DIRECTIVE_BODY.exec(text.body);
+    if (!body) continue;
+    const kind: SuppressionKind = (text.kind as SuppressionKind | undefined) ?? 'ignore';
+    const directive: SuppressionDirective = {
+      kind,
+      rulePattern: body[1],
+      reason: body[3]?.trim() ?? '',
+      expires: body[2],
+      line: lineNumber,
+      startLine: kind === 'file' ? 1 : kind === 'ignore' ? lineNumber : lineNumber + 1,
+      endLine: kind === 'ignore' || kind === 'next-line' ? lineNumber + 1 : lines.length,
+      comment: `vlayer-ignore${kind === 'ignore' ? '' : `-${kind}`}${text.body}`,
+    };
+    directives.push(directive);
+    if (kind === 'start') open.push(directive);
   }
 
-  return suppressions;
+  return directives;
 }
 
 /**
- * Check if a finding matches a suppression pattern
+ * Check if a finding matches a suppression pattern, by finding id or by the
+ * rule id without its line suffix
  */
-function matchesSuppressionPattern(findingId: string, pattern: string): boolean {
+function matchesSuppressionPattern(finding: Finding, pattern: string): boolean {
   if (pattern === '*') return true;
-  if (pattern === findingId) return true;
+  const ids = [finding.id, stableRuleId(finding)];
+  if (ids.includes(pattern)) return true;
 
   // Support wildcard patterns like "phi-*" or "*-injection"
-  const regexPattern = pattern.replace(/\*/g, '.*');
-  const regex = new RegExp(`^${regexPattern}$`);
-  return regex.test(findingId);
+  const regex = new RegExp(`^${pattern.split('*').map(escapeRegex).join('.*')}$`);
+  return ids.some(id => regex.test(id));
+}
+
+function covers(directive: SuppressionDirective, finding: Finding): boolean {
+  if (directive.kind === 'file') return true;
+  return finding.line !== undefined && directive.startLine <= finding.line && finding.line <= directive.endLine;
+}
+
+function isExpired(directive: SuppressionDirective, now: Date): boolean {
+  return directive.expires ? isPastExpiry(directive.expires, now) : false;
+}
+
+/** The directive that suppresses a finding: in range, with a reason, not expired. */
+function findSuppression(
+  directives: SuppressionDirective[],
+  finding: Finding,
+  now: Date
+): SuppressionDirective | undefined {
+  return directives.find(d =>
+    d.reason && !isExpired(d, now) && covers(d, finding) && matchesSuppressionPattern(finding, d.rulePattern)
+  );
 }
 
 /**
  * Check if a finding is suppressed by inline comments
  */
 export async function checkInlineSuppression(
-  finding: Finding
-): Promise<{ suppressed: boolean; reason?: string; comment?: string }> {
-  if (!finding.file || !finding.line) {
+  finding: Finding,
+  now = new Date()
+): Promise<{ suppressed: boolean; reason?: string; comment?: string; expires?: string }> {
+  if (!finding.file) {
     return { suppressed: false };
   }
 
   try {
     const content = await readFile(finding.file, 'utf-8');
-    const suppressions = extractSuppressions(content);
-    const findingLine = finding.line!; // We checked it's defined above
-
-    // Check the line before the finding (most common case)
-    const prevLineSuppression = suppressions.find(
-      s => s.line === findingLine - 1 && matchesSuppressionPattern(finding.id, s.rulePattern)
-    );
-
-    if (prevLineSuppression) {
-      if (!prevLineSuppression.reason) {
-        // Suppression without reason - treat as not suppressed
-        return { suppressed: false };
-      }
-
-      return {
-        suppressed: true,
-        reason: prevLineSuppression.reason,
-        comment: `// vlayer-ignore ${prevLineSuppression.rulePattern} -- ${prevLineSuppression.reason}`,
-      };
-    }
-
-    // Check same line (for inline suppressions)
-    const sameLineSuppression = suppressions.find(
-      s => s.line === findingLine && matchesSuppressionPattern(finding.id, s.rulePattern)
-    );
-
-    if (sameLineSuppression) {
-      if (!sameLineSuppression.reason) {
-        return { suppressed: false };
-      }
-
-      return {
-        suppressed: true,
-        reason: sameLineSuppression.reason,
-        comment: `// vlayer-ignore ${sameLineSuppression.rulePattern} -- ${sameLineSuppression.reason}`,
-      };
+    const directive = findSuppression(parseSuppressionDirectives(finding.file, content), finding, now);
+    if (!directive) {
+      return { suppressed: false };
     }
-
-    return { suppressed: false };
+    return { suppressed: true, reason: directive.reason, comment: directive.comment, expires: directive.expires };
   } catch {
     // If we can't read the file, don't suppress
     return { suppressed: false };
@@ -114,27 +223,107 @@ export async function checkInlineSuppression(
 }
 
 /**
- * Apply inline suppressions to all findings
+ * Apply inline suppressions to all findings. Each file is read once.
  */
-export async function applyInlineSuppressions(findings: Finding[]): Promise<Finding[]> {
-  const results = await Promise.all(
-    findings.map(async finding => {
-      const suppression = await checkInlineSuppression(finding);
+export async function applyInlineSuppressions(findings: Finding[], now = new Date()): Promise<Finding[]> {
+  const directivesByFile = new Map<string, SuppressionDirective[]>();
+  const results: Finding[] = [];
+
+  for (const finding of findings) {
+    if (!finding.file) {
+      results.push(finding);
+      continue;
+    }
+    let directives = directivesByFile.get(finding.file);
+    if (!directives) {
+      try {
+        directives = parseSuppressionDirectives(finding.file, await readFile(finding.file, 'utf-8'));
+      } catch {
+        directives = [];
+      }
+      directivesByFile.set(finding.file, directives);
+    }
 
-      if (suppression.suppressed) {
-        return {
+    const directive = findSuppression(directives, finding, now);
+    results.push(directive
+      ? {
           ...finding,
           suppressed: true,
           suppression: {
-            reason: suppression.reason!,
-            comment: suppression.comment!,
+            reason: directive.reason,
+            comment: directive.comment,
+            ...(directive.expires ? { expires: directive.expires } : {}),
           },
-        };
+        }
+      : finding);
+  }
+
+  return results;
+}
+
+/**
+ * Directives in the given files that no finding falls under any more: the
+ * code was fixed or moved, or the rule id changed. Expired directives and
+ * those without a reason count as used while a finding still matches them.
+ */
+export async function findUnusedSuppressions(files: string[], findings: Finding[]): Promise<UnusedSuppression[]> {
+  const findingsByFile = new Map<string, Finding[]>();
+  for (const finding of findings) {
+    findingsByFile.set(finding.file, [...(findingsByFile.get(finding.file) ?? []), finding]);
+  }
+
+  const unused: UnusedSuppression[] = [];
+  for (const file of files) {
+    let content: string;
+    try {
+      content = await readFile(file, 'utf-8');
+    } catch {
+      continue;
+    }
+    if (!content.includes('vlayer-ignore')) continue;
+
+    const fileFindings = findingsByFile.get(file) ?? [];
+    for (const directive of parseSuppressionDirectives(file, content)) {
+      const used = fileFindings.some(f => covers(directive, f) && matchesSuppressionPattern(f, directive.rulePattern));
+      if (!used) {
+        unused.push({ file, line: directive.line, rulePattern: directive.rulePattern, comment: directive.comment });
       }
+    }
+  }
+  return unused;
+}
 
-      return finding;
-    })
-  );
+/**
+ * Whether a finding in this file can be suppressed with an inline comment
+ */
+export function supportsInlineSuppression(filePath: string): boolean {
+  return !NO_COMMENTS.has(extensionOf(filePath));
+}
 
-  return results;
+/**
+ * Insert a `vlayer-ignore <id> -- <reason>` comment, in the file's comment
+ * syntax, on the line above a finding, indented like the flagged line.
+ * Returns the inserted comment.
+ */
+export async function addSuppressionComment(finding: Finding, reason: string): Promise<string> {
+  if (!finding.line) {
+    throw new Error(`Finding ${finding.id} has no line to suppress`);
+  }
+  if (!supportsInlineSuppression(finding.file)) {
+    throw new Error(`Inline suppressions are not supported in ${finding.file}`);
+  }
+  if (!reason.trim()) {
+    throw new Error('A suppression needs a reason');
+  }
+
+  const content = await readFile(finding.file, 'utf-8');
+  const lines = content.split('\n');
+  const target = lines[finding.line - 1] ?? '';
+  const indent = target.match(/^\s*/)?.[0] ?? '';
+  const { open, close } = commentSyntax(finding.file)[0];
+  const comment = `${open} vlayer-ignore ${finding.id} -- ${reason.trim()}${close ? ` ${close}` : ''}`;
+
+  lines.splice(finding.line - 1, 0, indent + comment);
+  await writeFile(finding.file, lines.join('\n'), 'utf-8');
+  return comment;
 }
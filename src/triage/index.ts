@@ -0,0 +1,344 @@
+import inquirer from 'inquirer';
+import chalk from 'chalk';
+import * as path from 'path';
+import { readFile } from 'fs/promises';
+import type { AcknowledgedFinding, Finding, ScanResult, VlayerConfig } from '../types.js';
+import { findingGroupKey } from '../scan.js';
+import { addAcknowledgment, approvalRule } from '../acknowledgments.js';
+import { addSuppressionComment, supportsInlineSuppression } from '../suppression.js';
+import { addToBaseline } from '../baseline.js';
+import { applyFixWithEvidence, planFix } from '../fixer/index.js';
+import { getGitIdentity } from '../utils/git-diff.js';
+import { isPastExpiry } from '../utils/expiry.js';
+import { stableRuleId } from '../fingerprint.js';
+
+export interface TriageOptions {
+  /** Project root: relative paths, audit trail and git identity are resolved from here. */
+  rootPath: string;
+  /** Acknowledgments file decisions are written to. */
+  acknowledgmentsPath: string;
+  baselinePath: string;
+  /** Project config, for the severities whose acknowledgments need approval. */
+  config?: VlayerConfig;
+}
+
+export interface TriageSummary {
+  acknowledged: number;
+  suppressed: number;
+  fixed: number;
+  baselined: number;
+  skipped: number;
+}
+
+/** What an acknowledgment made during triage covers. */
+type AcknowledgmentScope = 'occurrence' | 'file' | 'everywhere';
+
+type TriageAction = 'acknowledge' | 'suppress' | 'fix' | 'baseline' | 'skip' | 'skip-group' | 'quit';
+
+const SEVERITY_ORDER: Record<string, number> = { critical: 0, high: 1, medium: 2, low: 3, info: 4 };
+
+const SEVERITY_COLORS: Record<string, (text: string) => string> = {
+  critical: chalk.bgRed.white.bold,
+  high: chalk.red.bold,
+  medium: chalk.yellow.bold,
+  low: chalk.blue,
+  info: chalk.gray,
+};
+
+/**
+ * Findings that still need a decision: not suppressed inline, not covered by
+ * an unexpired acknowledgment and not in the baseline.
+ */
+export function openFindings(findings: Finding[]): Finding[] {
+  return findings.filter(f =>
+    !f.suppressed &&
+    !(f.acknowledged && !f.acknowledgment?.expired) &&
+    !f.isBaseline
+  );
+}
+
+/** Open findings grouped like the scan report, most severe group first. */
+export function groupForTriage(findings: Finding[]): Finding[][] {
+  const groups = new Map<string, Finding[]>();
+  for (const finding of findings) {
+    const key = findingGroupKey(finding);
+    groups.set(key, [...(groups.get(key) ?? []), finding]);
+  }
+  return Array.from(groups.values()).sort((a, b) =>
+    (SEVERITY_ORDER[a[0].severity] ?? 5) - (SEVERITY_ORDER[b[0].severity] ?? 5) || b.length - a.length
+  );
+}
+
+/**
+ * Edits made during a session move the lines below them. Shifts are recorded
+ * against the line numbers of the scan so later findings can be located.
+ */
+class LineShifts {
+  private shifts = new Map<string, Array<{ line: number; delta: number; inclusive: boolean }>>();
+
+  /** Lines were added above `line` (inclusive) or below it. */
+  record(file: string, line: number, delta: number, inclusive: boolean): void {
+    if (delta === 0) return;
+    this.shifts.set(file, [...(this.shifts.get(file) ?? []), { line, delta, inclusive }]);
+  }
+
+  current(finding: Finding): Finding {
+    if (!finding.line) return finding;
+    let line = finding.line;
+    for (const shift of this.shifts.get(finding.file) ?? []) {
+      if (shift.inclusive ? finding.line >= shift.line : finding.line > shift.line) line += shift.delta;
+    }
+    return line === finding.line ? finding : { ...finding, line };
+  }
+}
+
+async function printOccurrence(finding: Finding, rootPath: string, position: string): Promise<void> {
+  const relative = path.relative(rootPath, finding.file) || finding.file;
+  console.log(`\n${chalk.gray(position)} ${chalk.cyan(`${relative}${finding.line ? `:${finding.line}` : ''}`)} ${chalk.gray(`(${finding.id})`)}`);
+  if (!finding.line) return;
+
+  let lines: string[];
+  try {
+    lines = (await readFile(finding.file, 'utf-8')).split('\n');
+  } catch {
+    return;
+  }
+  const start = Math.max(1, finding.line - 2);
+  const end = Math.min(lines.length, finding.line + 2);
+  const width = String(end).length;
+  for (let lineNumber = start; lineNumber <= end; lineNumber++) {
+    const isMatch = lineNumber === finding.line;
+    const text = `${isMatch ? '>' : ' '} ${String(lineNumber).padStart(width)} | ${lines[lineNumber - 1]}`;
+    console.log(isMatch ? chalk.yellow(text) : chalk.gray(text));
+  }
+}
+
+/** The line as the available fix would rewrite it, if the fix changes anything. */
+async function previewFix(finding: Finding): Promise<{ before: string; after: string } | null> {
+  if (!finding.fixType || !finding.line) return null;
+  try {
+    const content = await readFile(finding.file, 'utf-8');
+    const fix = planFix(content, finding.file, finding);
+    if (!fix) return null;
+    const { index, count, lines } = fix.edit;
+    return { before: content.split('\n').slice(index, index + count).join('\n'), after: lines.join('\n') };
+  } catch {
+    return null;
+  }
+}
+
+async function promptAcknowledgment(
+  finding: Finding,
+  groupSize: number,
+  options: TriageOptions
+): Promise<{ ack: AcknowledgedFinding; scope: AcknowledgmentScope }> {
+  const relative = path.relative(options.rootPath, finding.file).split(path.sep).join('/');
+  const family = stableRuleId(finding);
+
+  const answers = await inquirer.prompt([
+    {
+      type: 'list',
+      name: 'scope',
+      message: 'Acknowledge:',
+      choices: [
+        ...(finding.fingerprint
+          ? [{ name: `This occurrence only (${relative}${finding.line ? `:${finding.line}` : ''})`, value: 'occurrence' }]
+          : []),
+        { name: `${family} in ${relative}`, value: 'file' },
+        { name: `${family} in every file${groupSize > 1 ? ` (${groupSize} occurrences)` : ''}`, value: 'everywhere' },
+      ],
+    },
+    {
+      type: 'input',
+      name: 'reason',
+      message: 'Reason:',
+      validate: (input: string) => input.trim().length > 0 || 'A reason is required',
+    },
+    {
+      type: 'input',
+      name: 'ticketUrl',
+      message: 'Ticket URL (optional):',
+    },
+    {
+      type: 'input',
+      name: 'expiresAt',
+      message: 'Expires (YYYY-MM-DD, optional):',
+      validate: (input: string) => {
+        if (!input.trim()) return true;
+        if (!/^\d{4}-\d{2}-\d{2}$/.test(input.trim()) || isNaN(new Date(input.trim()).getTime())) {
+          return 'Use the YYYY-MM-DD format';
+        }
+        return !isPastExpiry(input.trim()) || 'The expiry date is already past';
+      },
+    },
+    {
+      type: 'input',
+      name: 'acknowledgedBy',
+      message: 'Acknowledged by:',
+      default: await getGitIdentity(options.rootPath),
+      validate: (input: string) => input.trim().length > 0 || 'Acknowledged by is required',
+    },
+  ]);
+
+  const scope = answers.scope as AcknowledgmentScope;
+  const ack: AcknowledgedFinding = {
+    pattern: scope === 'everywhere' ? '**' : `**/${relative}`,
+    id: family,
+    ...(scope === 'occurrence' ? { fingerprint: finding.fingerprint } : {}),
+    reason: answers.reason.trim(),
+    acknowledgedBy: answers.acknowledgedBy.trim(),
+    acknowledgedAt: new Date().toISOString(),
+  };
+  if (answers.ticketUrl.trim()) ack.ticketUrl = answers.ticketUrl.trim();
+  if (answers.expiresAt.trim()) ack.expiresAt = answers.expiresAt.trim();
+  return { ack, scope };
+}
+
+/**
+ * Walk through the open findings of a scan group by group and decide on each
+ * occurrence: acknowledge it, suppress it inline, apply its fix, add it to the
+ * baseline or skip it. Decisions are written as they are made.
+ */
+export async function runTriage(result: ScanResult, options: TriageOptions): Promise<TriageSummary> {
+  const summary: TriageSummary = { acknowledged: 0, suppressed: 0, fixed: 0, baselined: 0, skipped: 0 };
+  const groups = groupForTriage(openFindings(result.findings));
+  const total = groups.reduce((sum, group) => sum + group.length, 0);
+
+  if (total === 0) {
+    console.log(chalk.green('\n✓ No open findings to triage.\n'));
+    return summary;
+  }
+
+  console.log(chalk.bold(`\n${total} open finding(s) in ${groups.length} group(s)\n`));
+
+  const shifts = new LineShifts();
+  // Acknowledged rules, as `family` (every file) or `family::file`, and
+  // single findings by fingerprint
+  const acknowledged = new Set<string>();
+  let seen = 0;
+
+  for (const [groupIndex, group] of groups.entries()) {
+    const first = group[0];
+    const color = SEVERITY_COLORS[first.severity] ?? chalk.white;
+    console.log(chalk.gray('─'.repeat(72)));
+    console.log(`${color(` ${first.severity.toUpperCase()} `)} ${chalk.bold(first.title)} ${chalk.gray(`[group ${groupIndex + 1}/${groups.length}, ${group.length} occurrence(s)]`)}`);
+    if (first.hipaaReference) console.log(chalk.gray(`HIPAA: ${first.hipaaReference}`));
+    console.log(chalk.white(first.recommendation));
+
+    for (const [index, scanned] of group.entries()) {
+      seen++;
+      const family = stableRuleId(scanned);
+      if (acknowledged.has(family) || acknowledged.has(`${family}::${scanned.file}`)) {
+        summary.acknowledged++;
+        continue;
+      }
+
+      const finding = shifts.current(scanned);
+      await printOccurrence(finding, options.rootPath, `[${seen}/${total}]`);
+      const fix = await previewFix(finding);
+
+      const choices: Array<{ name: string; value: TriageAction }> = [
+        { name: 'Acknowledge (accepted risk)', value: 'acknowledge' },
+      ];
+      if (finding.line && supportsInlineSuppression(finding.file)) {
+        choices.push({ name: 'Add a vlayer-ignore comment', value: 'suppress' });
+      }
+      if (fix) choices.push({ name: 'Apply the available fix', value: 'fix' });
+      choices.push(
+        { name: 'Add to baseline', value: 'baseline' },
+        { name: 'Skip', value: 'skip' },
+        { name: 'Skip the rest of this group', value: 'skip-group' },
+        { name: 'Quit', value: 'quit' },
+      );
+
+      let done = false;
+      let skipGroup = false;
+      while (!done) {
+        const { action } = await inquirer.prompt<{ action: TriageAction }>([
+          { type: 'list', name: 'action', message: 'Action:', choices },
+        ]);
+        done = true;
+
+        try {
+          switch (action) {
+            case 'acknowledge': {
+              const { ack, scope } = await promptAcknowledgment(finding, group.length - index, options);
+              await addAcknowledgment(options.acknowledgmentsPath, ack);
+              if (scope !== 'occurrence') acknowledged.add(scope === 'everywhere' ? family : `${family}::${scanned.file}`);
+              summary.acknowledged++;
+              console.log(chalk.green(`✓ Acknowledged in ${options.acknowledgmentsPath}`));
+              if (approvalRule(finding.severity, options.config ?? {})) {
+                console.log(chalk.yellow(`  ${finding.severity} findings stay open until an approver is added to approvedBy`));
+              }
+              break;
+            }
+            case 'suppress': {
+              const { reason } = await inquirer.prompt([{
+                type: 'input',
+                name: 'reason',
+                message: 'Reason:',
+                validate: (input: string) => input.trim().length > 0 || 'A reason is required',
+              }]);
+              const comment = await addSuppressionComment(finding, reason);
+              shifts.record(scanned.file, scanned.line!, 1, true);
+              summary.suppressed++;
+              console.log(chalk.green(`✓ Added ${comment}`));
+              break;
+            }
+            case 'fix': {
+              console.log(chalk.red(fix!.before.split('\n').map(line => `- ${line}`).join('\n')));
+              console.log(chalk.green(fix!.after.split('\n').map(line => `+ ${line}`).join('\n')));
+              const { confirm } = await inquirer.prompt([
+                { type: 'confirm', name: 'confirm', message: 'Apply this fix?', default: true },
+              ]);
+              if (!confirm) {
+                done = false;
+                break;
+              }
+              const applied = await applyFixWithEvidence(finding, options.rootPath);
+              if (!applied.fixed) {
+                console.log(chalk.yellow('The fix no longer applies to this line.'));
+                done = false;
+                break;
+              }
+              shifts.record(
+                scanned.file,
+                scanned.line!,
+                applied.fixedLine.split('\n').length - applied.originalLine.split('\n').length,
+                false
+              );
+              summary.fixed++;
+              console.log(chalk.green('✓ Fixed (recorded in the audit trail)'));
+              break;
+            }
+            case 'baseline': {
+              const added = await addToBaseline(options.baselinePath, [finding]);
+              summary.baselined++;
+              console.log(chalk.green(added > 0 ? `✓ Added to ${options.baselinePath}` : '✓ Already in the baseline'));
+              break;
+            }
+            case 'skip':
+              summary.skipped++;
+              break;
+            case 'skip-group':
+              summary.skipped += group.length - index;
+              seen += group.length - index - 1;
+              skipGroup = true;
+              break;
+            case 'quit':
+              summary.skipped += total - seen + 1;
+              return summary;
+          }
+        } catch (error) {
+          console.log(chalk.red(error instanceof Error ? error.message : String(error)));
+          done = false;
+        }
+
+      }
+
+      if (skipGroup) break;
+    }
+  }
+
+  return summary;
+}
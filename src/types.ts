@@ -1,3 +1,5 @@
+import type { CrosswalkFramework } from './rules/crosswalk.js';
+
 export type Severity = 'critical' | 'high' | 'medium' | 'low' | 'info';
 
 export type ComplianceCategory =
@@ -7,6 +9,13 @@ export type ComplianceCategory =
   | 'access-control'
   | 'data-retention';
 
+/**
+ * Compliance profile a scan runs under (`--profile`). `hipaa` is the default;
+ * the others add the rules of 42 CFR Part 2, California's CMIA or Washington's
+ * My Health My Data Act on top of HIPAA. See `src/profiles.ts`.
+ */
+export type ComplianceProfileId = 'hipaa' | 'part2' | 'cmia' | 'wa-mhmda';
+
 export interface ContextLine {
   lineNumber: number;
   content: string;
@@ -26,7 +35,18 @@ export type FixType =
   | 'phi-url-param'
   | 'phi-log-unredacted'
   | 'cookie-insecure'
-  | 'backup-unencrypted';
+  | 'backup-unencrypted'
+  | PluginFixType
+  | CustomRuleFixType;
+
+/** Fix types contributed by plugins are namespaced as `<namespace>:<fix>`. */
+export type PluginFixType = `${string}:${string}`;
+
+/** Fix types of custom rules with a `fix` block, as `custom-<rule id>`. */
+export type CustomRuleFixType = `custom-${string}`;
+
+/** The fix types vlayer ships strategies for. */
+export type BuiltinFixType = Exclude<FixType, PluginFixType | CustomRuleFixType>;
 
 export type Confidence = 'high' | 'medium' | 'low';
 
@@ -39,6 +59,8 @@ export interface Finding {
   file: string;
   line?: number;
   column?: number;
+  /** Stable identity that survives line shifts, set by `scan()` (see `src/fingerprint.ts`). */
+  fingerprint?: string;
   recommendation: string;
   hipaaReference?: string;
   context?: ContextLine[];
@@ -56,7 +78,9 @@ export interface Finding {
   suppressed?: boolean;
   suppression?: {
     reason: string;
+    /** The directive as written, e.g. `vlayer-ignore-next-line phi-* -- test fixture`. */
     comment: string;
+    expires?: string;
   };
   isBaseline?: boolean;
 }
@@ -127,6 +151,23 @@ export interface InformationalArtifact {
   hipaaReference?: string;
 }
 
+export type DiffScope = 'file' | 'line';
+
+/**
+ * Describes a diff-aware scan (`--since` / `--diff`). Project-level aggregate
+ * findings are skipped in this mode: they describe the whole repository and
+ * cannot be recomputed from a subset of files without misleading the score.
+ */
+export interface DiffScanInfo {
+  /** Git ref the working tree was compared against. */
+  since: string;
+  scope: DiffScope;
+  /** Number of changed files that survived the exclude/ignore filters. */
+  changedFiles: number;
+  /** Project-level findings dropped because they are not attributable to the diff. */
+  skippedAggregateFindings: number;
+}
+
 export interface ScanResult {
   findings: Finding[];
   groupedFindings: GroupedFinding[];
@@ -137,6 +178,55 @@ export interface ScanResult {
   complianceScore?: ComplianceScore;
   /** Generated documentation artifacts (asset inventory, PHI flow map) */
   informationalArtifacts?: InformationalArtifact[];
+  /** Present when the scan was limited to a git diff. */
+  diff?: DiffScanInfo;
+  /** Incremental cache usage; absent when the cache was disabled. */
+  cache?: {
+    hits: number;
+    misses: number;
+  };
+  /** Scanner plugins the scan ran with. */
+  plugins?: PluginInfo[];
+  /** Ids of the scanners that ran. */
+  scanners?: string[];
+  /** Compliance profile the scan ran under; absent for the default `hipaa` profile. */
+  profile?: ProfileInfo;
+  /** Baseline entry counts; present when the scan used a baseline file. */
+  baseline?: BaselineSummary;
+  /** Suppression directives no finding matches; present with `reportUnusedSuppressions`. */
+  unusedSuppressions?: UnusedSuppression[];
+}
+
+export interface UnusedSuppression {
+  file: string;
+  /** Line of the directive. */
+  line: number;
+  rulePattern: string;
+  comment: string;
+}
+
+export interface BaselineSummary {
+  entries: number;
+  /** Entries no finding of this scan matches (`vlayer baseline prune` drops them). */
+  stale: number;
+  /** Entries past their `expiresAt`; their findings are reported again. */
+  expired: number;
+}
+
+export interface ProfileInfo {
+  id: ComplianceProfileId;
+  name: string;
+}
+
+export interface PluginInfo {
+  name: string;
+  version?: string;
+  /** As listed under `plugins` in config. */
+  specifier: string;
+  /** `file:` URL the plugin was imported from. */
+  moduleUrl: string;
+  /** Registry ids of the plugin's scanners. */
+  scanners: string[];
 }
 
 export interface ScanOptions {
@@ -147,6 +237,8 @@ export interface ScanOptions {
   config?: VlayerConfig;
   fix?: boolean;
   baselineFile?: string;
+  /** Acknowledgments file. Default: `.vlayer/acknowledgments.yaml` under `path`. */
+  acknowledgmentsFile?: string;
   minConfidence?: Confidence;
   /** Enable AI-powered triage. The CLI --no-ai flag sets this false. Default: true. */
   enableAI?: boolean;
@@ -155,11 +247,63 @@ export interface ScanOptions {
    * Default false — these are excluded so the scanner never flags its own output.
    */
   includeOwnArtifacts?: boolean;
+  /**
+   * Only scan files changed relative to this git ref (CLI `--since <ref>`;
+   * `--diff` uses HEAD). Untracked files count as changed.
+   */
+  since?: string;
+  /**
+   * With `since`: 'file' keeps every finding in a changed file, 'line' keeps
+   * only findings on added/modified lines. Default 'file'.
+   */
+  diffScope?: DiffScope;
+  /**
+   * Reuse per-file findings from `.vlayer/cache/` for unchanged files. The CLI
+   * `--no-cache` flag sets this false. Default: true.
+   */
+  cache?: boolean;
+  /**
+   * Worker threads to scan batches on (CLI `--jobs N`). 1 scans on the calling
+   * thread. Findings are identical for any value. Default: 1.
+   */
+  jobs?: number;
+  /** Run only these scanner ids (CLI `--scanners`). Overrides defaults and config. */
+  scanners?: string[];
+  /** Never run these scanner ids (CLI `--skip-scanners`). */
+  skipScanners?: string[];
+  /** Compliance profile (CLI `--profile`). Overrides config. Default: `hipaa`. */
+  profile?: ComplianceProfileId;
+  /**
+   * List suppression directives no finding matches (CLI
+   * `--report-unused-suppressions`). Not available for line-scoped diff scans.
+   */
+  reportUnusedSuppressions?: boolean;
 }
 
 export interface Scanner {
+  /**
+   * Stable registry id, used by `--scanners` / `--skip-scanners` and the
+   * `scanners` block of `.vlayerrc.json`.
+   */
+  id: string;
   name: string;
+  /** Category the scanner belongs to; it runs when this category is selected. */
   category: ComplianceCategory;
+  /** Other categories the scanner reports into; selecting any of them also runs it. */
+  additionalCategories?: ComplianceCategory[];
+  /**
+   * File types the scanner inspects: extensions (`.ts`), file names
+   * (`package.json`) or path globs (`skills/**`). Shown by `vlayer scanners list`.
+   */
+  fileTypes: string[];
+  /** Whether the scanner runs without being enabled explicitly. Default true. */
+  defaultEnabled?: boolean;
+  /**
+   * Findings depend on the file set as a whole (inventories, project-level
+   * checks), not on each file alone. Such scanners always receive every file
+   * and are never served from the incremental scan cache.
+   */
+  projectWide?: boolean;
   scan(files: string[], options: ScanOptions): Promise<Finding[]>;
 }
 
@@ -195,14 +339,24 @@ export interface Report {
   vulnerabilities?: DependencyVulnerability[];
   /** Generated documentation artifacts (asset inventory, PHI flow map) */
   informationalArtifacts?: InformationalArtifact[];
+  diff?: DiffScanInfo;
+  plugins?: PluginInfo[];
+  scanners?: string[];
+  profile?: ProfileInfo;
+  baseline?: BaselineSummary;
+  unusedSuppressions?: UnusedSuppression[];
 }
 
 export interface ReportOptions {
-  format: 'json' | 'html' | 'markdown' | 'pdf';
+  format: 'json' | 'html' | 'markdown' | 'pdf' | 'sarif';
   outputPath?: string;
   vulnerabilities?: DependencyVulnerability[];
   scanComparison?: ScanComparison | null;
   branding?: ResolvedBranding;
+  /** Policy gate result, included in JSON reports. */
+  policy?: PolicyEvaluation;
+  /** Regroup findings and scores by this framework's controls (`--framework`). */
+  framework?: CrosswalkFramework;
 }
 
 /**
@@ -243,6 +397,7 @@ export interface ScanComparison {
       low: number;
     };
     failedRuleIds: string[];
+    fingerprints?: Record<string, string>;
     totalFilesScanned: number;
   };
   scoreChange: number;
@@ -268,24 +423,155 @@ export interface DependencyVulnerability {
 export interface AcknowledgedFinding {
   pattern: string;
   id?: string;
+  /** Limits the acknowledgment to one finding, by its stable fingerprint. */
+  fingerprint?: string;
   category?: ComplianceCategory;
   severity?: Severity;
   reason: string;
   acknowledgedBy: string;
   acknowledgedAt: string;
+  /**
+   * Who approved the acknowledgment. Acknowledgments of findings whose
+   * severity needs approval (`acknowledgmentApprovals`) count only once
+   * enough approvers other than `acknowledgedBy` are listed.
+   */
+  approvedBy?: string[];
   expiresAt?: string;
   ticketUrl?: string;
 }
 
+/** Who may approve acknowledgments of findings of one severity, and how many must. */
+export interface AcknowledgmentApprovalRule {
+  /**
+   * `codeowners` for the CODEOWNERS owners of the finding's file, or a list of
+   * names, emails and `@handles`.
+   */
+  approvers: 'codeowners' | string[];
+  /** Approvals needed. Default: 1. */
+  required?: number;
+}
+
+/**
+ * Failure thresholds for a scan. New findings are counted against the
+ * previous scan in history; without history every active finding is new.
+ */
+export interface PolicyConfig {
+  /** Most new critical findings allowed (0 fails on any). */
+  maxNewCritical?: number;
+  maxNewHigh?: number;
+  /** Most active critical findings allowed, new or not. */
+  maxCritical?: number;
+  maxHigh?: number;
+  /** Lowest acceptable compliance score (0-100). */
+  minScore?: number;
+  /** Fail when an unacknowledged finding has been open for more than this many days. */
+  maxUnacknowledgedAgeDays?: number;
+}
+
+export interface PolicyClauseResult {
+  clause: keyof PolicyConfig;
+  description: string;
+  threshold: number;
+  actual: number;
+  passed: boolean;
+  /** Findings behind a failure, as `id at file:line`. */
+  details?: string[];
+}
+
+export interface PolicyEvaluation {
+  passed: boolean;
+  /** Where the policy came from: a policy file or `config`. */
+  source: string;
+  clauses: PolicyClauseResult[];
+}
+
+/** Where tainted PHI ends up: selects the rule a taint flow is reported under. */
+export type TaintSinkKind = 'logger' | 'storage' | 'url' | 'analytics' | 'error-tracker';
+
+export interface TaintSourceConfig {
+  name: string;
+  /**
+   * Regex (case-insensitive) matched against the rendered expression, e.g.
+   * `prisma.patient.findMany()`, `supabase.from('patients')`, `req.body`.
+   */
+  pattern: string;
+  /**
+   * The value only carries PHI in fields named in `phiFields` (request bodies):
+   * `req.body.ssn` is tainted, `req.body.page` is not.
+   */
+  phiFieldsOnly?: boolean;
+}
+
+export interface TaintSinkConfig {
+  name: string;
+  kind: TaintSinkKind;
+  /**
+   * Regex (case-insensitive) matched against the callee of a call
+   * (`logger.info`) or the target of an assignment (`localStorage.patient`).
+   */
+  pattern: string;
+  /** Argument positions that must not receive PHI. Default: every argument. */
+  arguments?: number[];
+}
+
+/**
+ * Helper the `phi-log-unredacted` fix wraps logged values in. With `module`,
+ * TS/JS fixes also import it (`import { redactPHI } from '<module>'`).
+ */
+export interface RedactionHelperConfig {
+  /** Default: `redactPHI`. */
+  name?: string;
+  /** Module specifier to import the helper from, as written in the import. */
+  module?: string;
+}
+
 export interface VlayerConfig {
   exclude?: string[];
   ignorePaths?: string[];
   safeHttpDomains?: string[];
   contextLines?: number;
   categories?: ComplianceCategory[];
+  /** Compliance profile scans run under. The CLI flag `--profile` takes precedence. */
+  profile?: ComplianceProfileId;
+  /**
+   * Enable or disable scanners by registry id, e.g. `{ "skills": false }`.
+   * Scanners not listed keep their default state.
+   */
+  scanners?: Record<string, boolean>;
+  /**
+   * Scanner plugins to load: npm package names or paths relative to the
+   * project root. See `src/plugins/types.ts` for the plugin contract.
+   */
+  plugins?: string[];
+  /**
+   * PHI taint tracking (scanner id `taint`). Configured sources, sinks, PHI
+   * field names and sanitizers are added to the built-in ones unless
+   * `includeDefaults` is false.
+   */
+  taint?: {
+    sources?: TaintSourceConfig[];
+    sinks?: TaintSinkConfig[];
+    phiFields?: string[];
+    /** Regexes matched against a callee; their return value is no longer tainted. */
+    sanitizers?: string[];
+    includeDefaults?: boolean;
+  };
   customRulesPath?: string;
   disableBuiltinRules?: string[];
+  /** @deprecated Acknowledgments live in `.vlayer/acknowledgments.yaml`; still read from here. */
   acknowledgedFindings?: AcknowledgedFinding[];
+  /**
+   * Approvals acknowledgments need before they count, by finding severity.
+   * Default: one CODEOWNERS approval for critical and high findings. `{}`
+   * turns approval off.
+   */
+  acknowledgmentApprovals?: Partial<Record<Severity, AcknowledgmentApprovalRule>>;
+  /** CI gate evaluated by `vlayer scan`; `--policy <file>` takes precedence. */
+  policy?: PolicyConfig;
+  /** Options of `vlayer scan --fix`. */
+  fixes?: {
+    redactionHelper?: RedactionHelperConfig;
+  };
   ai?: {
     enabled?: boolean;
     enableTriage?: boolean;
@@ -337,6 +623,7 @@ export interface AuditEvidence {
   hipaaReference: string;
   fixType: FixType;
   description: string;
+  chain?: AuditChainLink;
 }
 
 export type ManualReviewStatus =
@@ -356,7 +643,57 @@ export interface ManualReviewItem {
   createdAt: string;
   updatedAt: string;
   notes?: string;
+  /** Note recorded when the item was resolved or its risk accepted. */
   resolution?: string;
+  resolvedBy?: string;
+  resolvedAt?: string;
+}
+
+/** Workflow steps of `vlayer review`. */
+export type ManualReviewAction = 'assign' | 'start' | 'resolve' | 'accept-risk';
+
+/** Fields of a manual review that its recorded events vouch for. */
+export type ManualReviewState = Pick<
+  ManualReviewItem,
+  'status' | 'assignedTo' | 'notes' | 'resolution' | 'resolvedBy' | 'resolvedAt'
+>;
+
+/** One change to a manual review, kept in the audit trail's hash chain. */
+export interface ManualReviewEvent {
+  id: string;
+  reviewId: string;
+  /** `open` when the review is created, `auto-resolve` when a scan closes it. */
+  action: 'open' | ManualReviewAction | 'auto-resolve' | 'update';
+  by?: string;
+  timestamp: string;
+  /** Review state after the change. */
+  state: ManualReviewState;
+  /** SHA256 of the reviewed finding, recorded when the review is opened. */
+  findingHash?: string;
+  chain?: AuditChainLink;
+}
+
+/** Position of an audit trail entry in the trail's hash chain. */
+export interface AuditChainLink {
+  /** 1-based, across evidence, rollbacks and review events. */
+  sequence: number;
+  previousHash: string;
+  hash: string;
+  /** Base64 Ed25519 signature of `hash`, when the trail is signed. */
+  signature?: string;
+}
+
+export interface AuditTrailIntegrity {
+  algorithm: 'sha256';
+  /** Number of chained entries. */
+  length: number;
+  /** Hash of the last chained entry. */
+  head: string;
+  /** PEM public key of the Ed25519 key that signs the chain. */
+  publicKey?: string;
+  keyFingerprint?: string;
+  /** Signature of `length|head`, so dropping trailing entries is detected. */
+  headSignature?: string;
 }
 
 export interface AuditTrail {
@@ -372,6 +709,26 @@ export interface AuditTrail {
   evidence: AuditEvidence[];
   manualReviews: ManualReviewItem[];
   reportHash?: string;
+  /** Fixes undone with `vlayer fix rollback`; their evidence is kept. */
+  rollbacks?: AuditRollback[];
+  /** History of the manual reviews, oldest first. */
+  reviewEvents?: ManualReviewEvent[];
+  /** Head of the hash chain, set when the trail is saved. */
+  integrity?: AuditTrailIntegrity;
+}
+
+export interface AuditRollback {
+  id: string;
+  evidenceId: string;
+  timestamp: string;
+  filePath: string;
+  /** 1-based line the fix was applied to. */
+  lineNumber: number;
+  /** File hash before the rollback: the fix's `fileHashAfter`. */
+  fileHashBefore: string;
+  /** File hash after restoring the original lines: the fix's `fileHashBefore`. */
+  fileHashAfter: string;
+  chain?: AuditChainLink;
 }
 
 export interface AuditReportOptions {
@@ -393,6 +750,28 @@ export interface CustomRuleFix {
   };
 }
 
+/**
+ * A condition a custom rule's match must meet, with exactly one of `all`,
+ * `any`, `not`, `pattern` or `same-file-contains`.
+ */
+export interface CustomRuleCondition {
+  all?: CustomRuleCondition[];
+  any?: CustomRuleCondition[];
+  not?: CustomRuleCondition;
+  /** Regex that must match within `within` lines above or below the match. */
+  pattern?: string;
+  /** Lines of look-around for `pattern`. Default: 0, the matched line only. */
+  within?: number;
+  /** Regex that must match anywhere in the file. */
+  'same-file-contains'?: string;
+}
+
+export type CompiledRuleCondition =
+  | { kind: 'all' | 'any'; conditions: CompiledRuleCondition[] }
+  | { kind: 'not'; condition: CompiledRuleCondition }
+  | { kind: 'pattern'; pattern: RegExp; within: number }
+  | { kind: 'same-file-contains'; pattern: RegExp };
+
 export interface CompiledCustomRule {
   id: string;
   name: string;
@@ -406,9 +785,11 @@ export interface CompiledCustomRule {
   recommendation: string;
   hipaaReference?: string;
   mustNotContain?: string;
+  conditions?: CustomRuleCondition;
   fix?: CustomRuleFix;
   compiledPattern: RegExp;
   compiledMustNotContain?: RegExp;
+  compiledConditions?: CompiledRuleCondition;
   // Semantic awareness fields
   confidence?: Confidence;
   contexts?: Array<'code' | 'string' | 'comment' | 'template'>;
@@ -0,0 +1,45 @@
+/**
+ * Parsing and walking TS/JS modules with typescript-estree, shared by the
+ * taint scanner, the fixer and finding fingerprints.
+ */
+
+import { parse, type TSESTree } from '@typescript-eslint/typescript-estree';
+
+type Node = TSESTree.Node;
+
+/** Type-only syntax never carries values. */
+const SKIPPED_KEYS = new Set(['parent', 'loc', 'range', 'typeAnnotation', 'returnType', 'typeParameters', 'typeArguments']);
+
+/** Parse a TS/JS module; undefined when it does not parse. */
+export function parseModule(filePath: string, content: string): TSESTree.Program | undefined {
+  try {
+    return parse(content, {
+      loc: true,
+      range: true,
+      errorOnUnknownASTType: false,
+      jsx: !filePath.endsWith('.ts'),
+    });
+  } catch {
+    return undefined;
+  }
+}
+
+function isNode(value: unknown): value is Node {
+  return typeof value === 'object' && value !== null && typeof (value as { type?: unknown }).type === 'string';
+}
+
+/** Direct child nodes of a node, type annotations left out. */
+export function childNodes(node: Node): Node[] {
+  const children: Node[] = [];
+  for (const [key, value] of Object.entries(node)) {
+    if (SKIPPED_KEYS.has(key)) continue;
+    if (Array.isArray(value)) {
+      for (const item of value) {
+        if (isNode(item)) children.push(item);
+      }
+    } else if (isNode(value)) {
+      children.push(value);
+    }
+  }
+  return children;
+}
@@ -0,0 +1,78 @@
+import { readFile } from 'fs/promises';
+import * as path from 'path';
+import { minimatch } from 'minimatch';
+
+/** Where GitHub looks for the file, in order. */
+const CODEOWNERS_LOCATIONS = ['.github/CODEOWNERS', 'CODEOWNERS', 'docs/CODEOWNERS'];
+
+export interface CodeownersRule {
+  pattern: string;
+  owners: string[];
+}
+
+export interface Codeowners {
+  /** Directory the patterns are relative to. */
+  rootPath: string;
+  /** File the rules were read from; undefined when the project has none. */
+  file?: string;
+  rules: CodeownersRule[];
+}
+
+/**
+ * Parse a CODEOWNERS file: one `<pattern> <owner>...` rule per line, `#`
+ * comments. A rule without owners is kept, so it can unset earlier ones.
+ */
+export function parseCodeowners(content: string): CodeownersRule[] {
+  const rules: CodeownersRule[] = [];
+  for (const raw of content.split('\n')) {
+    const line = raw.replace(/(^|\s)#.*$/, '').trim();
+    if (!line) continue;
+    const [pattern, ...owners] = line.split(/\s+/);
+    rules.push({ pattern, owners });
+  }
+  return rules;
+}
+
+/**
+ * Read the CODEOWNERS file of a project. A project without one has no rules.
+ */
+export async function loadCodeowners(rootPath: string): Promise<Codeowners> {
+  for (const location of CODEOWNERS_LOCATIONS) {
+    try {
+      const file = path.join(rootPath, location);
+      const content = await readFile(file, 'utf-8');
+      return { rootPath, file, rules: parseCodeowners(content) };
+    } catch {
+      // Try the next location
+    }
+  }
+  return { rootPath, rules: [] };
+}
+
+/**
+ * Whether a gitignore-style CODEOWNERS pattern matches a path relative to the
+ * root: patterns with a leading or inner `/` are anchored, others match at any
+ * depth, and a directory pattern covers everything below it.
+ */
+function patternMatches(pattern: string, relativePath: string): boolean {
+  const anchored = pattern.startsWith('/') || pattern.slice(0, -1).includes('/');
+  let glob = pattern.replace(/^\//, '');
+  if (glob.endsWith('/')) glob += '**';
+  if (!anchored) glob = `**/${glob}`;
+  const options = { dot: true };
+  return minimatch(relativePath, glob, options) || minimatch(relativePath, `${glob}/**`, options);
+}
+
+/**
+ * Owners of a file: those of the last matching rule, as in GitHub.
+ */
+export function ownersOf(codeowners: Codeowners, filePath: string): string[] {
+  const relativePath = path.relative(codeowners.rootPath, path.resolve(codeowners.rootPath, filePath))
+    .split(path.sep).join('/');
+  for (let i = codeowners.rules.length - 1; i >= 0; i--) {
+    if (patternMatches(codeowners.rules[i].pattern, relativePath)) {
+      return codeowners.rules[i].owners;
+    }
+  }
+  return [];
+}
@@ -0,0 +1,8 @@
+/**
+ * Whether an expiry has passed. A date without a time (`YYYY-MM-DD`) holds
+ * through the end of that day (UTC); a full timestamp lapses at that instant.
+ */
+export function isPastExpiry(expires: string, now: Date = new Date()): boolean {
+  const end = /^\d{4}-\d{2}-\d{2}$/.test(expires) ? `${expires}T23:59:59.999Z` : expires;
+  return new Date(end) < now;
+}
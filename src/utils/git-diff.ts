@@ -0,0 +1,186 @@
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { realpath } from 'fs/promises';
+import * as path from 'path';
+
+const execFileAsync = promisify(execFile);
+
+/** Lines touched in a changed file, or 'all' for files git does not track yet. */
+export type ChangedLines = Set<number> | 'all';
+
+export interface GitDiff {
+  /** The ref the working tree was compared against. */
+  since: string;
+  /** Changed files keyed by absolute path under the scanned directory. */
+  files: Map<string, ChangedLines>;
+}
+
+async function git(args: string[], cwd: string): Promise<string> {
+  const { stdout } = await execFileAsync('git', args, {
+    cwd,
+    maxBuffer: 50 * 1024 * 1024,
+    timeout: 30000,
+  });
+  return stdout;
+}
+
+/**
+ * Path of a directory inside its git work tree (`git rev-parse --show-prefix`),
+ * with a trailing slash, or '' at the root. Undefined outside a work tree.
+ */
+export async function getGitPrefix(targetPath: string): Promise<string | undefined> {
+  try {
+    return (await git(['rev-parse', '--show-prefix'], path.resolve(targetPath))).trim();
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Who is acting on findings: the git `user.email` of the work tree, else
+ * `$USER`, else ''.
+ */
+export async function getGitIdentity(targetPath: string): Promise<string> {
+  try {
+    const email = (await git(['config', 'user.email'], path.resolve(targetPath))).trim();
+    if (email) return email;
+  } catch {
+    // Not a git repository or no identity configured
+  }
+  return process.env.USER ?? '';
+}
+
+const C_ESCAPES: Record<string, number> = {
+  a: 0x07, b: 0x08, t: 0x09, n: 0x0a, v: 0x0b, f: 0x0c, r: 0x0d, '"': 0x22, '\\': 0x5c,
+};
+
+/**
+ * Undo git's C-style quoting of a path (`"dir/\303\251.ts"`), which it uses
+ * for names with control characters, quotes or, unless `core.quotePath` is
+ * off, non-ASCII bytes. Unquoted paths are returned as they are.
+ */
+function unquoteGitPath(quoted: string): string {
+  if (!quoted.startsWith('"') || !quoted.endsWith('"')) return quoted;
+  const bytes: number[] = [];
+  const body = quoted.slice(1, -1);
+  for (let i = 0; i < body.length; i++) {
+    if (body[i] !== '\\') {
+      bytes.push(...Buffer.from(body[i], 'utf-8'));
+      continue;
+    }
+    const octal = body.slice(i + 1, i + 4);
+    if (/^[0-7]{3}$/.test(octal)) {
+      bytes.push(parseInt(octal, 8));
+      i += 3;
+    } else {
+      bytes.push(C_ESCAPES[body[i + 1]] ?? body.charCodeAt(i + 1));
+      i += 1;
+    }
+  }
+  return Buffer.from(bytes).toString('utf-8');
+}
+
+/**
+ * Parse `git diff -U0` output into added/modified line numbers per file. Paths
+ * are taken from the `+++ b/<path>` header, so renames report the new path.
+ * Pure deletions (`+c,0` hunks) contribute no lines.
+ */
+export function parseUnifiedDiff(diff: string): Map<string, Set<number>> {
+  const files = new Map<string, Set<number>>();
+  let current: Set<number> | undefined;
+
+  for (const line of diff.split('\n')) {
+    if (line.startsWith('+++ ')) {
+      const target = unquoteGitPath(line.slice(4).replace(/\t$/, ''));
+      if (target === '/dev/null') {
+        current = undefined;
+        continue;
+      }
+      const filePath = target.startsWith('b/') ? target.slice(2) : target;
+      current = files.get(filePath) ?? new Set<number>();
+      files.set(filePath, current);
+      continue;
+    }
+
+    const hunk = line.match(/^@@ -\d+(?:,\d+)? \+(\d+)(?:,(\d+))? @@/);
+    if (hunk && current) {
+      const start = parseInt(hunk[1], 10);
+      const count = hunk[2] === undefined ? 1 : parseInt(hunk[2], 10);
+      for (let i = 0; i < count; i++) {
+        current.add(start + i);
+      }
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Resolve the files (and lines) changed on this branch since it left `since`:
+ * the working tree is compared with the merge base of `since` and HEAD, so
+ * commits made on `since` afterwards do not count, while staged, unstaged and
+ * untracked-but-not-ignored files do. Paths outside `targetPath` are dropped.
+ * Throws when `targetPath` is not inside a git work tree, the ref cannot be
+ * resolved or it shares no history with HEAD.
+ */
+export async function getGitDiff(targetPath: string, since: string): Promise<GitDiff> {
+  const scanRoot = path.resolve(targetPath);
+
+  let repoRoot: string;
+  try {
+    repoRoot = (await git(['rev-parse', '--show-toplevel'], scanRoot)).trim();
+    await git(['rev-parse', '--verify', '--quiet', `${since}^{commit}`], scanRoot);
+  } catch {
+    throw new Error(`Cannot diff against "${since}": ${scanRoot} is not a git work tree or the ref does not exist`);
+  }
+
+  let mergeBase: string;
+  try {
+    mergeBase = (await git(['merge-base', since, 'HEAD'], repoRoot)).trim();
+  } catch {
+    throw new Error(`Cannot diff against "${since}": it has no common history with HEAD`);
+  }
+
+  const [diffOutput, untrackedOutput, scanRootReal] = await Promise.all([
+    // Explicit prefixes override diff.noprefix and diff.mnemonicPrefix, so the
+    // `+++ b/<path>` headers are what parseUnifiedDiff expects
+    git(
+      [
+        '-c', 'core.quotePath=false', 'diff', '-U0', '--no-color', '--no-ext-diff', '--diff-filter=ACMR',
+        '--src-prefix=a/', '--dst-prefix=b/', mergeBase, '--',
+      ],
+      repoRoot
+    ),
+    git(['ls-files', '--others', '--exclude-standard', '-z'], repoRoot),
+    realpath(scanRoot),
+  ]);
+
+  // git reports paths relative to the (symlink-resolved) repository root; the
+  // scanner works with paths under the scan root as given, so translate.
+  const toScanPath = (repoRelative: string): string | undefined => {
+    const relativeToScan = path.relative(scanRootReal, path.join(repoRoot, repoRelative));
+    if (relativeToScan.startsWith('..') || path.isAbsolute(relativeToScan)) return undefined;
+    return path.join(scanRoot, relativeToScan);
+  };
+
+  const files = new Map<string, ChangedLines>();
+
+  for (const [file, lines] of parseUnifiedDiff(diffOutput)) {
+    const scanPath = toScanPath(file);
+    if (scanPath) files.set(scanPath, lines);
+  }
+
+  for (const file of untrackedOutput.split('\0').filter(Boolean)) {
+    const scanPath = toScanPath(file);
+    if (scanPath) files.set(scanPath, 'all');
+  }
+
+  return { since, files };
+}
+
+/** Whether a 1-indexed line was touched. Findings without a line count as touched. */
+export function isLineChanged(lines: ChangedLines | undefined, line: number | undefined): boolean {
+  if (!lines) return false;
+  if (lines === 'all' || line === undefined) return true;
+  return lines.has(line);
+}
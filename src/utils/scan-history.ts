@@ -2,6 +2,7 @@ import { readdir, readFile, writeFile, mkdir } from 'fs/promises';
 import { join } from 'path';
 import { existsSync } from 'fs';
 import type { Finding } from '../types.js';
+import { stableRuleId } from '../fingerprint.js';
 
 export interface ScanHistoryEntry {
   timestamp: string;
@@ -13,7 +14,13 @@ export interface ScanHistoryEntry {
     medium: number;
     low: number;
   };
+  /** Rule ids of the active findings, without line suffixes. */
   failedRuleIds: string[];
+  /**
+   * Rule id of each active finding, keyed by fingerprint. Missing from
+   * entries written before fingerprints; those are compared by rule id.
+   */
+  fingerprints?: Record<string, string>;
   totalFilesScanned: number;
 }
 
@@ -88,7 +95,10 @@ export async function saveScanHistory(
       medium: activeFindings.filter(f => f.severity === 'medium').length,
       low: activeFindings.filter(f => f.severity === 'low').length,
     },
-    failedRuleIds: [...new Set(activeFindings.map(f => f.id))],
+    failedRuleIds: [...new Set(activeFindings.map(f => stableRuleId(f)))],
+    fingerprints: Object.fromEntries(
+      activeFindings.flatMap(f => (f.fingerprint ? [[f.fingerprint, stableRuleId(f)]] : []))
+    ),
     totalFilesScanned: scannedFiles,
   };
 
@@ -161,6 +171,20 @@ export async function getAllScans(projectPath: string): Promise<ScanHistoryEntry
   }
 }
 
+/**
+ * Whether a history entry reported a finding: by fingerprint when both have
+ * one, otherwise by rule id (older entries recorded raw finding ids).
+ */
+export function wasReported(
+  finding: Finding,
+  entry: Pick<ScanHistoryEntry, 'failedRuleIds' | 'fingerprints'>
+): boolean {
+  if (entry.fingerprints && finding.fingerprint) {
+    return finding.fingerprint in entry.fingerprints;
+  }
+  return entry.failedRuleIds.includes(stableRuleId(finding)) || entry.failedRuleIds.includes(finding.id);
+}
+
 /**
  * Compare current scan with previous scan
  */
@@ -189,12 +213,22 @@ export function compareScan(
     f => !f.isBaseline && !f.suppressed && !f.acknowledged
   );
 
-  const currentRuleIds = new Set(activeFindings.map(f => f.id));
-  const previousRuleIds = new Set(previousScan.failedRuleIds);
-
-  // Find new and resolved issues
-  const newIssues = [...currentRuleIds].filter(id => !previousRuleIds.has(id));
-  const resolvedIssues = [...previousRuleIds].filter(id => !currentRuleIds.has(id));
+  // Find new and resolved issues, reported by rule id
+  const newIssues = [...new Set(
+    activeFindings.filter(f => !wasReported(f, previousScan)).map(f => stableRuleId(f))
+  )];
+  let resolvedIssues: string[];
+  if (previousScan.fingerprints) {
+    const current = new Set(activeFindings.map(f => f.fingerprint));
+    resolvedIssues = [...new Set(
+      Object.entries(previousScan.fingerprints)
+        .filter(([fingerprint]) => !current.has(fingerprint))
+        .map(([, ruleId]) => ruleId)
+    )];
+  } else {
+    const currentRuleIds = new Set(activeFindings.flatMap(f => [f.id, stableRuleId(f)]));
+    resolvedIssues = previousScan.failedRuleIds.filter(id => !currentRuleIds.has(id));
+  }
 
   // Calculate severity changes
   const currentSeverity = {
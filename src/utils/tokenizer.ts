@@ -0,0 +1,174 @@
+/**
+ * Lightweight comment and string tokenizer for languages without an AST parser
+ * in vlayer (Python, Java, Go, Ruby, PHP). It only separates comments and
+ * string literals from code, which is all semantic context detection needs.
+ */
+
+export type TokenKind = 'comment' | 'string' | 'template';
+
+export interface Token {
+  kind: TokenKind;
+  /** 1-based, inclusive. */
+  startLine: number;
+  endLine: number;
+  text: string;
+}
+
+interface StringSyntax {
+  open: string;
+  close: string;
+  multiline: boolean;
+  escapes: boolean;
+  /** The literal interpolates values when its body matches (Ruby `#{}`, PHP `$var`). */
+  interpolation?: RegExp;
+}
+
+export interface LanguageSyntax {
+  name: string;
+  lineComments: string[];
+  blockComments: Array<[open: string, close: string]>;
+  /** Block comment delimiters only count at the start of a line (Ruby `=begin`/`=end`). */
+  blockCommentsAtLineStart?: boolean;
+  /** Longest opening delimiter first. */
+  strings: StringSyntax[];
+  /** Letters before the opening quote that make a literal a template (Python f-strings). */
+  templatePrefix?: RegExp;
+}
+
+const C_COMMENTS = { lineComments: ['//'], blockComments: [['/*', '*/']] as Array<[string, string]> };
+
+export const LANGUAGE_SYNTAX: Record<string, LanguageSyntax> = {
+  '.py': {
+    name: 'python',
+    lineComments: ['#'],
+    blockComments: [],
+    strings: [
+      { open: '"""', close: '"""', multiline: true, escapes: true },
+      { open: "'''", close: "'''", multiline: true, escapes: true },
+      { open: '"', close: '"', multiline: false, escapes: true },
+      { open: "'", close: "'", multiline: false, escapes: true },
+    ],
+    templatePrefix: /^(?:[fF][rRbB]?|[rRbB][fF])$/,
+  },
+  '.java': {
+    name: 'java',
+    ...C_COMMENTS,
+    strings: [
+      { open: '"""', close: '"""', multiline: true, escapes: true },
+      { open: '"', close: '"', multiline: false, escapes: true },
+      { open: "'", close: "'", multiline: false, escapes: true },
+    ],
+  },
+  '.go': {
+    name: 'go',
+    ...C_COMMENTS,
+    strings: [
+      { open: '`', close: '`', multiline: true, escapes: false },
+      { open: '"', close: '"', multiline: false, escapes: true },
+      { open: "'", close: "'", multiline: false, escapes: true },
+    ],
+  },
+  '.rb': {
+    name: 'ruby',
+    lineComments: ['#'],
+    blockComments: [['=begin', '=end']],
+    blockCommentsAtLineStart: true,
+    strings: [
+      { open: '"', close: '"', multiline: true, escapes: true, interpolation: /#\{/ },
+      { open: "'", close: "'", multiline: true, escapes: true },
+    ],
+  },
+  '.php': {
+    name: 'php',
+    lineComments: ['//', '#'],
+    blockComments: [['/*', '*/']],
+    strings: [
+      { open: '"', close: '"', multiline: true, escapes: true, interpolation: /\$\{?[A-Za-z_]|\{\$/ },
+      { open: "'", close: "'", multiline: true, escapes: true },
+    ],
+  },
+};
+
+/** Syntax for a file by extension, if the tokenizer supports its language. */
+export function languageForFile(filePath: string): LanguageSyntax | undefined {
+  const ext = /\.[^./\\]+$/.exec(filePath)?.[0].toLowerCase();
+  return ext ? LANGUAGE_SYNTAX[ext] : undefined;
+}
+
+function isLineStart(content: string, index: number): boolean {
+  return index === 0 || content[index - 1] === '\n';
+}
+
+/** Split source into its comments and string literals, in order. */
+export function tokenize(content: string, syntax: LanguageSyntax): Token[] {
+  const tokens: Token[] = [];
+  const length = content.length;
+  let line = 1;
+  let i = 0;
+
+  const push = (kind: TokenKind, start: number, end: number): void => {
+    const text = content.slice(start, end);
+    const newlines = text.split('\n').length - 1;
+    tokens.push({ kind, startLine: line, endLine: line + newlines, text });
+    line += newlines;
+    i = end;
+  };
+
+  scan: while (i < length) {
+    const ch = content[i];
+    if (ch === '\n') {
+      line++;
+      i++;
+      continue;
+    }
+
+    for (const [open, close] of syntax.blockComments) {
+      if (!content.startsWith(open, i)) continue;
+      if (syntax.blockCommentsAtLineStart && !isLineStart(content, i)) continue;
+      let end = content.indexOf(syntax.blockCommentsAtLineStart ? `\n${close}` : close, i + open.length);
+      if (end === -1) {
+        end = length;
+      } else {
+        end += (syntax.blockCommentsAtLineStart ? 1 : 0) + close.length;
+      }
+      push('comment', i, end);
+      continue scan;
+    }
+
+    for (const marker of syntax.lineComments) {
+      if (!content.startsWith(marker, i)) continue;
+      const newline = content.indexOf('\n', i);
+      push('comment', i, newline === -1 ? length : newline);
+      continue scan;
+    }
+
+    for (const string of syntax.strings) {
+      if (!content.startsWith(string.open, i)) continue;
+      let j = i + string.open.length;
+      while (j < length) {
+        if (string.escapes && content[j] === '\\') {
+          j += 2;
+          continue;
+        }
+        if (content.startsWith(string.close, j)) {
+          j += string.close.length;
+          break;
+        }
+        if (!string.multiline && content[j] === '\n') break;
+        j++;
+      }
+      const end = Math.min(j, length);
+      const body = content.slice(i + string.open.length, end);
+      const prefix = /[A-Za-z]{1,2}$/.exec(content.slice(Math.max(0, i - 2), i))?.[0];
+      const isTemplate = Boolean(
+        (prefix && syntax.templatePrefix?.test(prefix)) || string.interpolation?.test(body)
+      );
+      push(isTemplate ? 'template' : 'string', i, end);
+      continue scan;
+    }
+
+    i++;
+  }
+
+  return tokens;
+}
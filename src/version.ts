@@ -0,0 +1,22 @@
+import { readFileSync } from 'fs';
+import { fileURLToPath } from 'url';
+import { dirname, resolve } from 'path';
+
+let cachedVersion: string | undefined;
+
+/**
+ * The installed vlayer version, read from the package.json one level above this
+ * module (src/ during development, dist/ once built). Falls back to '0.0.0' when
+ * the manifest cannot be read (e.g. a bundled copy), so callers never throw.
+ */
+export function getToolVersion(): string {
+  if (cachedVersion) return cachedVersion;
+  try {
+    const here = dirname(fileURLToPath(import.meta.url));
+    const pkg = JSON.parse(readFileSync(resolve(here, '..', 'package.json'), 'utf-8')) as { version?: string };
+    cachedVersion = pkg.version ?? '0.0.0';
+  } catch {
+    cachedVersion = '0.0.0';
+  }
+  return cachedVersion;
+}
@@ -1,5 +1,16 @@
-import { describe, it, expect } from 'vitest';
-import { checkAcknowledgment, applyAcknowledgments } from '../src/acknowledgments.js';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  checkAcknowledgment,
+  applyAcknowledgments,
+  addAcknowledgment,
+  loadAcknowledgments,
+  findExpiringAcknowledgments,
+  missingApprovers,
+} from '../src/acknowledgments.js';
+import { parseCodeowners, type Codeowners } from '../src/utils/codeowners.js';
 import type { Finding, VlayerConfig, AcknowledgedFinding } from '../src/types.js';
 
 function makeFinding(overrides: Partial<Finding> = {}): Finding {
@@ -26,8 +37,9 @@ function makeAck(overrides: Partial<AcknowledgedFinding> = {}): AcknowledgedFind
   };
 }
 
+// Approval is covered separately; these configs require none
 function makeConfig(acks: AcknowledgedFinding[]): VlayerConfig {
-  return { acknowledgedFindings: acks };
+  return { acknowledgedFindings: acks, acknowledgmentApprovals: {} };
 }
 
 describe('checkAcknowledgment', () => {
@@ -125,3 +137,102 @@ describe('applyAcknowledgments', () => {
     expect(untouched.acknowledged).toBeUndefined();
   });
 });
+
+describe('acknowledgment approval', () => {
+  const codeowners: Codeowners = {
+    rootPath: '/repo',
+    file: '/repo/.github/CODEOWNERS',
+    rules: parseCodeowners('* @platform\n/src/crypto/ @security-lead alice@example.com\n/docs/\n'),
+  };
+  const finding = makeFinding({ file: '/repo/src/crypto/des.ts' });
+  const config = (ack: Partial<AcknowledgedFinding>, approvals?: VlayerConfig['acknowledgmentApprovals']): VlayerConfig => ({
+    acknowledgedFindings: [makeAck({ pattern: '**/src/crypto/**', ...ack })],
+    acknowledgmentApprovals: approvals,
+  });
+
+  it('requires a CODEOWNERS approval for critical and high findings by default', () => {
+    expect(checkAcknowledgment(finding, config({}), codeowners)).toEqual({ acknowledged: false, unapproved: true });
+    expect(checkAcknowledgment(finding, config({ approvedBy: ['platform'] }), codeowners).acknowledged).toBe(false);
+    expect(checkAcknowledgment(finding, config({ approvedBy: ['security-lead'] }), codeowners).acknowledged).toBe(true);
+    expect(checkAcknowledgment(makeFinding({ file: finding.file, severity: 'medium' }), config({}), codeowners).acknowledged).toBe(true);
+  });
+
+  it('does not count the acknowledger as an approver', () => {
+    const ack = { acknowledgedBy: 'Alice@example.com', approvedBy: ['alice@example.com'] };
+    expect(checkAcknowledgment(finding, config(ack), codeowners).acknowledged).toBe(false);
+  });
+
+  it('uses configured approver lists and counts per severity', () => {
+    const approvals = { critical: { approvers: ['@ciso', 'dpo'], required: 2 } };
+    expect(checkAcknowledgment(finding, config({ approvedBy: ['ciso'] }, approvals)).acknowledged).toBe(false);
+    expect(checkAcknowledgment(finding, config({ approvedBy: ['ciso', 'DPO'] }, approvals)).acknowledged).toBe(true);
+    // High findings need no approval under this config
+    expect(checkAcknowledgment(makeFinding({ file: finding.file, severity: 'high' }), config({}, approvals)).acknowledged).toBe(true);
+  });
+
+  it('leaves unapproved findings open when applying acknowledgments', () => {
+    const [open] = applyAcknowledgments([finding], config({ approvedBy: ['bob'] }), codeowners);
+    expect(open.acknowledged).toBeUndefined();
+  });
+
+  it('explains when no one can approve an acknowledgment', () => {
+    expect(missingApprovers('critical', config({}), codeowners, finding.file)).toBeUndefined();
+    expect(missingApprovers('medium', config({}), { rootPath: '/repo', rules: [] })).toBeUndefined();
+    expect(missingApprovers('high', config({}), { rootPath: '/repo', rules: [] })).toBe(
+      'no CODEOWNERS file, so acknowledgments of high findings can never be approved; ' +
+      'add .github/CODEOWNERS or list approvers under acknowledgmentApprovals.high in the config file'
+    );
+    expect(missingApprovers('critical', config({}), codeowners, '/repo/docs/phi.md')).toBe(
+      'no CODEOWNERS rule covers docs/phi.md, so acknowledgments of its critical findings can never be approved; ' +
+      'add a rule for it to .github/CODEOWNERS or list approvers under acknowledgmentApprovals.critical in the config file'
+    );
+    expect(missingApprovers('critical', config({}, { critical: { approvers: [] } }), codeowners)).toBe(
+      'acknowledgmentApprovals.critical has no approvers, so acknowledgments of critical findings can never be approved'
+    );
+  });
+});
+
+describe('acknowledgments file', () => {
+  let dir = '';
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'vlayer-ack-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('appends acknowledgments and keeps comments', async () => {
+    const filePath = join(dir, '.vlayer', 'acknowledgments.yaml');
+    expect(await loadAcknowledgments(filePath)).toEqual([]);
+
+    await addAcknowledgment(filePath, makeAck());
+    const content = await readFile(filePath, 'utf-8');
+    await writeFile(filePath, `# Reviewed quarterly\n${content}`);
+    await addAcknowledgment(filePath, makeAck({ id: 'enc-rc4', approvedBy: ['security-lead'] }));
+
+    expect(await readFile(filePath, 'utf-8')).toMatch(/^# Reviewed quarterly\n/);
+    expect((await loadAcknowledgments(filePath)).map(a => [a.id, a.approvedBy])).toEqual([
+      [undefined, undefined],
+      ['enc-rc4', ['security-lead']],
+    ]);
+  });
+
+  it('rejects invalid entries', async () => {
+    const filePath = join(dir, 'acknowledgments.yaml');
+    await writeFile(filePath, 'acknowledgments:\n  - pattern: "**"\n    reason: r\n    acknowledgedBy: dev\n    acknowledgedAt: 2026-01-01\n    approvedBy: lead\n');
+    await expect(loadAcknowledgments(filePath)).rejects.toThrow(/acknowledgments\[0\]: 'approvedBy' must be a list/);
+  });
+
+  it('finds acknowledgments expiring within a period', () => {
+    const acks = [
+      makeAck({ id: 'later', expiresAt: '2026-12-01' }),
+      makeAck({ id: 'soon', expiresAt: '2026-06-10' }),
+      makeAck({ id: 'never' }),
+      makeAck({ id: 'lapsed', expiresAt: '2026-05-01' }),
+    ];
+    const ids = findExpiringAcknowledgments(acks, new Date('2026-06-15T00:00:00Z')).map(a => a.id);
+    expect(ids).toEqual(['lapsed', 'soon']);
+  });
+});
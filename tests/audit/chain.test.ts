@@ -0,0 +1,176 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import {
+  addEvidence,
+  addManualReviews,
+  applyManualReviewAction,
+  createAuditTrail,
+  finalizeAuditTrail,
+  loadAuditTrail,
+  saveAuditTrail,
+} from '../../src/audit/index.js';
+import { generateSigningKey, sealAuditTrail, verifyAuditTrail } from '../../src/audit/chain.js';
+import { applyFixes } from '../../src/fixer/index.js';
+import type { AuditEvidence, AuditTrail, Finding } from '../../src/types.js';
+
+function evidence(id: string): AuditEvidence {
+  const snapshot = { content: 'console.log(patient);', context: [], lineNumber: 3 };
+  return {
+    id,
+    findingId: 'phi-console-log',
+    timestamp: '2020-01-01T00:00:00.000Z',
+    filePath: '/repo/src/app.ts',
+    before: snapshot,
+    after: { ...snapshot, content: '// console.log(patient);' },
+    fileHashBefore: 'a'.repeat(64),
+    fileHashAfter: 'b'.repeat(64),
+    hipaaReference: '164.312(b)',
+    fixType: 'phi-console-log',
+    description: 'Auto-fixed: PHI in console output',
+  };
+}
+
+const finding = {
+  id: 'HIPAA-ENC-001',
+  category: 'encryption',
+  severity: 'critical',
+  title: 'Unencrypted PHI',
+  description: '',
+  file: '/repo/src/db.ts',
+  line: 1,
+  recommendation: '',
+} as Finding;
+
+function sealedTrail(): AuditTrail {
+  const trail = createAuditTrail('/repo');
+  addEvidence(trail, evidence('ev-1'));
+  addEvidence(trail, evidence('ev-2'));
+  addManualReviews(trail, [finding]);
+  applyManualReviewAction(trail, trail.manualReviews[0].id, 'assign', { assignee: 'alice' });
+  finalizeAuditTrail(trail);
+  sealAuditTrail(trail);
+  // Round-trip through JSON like a saved trail
+  return JSON.parse(JSON.stringify(trail)) as AuditTrail;
+}
+
+describe('Audit trail hash chain', () => {
+  let dir = '';
+  const savedKeyPath = process.env.VLAYER_SIGNING_KEY;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'vlayer-chain-'));
+  });
+
+  afterEach(async () => {
+    if (savedKeyPath === undefined) delete process.env.VLAYER_SIGNING_KEY;
+    else process.env.VLAYER_SIGNING_KEY = savedKeyPath;
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('links evidence and review updates and verifies an untouched trail', () => {
+    const trail = sealedTrail();
+
+    expect(trail.evidence[1].chain!.previousHash).toBe(trail.evidence[0].chain!.hash);
+    expect(trail.reviewEvents!.map(e => e.action)).toEqual(['open', 'assign']);
+    expect(verifyAuditTrail(trail)).toMatchObject({ status: 'valid', entries: 4, signed: false });
+  });
+
+  it('reports the first entry that was edited', () => {
+    const trail = sealedTrail();
+    trail.evidence[1].after.content = 'console.log(patient);';
+
+    expect(verifyAuditTrail(trail)).toMatchObject({
+      status: 'broken',
+      error: { sequence: 2, kind: 'evidence', id: 'ev-2', message: 'entry was modified after it was recorded' },
+    });
+
+    // Deleting an entry leaves a gap in the sequence
+    const gap = sealedTrail();
+    gap.evidence.splice(0, 1);
+    expect(verifyAuditTrail(gap).error).toMatchObject({ sequence: 1, message: 'entry #1 is missing from the chain' });
+  });
+
+  it('detects review changes outside the workflow and dropped entries', () => {
+    const edited = sealedTrail();
+    edited.manualReviews[0].status = 'accepted_risk';
+    expect(verifyAuditTrail(edited).error!.message).toMatch(/does not match its recorded history/);
+
+    const truncated = sealedTrail();
+    truncated.reviewEvents!.pop();
+    expect(verifyAuditTrail(truncated).error!.message).toBe(
+      'chain has 3 entries but its head records 4; entries were removed'
+    );
+
+    const legacy = sealedTrail();
+    delete legacy.integrity;
+    expect(verifyAuditTrail(legacy).status).toBe('unchained');
+  });
+
+  it('signs new entries with the local key and checks the pinned public key', async () => {
+    const key = await generateSigningKey(join(dir, 'keys', 'signing.pem'));
+    process.env.VLAYER_SIGNING_KEY = key.privateKeyPath;
+
+    const trail = createAuditTrail(dir);
+    addEvidence(trail, evidence('ev-1'));
+    await saveAuditTrail(trail, dir);
+    const saved = (await loadAuditTrail(dir))!;
+    addEvidence(saved, evidence('ev-2'));
+    await saveAuditTrail(saved, dir);
+
+    const loaded = (await loadAuditTrail(dir))!;
+    const publicKey = await readFile(key.publicKeyPath, 'utf-8');
+    expect(verifyAuditTrail(loaded, { publicKey })).toMatchObject({
+      status: 'valid',
+      entries: 2,
+      signed: true,
+      keyFingerprint: key.fingerprint,
+    });
+
+    const other = await generateSigningKey(join(dir, 'keys', 'other.pem'));
+    expect(verifyAuditTrail(loaded, { publicKey: await readFile(other.publicKeyPath, 'utf-8') }).error!.message)
+      .toMatch(/signed with a different key/);
+
+    // A forger without the key can recompute hashes but not signatures
+    loaded.evidence[1].chain!.signature = loaded.evidence[0].chain!.signature;
+    expect(verifyAuditTrail(loaded, { publicKey }).error).toMatchObject({ sequence: 2, message: 'invalid signature' });
+  });
+
+  it('refuses to add entries to a signed trail without its key', async () => {
+    const key = await generateSigningKey(join(dir, 'keys', 'signing.pem'));
+    process.env.VLAYER_SIGNING_KEY = key.privateKeyPath;
+    const trail = createAuditTrail(dir);
+    addEvidence(trail, evidence('ev-1'));
+    await saveAuditTrail(trail, dir);
+
+    const other = await generateSigningKey(join(dir, 'keys', 'other.pem'));
+    process.env.VLAYER_SIGNING_KEY = other.privateKeyPath;
+    const saved = (await loadAuditTrail(dir))!;
+    addEvidence(saved, evidence('ev-2'));
+    await expect(saveAuditTrail(saved, dir)).rejects.toThrow(
+      `Audit trail is signed with key ${key.fingerprint.slice(0, 16)}, which is not the signing key at ${other.privateKeyPath}`
+    );
+    expect(() => sealAuditTrail(saved)).toThrow(/new entries can only be added with that signing key/);
+
+    const loaded = (await loadAuditTrail(dir))!;
+    expect(loaded.evidence).toHaveLength(1);
+    expect(verifyAuditTrail(loaded).status).toBe('valid');
+  });
+
+  it('appends each fix run to the same signed chain', async () => {
+    const key = await generateSigningKey(join(dir, 'keys', 'signing.pem'));
+    process.env.VLAYER_SIGNING_KEY = key.privateKeyPath;
+    const file = join(dir, 'api.ts');
+    await writeFile(file, 'const a = "http://a.example.com";\nconst b = "http://b.example.com";\n');
+
+    const first = await applyFixes([{ id: 'HTTP-1', file, line: 1, fixType: 'http-url' } as Finding], dir);
+    await applyFixes([{ id: 'HTTP-2', file, line: 2, fixType: 'http-url' } as Finding], dir);
+
+    const trail = (await loadAuditTrail(dir))!;
+    expect(trail.id).toBe(first.auditTrail.id);
+    expect(trail.evidence.map(e => e.findingId)).toEqual(['HTTP-1', 'HTTP-2']);
+    expect(verifyAuditTrail(trail, { publicKey: await readFile(key.publicKeyPath, 'utf-8') }))
+      .toMatchObject({ status: 'valid', entries: 2, signed: true });
+  });
+});
@@ -0,0 +1,147 @@
+import { describe, it, expect } from 'vitest';
+import {
+  addManualReviews,
+  applyManualReviewAction,
+  createAuditTrail,
+  findManualReview,
+  getAuditSummary,
+  isManualReviewOverdue,
+  reconcileManualReviews,
+} from '../../src/audit/index.js';
+import type { AuditTrail, Finding } from '../../src/types.js';
+
+function finding(overrides: Partial<Finding>): Finding {
+  return {
+    id: 'HIPAA-ENC-001',
+    category: 'encryption',
+    severity: 'critical',
+    title: 'Unencrypted PHI',
+    description: '',
+    file: '/repo/src/db.ts',
+    line: 1,
+    recommendation: '',
+    ...overrides,
+  };
+}
+
+function trailWith(findings: Finding[]): AuditTrail {
+  const trail = createAuditTrail('/repo');
+  addManualReviews(trail, findings);
+  return trail;
+}
+
+describe('Manual review workflow', () => {
+  it('assigns, starts and resolves an item with a note', () => {
+    const trail = trailWith([finding({})]);
+    const id = trail.manualReviews[0].id;
+    const now = new Date('2026-10-20T12:00:00Z');
+
+    expect(applyManualReviewAction(trail, id.slice(0, 8), 'assign', { assignee: 'alice' }).status).toBe('assigned');
+    expect(applyManualReviewAction(trail, id, 'start', { by: 'bob' })).toMatchObject({
+      status: 'in_progress',
+      assignedTo: 'alice',
+    });
+    expect(() => applyManualReviewAction(trail, id, 'resolve', { note: '  ' }))
+      .toThrow('A resolution note is required to resolve a review');
+
+    const resolved = applyManualReviewAction(trail, id, 'resolve', { note: 'Encrypted the column', by: 'alice', now });
+    expect(resolved).toMatchObject({
+      status: 'resolved',
+      resolution: 'Encrypted the column',
+      resolvedBy: 'alice',
+      resolvedAt: '2026-10-20T12:00:00.000Z',
+      updatedAt: '2026-10-20T12:00:00.000Z',
+    });
+    expect(() => applyManualReviewAction(trail, id, 'accept-risk', { note: 'n/a' }))
+      .toThrow(/is already closed \(resolved\)/);
+  });
+
+  it('requires a note to accept a risk', () => {
+    const trail = trailWith([finding({})]);
+    const id = trail.manualReviews[0].id;
+
+    expect(() => applyManualReviewAction(trail, id, 'accept-risk')).toThrow('A note explaining the accepted risk is required');
+    expect(applyManualReviewAction(trail, id, 'accept-risk', { note: 'Test fixture' }).status).toBe('accepted_risk');
+  });
+
+  it('flags open items past their deadline', () => {
+    const trail = trailWith([finding({}), finding({ id: 'HIPAA-LOG-002', severity: 'low' })]);
+    const [critical, low] = trail.manualReviews;
+    const inTenDays = new Date(Date.now() + 10 * 24 * 60 * 60 * 1000);
+
+    // Critical items are due within a week, low ones within two months
+    expect(isManualReviewOverdue(critical, inTenDays)).toBe(true);
+    expect(isManualReviewOverdue(low, inTenDays)).toBe(false);
+
+    applyManualReviewAction(trail, critical.id, 'start');
+    expect(isManualReviewOverdue(critical, inTenDays)).toBe(true);
+    applyManualReviewAction(trail, critical.id, 'accept-risk', { note: 'Accepted' });
+    expect(isManualReviewOverdue(critical, inTenDays)).toBe(false);
+  });
+
+  it('auto-resolves items whose finding the latest scan no longer reports', () => {
+    const trail = trailWith([
+      finding({}),
+      finding({ id: 'HIPAA-AUTH-003', file: '/repo/src/auth.ts', line: 9 }),
+      finding({ id: 'HIPAA-LOG-002', file: '/repo/src/log.ts' }),
+    ]);
+    applyManualReviewAction(trail, trail.manualReviews[2].id, 'accept-risk', { note: 'Accepted' });
+
+    // Still reported in the same file (on another line): stays open
+    const resolved = reconcileManualReviews(trail, [finding({ line: 40 })]);
+
+    expect(resolved.map(r => r.finding.id)).toEqual(['HIPAA-AUTH-003']);
+    expect(resolved[0]).toMatchObject({
+      status: 'resolved',
+      resolution: 'Finding no longer reported by the latest scan',
+      resolvedBy: 'vlayer',
+    });
+    expect(trail.manualReviews.map(r => r.status)).toEqual(['pending_review', 'resolved', 'accepted_risk']);
+    expect(getAuditSummary(trail).reviewsByStatus).toEqual({ pending_review: 1, resolved: 1, accepted_risk: 1 });
+  });
+
+  it('keeps items open when their finding moves to another line', () => {
+    const trail = trailWith([
+      finding({ id: 'phi-ssn-hardcoded-10', line: 10, fingerprint: 'aaaaaaaaaaaaaaaa' }),
+      finding({ id: 'phi-mrn-hardcoded-12', line: 12, fingerprint: 'bbbbbbbbbbbbbbbb' }),
+      // Recorded before fingerprints
+      finding({ id: 'phi-dob-hardcoded-14', line: 14 }),
+    ]);
+
+    const resolved = reconcileManualReviews(trail, [
+      finding({ id: 'phi-ssn-hardcoded-11', line: 11, fingerprint: 'aaaaaaaaaaaaaaaa' }),
+      finding({ id: 'phi-mrn-hardcoded-13', line: 13, fingerprint: 'cccccccccccccccc' }),
+      finding({ id: 'phi-dob-hardcoded-15', line: 15, fingerprint: 'dddddddddddddddd' }),
+    ]);
+
+    expect(resolved.map(r => r.finding.id)).toEqual(['phi-mrn-hardcoded-12']);
+  });
+
+  it('adds items only for findings that have none yet', () => {
+    const trail = trailWith([
+      finding({ id: 'phi-ssn-hardcoded-10', line: 10, fingerprint: 'aaaaaaaaaaaaaaaa' }),
+      finding({ id: 'HIPAA-ENC-001' }),
+    ]);
+    const [ssn] = trail.manualReviews;
+    applyManualReviewAction(trail, ssn.id, 'accept-risk', { note: 'Test fixture', by: 'alice' });
+
+    addManualReviews(trail, [
+      finding({ id: 'phi-ssn-hardcoded-11', line: 11, fingerprint: 'aaaaaaaaaaaaaaaa' }),
+      finding({ id: 'HIPAA-ENC-001', fingerprint: 'bbbbbbbbbbbbbbbb' }),
+      finding({ id: 'HIPAA-AUTH-003', fingerprint: 'cccccccccccccccc' }),
+    ]);
+
+    expect(trail.manualReviews.map(r => r.finding.id)).toEqual(['phi-ssn-hardcoded-10', 'HIPAA-ENC-001', 'HIPAA-AUTH-003']);
+    expect(trail.manualReviews[0]).toMatchObject({ status: 'accepted_risk', resolution: 'Test fixture' });
+  });
+
+  it('looks items up by unambiguous id prefix', () => {
+    const trail = trailWith([finding({}), finding({ id: 'HIPAA-LOG-002' })]);
+    trail.manualReviews[0].id = 'abc-1';
+    trail.manualReviews[1].id = 'abd-2';
+
+    expect(findManualReview(trail, 'abc').id).toBe('abc-1');
+    expect(() => findManualReview(trail, 'ab')).toThrow('Review id ab is ambiguous (2 matches); use more characters');
+    expect(() => findManualReview(trail, 'zzz')).toThrow('No manual review with id zzz in the audit trail');
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  addToBaseline,
+  applyBaseline,
+  createBaselineEntry,
+  isBaselineEntryExpired,
+  loadBaseline,
+  pruneBaseline,
+  summarizeBaseline,
+  type Baseline,
+} from '../src/baseline.js';
+import type { Finding } from '../src/types.js';
+
+function finding(overrides: Partial<Finding>): Finding {
+  return {
+    id: 'HIPAA-ENC-001',
+    category: 'encryption',
+    severity: 'high',
+    title: 'Weak cipher',
+    description: 'DES in use',
+    file: '/repo/src/crypto.ts',
+    line: 4,
+    recommendation: 'Use AES-256-GCM',
+    ...overrides,
+  };
+}
+
+const now = new Date('2026-06-01T00:00:00Z');
+const fixed = finding({ fingerprint: 'aaaaaaaaaaaaaaaa' });
+const current = finding({ fingerprint: 'bbbbbbbbbbbbbbbb', line: 9 });
+const other = finding({ fingerprint: 'cccccccccccccccc', category: 'audit-logging', id: 'AUDIT-001' });
+
+function baselineOf(...entries: Baseline['findings']): Baseline {
+  return { version: '2.0', createdAt: '2026-01-01T00:00:00Z', findings: entries };
+}
+
+describe('Baseline maintenance', () => {
+  let dir = '';
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'vlayer-baseline-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('reports findings of expired entries again', () => {
+    const baseline = baselineOf(
+      { ...createBaselineEntry(current), expiresAt: '2026-05-01' },
+      createBaselineEntry(other),
+    );
+    const [resurfaced, accepted] = applyBaseline([current, other], baseline, now);
+    expect(resurfaced.isBaseline).toBeUndefined();
+    expect(accepted.isBaseline).toBe(true);
+  });
+
+  it('keeps date-only expiries until the end of that day', () => {
+    const entry = { ...createBaselineEntry(current), expiresAt: '2026-06-01' };
+    expect(isBaselineEntryExpired(entry, new Date('2026-06-01T23:59:00Z'))).toBe(false);
+    expect(isBaselineEntryExpired(entry, new Date('2026-06-02T00:00:00Z'))).toBe(true);
+    expect(isBaselineEntryExpired({ ...entry, expiresAt: '2026-06-01T12:00:00Z' }, new Date('2026-06-01T13:00:00Z'))).toBe(true);
+  });
+
+  it('counts stale and expired entries within the scanned scope', () => {
+    const baseline = baselineOf(
+      createBaselineEntry(fixed),
+      { ...createBaselineEntry(current), expiresAt: '2026-05-01' },
+      createBaselineEntry(other),
+    );
+    expect(summarizeBaseline(baseline, [current], undefined, now)).toEqual({ entries: 3, stale: 2, expired: 1 });
+    expect(summarizeBaseline(baseline, [current], entry => entry.category === 'encryption', now))
+      .toEqual({ entries: 3, stale: 1, expired: 1 });
+  });
+
+  it('prunes stale entries, and expired ones on request', () => {
+    const baseline = baselineOf(
+      createBaselineEntry(fixed),
+      { ...createBaselineEntry(current), expiresAt: '2026-05-01' },
+      createBaselineEntry(other),
+    );
+
+    const stale = pruneBaseline(baseline, [current, other], { now });
+    expect(stale.removed.map(e => e.fingerprint)).toEqual(['aaaaaaaaaaaaaaaa']);
+    expect(stale.baseline.findings).toHaveLength(2);
+
+    const withExpired = pruneBaseline(baseline, [current, other], { expired: true, now });
+    expect(withExpired.baseline.findings.map(e => e.fingerprint)).toEqual(['cccccccccccccccc']);
+  });
+
+  it('adds only new findings and records the reason', async () => {
+    const baselinePath = join(dir, '.vlayer-baseline.json');
+    expect(await addToBaseline(baselinePath, [current])).toBe(1);
+    expect(await addToBaseline(baselinePath, [current, other], { reason: 'Audit rework in Q3', expiresAt: '2026-09-30' })).toBe(1);
+
+    const entries = (await loadBaseline(baselinePath))!.findings;
+    expect(entries[0].reason).toBeUndefined();
+    expect(entries[1]).toMatchObject({ fingerprint: 'cccccccccccccccc', reason: 'Audit rework in Q3', expiresAt: '2026-09-30' });
+    expect(entries[1].addedAt).toBeDefined();
+  });
+});
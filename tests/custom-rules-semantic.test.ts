@@ -222,6 +222,45 @@ const hash = crypto.createHash('md5');
     });
   });
 
+  describe('Context filter', () => {
+    it('should only report matches in the contexts a rule lists, in Python too', async () => {
+      const rulesFile = await createTestFile('rules-contexts.yaml', `
+version: "1.0"
+rules:
+  - id: raw-patient-query
+    name: Raw patient query
+    description: Raw SQL against the patients table
+    category: access-control
+    severity: high
+    pattern: "execute\\\\("
+    recommendation: Use the ORM
+    contexts:
+      - code
+      `);
+
+      const configFile = await createTestFile('.vlayerrc-contexts.json', `{
+  "customRulesPath": "${rulesFile}"
+}`);
+
+      await createTestFile('views.py', `
+# Never call cursor.execute( with user input
+docs = "cursor.execute(query) is unsafe"
+cursor.execute(query)
+      `);
+
+      const result = await scan({
+        path: TEST_DIR,
+        configFile: configFile,
+        enableAI: false,
+      });
+
+      const lines = result.findings
+        .filter(f => f.id.includes('raw-patient-query') && f.file.endsWith('views.py'))
+        .map(f => f.line);
+      expect(lines).toEqual([4]);
+    });
+  });
+
   // Cleanup
   afterAll(async () => {
     try {
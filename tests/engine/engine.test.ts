@@ -0,0 +1,93 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtemp, writeFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { WorkerPool } from '../../src/engine/pool.js';
+import { preloadSourceFiles, readSourceFile, releaseSourceFiles } from '../../src/engine/source-files.js';
+import { createScanEngine } from '../../src/engine/index.js';
+import { scan } from '../../src/scan.js';
+import type { Finding } from '../../src/types.js';
+
+// Keep the integration scan deterministic + offline (no AI triage network calls).
+beforeAll(() => {
+  delete process.env.ANTHROPIC_API_KEY;
+  delete process.env.VLAYER_AI_KEY;
+});
+
+const dirs: string[] = [];
+async function tempDir(): Promise<string> {
+  const d = await mkdtemp(join(tmpdir(), 'vlayer-engine-'));
+  dirs.push(d);
+  return d;
+}
+afterAll(async () => {
+  await Promise.all(dirs.map(d => rm(d, { recursive: true, force: true })));
+});
+
+const ECHO_WORKER = new URL('./fixtures/echo-worker.mjs', import.meta.url);
+
+function sequence(findings: Finding[]): string[] {
+  return findings.map(f => `${f.id}|${f.file}|${f.line}`);
+}
+
+describe('WorkerPool', () => {
+  it('resolves each task with its own result even when later tasks finish first', async () => {
+    const pool = new WorkerPool<number, number>(ECHO_WORKER, 2, { offset: 1 });
+    try {
+      const results = await Promise.all([0, 1, 2, 3, 4].map(n => pool.run(n)));
+      expect(results).toEqual([1, 3, 5, 7, 9]);
+    } finally {
+      await pool.close();
+    }
+  });
+
+  it('rejects a failed task without affecting the others', async () => {
+    const pool = new WorkerPool<number, number>(ECHO_WORKER, 1);
+    try {
+      const [bad, good] = await Promise.allSettled([pool.run(-1), pool.run(3)]);
+      expect(bad.status).toBe('rejected');
+      expect((bad as PromiseRejectedResult).reason.message).toBe('negative input -1');
+      expect(good).toEqual({ status: 'fulfilled', value: 6 });
+    } finally {
+      await pool.close();
+    }
+  });
+});
+
+describe('source file store', () => {
+  it('serves preloaded content and falls back to disk otherwise', async () => {
+    const dir = await tempDir();
+    const file = join(dir, 'a.ts');
+    await writeFile(file, 'on disk\n');
+
+    preloadSourceFiles([[file, 'line one\nline two']]);
+    const first = await readSourceFile(file);
+    expect(first.lines).toEqual(['line one', 'line two']);
+    // Every scanner gets the same split
+    expect(await readSourceFile(file)).toBe(first);
+
+    releaseSourceFiles();
+    expect((await readSourceFile(file)).content).toBe('on disk\n');
+  });
+});
+
+describe('scan engine', () => {
+  it('runs in-process when no compiled worker is available', () => {
+    const engine = createScanEngine({ options: { path: '.' }, scannerIds: [], customRules: [] }, 4);
+    expect(engine.workers).toBe(0);
+  });
+
+  it('produces the same findings in the same order for cold and warm cache runs', async () => {
+    const dir = await tempDir();
+    await writeFile(join(dir, 'a.ts'), 'console.log(patient.ssn);\nconst h = crypto.createHash("md5");\n');
+    await writeFile(join(dir, 'b.ts'), 'const url = "http://api.partner.io/records";\n');
+    await writeFile(join(dir, 'c.ts'), 'const password = "hunter2hunter2";\n');
+
+    const cold = await scan({ path: dir, enableAI: false, cache: false });
+    await scan({ path: dir, enableAI: false });
+    const warm = await scan({ path: dir, enableAI: false, jobs: 2 });
+
+    expect(warm.cache?.hits).toBe(3);
+    expect(sequence(warm.findings)).toEqual(sequence(cold.findings));
+  });
+});
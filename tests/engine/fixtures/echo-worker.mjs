@@ -0,0 +1,13 @@
+// Test worker for WorkerPool: doubles a number after a delay that shrinks as
+// the input grows, so later tasks finish first. Rejects on negative input.
+import { parentPort, workerData } from 'worker_threads';
+
+parentPort.on('message', ({ id, task }) => {
+  if (task < 0) {
+    parentPort.postMessage({ id, error: { message: `negative input ${task}` } });
+    return;
+  }
+  setTimeout(() => {
+    parentPort.postMessage({ id, result: task * 2 + (workerData?.offset ?? 0) });
+  }, Math.max(0, 40 - task * 10));
+});
@@ -0,0 +1,134 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdir, mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { createPrivateKey } from 'crypto';
+import { exportEvidenceBundle, verifyEvidenceBundle } from '../src/evidence-bundle.js';
+import { addManualReviews, createAuditTrail, saveAuditTrail } from '../src/audit/index.js';
+import { generateSigningKey } from '../src/audit/chain.js';
+import { createZip, readZip } from '../src/utils/zip.js';
+import type { Finding, ScanResult } from '../src/types.js';
+
+const finding = {
+  id: 'phi-1',
+  category: 'phi-exposure',
+  severity: 'high',
+  title: 'PHI written to console',
+  description: 'Patient SSN logged',
+  file: 'src/patient.ts',
+  line: 42,
+  recommendation: 'Redact PHI before logging',
+} as Finding;
+
+const result: ScanResult = {
+  findings: [finding],
+  groupedFindings: [],
+  rawFindingsCount: 1,
+  scannedFiles: 3,
+  scanDuration: 120,
+  complianceScore: {
+    score: 78,
+    grade: 'C',
+    status: 'fair',
+    breakdown: { total: 1, critical: 0, high: 1, medium: 0, low: 0, acknowledged: 0 },
+    penalties: { critical: 0, high: 22, medium: 0, low: 0, total: 22 },
+    recommendations: ['Fix high-severity findings'],
+  },
+};
+
+describe('Evidence bundles', () => {
+  let dir = '';
+  let project = '';
+  let training = '';
+  const savedKeyPath = process.env.VLAYER_SIGNING_KEY;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'vlayer-evidence-'));
+    project = join(dir, 'clinic-api');
+    training = join(dir, 'training');
+    await mkdir(project);
+    await mkdir(training);
+    await writeFile(join(project, '.vlayer-baseline.json'), '{"version":"1.0","findings":[]}\n');
+    await writeFile(join(project, '.vlayerrc.json'), '{"acknowledgedFindings":[]}\n');
+    await writeFile(join(training, 'Ana-2026-10-01.json'), '{"name":"Ana","percentage":90}\n');
+  });
+
+  afterEach(async () => {
+    if (savedKeyPath === undefined) delete process.env.VLAYER_SIGNING_KEY;
+    else process.env.VLAYER_SIGNING_KEY = savedKeyPath;
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('round-trips entries through a ZIP archive', () => {
+    const entries = [
+      { name: 'a.txt', data: Buffer.from('x'.repeat(1000)) },
+      { name: 'nested/b.json', data: Buffer.from('{}') },
+    ];
+    expect(readZip(createZip(entries)).map(e => [e.name, e.data.toString()])).toEqual(
+      entries.map(e => [e.name, e.data.toString()])
+    );
+    expect(() => readZip(Buffer.from('not a zip'))).toThrow('Not a ZIP archive');
+  });
+
+  it('bundles the evidence with a manifest and verifies it offline', async () => {
+    const bundle = join(dir, 'bundle.zip');
+    const { manifest } = await exportEvidenceBundle(result, project, bundle, { trainingDir: training });
+
+    expect(manifest.files.map(f => [f.path, f.kind])).toEqual([
+      ['reports/compliance-report.html', 'compliance-report'],
+      ['baseline/.vlayer-baseline.json', 'baseline'],
+      ['acknowledgments/.vlayerrc.json', 'acknowledgments'],
+      ['training/Ana-2026-10-01.json', 'training-certificate'],
+    ]);
+    expect(manifest.scans.report).toMatchObject({ durationMs: 120, scannedFiles: 3, findings: 1 });
+    expect(manifest.ruleCatalog.rules).toBeGreaterThan(0);
+
+    const verification = await verifyEvidenceBundle(bundle);
+    expect(verification).toMatchObject({ valid: true, signature: 'unsigned' });
+    expect(verification.files.every(f => f.status === 'ok')).toBe(true);
+  });
+
+  it('reports modified, missing and unlisted files', async () => {
+    const bundle = join(dir, 'bundle.zip');
+    await exportEvidenceBundle(result, project, bundle, { includeTraining: false });
+
+    const entries = readZip(await readFile(bundle))
+      .filter(e => e.name !== 'acknowledgments/.vlayerrc.json')
+      .map(e => (e.name.startsWith('baseline/') ? { ...e, data: Buffer.from('{"findings":["x"]}') } : e));
+    entries.push({ name: 'extra.txt', data: Buffer.from('added later') });
+    await writeFile(bundle, createZip(entries));
+
+    const verification = await verifyEvidenceBundle(bundle);
+    expect(verification.valid).toBe(false);
+    expect(verification.files.filter(f => f.status !== 'ok')).toEqual([
+      { path: 'baseline/.vlayer-baseline.json', kind: 'baseline', status: 'modified' },
+      { path: 'acknowledgments/.vlayerrc.json', kind: 'acknowledgments', status: 'missing' },
+      { path: 'extra.txt', status: 'unlisted' },
+    ]);
+  });
+
+  it('signs the manifest and checks the audit trail chain', async () => {
+    const key = await generateSigningKey(join(dir, 'bundle-key.pem'));
+    process.env.VLAYER_SIGNING_KEY = key.privateKeyPath;
+    const trail = createAuditTrail(project);
+    addManualReviews(trail, [finding]);
+    await saveAuditTrail(trail, project);
+
+    const bundle = join(dir, 'bundle.zip');
+    const signingKey = createPrivateKey(await readFile(key.privateKeyPath, 'utf-8'));
+    const { manifest } = await exportEvidenceBundle(result, project, bundle, { includeTraining: false, signingKey });
+    expect(manifest.files.map(f => f.kind)).toContain('audit-report');
+    expect(manifest.auditTrail).toMatchObject({ chain: 'valid', entries: 1 });
+
+    const publicKey = await readFile(key.publicKeyPath, 'utf-8');
+    expect(await verifyEvidenceBundle(bundle, { publicKey })).toMatchObject({
+      valid: true,
+      signature: 'valid',
+      auditTrail: { status: 'valid', signed: true },
+    });
+
+    const other = await generateSigningKey(join(dir, 'other.pem'));
+    const wrongKey = await verifyEvidenceBundle(bundle, { publicKey: await readFile(other.publicKeyPath, 'utf-8') });
+    expect(wrongKey).toMatchObject({ valid: false, signature: 'wrong-key' });
+  });
+});
@@ -0,0 +1,190 @@
+import { describe, it, expect, beforeAll, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { scan } from '../src/scan.js';
+import { findEnclosingScope, fingerprintFindings, stableRuleId } from '../src/fingerprint.js';
+import { generateFindingHash, migrateBaseline, type Baseline } from '../src/baseline.js';
+import { checkAcknowledgment } from '../src/acknowledgments.js';
+import { compareScan, wasReported, type ScanHistoryEntry } from '../src/utils/scan-history.js';
+import type { Finding } from '../src/types.js';
+
+function finding(overrides: Partial<Finding>): Finding {
+  return {
+    id: 'phi-ssn-hardcoded-3',
+    category: 'phi-exposure',
+    severity: 'high',
+    title: 'Hardcoded SSN',
+    description: 'SSN literal in source',
+    file: '/repo/src/patients.ts',
+    line: 3,
+    recommendation: 'Load test data from fixtures',
+    ...overrides,
+  };
+}
+
+function historyEntry(overrides: Partial<ScanHistoryEntry>): ScanHistoryEntry {
+  return {
+    timestamp: '2026-01-01T00:00:00Z',
+    date: '2026-01-01-000000',
+    complianceScore: 80,
+    severity: { critical: 0, high: 1, medium: 0, low: 0 },
+    failedRuleIds: [],
+    totalFilesScanned: 1,
+    ...overrides,
+  };
+}
+
+const SOURCE = `export class PatientService {
+  async export(patient) {
+    const ssn = '123-45-6789';
+    return ssn;
+  }
+}
+
+export const lookup = () => {
+  const ssn = '123-45-6789';
+};
+`;
+
+// Keep the integration scans deterministic + offline (no AI triage network calls).
+beforeAll(() => {
+  delete process.env.ANTHROPIC_API_KEY;
+  delete process.env.VLAYER_AI_KEY;
+});
+
+describe('Finding fingerprints', () => {
+  let dir = '';
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'vlayer-fingerprint-'));
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('drops line numbers and file paths from rule ids', () => {
+    expect(stableRuleId(finding({}))).toBe('phi-ssn-hardcoded');
+    expect(stableRuleId(finding({ id: 'HIPAA-ENC-001' }))).toBe('HIPAA-ENC-001');
+    expect(stableRuleId(finding({ id: 'custom-no-ssn-/repo/src/patients.ts-2' }))).toBe('custom-no-ssn');
+  });
+
+  it('names the enclosing function or class', () => {
+    expect(findEnclosingScope('a.ts', SOURCE, 3)).toBe('PatientService.export');
+    expect(findEnclosingScope('a.ts', SOURCE, 9)).toBe('lookup');
+    expect(findEnclosingScope('a.ts', SOURCE, 7)).toBe('');
+    expect(findEnclosingScope('a.py', 'class Intake:\n    def save(self):\n        ssn = "123-45-6789"\n', 3))
+      .toBe('Intake.save');
+  });
+
+  it('keeps fingerprints when lines shift and separates identical code by scope', async () => {
+    const file = join(dir, 'patients.ts');
+    await writeFile(file, SOURCE);
+    const before = await fingerprintFindings([
+      finding({ file, line: 3 }),
+      finding({ file, line: 9 }),
+    ], dir);
+
+    await writeFile(file, `import { db } from './db';\n\n${SOURCE}`);
+    const after = await fingerprintFindings([
+      finding({ id: 'phi-ssn-hardcoded-5', file, line: 5 }),
+      finding({ id: 'phi-ssn-hardcoded-11', file, line: 11 }),
+    ], dir);
+
+    expect(after.map(f => f.fingerprint)).toEqual(before.map(f => f.fingerprint));
+    expect(before[0].fingerprint).not.toBe(before[1].fingerprint);
+  });
+
+  it('numbers identical matches in the same scope', async () => {
+    const file = join(dir, 'codes.py');
+    await writeFile(file, 'A = "123-45-6789"\nB = "123-45-6789"\nA = "123-45-6789"\n');
+    const [first, , third] = await fingerprintFindings([
+      finding({ file, line: 1 }),
+      finding({ file, line: 2 }),
+      finding({ file, line: 3 }),
+    ], dir);
+    expect(first.fingerprint).not.toBe(third.fingerprint);
+  });
+
+  it('matches acknowledgments and history by fingerprint', () => {
+    const f = finding({ fingerprint: '0123456789abcdef' });
+    const ack = { pattern: '**', reason: 'Fixture', acknowledgedBy: 'dev', acknowledgedAt: '2026-01-01' };
+    const config = (fingerprint: string) => ({ acknowledgedFindings: [{ ...ack, fingerprint }], acknowledgmentApprovals: {} });
+    expect(checkAcknowledgment(f, config('0123456789abcdef')).acknowledged).toBe(true);
+    expect(checkAcknowledgment(f, config('fedcba9876543210')).acknowledged).toBe(false);
+
+    const previous = historyEntry({
+      failedRuleIds: ['phi-ssn-hardcoded'],
+      fingerprints: { '0123456789abcdef': 'phi-ssn-hardcoded', 'aaaaaaaaaaaaaaaa': 'HIPAA-ENC-001' },
+    });
+    expect(wasReported(f, previous)).toBe(true);
+    expect(wasReported(finding({ fingerprint: 'fedcba9876543210' }), previous)).toBe(false);
+    // Entries from before fingerprints compare by rule id
+    expect(wasReported(f, historyEntry({ failedRuleIds: ['phi-ssn-hardcoded-3'] }))).toBe(true);
+
+    const comparison = compareScan(80, [finding({ id: 'phi-ssn-hardcoded-9', fingerprint: '0123456789abcdef' })], previous);
+    expect(comparison.newIssues).toEqual([]);
+    expect(comparison.resolvedIssues).toEqual(['HIPAA-ENC-001']);
+  });
+
+  it('migrates version 1.0 baseline entries, following moved code', () => {
+    const unmoved = finding({ id: 'HIPAA-ENC-001', title: 'Weak cipher', line: 20, fingerprint: '1111111111111111' });
+    const moved = finding({ id: 'phi-ssn-hardcoded-5', line: 5, fingerprint: '2222222222222222' });
+    const legacy: Baseline = {
+      version: '1.0',
+      createdAt: '2026-01-01T00:00:00Z',
+      findings: [
+        { hash: generateFindingHash(finding({ line: 3 })), id: 'phi-ssn-hardcoded-3', file: moved.file, line: 3, title: moved.title, severity: 'high', category: 'phi-exposure' },
+        { hash: generateFindingHash(unmoved), id: 'HIPAA-ENC-001', file: unmoved.file, line: 20, title: 'Weak cipher', severity: 'high', category: 'phi-exposure' },
+        { hash: 'ffffffffffffffff', id: 'phi-mrn-7', file: moved.file, line: 7, title: 'MRN', severity: 'medium', category: 'phi-exposure' },
+      ],
+    };
+
+    const { baseline, migrated, unmatched } = migrateBaseline(legacy, [moved, unmoved]);
+    expect({ migrated, unmatched }).toEqual({ migrated: 2, unmatched: 1 });
+    expect(baseline.version).toBe('2.0');
+    expect(baseline.findings.map(e => [e.fingerprint, e.line, e.hash])).toEqual([
+      ['2222222222222222', 5, undefined],
+      ['1111111111111111', 20, undefined],
+      [undefined, 7, 'ffffffffffffffff'],
+    ]);
+  });
+
+  it('keeps baselined findings baselined after an import is added', async () => {
+    const file = join(dir, 'patients.ts');
+    const baselineFile = join(dir, '.vlayer-baseline.json');
+    await writeFile(file, SOURCE);
+
+    const first = await scan({ path: dir, cache: false, enableAI: false });
+    const ssn = first.findings.filter(f => f.line === 3);
+    expect(ssn.length).toBeGreaterThan(0);
+
+    // A version 1.0 baseline, as older releases wrote it
+    await writeFile(baselineFile, JSON.stringify({
+      version: '1.0',
+      createdAt: '2026-01-01T00:00:00Z',
+      findings: ssn.map(f => ({
+        hash: generateFindingHash(f), id: f.id, file: f.file, line: f.line, title: f.title, severity: f.severity, category: f.category,
+      })),
+    }));
+    await writeFile(file, `import { db } from './db';\n${SOURCE}`);
+
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const second = await scan({ path: dir, cache: false, enableAI: false, baselineFile });
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('to stable fingerprints'));
+    expect(second.findings.filter(f => f.line === 4).every(f => f.isBaseline)).toBe(true);
+
+    const migrated = JSON.parse(await readFile(baselineFile, 'utf-8')) as Baseline;
+    expect(migrated.version).toBe('2.0');
+    expect(migrated.findings.every(e => e.fingerprint && !e.hash)).toBe(true);
+
+    // Later line shifts need no migration
+    await writeFile(file, `import { db } from './db';\nimport { log } from './log';\n${SOURCE}`);
+    warn.mockClear();
+    const third = await scan({ path: dir, cache: false, enableAI: false, baselineFile });
+    expect(warn).not.toHaveBeenCalled();
+    expect(third.findings.filter(f => f.line === 5).every(f => f.isBaseline)).toBe(true);
+  });
+});
@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { applyFixes, planFix } from '../../src/fixer/index.js';
+import { rollbackFixes } from '../../src/fixer/rollback.js';
+import type { Finding, FixType } from '../../src/types.js';
+
+function finding(file: string, line: number, fixType: FixType, id = 'FINDING'): Finding {
+  return { id, file, line, fixType, title: 'Finding' } as Finding;
+}
+
+describe('AST fixes', () => {
+  let dir = '';
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'vlayer-ast-fix-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('comments out a console.log call spanning several lines', () => {
+    const content = [
+      'function show(patient) {',
+      '  console.log(',
+      '    patient.name,',
+      '    patient.ssn',
+      '  );',
+      '  return patient.id;',
+      '}',
+    ].join('\n');
+
+    const fix = planFix(content, join(dir, 'show.ts'), finding(join(dir, 'show.ts'), 2, 'phi-console-log'));
+
+    expect(fix!.edit).toEqual({
+      index: 1,
+      count: 4,
+      lines: [
+        '  // [VLAYER] PHI logging removed - review needed: console.log(',
+        '  //   patient.name,',
+        '  //   patient.ssn',
+        '  // );',
+      ],
+    });
+  });
+
+  it('parameterizes a SQL template literal spread over a block', () => {
+    const content = [
+      'const rows = await db.query(`',
+      '  SELECT * FROM patients',
+      '  WHERE id = ${patientId} AND org = ${orgId}',
+      '`);',
+    ].join('\n');
+    const file = join(dir, 'repo.ts');
+
+    const fix = planFix(content, file, finding(file, 3, 'sql-injection-template'));
+
+    expect(fix!.edit.lines).toEqual([
+      'const rows = await db.query(`',
+      '  SELECT * FROM patients',
+      '  WHERE id = ? AND org = ?',
+      '`, [patientId, orgId]);',
+    ]);
+  });
+
+  it('keeps the line fix for single-line constructs', () => {
+    const file = join(dir, 'repo.ts');
+    const fix = planFix('db.query(`SELECT * FROM users WHERE id = ${userId}`);', file, finding(file, 1, 'sql-injection-template'));
+    expect(fix!.edit.lines).toEqual(["db.query('SELECT * FROM users WHERE id = ?', [userId]);"]);
+  });
+
+  it('drops a line fix that would leave the file unparsable', () => {
+    // The call shares its last line with other code, so only the line fix applies, and it
+    // would comment out just the first line of the call
+    const content = 'console.log(patient,\n  visit); render();\n';
+    const file = join(dir, 'view.ts');
+    expect(planFix(content, file, finding(file, 1, 'phi-console-log'))).toBeNull();
+    // Outside TS/JS the line strategy is used as-is
+    const other = join(dir, 'view.vue');
+    expect(planFix(content, other, finding(other, 1, 'phi-console-log'))).not.toBeNull();
+  });
+
+  it('redacts logged values and imports the configured helper', async () => {
+    const file = join(dir, 'service.ts');
+    const content = [
+      "import { logger } from './logger';",
+      '',
+      'export function load(patient: Patient) {',
+      '  logger.info(',
+      "    'Loaded patient',",
+      '    patient,',
+      '    { ssn: patient.ssn },',
+      '  );',
+      '}',
+      '',
+    ].join('\n');
+    await writeFile(file, content);
+
+    const report = await applyFixes([finding(file, 4, 'phi-log-unredacted')], dir, 0, 0, {
+      redactionHelper: { name: 'redactPHI', module: '@/lib/redact' },
+    });
+
+    expect(report.fixedCount).toBe(1);
+    expect(await readFile(file, 'utf-8')).toBe([
+      "import { logger } from './logger';",
+      "import { redactPHI } from '@/lib/redact';",
+      '',
+      'export function load(patient: Patient) {',
+      '  logger.info(',
+      "    'Loaded patient',",
+      '    redactPHI(patient),',
+      '    redactPHI({ ssn: patient.ssn }),',
+      '  );',
+      '}',
+      '',
+    ].join('\n'));
+    expect(report.auditTrail.evidence.map(e => e.description)).toEqual([
+      'Auto-fixed: Finding',
+      'Auto-fixed: Finding (added import)',
+    ]);
+
+    // Multi-line evidence rolls back to the original file
+    await rollbackFixes(dir, { all: true });
+    expect(await readFile(file, 'utf-8')).toBe(content);
+  });
+
+  it('adds CommonJS requires after the directive prologue and skips bound names', async () => {
+    const file = join(dir, 'legacy.cjs');
+    await writeFile(file, "'use strict'\nlogger.info(patient)\n");
+    await applyFixes([finding(file, 2, 'phi-log-unredacted')], dir, 0, 0, {
+      redactionHelper: { name: 'redact', module: './redact' },
+    });
+    expect(await readFile(file, 'utf-8')).toBe("'use strict'\n\nconst { redact } = require('./redact');\nlogger.info(redact(patient))\n");
+
+    const bound = join(dir, 'bound.ts');
+    await writeFile(bound, "import { redact } from './redact';\nlogger.warn(patient);\n");
+    await applyFixes([finding(bound, 2, 'phi-log-unredacted')], dir, 0, 0, {
+      redactionHelper: { name: 'redact', module: './redact' },
+    });
+    expect(await readFile(bound, 'utf-8')).toBe("import { redact } from './redact';\nlogger.warn(redact(patient));\n");
+  });
+});
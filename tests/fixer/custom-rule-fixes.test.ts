@@ -0,0 +1,133 @@
+import { describe, it, expect, afterAll, afterEach } from 'vitest';
+import { mkdir, readFile, rm, writeFile } from 'fs/promises';
+import { join } from 'path';
+import {
+  applyFixStrategy,
+  createCustomRuleFixStrategy,
+  getFixStrategyDescription,
+  registerCustomRuleFixes,
+} from '../../src/fixer/strategies.js';
+import { applyFixes } from '../../src/fixer/index.js';
+import { scanWithCustomRules } from '../../src/rules/scanner.js';
+import { validateRulesFile } from '../../src/rules/index.js';
+import type { CompiledCustomRule, CustomRuleFix } from '../../src/types.js';
+
+const TEST_DIR = '/tmp/vlayer-custom-fix-tests';
+
+function rule(id: string, pattern: string, fix: CustomRuleFix): CompiledCustomRule {
+  return {
+    id,
+    name: `Rule ${id}`,
+    description: 'Custom rule',
+    category: 'phi-exposure',
+    severity: 'high',
+    pattern,
+    recommendation: 'Fix it',
+    fix,
+    compiledPattern: new RegExp(pattern, 'gi'),
+  };
+}
+
+describe('Custom rule fixes', () => {
+  afterEach(() => {
+    registerCustomRuleFixes([]);
+  });
+
+  afterAll(async () => {
+    await rm(TEST_DIR, { recursive: true, force: true });
+  });
+
+  it('replaces every match, substituting capture groups', () => {
+    const fix = createCustomRuleFixStrategy(
+      rule('card-env', '(\\w+)Card = "[^"]*"', { type: 'replace', replacement: '$1Card = process.env.$1_CARD' })
+    )!;
+
+    expect(fix('const visaCard = "4111"; const amexCard = "3782";'))
+      .toBe('const visaCard = process.env.visa_CARD; const amexCard = process.env.amex_CARD;');
+    expect(fix('const other = 1;')).toBeNull();
+  });
+
+  it('supports named groups and wrappers', () => {
+    const wrap = createCustomRuleFixStrategy(
+      rule('redact', 'patient\\.(?<field>ssn|dob)', { type: 'wrap', wrapper: { before: 'redact(', after: ", '$<field>')" } })
+    )!;
+
+    expect(wrap('logger.info(patient.ssn);')).toBe("logger.info(redact(patient.ssn, 'ssn'));");
+  });
+
+  it('removes matches and empties lines left blank', () => {
+    const remove = createCustomRuleFixStrategy(
+      rule('no-debug', '\\s*debugPatient\\([^)]*\\);', { type: 'remove' })
+    )!;
+
+    expect(remove('save(p); debugPatient(p);')).toBe('save(p);');
+    expect(remove('  debugPatient(p);')).toBe('');
+  });
+
+  it('resolves registered custom fix types in applyFixStrategy', () => {
+    registerCustomRuleFixes([rule('http-api', 'http://(api\\.internal)', { type: 'replace', replacement: 'https://$1' })]);
+
+    expect(applyFixStrategy('fetch("http://api.internal/x")', 'custom-http-api')).toBe('fetch("https://api.internal/x")');
+    expect(getFixStrategyDescription('custom-http-api')).toBe('Rule http-api (custom replace)');
+
+    registerCustomRuleFixes([]);
+    expect(applyFixStrategy('fetch("http://api.internal/x")', 'custom-http-api')).toBeNull();
+  });
+
+  it('applies custom fixes during --fix and records audit evidence', async () => {
+    const project = join(TEST_DIR, 'project');
+    await mkdir(project, { recursive: true });
+    const file = join(project, 'api.ts');
+    await writeFile(file, 'const base = "http://api.internal/v1";\n');
+    const rules = [rule('http-api', 'http://(api\\.internal)', { type: 'replace', replacement: 'https://$1' })];
+    registerCustomRuleFixes(rules);
+
+    const findings = await scanWithCustomRules([file], { path: project }, rules);
+    expect(findings[0].fixType).toBe('custom-http-api');
+
+    const report = await applyFixes(findings, project);
+
+    expect(report.fixedCount).toBe(1);
+    expect(await readFile(file, 'utf-8')).toBe('const base = "https://api.internal/v1";\n');
+    expect(report.auditTrail.evidence).toHaveLength(1);
+    expect(report.auditTrail.evidence[0]).toMatchObject({
+      fixType: 'custom-http-api',
+      after: { content: 'const base = "https://api.internal/v1";' },
+    });
+  });
+
+  it('reports invalid fix blocks in rules validation', async () => {
+    await mkdir(TEST_DIR, { recursive: true });
+    const base = `
+  - id: RULE_ID
+    name: Rule
+    description: Rule
+    category: encryption
+    severity: high
+    recommendation: Fix it`;
+    const missing = join(TEST_DIR, 'missing.yaml');
+    const groups = join(TEST_DIR, 'groups.yaml');
+    await writeFile(missing, `version: "1.0"\nrules:${base.replace('RULE_ID', 'no-replacement')}
+    pattern: "http://"
+    fix:
+      type: replace
+`);
+    await writeFile(groups, `version: "1.0"\nrules:${base.replace('RULE_ID', 'bad-groups')}
+    pattern: "http://(?<host>[a-z.]+)"
+    fix:
+      type: replace
+      replacement: "https://$<host>$2 costs $$1"
+`);
+
+    const missingResult = await validateRulesFile(missing);
+    expect(missingResult.valid).toBe(false);
+    expect(missingResult.errors[0].details).toContain('rules.0.fix.replacement: A replace fix needs a replacement');
+
+    const groupsResult = await validateRulesFile(groups);
+    expect(groupsResult.valid).toBe(false);
+    expect(groupsResult.errors[0]).toMatchObject({
+      error: 'Invalid fix in rule "bad-groups"',
+      details: 'References capture groups the pattern does not define: $2',
+    });
+  });
+});
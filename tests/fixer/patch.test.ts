@@ -0,0 +1,123 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdir, mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { existsSync } from 'fs';
+import { execFileSync } from 'child_process';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { applyReplacements, createFileDiff, createPatch, type FileChange } from '../../src/fixer/patch.js';
+import { applyFixes } from '../../src/fixer/index.js';
+import { generateAuditTrailHash, hashContent } from '../../src/audit/evidence.js';
+import type { Finding } from '../../src/types.js';
+
+function change(filePath: string, contentBefore: string, replacements: Map<number, string[]>): FileChange {
+  return { filePath, contentBefore, contentAfter: applyReplacements(contentBefore, replacements), replacements };
+}
+
+function gitApply(dir: string, patch: string): void {
+  execFileSync('git', ['apply', '--whitespace=nowarn', '-'], { cwd: dir, input: patch, timeout: 10000 });
+}
+
+describe('Fix patches', () => {
+  let dir = '';
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'vlayer-patch-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('renders hunks with context and shifted new line numbers', () => {
+    const lines = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`);
+    const diff = createFileDiff(change(join(dir, 'src', 'a.ts'), lines.join('\n') + '\n', new Map([
+      [1, ['// note', 'line 2 fixed']],
+      [15, ['line 16 fixed']],
+    ])), dir);
+
+    expect(diff).toContain('diff --git a/src/a.ts b/src/a.ts\n');
+    expect(diff).toContain('--- a/src/a.ts\n+++ b/src/a.ts\n@@ -1,5 +1,6 @@\n line 1\n-line 2\n+// note\n+line 2 fixed\n line 3\n');
+    expect(diff).toContain('@@ -13,7 +14,7 @@\n line 13\n line 14\n line 15\n-line 16\n+line 16 fixed\n');
+  });
+
+  it('produces patches git apply accepts, including files without a final newline', async () => {
+    const a = join(dir, 'a.ts');
+    const b = join(dir, 'b.ts');
+    const aBefore = 'const x = 1;\nconst url = "http://x";\nconst y = 2;\n';
+    const bBefore = 'first\nsecond';
+    await writeFile(a, aBefore);
+    await writeFile(b, bBefore);
+
+    const changes = [
+      change(a, aBefore, new Map([[1, ['// [VLAYER] upgraded', 'const url = "https://x";']]])),
+      change(b, bBefore, new Map([[1, ['second fixed']]])),
+    ];
+    const patch = createPatch(changes, dir);
+    expect(patch).toContain('\\ No newline at end of file');
+
+    gitApply(dir, patch);
+
+    expect(await readFile(a, 'utf-8')).toBe(changes[0].contentAfter);
+    expect(await readFile(b, 'utf-8')).toBe('first\nsecond fixed');
+  });
+
+  it('previews fixes without writing anything on dry runs', async () => {
+    const file = join(dir, 'api.ts');
+    const content = 'const a = "http://api.example.com";\n';
+    await writeFile(file, content);
+    const finding = { id: 'HTTP', file, line: 1, fixType: 'http-url' } as Finding;
+
+    const report = await applyFixes([finding], dir, 0, 0, { dryRun: true });
+
+    expect(report.fixedCount).toBe(1);
+    expect(report.files[0].contentAfter).toBe('const a = "https://api.example.com";\n');
+    expect(await readFile(file, 'utf-8')).toBe(content);
+    expect(existsSync(join(dir, '.vlayer', 'audit-trail.json'))).toBe(false);
+  });
+
+  it('writes a patch whose file hashes match the fix evidence, leaving the audit trail alone', async () => {
+    const file = join(dir, 'api.ts');
+    const content = 'const a = "http://a.example.com";\nconst b = 1;\nconst c = "http://c.example.com";\n';
+    await writeFile(file, content);
+    const findings = [
+      { id: 'HTTP-1', file, line: 1, fixType: 'http-url' },
+      { id: 'HTTP-3', file, line: 3, fixType: 'http-url' },
+    ] as Finding[];
+    const patchFile = join(dir, 'fixes.patch');
+
+    const report = await applyFixes(findings, dir, 0, 0, { patchFile });
+
+    expect(await readFile(file, 'utf-8')).toBe(content);
+    const patch = await readFile(patchFile, 'utf-8');
+    expect(existsSync(join(dir, '.vlayer', 'audit-trail.json'))).toBe(false);
+
+    // Evidence chains: the first fix starts from the original file, the last ends at the patched file
+    const [first, second] = report.auditTrail.evidence;
+    expect(first.fileHashAfter).toBe(second.fileHashBefore);
+    const before = hashContent(content);
+    const after = hashContent(report.files[0].contentAfter);
+    expect(first.fileHashBefore).toBe(before);
+    expect(second.fileHashAfter).toBe(after);
+    expect(patch).toContain(`api.ts: sha256 ${before} -> ${after}`);
+    expect(patch).toContain(`Evidence hash: ${generateAuditTrailHash([first, second])}`);
+
+    gitApply(dir, patch);
+    expect(hashContent(await readFile(file, 'utf-8'))).toBe(after);
+  });
+
+  it('writes paths from the root of the git work tree', async () => {
+    execFileSync('git', ['init', '-q'], { cwd: dir, timeout: 10000 });
+    const project = join(dir, 'services', 'api');
+    await mkdir(project, { recursive: true });
+    const file = join(project, 'client.ts');
+    await writeFile(file, 'const a = "http://api.example.com";\n');
+    const patchFile = join(dir, 'fixes.patch');
+
+    await applyFixes([{ id: 'HTTP', file, line: 1, fixType: 'http-url' } as Finding], project, 0, 0, { patchFile });
+
+    const patch = await readFile(patchFile, 'utf-8');
+    expect(patch).toContain('diff --git a/services/api/client.ts b/services/api/client.ts');
+    gitApply(dir, patch);
+    expect(await readFile(file, 'utf-8')).toBe('const a = "https://api.example.com";\n');
+  });
+});
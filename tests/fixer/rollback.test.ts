@@ -0,0 +1,102 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { applyFixes } from '../../src/fixer/index.js';
+import { rollbackFixes } from '../../src/fixer/rollback.js';
+import { generateAuditTrailHash } from '../../src/audit/evidence.js';
+import { loadAuditTrail } from '../../src/audit/index.js';
+import type { Finding } from '../../src/types.js';
+
+describe('Fix rollback', () => {
+  let dir = '';
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'vlayer-rollback-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('restores the original line and records the rollback', async () => {
+    const file = join(dir, 'api.ts');
+    const content = 'const a = "http://api.example.com";\nconst b = 1;\n';
+    await writeFile(file, content);
+    const report = await applyFixes([{ id: 'HTTP', file, line: 1, fixType: 'http-url' } as Finding], dir);
+    const evidence = report.auditTrail.evidence[0];
+
+    const results = await rollbackFixes(dir, { evidenceId: evidence.id.slice(0, 8) });
+
+    expect(results).toMatchObject([{ rolledBack: true }]);
+    expect(await readFile(file, 'utf-8')).toBe(content);
+    const trail = (await loadAuditTrail(dir))!;
+    expect(trail.evidence).toHaveLength(1);
+    expect(trail.rollbacks).toMatchObject([{
+      evidenceId: evidence.id,
+      filePath: file,
+      lineNumber: 1,
+      fileHashBefore: evidence.fileHashAfter,
+      fileHashAfter: evidence.fileHashBefore,
+    }]);
+    expect(trail.reportHash).toBe(generateAuditTrailHash(trail.evidence, trail.rollbacks));
+    expect(trail.reportHash).not.toBe(generateAuditTrailHash(trail.evidence));
+
+    const again = await rollbackFixes(dir, { evidenceId: evidence.id });
+    expect(again).toMatchObject([{ rolledBack: false, reason: 'fix was already rolled back' }]);
+  });
+
+  it('refuses when the file has changed since the fix', async () => {
+    const file = join(dir, 'api.ts');
+    await writeFile(file, 'const a = "http://api.example.com";\n');
+    const report = await applyFixes([{ id: 'HTTP', file, line: 1, fixType: 'http-url' } as Finding], dir);
+    const edited = 'const a = "https://api.example.com/v2";\n';
+    await writeFile(file, edited);
+
+    const results = await rollbackFixes(dir, { evidenceId: report.auditTrail.evidence[0].id });
+
+    expect(results[0].rolledBack).toBe(false);
+    expect(results[0].reason).toMatch(/file has changed since the fix was applied/);
+    expect(await readFile(file, 'utf-8')).toBe(edited);
+    expect((await loadAuditTrail(dir))!.rollbacks).toBeUndefined();
+  });
+
+  it('unwinds chained and multi-line fixes with --all', async () => {
+    const file = join(dir, 'service.ts');
+    const content = [
+      'const a = "http://a.example.com";',
+      "localStorage.setItem('patient', JSON.stringify(patient));",
+      'const c = "http://c.example.com";',
+      '',
+    ].join('\n');
+    await writeFile(file, content);
+    const findings = [
+      { id: 'HTTP-1', file, line: 1, fixType: 'http-url' },
+      { id: 'STORAGE-2', file, line: 2, fixType: 'phi-localstorage' },
+      { id: 'HTTP-3', file, line: 3, fixType: 'http-url' },
+    ] as Finding[];
+    const report = await applyFixes(findings, dir);
+    expect(report.fixedCount).toBe(3);
+
+    // A single fix in the middle of the chain cannot be undone on its own
+    const middle = report.auditTrail.evidence.find(e => e.findingId === 'STORAGE-2')!;
+    expect(middle.after.content.split('\n')).toHaveLength(3);
+    expect((await rollbackFixes(dir, { evidenceId: middle.id }))[0].rolledBack).toBe(false);
+
+    const results = await rollbackFixes(dir, { all: true });
+
+    expect(results.map(r => r.rolledBack)).toEqual([true, true, true]);
+    expect(await readFile(file, 'utf-8')).toBe(content);
+    expect((await loadAuditTrail(dir))!.rollbacks).toHaveLength(3);
+    expect(await rollbackFixes(dir, { all: true })).toEqual([]);
+  });
+
+  it('fails without an audit trail or a matching evidence id', async () => {
+    await expect(rollbackFixes(dir, { all: true })).rejects.toThrow(/No audit trail found/);
+
+    const file = join(dir, 'api.ts');
+    await writeFile(file, 'const a = "http://api.example.com";\n');
+    await applyFixes([{ id: 'HTTP', file, line: 1, fixType: 'http-url' } as Finding], dir);
+    await expect(rollbackFixes(dir, { evidenceId: 'does-not-exist' })).rejects.toThrow(/No fix evidence with id/);
+  });
+});
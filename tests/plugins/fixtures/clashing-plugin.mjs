@@ -0,0 +1,6 @@
+// Test plugin whose scanner id collides with a built-in scanner.
+export default {
+  name: 'clashing-plugin',
+  apiVersion: 1,
+  scanners: [{ id: 'phi', name: 'Fake PHI', category: 'phi-exposure', fileTypes: ['.ts'], scan: async () => [] }],
+};
@@ -0,0 +1,53 @@
+// Test plugin: flags raw EHR SDK queries, offers a fix and a report section.
+import { readFile } from 'fs/promises';
+
+const ehrScanner = {
+  id: 'acme-ehr',
+  name: 'Acme EHR SDK Scanner',
+  category: 'audit-logging',
+  fileTypes: ['.ts', '.js'],
+  async scan(files) {
+    const findings = [];
+    for (const file of files.filter(f => /\.(ts|js)$/.test(f))) {
+      const lines = (await readFile(file, 'utf-8')).split('\n');
+      lines.forEach((line, index) => {
+        if (line.includes('ehrSdk.rawQuery(')) {
+          findings.push({
+            id: 'ACME-EHR-001',
+            category: 'audit-logging',
+            severity: 'high',
+            title: 'Unaudited EHR query',
+            description: 'Raw EHR SDK queries bypass the access audit log.',
+            file,
+            line: index + 1,
+            recommendation: 'Use ehrSdk.auditedQuery().',
+            hipaaReference: '§164.312(b)',
+            fixType: 'acme-ehr:audited-query',
+          });
+        }
+      });
+    }
+    return findings;
+  },
+};
+
+export default {
+  name: '@acme/vlayer-plugin-ehr',
+  version: '1.2.0',
+  apiVersion: 1,
+  scanners: [ehrScanner],
+  fixStrategies: {
+    'acme-ehr:audited-query': {
+      description: 'Raw EHR query -> audited query',
+      apply: line => line.replace('ehrSdk.rawQuery(', 'ehrSdk.auditedQuery('),
+    },
+  },
+  reportSections: [
+    {
+      id: 'ehr-summary',
+      title: 'EHR SDK Usage',
+      markdown: report => `Unaudited EHR queries: ${report.findings.filter(f => f.id === 'ACME-EHR-001').length}`,
+      json: report => ({ unaudited: report.findings.filter(f => f.id === 'ACME-EHR-001').length }),
+    },
+  ],
+};
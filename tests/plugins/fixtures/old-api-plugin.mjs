@@ -0,0 +1,6 @@
+// Test plugin built against a plugin API version vlayer does not support.
+export const plugin = {
+  name: 'legacy-plugin',
+  apiVersion: 0,
+  scanners: [],
+};
@@ -0,0 +1,115 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdir, mkdtemp, writeFile, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { fileURLToPath } from 'url';
+import { loadPlugins, validatePlugin, PLUGIN_API_VERSION } from '../../src/plugins/index.js';
+import { applyFixStrategy } from '../../src/fixer/strategies.js';
+import { scan } from '../../src/scan.js';
+import { generateReport } from '../../src/reporters/index.js';
+
+// Keep the integration scan deterministic + offline (no AI triage network calls).
+beforeAll(() => {
+  delete process.env.ANTHROPIC_API_KEY;
+  delete process.env.VLAYER_AI_KEY;
+});
+
+const FIXTURES = fileURLToPath(new URL('./fixtures/', import.meta.url));
+const EHR_PLUGIN = join(FIXTURES, 'ehr-plugin.mjs');
+
+const dirs: string[] = [];
+async function tempDir(): Promise<string> {
+  const d = await mkdtemp(join(tmpdir(), 'vlayer-plugins-'));
+  dirs.push(d);
+  return d;
+}
+afterAll(async () => {
+  await Promise.all(dirs.map(d => rm(d, { recursive: true, force: true })));
+});
+
+describe('plugin loading', () => {
+  it('loads a plugin by path and registers its fix strategies', async () => {
+    const { plugins, errors } = await loadPlugins(FIXTURES, ['./ehr-plugin.mjs']);
+
+    expect(errors).toEqual([]);
+    expect(plugins.map(p => p.plugin.name)).toEqual(['@acme/vlayer-plugin-ehr']);
+    expect(applyFixStrategy('const r = ehrSdk.rawQuery(q);', 'acme-ehr:audited-query'))
+      .toBe('const r = ehrSdk.auditedQuery(q);');
+  });
+
+  it('rejects plugins built for another API version', async () => {
+    const { plugins, errors } = await loadPlugins(FIXTURES, ['./old-api-plugin.mjs']);
+
+    expect(plugins).toEqual([]);
+    expect(errors[0].error).toContain(`targets plugin API version 0, but this vlayer supports version ${PLUGIN_API_VERSION}`);
+  });
+
+  it('rejects scanner ids that shadow built-in scanners, and missing plugins', async () => {
+    const { plugins, errors } = await loadPlugins(FIXTURES, ['./clashing-plugin.mjs', '@acme/not-installed']);
+
+    expect(plugins).toEqual([]);
+    expect(errors.map(e => e.error)).toEqual([
+      expect.stringContaining('Cannot find plugin package "@acme/not-installed"'),
+      expect.stringContaining('declares scanner id "phi", which is already registered'),
+    ]);
+  });
+
+  it('validates the scanner contract', () => {
+    expect(() => validatePlugin({ default: {
+      name: 'bad',
+      apiVersion: PLUGIN_API_VERSION,
+      scanners: [{ id: 'bad', name: 'Bad', category: 'nope', fileTypes: [], scan: async () => [] }],
+    } }, 'bad')).toThrow(/unknown category "nope"/);
+  });
+});
+
+describe('plugin findings in scan()', () => {
+  it('flow through suppressions, acknowledgments and scoring like built-in findings', async () => {
+    const dir = await tempDir();
+    await writeFile(join(dir, 'a.ts'), [
+      'const a = ehrSdk.rawQuery(q);',
+      '// vlayer-ignore ACME-EHR-001 -- read-only reporting replica',
+      'const b = ehrSdk.rawQuery(q);',
+    ].join('\n'));
+    await writeFile(join(dir, 'legacy.ts'), 'const c = ehrSdk.rawQuery(q);\n');
+    await writeFile(join(dir, '.vlayerrc.json'), JSON.stringify({ plugins: [EHR_PLUGIN] }));
+    await writeFile(join(dir, 'CODEOWNERS'), '* ehr-lead@acme.test\n');
+    await mkdir(join(dir, '.vlayer'));
+    await writeFile(join(dir, '.vlayer', 'acknowledgments.yaml'), [
+      'acknowledgments:',
+      '  - pattern: "**/legacy.ts"',
+      '    id: ACME-EHR-001',
+      '    reason: Scheduled for removal',
+      '    acknowledgedBy: security@acme.test',
+      '    acknowledgedAt: 2026-01-01',
+      '    approvedBy: [ehr-lead@acme.test]',
+    ].join('\n'));
+
+    const result = await scan({ path: dir, enableAI: false, cache: false });
+    const ehr = result.findings.filter(f => f.id === 'ACME-EHR-001');
+
+    expect(ehr).toHaveLength(3);
+    expect(ehr.filter(f => !f.suppressed && !f.acknowledged).map(f => [f.file, f.line]))
+      .toEqual([[join(dir, 'a.ts'), 1]]);
+    expect(ehr.find(f => f.line === 3)?.suppressed).toBe(true);
+    expect(ehr.find(f => f.file.endsWith('legacy.ts'))?.acknowledged).toBe(true);
+    expect(result.plugins?.map(p => p.scanners)).toEqual([['acme-ehr']]);
+
+    const withoutPlugin = await scan({ path: dir, enableAI: false, cache: false, skipScanners: ['acme-ehr'] });
+    expect(withoutPlugin.findings.some(f => f.id === 'ACME-EHR-001')).toBe(false);
+    expect(result.complianceScore!.score).toBeLessThan(withoutPlugin.complianceScore!.score);
+  });
+
+  it('adds plugin report sections to JSON reports', async () => {
+    const dir = await tempDir();
+    await writeFile(join(dir, 'a.ts'), 'const a = ehrSdk.rawQuery(q);\n');
+    await writeFile(join(dir, '.vlayerrc.json'), JSON.stringify({ plugins: [EHR_PLUGIN] }));
+
+    const result = await scan({ path: dir, enableAI: false, cache: false });
+    const outputPath = join(dir, 'report.json');
+    await generateReport(result, dir, { format: 'json', outputPath });
+    const report = JSON.parse(await readFile(outputPath, 'utf-8'));
+
+    expect(report.pluginSections).toEqual([{ id: 'ehr-summary', title: 'EHR SDK Usage', data: { unaudited: 1 } }]);
+  });
+});
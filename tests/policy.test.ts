@@ -0,0 +1,148 @@
+import { describe, it, expect, afterAll } from 'vitest';
+import { mkdir, rm, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { evaluatePolicy, loadPolicyFile, validatePolicy } from '../src/policy.js';
+import type { ComplianceScore, Finding, ScanComparison } from '../src/types.js';
+import type { ScanHistoryEntry } from '../src/utils/scan-history.js';
+
+const TEST_DIR = '/tmp/vlayer-policy-tests';
+
+function finding(overrides: Partial<Finding>): Finding {
+  return {
+    id: 'HIPAA-ENC-001',
+    category: 'encryption',
+    severity: 'critical',
+    title: 'Unencrypted PHI',
+    description: '',
+    file: '/repo/src/db.ts',
+    line: 1,
+    recommendation: '',
+    ...overrides,
+  };
+}
+
+function score(value: number): ComplianceScore {
+  return { score: value } as ComplianceScore;
+}
+
+function historyEntry(timestamp: string, failedRuleIds: string[], critical = 0): ScanHistoryEntry {
+  return {
+    timestamp,
+    date: timestamp,
+    complianceScore: 80,
+    severity: { critical, high: 0, medium: 0, low: 0 },
+    failedRuleIds,
+    totalFilesScanned: 10,
+  };
+}
+
+describe('Policy', () => {
+  afterAll(async () => {
+    await rm(TEST_DIR, { recursive: true, force: true });
+  });
+
+  it('passes when every clause holds', () => {
+    const result = evaluatePolicy(
+      { maxNewCritical: 0, maxNewHigh: 5, minScore: 80 },
+      { findings: [finding({ severity: 'high' })], complianceScore: score(90) }
+    );
+
+    expect(result.passed).toBe(true);
+    expect(result.clauses.map(c => [c.clause, c.actual, c.passed])).toEqual([
+      ['maxNewCritical', 0, true],
+      ['maxNewHigh', 1, true],
+      ['minScore', 90, true],
+    ]);
+  });
+
+  it('counts new findings against the previous scan', () => {
+    const previous = historyEntry('2026-01-01T00:00:00Z', ['HIPAA-ENC-001'], 1);
+    const comparison = { previousScan: previous } as ScanComparison;
+    const findings = [
+      finding({ line: 1 }),
+      finding({ id: 'HIPAA-AUTH-002', file: '/repo/src/auth.ts', line: 7 }),
+      finding({ line: 9, acknowledged: true, acknowledgment: { reason: 'r', acknowledgedBy: 'a', acknowledgedAt: 'x' } }),
+      finding({ line: 12, isBaseline: true }),
+    ];
+
+    const result = evaluatePolicy({ maxNewCritical: 0, maxCritical: 2 }, { findings, comparison, rootPath: '/repo' });
+
+    expect(result.passed).toBe(false);
+    expect(result.clauses[0]).toMatchObject({
+      clause: 'maxNewCritical',
+      description: 'New critical findings ≤ 0',
+      actual: 1,
+      passed: false,
+      details: ['HIPAA-AUTH-002 at src/auth.ts:7'],
+    });
+    expect(result.clauses[1]).toMatchObject({ clause: 'maxCritical', actual: 2, passed: true });
+  });
+
+  it('counts a finding introduced alongside a fix as new', () => {
+    const previous = {
+      ...historyEntry('2026-01-01T00:00:00Z', ['HIPAA-ENC-001'], 1),
+      fingerprints: { aaaaaaaaaaaaaaaa: 'HIPAA-ENC-001' },
+    };
+    const comparison = { previousScan: previous } as ScanComparison;
+    const findings = [finding({ fingerprint: 'bbbbbbbbbbbbbbbb' })];
+
+    const result = evaluatePolicy({ maxNewCritical: 0 }, { findings, comparison, rootPath: '/repo' });
+
+    expect(result.passed).toBe(false);
+    expect(result.clauses[0]).toMatchObject({ clause: 'maxNewCritical', actual: 1, passed: false });
+  });
+
+  it('fails on a score below the minimum', () => {
+    const result = evaluatePolicy({ minScore: 80 }, { findings: [], complianceScore: score(72) });
+    expect(result.passed).toBe(false);
+    expect(result.clauses[0]).toMatchObject({ description: 'Compliance score ≥ 80', actual: 72 });
+  });
+
+  it('ages unacknowledged findings by the unbroken run of scans reporting them', () => {
+    const history = [
+      historyEntry('2026-03-30T00:00:00Z', ['HIPAA-ENC-001', 'HIPAA-LOG-003']),
+      historyEntry('2026-03-05T00:00:00Z', ['HIPAA-ENC-001', 'HIPAA-LOG-003']),
+      historyEntry('2026-02-01T00:00:00Z', ['HIPAA-ENC-001']),
+    ];
+    const findings = [
+      finding({}),
+      finding({ id: 'HIPAA-LOG-003', severity: 'medium' }),
+      finding({ id: 'HIPAA-NEW-004', severity: 'low' }),
+    ];
+
+    const result = evaluatePolicy(
+      { maxUnacknowledgedAgeDays: 30 },
+      { findings, history, rootPath: '/repo', now: new Date('2026-04-01T00:00:00Z') }
+    );
+
+    expect(result.passed).toBe(false);
+    expect(result.clauses[0]).toMatchObject({
+      actual: 59,
+      details: ['HIPAA-ENC-001 at src/db.ts:1 (59 days)'],
+    });
+  });
+
+  it('validates clauses', () => {
+    expect(validatePolicy({ maxNewCritical: 0, minScore: 80 })).toEqual([]);
+    expect(validatePolicy({ minScore: 120, maxHigh: -1, failOn: 'critical' })).toEqual([
+      'policy.minScore: must be between 0 and 100',
+      'policy.maxHigh: must be a non-negative number',
+      "policy: unknown clause 'failOn' (expected one of maxNewCritical, maxNewHigh, maxCritical, maxHigh, minScore, maxUnacknowledgedAgeDays)",
+    ]);
+  });
+
+  it('loads JSON and YAML policy files', async () => {
+    await mkdir(TEST_DIR, { recursive: true });
+    const json = join(TEST_DIR, 'policy.json');
+    const yaml = join(TEST_DIR, 'policy.yaml');
+    const invalid = join(TEST_DIR, 'invalid.json');
+    await writeFile(json, JSON.stringify({ policy: { maxNewCritical: 0 } }));
+    await writeFile(yaml, 'minScore: 80\nmaxUnacknowledgedAgeDays: 30\n');
+    await writeFile(invalid, JSON.stringify({ minScore: 'high' }));
+
+    expect(await loadPolicyFile(json)).toEqual({ maxNewCritical: 0 });
+    expect(await loadPolicyFile(yaml)).toEqual({ minScore: 80, maxUnacknowledgedAgeDays: 30 });
+    await expect(loadPolicyFile(invalid)).rejects.toThrow(/policy.minScore: must be a non-negative number/);
+    await expect(loadPolicyFile(join(TEST_DIR, 'missing.json'))).rejects.toThrow(/Cannot read policy file/);
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, it, expect, vi, afterEach, beforeAll } from 'vitest';
+import { mkdtemp, writeFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { scan } from '../src/scan.js';
+import { COMPLIANCE_PROFILES, applyProfile, getProfile, parseProfile, resolveProfile } from '../src/profiles.js';
+import { findCatalogRule } from '../src/rules/catalog.js';
+import { formatHipaaRef } from '../src/reporters/finding-presentation.js';
+import type { Finding } from '../src/types.js';
+
+function finding(over: Partial<Finding>): Finding {
+  return {
+    id: 'phi-diagnosis-code-12',
+    category: 'phi-exposure',
+    severity: 'medium',
+    title: 'Diagnosis code in source',
+    description: 'ICD-10 code in source',
+    file: '/repo/src/codes.ts',
+    line: 12,
+    recommendation: 'Load codes from a protected store',
+    ...over,
+  };
+}
+
+// Keep the integration scan deterministic + offline (no AI triage network calls).
+beforeAll(() => {
+  delete process.env.ANTHROPIC_API_KEY;
+  delete process.env.VLAYER_AI_KEY;
+});
+
+describe('Compliance profiles', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('only overrides severities of built-in rules', () => {
+    for (const profile of Object.values(COMPLIANCE_PROFILES)) {
+      for (const ruleId of Object.keys(profile.severityOverrides)) {
+        expect(findCatalogRule(ruleId), `${ruleId} in ${profile.id}`).toBeDefined();
+      }
+    }
+  });
+
+  it('parses --profile values', () => {
+    expect(parseProfile('part2')).toBe('part2');
+    expect(parseProfile('42-CFR-Part-2')).toBe('part2');
+    expect(parseProfile('mhmda')).toBe('wa-mhmda');
+    expect(parseProfile('CMIA')).toBe('cmia');
+    expect(parseProfile('gdpr')).toBeUndefined();
+  });
+
+  it('prefers the CLI profile and warns on an unknown config profile', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    expect(resolveProfile('cmia', 'part2').id).toBe('cmia');
+    expect(resolveProfile(undefined, 'part2').id).toBe('part2');
+    expect(resolveProfile(undefined, 'ccpa').id).toBe('hipaa');
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('unknown profile "ccpa"'));
+  });
+
+  it('re-rates built-in rules and cites the profile law ahead of HIPAA', () => {
+    const [diagnosis, logged, ownRule, custom] = applyProfile([
+      finding({}),
+      finding({ id: 'TAINT-LOGGER', severity: 'high', hipaaReference: '§164.312(b), §164.502(b)' }),
+      finding({ id: 'PART2-SUD-LOG', severity: 'critical', hipaaReference: '42 CFR §2.16 - Security for Records' }),
+      finding({ id: 'custom-audit-check', category: 'audit-logging', severity: 'low' }),
+    ], getProfile('part2'));
+
+    expect(diagnosis).toMatchObject({
+      severity: 'high',
+      hipaaReference: '42 CFR §2.13 - Confidentiality Restrictions and Safeguards',
+    });
+    expect(logged).toMatchObject({
+      severity: 'critical',
+      hipaaReference: '42 CFR §2.13 - Confidentiality Restrictions and Safeguards, §164.312(b), §164.502(b)',
+    });
+    expect(ownRule.hipaaReference).toBe('42 CFR §2.16 - Security for Records');
+    expect(custom).toMatchObject({ severity: 'low', hipaaReference: '42 CFR §2.16 - Security for Records' });
+  });
+
+  it('leaves findings unchanged under the HIPAA profile', () => {
+    const findings = [finding({})];
+    expect(applyProfile(findings, getProfile('hipaa'))).toBe(findings);
+  });
+
+  it('renders profile citations next to HIPAA references', () => {
+    expect(formatHipaaRef('RCW 19.373.030 - Consent to Collect and Share, §164.312(b)'))
+      .toBe('RCW 19.373.030 - Consent to Collect and Share; 45 CFR §164.312(b) — Audit Controls');
+    expect(formatHipaaRef('Cal. Civ. Code §56.10 - Confidentiality of Medical Information'))
+      .toBe('Cal. Civ. Code §56.10 - Confidentiality of Medical Information');
+  });
+
+  it('adds the profile rules to a scan and records the profile', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'vlayer-profile-'));
+    try {
+      await writeFile(join(dir, 'intake.ts'), "export const OUD = 'F11.20';\n");
+
+      const hipaa = await scan({ path: dir, cache: false, enableAI: false });
+      expect(hipaa.profile).toBeUndefined();
+      expect(hipaa.findings.map(f => f.id)).not.toContain('PART2-SUD-DIAGNOSIS');
+
+      const part2 = await scan({ path: dir, cache: false, enableAI: false, profile: 'part2' });
+      expect(part2.profile).toEqual({ id: 'part2', name: '42 CFR Part 2' });
+      expect(part2.findings.find(f => f.id === 'PART2-SUD-DIAGNOSIS')).toMatchObject({
+        severity: 'high',
+        hipaaReference: '42 CFR §2.12 - Applicability',
+      });
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
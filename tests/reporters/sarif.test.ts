@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import { generateSarif } from '../../src/reporters/sarif.js';
+import { RULE_CATALOG } from '../../src/rules/catalog.js';
+import type { Finding, ScanResult } from '../../src/types.js';
+
+const ROOT = '/repo';
+
+function finding(over: Partial<Finding>): Finding {
+  return {
+    id: 'phi-ssn-hardcoded-4',
+    category: 'phi-exposure',
+    severity: 'critical',
+    title: 'Hardcoded SSN',
+    description: 'Social Security Number found in source',
+    file: `${ROOT}/src/patient.ts`,
+    line: 5,
+    recommendation: 'Remove the SSN from source',
+    hipaaReference: '§164.502, §164.514',
+    ...over,
+  };
+}
+
+function result(findings: Finding[]): ScanResult {
+  return {
+    findings,
+    groupedFindings: [],
+    rawFindingsCount: findings.length,
+    scannedFiles: 1,
+    scanDuration: 1,
+  };
+}
+
+describe('generateSarif', () => {
+  it('emits a 2.1.0 log whose driver rules come from the built-in catalog', () => {
+    const log = generateSarif(result([]), ROOT);
+    expect(log.version).toBe('2.1.0');
+    expect(log.runs).toHaveLength(1);
+    const rules = log.runs[0].tool.driver.rules;
+    expect(rules.map(r => r.id)).toEqual(RULE_CATALOG.map(r => r.id));
+    expect(log.runs[0].tool.driver.name).toBe('vlayer');
+  });
+
+  it('maps a dynamic finding id to its catalog rule with level and relative location', () => {
+    const log = generateSarif(result([finding({ column: 12 })]), ROOT);
+    const [res] = log.runs[0].results;
+    expect(res.ruleId).toBe('ssn-hardcoded');
+    expect(log.runs[0].tool.driver.rules[res.ruleIndex].id).toBe('ssn-hardcoded');
+    expect(res.level).toBe('error');
+    expect(res.properties.findingId).toBe('phi-ssn-hardcoded-4');
+    const loc = res.locations![0].physicalLocation;
+    expect(loc.artifactLocation).toEqual({ uri: 'src/patient.ts', uriBaseId: '%SRCROOT%' });
+    expect(loc.region).toMatchObject({ startLine: 5, startColumn: 12 });
+  });
+
+  it('percent-encodes the source root URI and ends it with a slash', () => {
+    expect(generateSarif(result([]), ROOT).runs[0].originalUriBaseIds['%SRCROOT%'].uri).toBe('file:///repo/');
+    expect(generateSarif(result([]), '/work/my repo#2/').runs[0].originalUriBaseIds['%SRCROOT%'].uri)
+      .toBe('file:///work/my%20repo%232/');
+  });
+
+  it('puts recommendation and HIPAA reference in rule help', () => {
+    const log = generateSarif(result([]), ROOT);
+    const rule = log.runs[0].tool.driver.rules.find(r => r.id === 'enc-md5')!;
+    expect(rule.help.text).toContain('AES-256-GCM');
+    expect(rule.help.text).toContain('HIPAA reference: §164.312(a)(2)(iv)');
+  });
+
+  it('synthesizes a rule descriptor for findings outside the catalog', () => {
+    const custom = finding({ id: 'ACME-EHR-001', title: 'EHR SDK misuse', severity: 'medium' });
+    const log = generateSarif(result([custom]), ROOT);
+    const [res] = log.runs[0].results;
+    const rules = log.runs[0].tool.driver.rules;
+    expect(res.ruleId).toBe('ACME-EHR-001');
+    expect(res.level).toBe('warning');
+    expect(rules[res.ruleIndex]).toMatchObject({ id: 'ACME-EHR-001', name: 'EHR SDK misuse' });
+    expect(rules).toHaveLength(RULE_CATALOG.length + 1);
+  });
+
+  it('represents suppressed, acknowledged and baseline findings instead of dropping them', () => {
+    const findings = [
+      finding({ line: 1, suppressed: true, suppression: { reason: 'test fixture', comment: '// vlayer-ignore *' } }),
+      finding({
+        line: 2,
+        acknowledged: true,
+        acknowledgment: { reason: 'accepted', acknowledgedBy: 'Security', acknowledgedAt: '2026-01-01' },
+      }),
+      finding({ line: 3, isBaseline: true }),
+      finding({
+        line: 4,
+        acknowledged: true,
+        acknowledgment: { reason: 'old', acknowledgedBy: 'Security', acknowledgedAt: '2025-01-01', expired: true },
+      }),
+    ];
+    const [inline, acked, baselined, expired] = generateSarif(result(findings), ROOT).runs[0].results;
+
+    expect(inline.suppressions).toEqual([{ kind: 'inSource', status: 'accepted', justification: 'test fixture' }]);
+    expect(acked.suppressions?.[0].kind).toBe('external');
+    expect(acked.suppressions?.[0].justification).toContain('accepted');
+    expect(baselined.baselineState).toBe('unchanged');
+    expect(baselined.suppressions).toBeUndefined();
+    expect(expired.suppressions).toBeUndefined();
+    expect(inline.baselineState).toBe('new');
+  });
+
+  it('omits physical locations for project-level findings', () => {
+    const log = generateSarif(result([finding({ id: 'audit-no-framework', file: 'project-level', line: undefined })]), ROOT);
+    const [res] = log.runs[0].results;
+    expect(res.ruleId).toBe('audit-no-framework');
+    expect(res.locations).toBeUndefined();
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { loadCustomRules, scanWithCustomRules, validateRulesFile } from '../../src/rules/index.js';
+
+const RULE = `
+version: "1.0"
+rules:
+  - id: phi-fetch-unencrypted
+    name: PHI sent to an external host unencrypted
+    description: fetch to an external host near PHI fields without encryption
+    category: encryption
+    severity: high
+    pattern: 'fetch\\(\\s*[''"\`]https://(?!internal\\.)'
+    recommendation: Encrypt PHI before it leaves the network
+    conditions:
+      all:
+        - pattern: '\\b(ssn|mrn|diagnosis)\\b'
+          within: 3
+        - not:
+            pattern: 'encrypt\\('
+            within: 3
+        - any:
+            - same-file-contains: '\\.\\./phi'
+            - same-file-contains: '@phi'
+`;
+
+const SOURCE = `import { Patient } from '../phi';
+
+export async function sync(patient: Patient) {
+  const body = { ssn: patient.ssn };
+  return fetch('https://partner.example.com/sync', { body });
+}
+
+export async function syncEncrypted(patient: Patient) {
+  const body = encrypt({ mrn: patient.mrn });
+  return fetch('https://partner.example.com/sync', { body });
+}
+
+export async function ping() {
+  return fetch('https://partner.example.com/ping');
+}
+
+export async function local(patient: Patient) {
+  const body = { ssn: patient.ssn };
+  return fetch('https://internal.example.com/sync', { body });
+}
+`;
+
+describe('Composite custom rules', () => {
+  let dir = '';
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'vlayer-composite-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  async function scanWith(rules: string, files: Record<string, string>) {
+    await writeFile(join(dir, 'rules.yaml'), rules);
+    for (const [name, content] of Object.entries(files)) {
+      await writeFile(join(dir, name), content);
+    }
+    const { rules: compiled, errors } = await loadCustomRules(dir, 'rules.yaml');
+    expect(errors).toEqual([]);
+    const paths = Object.keys(files).map(name => join(dir, name));
+    return scanWithCustomRules(paths, { path: dir }, compiled);
+  }
+
+  it('reports matches that meet the condition tree', async () => {
+    const findings = await scanWith(RULE, { 'sync.ts': SOURCE });
+    expect(findings.map(f => f.line)).toEqual([5]);
+  });
+
+  it('checks same-file-contains against the whole file', async () => {
+    const findings = await scanWith(RULE, { 'sync.ts': SOURCE.replace("from '../phi'", "from '../models'") });
+    expect(findings).toEqual([]);
+  });
+
+  it('rejects malformed condition trees', async () => {
+    const file = join(dir, 'bad.yaml');
+    await writeFile(file, RULE.replace(
+      /conditions:[\s\S]*$/,
+      [
+        'conditions:',
+        '      all:',
+        "        - pattern: 'ssn'",
+        "          same-file-contains: 'phi'",
+        '        - not:',
+        "            same-file-contains: 'enc('",
+        '            within: 2',
+        '',
+      ].join('\n'),
+    ));
+
+    const result = await validateRulesFile(file);
+    expect(result.valid).toBe(false);
+    const details = result.errors.map(e => e.details).join('\n');
+    expect(details).toContain('rules.0.conditions.all.0: A condition needs exactly one of all, any, not, pattern, same-file-contains (found pattern, same-file-contains)');
+    expect(details).toContain('rules.0.conditions.all.1.not.same-file-contains: Invalid regular expression');
+    expect(details).toContain('rules.0.conditions.all.1.not.within: within applies to pattern conditions');
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import {
+  HIPAA_SECURITY_CONTROLS,
+  buildControlCoverage,
+  getFindingControls,
+  parseControlCitations,
+} from '../../src/rules/controls.js';
+import { RULE_CATALOG } from '../../src/rules/catalog.js';
+import type { Finding } from '../../src/types.js';
+
+function finding(over: Partial<Finding>): Finding {
+  return {
+    id: 'custom-finding',
+    category: 'encryption',
+    severity: 'high',
+    title: 'Unencrypted PHI column',
+    description: 'PHI stored in plaintext',
+    file: '/repo/src/db.ts',
+    line: 12,
+    recommendation: 'Encrypt the column',
+    ...over,
+  };
+}
+
+describe('HIPAA Security Rule controls', () => {
+  it('lists every standard and implementation specification once', () => {
+    const ids = HIPAA_SECURITY_CONTROLS.map(c => c.id);
+    expect(new Set(ids).size).toBe(ids.length);
+    expect(ids.filter(id => id.startsWith('164.308'))).toHaveLength(30);
+    expect(ids.filter(id => id.startsWith('164.310'))).toHaveLength(12);
+    expect(ids.filter(id => id.startsWith('164.312'))).toHaveLength(12);
+    expect(ids.filter(id => id.startsWith('164.316'))).toHaveLength(5);
+
+    const controls = new Map(HIPAA_SECURITY_CONTROLS.map(c => [c.id, c]));
+    expect(controls.get('164.312(a)(2)(iv)')).toMatchObject({ requirement: 'addressable', standard: '164.312(a)(1)' });
+    expect(controls.get('164.308(a)(1)(ii)(A)')).toMatchObject({ requirement: 'required' });
+    for (const control of HIPAA_SECURITY_CONTROLS.filter(c => c.standard)) {
+      expect(controls.get(control.standard!)?.kind).toBe('standard');
+    }
+  });
+
+  it('resolves citations to listed controls and ignores proposed and Privacy Rule sections', () => {
+    expect(parseControlCitations('45 CFR §164.312(a)(2)(iv) - Encryption (Required)')).toEqual(['164.312(a)(2)(iv)']);
+    expect(parseControlCitations('45 CFR §164.312(c) - Integrity Controls')).toEqual(['164.312(c)(1)']);
+    expect(parseControlCitations('§164.312(b), §164.502(b)')).toEqual(['164.312(b)']);
+    expect(parseControlCitations('§164.502(a), §164.504(e)')).toEqual([]);
+    expect(parseControlCitations('NPRM §164.312(d) - Person or Entity Authentication')).toBeNull();
+  });
+
+  it('falls back to the category when a finding cites no Security Rule section', () => {
+    expect(getFindingControls(finding({ hipaaReference: '§164.312(e)(1)' }))).toEqual(['164.312(e)(1)']);
+    expect(getFindingControls(finding({}))).toEqual(['164.312(a)(2)(iv)', '164.312(e)(2)(ii)']);
+    expect(getFindingControls(finding({ hipaaReference: 'NPRM Anti-malware' }))).toEqual([]);
+  });
+
+  it('marks controls pass, fail or not assessed from the findings', () => {
+    const matrix = buildControlCoverage([
+      finding({ hipaaReference: '§164.312(b)' }),
+      finding({ hipaaReference: '§164.312(e)(1)', isBaseline: true }),
+    ]);
+    const status = new Map(matrix.controls.map(c => [c.id, c]));
+
+    expect(status.get('164.312(b)')).toMatchObject({
+      status: 'fail',
+      findings: [{ id: 'custom-finding', file: '/repo/src/db.ts', line: 12 }],
+    });
+    expect(status.get('164.312(b)')!.rules).toContain('custom-finding');
+    // Baselined findings are accepted risk, not failures
+    expect(status.get('164.312(e)(1)')!.status).toBe('pass');
+    expect(status.get('164.310(a)(1)')).toMatchObject({ status: 'not-assessed', rules: [] });
+    expect(matrix.summary).toMatchObject({ total: 59, fail: 1 });
+    expect(matrix.summary.pass + matrix.summary.fail + matrix.summary['not-assessed']).toBe(59);
+  });
+
+  it('only counts rules of the scanners that ran, and passes nothing in a diff scan', () => {
+    const full = buildControlCoverage([]);
+    const auditOnly = buildControlCoverage([], { scanners: ['audit'] });
+    const auditRules = new Set(RULE_CATALOG.filter(r => r.scanner === 'audit').map(r => r.id));
+
+    expect(auditOnly.summary.pass).toBeGreaterThan(0);
+    expect(auditOnly.summary.pass).toBeLessThan(full.summary.pass);
+    expect(auditOnly.controls.flatMap(c => c.rules).every(id => auditRules.has(id))).toBe(true);
+
+    const diff = buildControlCoverage([finding({ hipaaReference: '§164.312(b)' })], { partial: true });
+    expect(diff.summary).toMatchObject({ pass: 0, fail: 1, 'not-assessed': 58 });
+  });
+});
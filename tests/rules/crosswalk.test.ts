@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { RULE_CATALOG } from '../../src/rules/catalog.js';
+import {
+  CROSSWALK_FRAMEWORKS,
+  FRAMEWORK_CONTROLS,
+  buildFrameworkReport,
+  getFindingFrameworkControls,
+  getRuleFrameworkControls,
+  parseCrosswalkFramework,
+} from '../../src/rules/crosswalk.js';
+import type { Finding } from '../../src/types.js';
+
+function finding(over: Partial<Finding>): Finding {
+  return {
+    id: 'enc-md5-12',
+    category: 'encryption',
+    severity: 'high',
+    title: 'MD5 hash function',
+    description: 'MD5 used to hash PHI',
+    file: '/repo/src/hash.ts',
+    line: 12,
+    recommendation: 'Use SHA-256',
+    ...over,
+  };
+}
+
+describe('Framework crosswalk', () => {
+  it('maps every built-in rule to named controls in each framework', () => {
+    for (const framework of CROSSWALK_FRAMEWORKS) {
+      for (const rule of RULE_CATALOG) {
+        const controls = getRuleFrameworkControls(rule, framework);
+        expect(controls.length, `${rule.id} in ${framework}`).toBeGreaterThan(0);
+        for (const control of controls) {
+          expect(FRAMEWORK_CONTROLS[framework][control], `${control} in ${framework}`).toBeDefined();
+        }
+      }
+    }
+  });
+
+  it('parses --framework values', () => {
+    expect(parseCrosswalkFramework('nist')).toBe('nist-800-53');
+    expect(parseCrosswalkFramework('SOC2')).toBe('soc2');
+    expect(parseCrosswalkFramework('hitrust')).toBe('hitrust');
+    expect(parseCrosswalkFramework('iso27001')).toBeUndefined();
+  });
+
+  it('maps findings through their rule, or their category for custom rules', () => {
+    expect(getFindingFrameworkControls(finding({}), 'nist-800-53')).toEqual(['SC-13']);
+    expect(getFindingFrameworkControls(finding({ id: 'custom-vault-check' }), 'nist-800-53')).toEqual(['SC-28', 'SC-13']);
+    expect(getFindingFrameworkControls(finding({ id: 'phi-console-log-3', category: 'phi-exposure' }), 'soc2'))
+      .toEqual(['C1.1', 'CC6.1']);
+  });
+
+  it('regroups findings and scores by framework control', () => {
+    const report = buildFrameworkReport([
+      finding({}),
+      finding({ id: 'enc-sha1-30', severity: 'medium', acknowledged: true }),
+      finding({ id: 'enc-des-4', severity: 'critical', suppressed: true }),
+    ], 'nist-800-53');
+
+    const sc13 = report.controls.find(c => c.id === 'SC-13')!;
+    // high (5) + acknowledged medium (2 × 0.25); suppressed findings do not count
+    expect(sc13).toMatchObject({ name: 'Cryptographic Protection', status: 'fail', score: 95 });
+    expect(sc13.findings.map(f => f.id)).toEqual(['enc-md5-12', 'enc-sha1-30']);
+    expect(sc13.rules).toContain('enc-md5');
+    expect(report.controls.find(c => c.id === 'AU-2')).toMatchObject({ status: 'pass', score: 100 });
+    expect(report.name).toBe('NIST SP 800-53 Rev. 5');
+    expect(report.summary).toMatchObject({ fail: 1, pass: report.controls.length - 1, 'not-assessed': 0 });
+  });
+
+  it('only scores controls covered by scanners that ran, and passes nothing in a diff scan', () => {
+    const report = buildFrameworkReport([finding({})], 'nist-800-53', { scanners: ['encryption'] });
+
+    expect(report.controls.find(c => c.id === 'SC-13')).toMatchObject({ status: 'fail', score: 95 });
+    const au2 = report.controls.find(c => c.id === 'AU-2')!;
+    expect(au2.status).toBe('not-assessed');
+    expect(au2.score).toBeUndefined();
+    expect(au2.rules).toEqual([]);
+
+    const diff = buildFrameworkReport([finding({})], 'nist-800-53', { partial: true });
+    expect(diff.summary).toMatchObject({ fail: 1, pass: 0, 'not-assessed': diff.controls.length - 1 });
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtemp, writeFile, rm, access } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { scan } from '../src/scan.js';
+import { computeRuleSetFingerprint, SCAN_CACHE_FILE } from '../src/scan-cache.js';
+import { DEFAULT_CONFIG } from '../src/config.js';
+import type { CompiledCustomRule, Finding } from '../src/types.js';
+
+// Keep the integration scan deterministic + offline (no AI triage network calls).
+beforeAll(() => {
+  delete process.env.ANTHROPIC_API_KEY;
+  delete process.env.VLAYER_AI_KEY;
+});
+
+const dirs: string[] = [];
+async function tempDir(): Promise<string> {
+  const d = await mkdtemp(join(tmpdir(), 'vlayer-cache-'));
+  dirs.push(d);
+  return d;
+}
+afterAll(async () => {
+  await Promise.all(dirs.map(d => rm(d, { recursive: true, force: true })));
+});
+
+function keys(findings: Finding[]): string[] {
+  return findings.map(f => `${f.id}|${f.file}|${f.line}`).sort();
+}
+
+describe('incremental scan cache', () => {
+  it('reuses findings for unchanged files on the next scan', async () => {
+    const dir = await tempDir();
+    await writeFile(join(dir, 'a.ts'), 'console.log(patient.ssn);\n');
+    await writeFile(join(dir, 'b.ts'), 'const url = "http://api.partner.io/records";\n');
+
+    const first = await scan({ path: dir, enableAI: false });
+    expect(first.cache).toEqual({ hits: 0, misses: 2 });
+    await access(join(dir, SCAN_CACHE_FILE));
+
+    const second = await scan({ path: dir, enableAI: false });
+    expect(second.cache).toEqual({ hits: 2, misses: 0 });
+    expect(keys(second.findings)).toEqual(keys(first.findings));
+    // Cached findings are stored relative to the root and restored to absolute paths.
+    expect(second.findings.some(f => f.file === join(dir, 'a.ts'))).toBe(true);
+  });
+
+  it('rescans only files whose content changed', async () => {
+    const dir = await tempDir();
+    await writeFile(join(dir, 'a.ts'), 'const ok = 1;\n');
+    await writeFile(join(dir, 'b.ts'), 'const alsoOk = 2;\n');
+    await scan({ path: dir, enableAI: false });
+
+    await writeFile(join(dir, 'a.ts'), 'console.log(patient.ssn);\n');
+    const result = await scan({ path: dir, enableAI: false });
+
+    expect(result.cache).toEqual({ hits: 1, misses: 1 });
+    expect(result.findings.some(f => f.file === join(dir, 'a.ts'))).toBe(true);
+  });
+
+  it('is bypassed entirely with cache: false', async () => {
+    const dir = await tempDir();
+    await writeFile(join(dir, 'a.ts'), 'console.log(patient.ssn);\n');
+
+    const result = await scan({ path: dir, enableAI: false, cache: false });
+    expect(result.cache).toBeUndefined();
+    await expect(access(join(dir, SCAN_CACHE_FILE))).rejects.toThrow();
+  });
+});
+
+describe('computeRuleSetFingerprint', () => {
+  const rule = {
+    id: 'ACME-001',
+    name: 'Acme',
+    description: 'd',
+    category: 'phi-exposure',
+    severity: 'high',
+    pattern: 'acmeSdk\\.send',
+    recommendation: 'r',
+    compiledPattern: /acmeSdk\.send/gi,
+  } as CompiledCustomRule;
+
+  it('changes when custom rules, categories, scanners or scanner config change', () => {
+    const base = computeRuleSetFingerprint({ categories: ['phi-exposure'], scannerIds: ['phi'], customRules: [], config: DEFAULT_CONFIG });
+
+    expect(computeRuleSetFingerprint({ categories: ['phi-exposure'], scannerIds: ['phi'], customRules: [], config: DEFAULT_CONFIG })).toBe(base);
+    expect(computeRuleSetFingerprint({ categories: ['phi-exposure'], scannerIds: ['phi'], customRules: [rule], config: DEFAULT_CONFIG })).not.toBe(base);
+    expect(computeRuleSetFingerprint({ categories: ['encryption'], scannerIds: ['phi'], customRules: [], config: DEFAULT_CONFIG })).not.toBe(base);
+    expect(computeRuleSetFingerprint({ categories: ['phi-exposure'], scannerIds: ['phi', 'errors'], customRules: [], config: DEFAULT_CONFIG })).not.toBe(base);
+    expect(computeRuleSetFingerprint({
+      categories: ['phi-exposure'],
+      scannerIds: ['phi'],
+      customRules: [],
+      config: { ...DEFAULT_CONFIG, contextLines: 5 },
+    })).not.toBe(base);
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { SCANNER_REGISTRY, getScanner, resolveScanners } from '../../src/scanners/registry.js';
+import { RULE_CATALOG } from '../../src/rules/catalog.js';
+import { DEFAULT_CONFIG } from '../../src/config.js';
+import type { ComplianceCategory } from '../../src/types.js';
+
+const ALL: ComplianceCategory[] = ['phi-exposure', 'encryption', 'audit-logging', 'access-control', 'data-retention'];
+
+function ids(categories: ComplianceCategory[], extra: Partial<Parameters<typeof resolveScanners>[0]> = {}): string[] {
+  return resolveScanners({ categories, ...extra }).map(s => s.id);
+}
+
+describe('scanner registry', () => {
+  it('registers every scanner the rule catalog attributes rules to', () => {
+    const catalogScanners = new Set(RULE_CATALOG.filter(r => r.source === 'pattern').map(r => r.scanner));
+    for (const id of catalogScanners) {
+      expect(getScanner(id), id).toBeDefined();
+    }
+    for (const scanner of SCANNER_REGISTRY) {
+      expect(scanner.fileTypes.length, scanner.id).toBeGreaterThan(0);
+    }
+  });
+
+  it('runs a scanner once even when several of its categories are selected', () => {
+    const selected = ids(['phi-exposure', 'audit-logging']);
+    expect(selected.filter(id => id === 'errors')).toHaveLength(1);
+    expect(ids(['phi-exposure'])).toEqual(['phi', 'taint', 'errors', 'privacy']);
+  });
+
+  it('runs every scanner by default', () => {
+    expect(ids(ALL)).toEqual(SCANNER_REGISTRY.map(s => s.id));
+  });
+
+  it('applies config, then --scanners, then --skip-scanners', () => {
+    const config = { ...DEFAULT_CONFIG, scanners: { skills: false } };
+    expect(ids(ALL, { config })).not.toContain('skills');
+    expect(ids(ALL, { config, only: ['skills', 'phi'] })).toEqual(['phi', 'skills']);
+    expect(ids(ALL, { only: ['phi', 'credentials'], skip: ['credentials'] })).toEqual(['phi']);
+    // Category selection still applies to explicitly requested scanners
+    expect(ids(['encryption'], { only: ['phi', 'credentials'] })).toEqual(['credentials']);
+  });
+
+  it('rejects unknown scanner ids on the command line', () => {
+    expect(() => ids(ALL, { only: ['nope'] })).toThrow(/Unknown scanner id\(s\) in --scanners: nope/);
+    expect(() => ids(ALL, { skip: ['nope'] })).toThrow(/--skip-scanners/);
+  });
+});
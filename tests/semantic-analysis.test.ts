@@ -150,6 +150,84 @@ export function Component() {
     });
   });
 
+  describe('Python, Java, Go, Ruby and PHP', () => {
+    it('should detect comments in each language', async () => {
+      const cases: Array<[string, string, number]> = [
+        ['comment.py', 'x = 1\n# SSN: 123-45-6789\n', 2],
+        ['Comment.java', 'int x = 1;\n/*\n * SSN: 123-45-6789\n */\n', 3],
+        ['comment.go', 'x := 1 // SSN: 123-45-6789\n', 1],
+        ['comment.rb', 'x = 1\n=begin\nSSN: 123-45-6789\n=end\n', 3],
+        ['comment.php', '<?php\n# SSN: 123-45-6789\n', 2],
+      ];
+
+      for (const [name, content, line] of cases) {
+        const context = await analyzeSemanticContext(await createTestFile(name, content), line);
+        expect(context.context, name).toBe('comment');
+        expect(context.confidence, name).toBe('low');
+      }
+    });
+
+    it('should detect string literals, including multi-line ones', async () => {
+      const file = await createTestFile('strings.py', `
+EXAMPLE = """
+Patient SSN: 123-45-6789
+"""
+name = 'O\\'Brien'; ssn = lookup(name)
+`);
+
+      expect((await analyzeSemanticContext(file, 3)).context).toBe('string');
+      // The escaped quote does not end the literal early
+      expect((await analyzeSemanticContext(file, 5, "Brien'")).context).toBe('string');
+      expect((await analyzeSemanticContext(file, 5, 'lookup')).context).toBe('code');
+    });
+
+    it('should treat interpolating literals as templates', async () => {
+      const py = await createTestFile('template.py', 'msg = f"patient {patient.ssn}"\n');
+      const rb = await createTestFile('template.rb', 'msg = "patient #{patient.ssn}"\n');
+      const go = await createTestFile('raw.go', 'msg := `patient ${ssn}`\n');
+
+      expect((await analyzeSemanticContext(py, 1)).context).toBe('template');
+      expect((await analyzeSemanticContext(rb, 1)).context).toBe('template');
+      expect((await analyzeSemanticContext(go, 1)).context).toBe('string');
+    });
+
+    it('should report executable code as high confidence', async () => {
+      const file = await createTestFile('Service.java', `
+public class Service {
+  String ssn = patient.getSsn();
+}
+`);
+
+      const context = await analyzeSemanticContext(file, 3);
+      expect(context.context).toBe('code');
+      expect(context.confidence).toBe('high');
+    });
+
+    it('should only report a string context when the pattern is inside the literal', async () => {
+      const file = await createTestFile('pattern.rb', 'logger.info("loaded", patient.ssn)\n');
+
+      expect((await analyzeSemanticContext(file, 1, 'patient.ssn')).context).toBe('code');
+      expect((await analyzeSemanticContext(file, 1, 'loaded')).context).toBe('string');
+    });
+
+    it('should detect test files by language convention', async () => {
+      await mkdir(join(TEST_DIR, 'src', 'test'), { recursive: true });
+      const files = [
+        await createTestFile('test_views.py', 'x = 1\n'),
+        await createTestFile('handler_test.go', 'x := 1\n'),
+        await createTestFile('patient_spec.rb', 'x = 1\n'),
+        await createTestFile('PatientTest.php', '<?php $x = 1;\n'),
+        await createTestFile(join('src', 'test', 'PatientService.java'), 'int x = 1;\n'),
+      ];
+
+      for (const file of files) {
+        const context = await analyzeSemanticContext(file, 1);
+        expect(context.inTestFile, file).toBe(true);
+        expect(context.confidence, file).toBe('low');
+      }
+    });
+  });
+
   // Cleanup
   afterAll(async () => {
     try {
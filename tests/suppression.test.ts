@@ -0,0 +1,138 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  addSuppressionComment,
+  applyInlineSuppressions,
+  findUnusedSuppressions,
+  parseSuppressionDirectives,
+} from '../src/suppression.js';
+import type { Finding } from '../src/types.js';
+
+function finding(overrides: Partial<Finding>): Finding {
+  return {
+    id: 'phi-ssn-hardcoded-2',
+    category: 'phi-exposure',
+    severity: 'high',
+    title: 'Hardcoded SSN',
+    description: 'SSN literal in source',
+    file: '/repo/app.py',
+    line: 2,
+    recommendation: 'Load test data from fixtures',
+    ...overrides,
+  };
+}
+
+const now = new Date('2026-06-01T00:00:00Z');
+
+describe('Inline suppressions', () => {
+  let dir = '';
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'vlayer-suppression-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('reads directives in each language\'s comment syntax', () => {
+    const directive = (file: string, content: string) => parseSuppressionDirectives(file, content)[0];
+
+    expect(directive('app.py', '# vlayer-ignore-next-line phi-ssn-hardcoded -- fixture\nssn = "123-45-6789"\n'))
+      .toMatchObject({ kind: 'next-line', rulePattern: 'phi-ssn-hardcoded', reason: 'fixture', startLine: 2, endLine: 2 });
+    expect(directive('schema.sql', "SELECT ssn FROM patients; -- vlayer-ignore phi-* -- reporting view\n"))
+      .toMatchObject({ kind: 'ignore', rulePattern: 'phi-*', reason: 'reporting view', startLine: 1 });
+    expect(directive('index.html', '<!-- vlayer-ignore-file http-url -- local preview only -->\n'))
+      .toMatchObject({ kind: 'file', rulePattern: 'http-url', reason: 'local preview only', comment: 'vlayer-ignore-file http-url -- local preview only' });
+    expect(directive('main.go', '/* vlayer-ignore weak-cipher expires=2026-12-31 -- legacy client */'))
+      .toMatchObject({ rulePattern: 'weak-cipher', expires: '2026-12-31', reason: 'legacy client' });
+
+    // Wrong comment syntax for the language, or not a directive at all
+    expect(parseSuppressionDirectives('app.py', '// vlayer-ignore * -- nope\n')).toEqual([]);
+    expect(parseSuppressionDirectives('a.ts', '// vlayer-ignored here\n')).toEqual([]);
+    expect(parseSuppressionDirectives('data.json', '{"note": "// vlayer-ignore * -- x"}')).toEqual([]);
+  });
+
+  it('closes blocks at the matching end directive or the end of the file', () => {
+    const content = [
+      '// vlayer-ignore-start phi-* -- seed data',
+      'a',
+      '// vlayer-ignore-start http-url -- local docs',
+      'b',
+      '// vlayer-ignore-end phi-*',
+      'c',
+      'd',
+    ].join('\n');
+    const [phi, http] = parseSuppressionDirectives('seed.ts', content);
+    expect([phi.startLine, phi.endLine]).toEqual([2, 4]);
+    expect([http.startLine, http.endLine]).toEqual([4, 7]);
+  });
+
+  it('suppresses covered findings with a reason until the directive expires', async () => {
+    const file = join(dir, 'seed.py');
+    await writeFile(file, [
+      '# vlayer-ignore-start phi-ssn-hardcoded expires=2026-12-31 -- seed data',
+      'ssn = "123-45-6789"',
+      '# vlayer-ignore-end',
+      'ssn = "123-45-6789"  # vlayer-ignore phi-ssn-hardcoded expires=2026-01-31 -- lapsed',
+      '# vlayer-ignore-next-line phi-ssn-hardcoded',
+      'ssn = "123-45-6789"',
+    ].join('\n'));
+
+    const [block, expired, noReason] = await applyInlineSuppressions([
+      finding({ file, line: 2 }),
+      finding({ file, line: 4, id: 'phi-ssn-hardcoded-4' }),
+      finding({ file, line: 6, id: 'phi-ssn-hardcoded-6' }),
+    ], now);
+    expect(block.suppressed).toBe(true);
+    expect(block.suppression).toEqual({
+      reason: 'seed data',
+      comment: 'vlayer-ignore-start phi-ssn-hardcoded expires=2026-12-31 -- seed data',
+      expires: '2026-12-31',
+    });
+    expect(expired.suppressed).toBeUndefined();
+    expect(noReason.suppressed).toBeUndefined();
+  });
+
+  it('keeps a directive through the whole of its expiry date', async () => {
+    const file = join(dir, 'seed.py');
+    await writeFile(file, 'ssn = "123-45-6789"  # vlayer-ignore phi-ssn-hardcoded expires=2026-06-01 -- seed data\n');
+
+    const lastDay = await applyInlineSuppressions([finding({ file, line: 1 })], new Date('2026-06-01T23:59:00Z'));
+    const dayAfter = await applyInlineSuppressions([finding({ file, line: 1 })], new Date('2026-06-02T00:00:00Z'));
+    expect(lastDay[0].suppressed).toBe(true);
+    expect(dayAfter[0].suppressed).toBeUndefined();
+  });
+
+  it('reports directives no finding matches', async () => {
+    const file = join(dir, 'app.py');
+    await writeFile(file, [
+      '# vlayer-ignore-file phi-ssn-hardcoded -- fixtures',
+      '# vlayer-ignore-next-line http-url -- fixed since',
+      'url = "https://example.com"',
+      'ssn = "123-45-6789"',
+    ].join('\n'));
+    await writeFile(join(dir, 'clean.py'), 'x = 1\n');
+
+    const unused = await findUnusedSuppressions(
+      [file, join(dir, 'clean.py')],
+      [finding({ file, line: 4, id: 'phi-ssn-hardcoded-4' })],
+    );
+    expect(unused).toEqual([
+      { file, line: 2, rulePattern: 'http-url', comment: 'vlayer-ignore-next-line http-url -- fixed since' },
+    ]);
+  });
+
+  it('writes suppression comments in the file\'s comment syntax', async () => {
+    const file = join(dir, 'app.py');
+    await writeFile(file, 'def load():\n    ssn = "123-45-6789"\n');
+    const comment = await addSuppressionComment(finding({ file }), 'fixture data');
+    expect(comment).toBe('# vlayer-ignore phi-ssn-hardcoded-2 -- fixture data');
+    expect(await readFile(file, 'utf-8')).toContain('    # vlayer-ignore phi-ssn-hardcoded-2 -- fixture data\n    ssn');
+
+    const [suppressed] = await applyInlineSuppressions([finding({ file, line: 3 })], now);
+    expect(suppressed.suppressed).toBe(true);
+  });
+});
@@ -0,0 +1,153 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import type { Finding, ScanResult } from '../src/types.js';
+
+const answers: Array<Record<string, unknown>> = [];
+
+vi.mock('inquirer', () => ({
+  default: {
+    prompt: vi.fn(async () => {
+      const next = answers.shift();
+      if (!next) throw new Error('Unexpected prompt');
+      return next;
+    }),
+  },
+}));
+
+const { runTriage, openFindings } = await import('../src/triage/index.js');
+const { ruleFamily } = await import('../src/fingerprint.js');
+const { addAcknowledgment, loadAcknowledgments } = await import('../src/acknowledgments.js');
+const { addSuppressionComment } = await import('../src/suppression.js');
+const { addToBaseline, loadBaseline } = await import('../src/baseline.js');
+const { loadAuditTrail } = await import('../src/audit/index.js');
+
+function finding(overrides: Partial<Finding>): Finding {
+  return {
+    id: 'http-url',
+    category: 'encryption',
+    severity: 'high',
+    title: 'Insecure HTTP URL',
+    description: 'Plain HTTP',
+    file: '',
+    line: 1,
+    recommendation: 'Use HTTPS',
+    ...overrides,
+  };
+}
+
+function scanResult(findings: Finding[]): ScanResult {
+  return { findings } as ScanResult;
+}
+
+describe('Triage', () => {
+  let dir = '';
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'vlayer-triage-'));
+    answers.length = 0;
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('applies decisions and tracks lines moved by earlier edits', async () => {
+    const app = join(dir, 'app.ts');
+    const other = join(dir, 'other.ts');
+    await writeFile(app, '  const a = "http://a.example.com";\nconst b = "http://b.example.com";\n');
+    await writeFile(other, 'console.log(patient.ssn);\n');
+    const acknowledgmentsPath = join(dir, '.vlayer', 'acknowledgments.yaml');
+
+    answers.push(
+      { action: 'suppress' }, { reason: 'fixture data' },
+      { action: 'fix' }, { confirm: true },
+      { action: 'acknowledge' },
+      { scope: 'file', reason: 'Logs are scrubbed', ticketUrl: 'https://jira/SEC-1', expiresAt: '', acknowledgedBy: 'dev@example.com' },
+    );
+
+    const summary = await runTriage(scanResult([
+      finding({ file: app, line: 1 }),
+      finding({ file: app, line: 2, fixType: 'http-url' }),
+      finding({ id: 'phi-log-0', severity: 'medium', title: 'PHI in logs', file: other, line: 1 }),
+      finding({ file: app, line: 2, suppressed: true }),
+    ]), { rootPath: dir, acknowledgmentsPath, baselinePath: join(dir, '.vlayer-baseline.json') });
+
+    expect(summary).toEqual({ acknowledged: 1, suppressed: 1, fixed: 1, baselined: 0, skipped: 0 });
+    expect(answers).toHaveLength(0);
+    expect(await readFile(app, 'utf-8')).toBe(
+      '  // vlayer-ignore http-url -- fixture data\n  const a = "http://a.example.com";\nconst b = "https://b.example.com";\n'
+    );
+
+    const acknowledgments = await loadAcknowledgments(acknowledgmentsPath);
+    expect(acknowledgments).toEqual([expect.objectContaining({
+      pattern: '**/other.ts',
+      id: 'phi-log',
+      reason: 'Logs are scrubbed',
+      acknowledgedBy: 'dev@example.com',
+      ticketUrl: 'https://jira/SEC-1',
+    })]);
+    expect(acknowledgments[0].expiresAt).toBeUndefined();
+
+    const trail = await loadAuditTrail(dir);
+    expect(trail?.evidence).toHaveLength(1);
+    expect(trail?.autoFixedCount).toBe(1);
+  });
+
+  it('baselines findings and stops on quit', async () => {
+    const app = join(dir, 'app.ts');
+    await writeFile(app, 'const a = 1;\nconst b = 2;\n');
+    const baselinePath = join(dir, '.vlayer-baseline.json');
+
+    answers.push({ action: 'baseline' }, { action: 'quit' });
+    const summary = await runTriage(scanResult([
+      finding({ file: app, line: 1 }),
+      finding({ file: app, line: 2 }),
+      finding({ severity: 'low', title: 'Other', file: app, line: 2 }),
+    ]), { rootPath: dir, acknowledgmentsPath: join(dir, '.vlayer', 'acknowledgments.yaml'), baselinePath });
+
+    expect(summary).toMatchObject({ baselined: 1, skipped: 2 });
+    expect((await loadBaseline(baselinePath))?.findings.map(f => f.line)).toEqual([1]);
+  });
+
+  it('excludes suppressed, acknowledged and baselined findings', () => {
+    const expiredAck = { reason: 'r', acknowledgedBy: 'a', acknowledgedAt: '2020-01-01', expired: true };
+    const open = openFindings([
+      finding({ line: 1 }),
+      finding({ line: 2, suppressed: true }),
+      finding({ line: 3, acknowledged: true, acknowledgment: { ...expiredAck, expired: false } }),
+      finding({ line: 4, acknowledged: true, acknowledgment: expiredAck }),
+      finding({ line: 5, isBaseline: true }),
+    ]);
+    expect(open.map(f => f.line)).toEqual([1, 4]);
+  });
+
+  it('strips line suffixes from dynamic rule ids only', () => {
+    expect(ruleFamily('phi-ssn-hardcoded-42')).toBe('phi-ssn-hardcoded');
+    expect(ruleFamily('HIPAA-ENC-001')).toBe('HIPAA-ENC-001');
+  });
+
+  it('rejects invalid acknowledgments', async () => {
+    const acknowledgmentsPath = join(dir, '.vlayer', 'acknowledgments.yaml');
+    await expect(addAcknowledgment(acknowledgmentsPath, {
+      pattern: '**', reason: '', acknowledgedBy: 'dev', acknowledgedAt: 'not a date',
+    })).rejects.toThrow(/'reason' is required[\s\S]*'acknowledgedAt' must be a valid/);
+  });
+
+  it('refuses suppressions without a reason or in unsupported files', async () => {
+    const json = join(dir, 'fixtures.json');
+    await writeFile(json, '{}\n');
+    await expect(addSuppressionComment(finding({ file: json }), 'reason')).rejects.toThrow(/not supported/);
+    await expect(addSuppressionComment(finding({ file: join(dir, 'a.ts') }), ' ')).rejects.toThrow(/reason/);
+  });
+
+  it('does not add baseline entries twice', async () => {
+    const baselinePath = join(dir, 'baseline.json');
+    const f = finding({ file: join(dir, 'a.ts') });
+    expect(await addToBaseline(baselinePath, [f])).toBe(1);
+    expect(await addToBaseline(baselinePath, [f])).toBe(0);
+  });
+});
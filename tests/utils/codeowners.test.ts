@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest';
+import { ownersOf, parseCodeowners, type Codeowners } from '../../src/utils/codeowners.js';
+
+const codeowners: Codeowners = {
+  rootPath: '/repo',
+  rules: parseCodeowners([
+    '# Default owners',
+    '*                 @org/platform',
+    '*.sql             @dba',
+    '/src/billing/     @billing-team   # PHI in claims',
+    'docs/             @writers',
+    '/src/billing/generated/',
+  ].join('\n')),
+};
+
+describe('CODEOWNERS', () => {
+  it('uses the last matching rule', () => {
+    expect(ownersOf(codeowners, '/repo/src/app.ts')).toEqual(['@org/platform']);
+    expect(ownersOf(codeowners, '/repo/db/schema.sql')).toEqual(['@dba']);
+    expect(ownersOf(codeowners, '/repo/src/billing/claims.ts')).toEqual(['@billing-team']);
+  });
+
+  it('anchors patterns with a slash and unsets owners with an empty rule', () => {
+    expect(ownersOf(codeowners, '/repo/docs/guide.md')).toEqual(['@writers']);
+    expect(ownersOf(codeowners, '/repo/lib/src/billing/x.ts')).toEqual(['@org/platform']);
+    expect(ownersOf(codeowners, '/repo/src/billing/generated/client.ts')).toEqual([]);
+  });
+});
@@ -0,0 +1,164 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { execFileSync } from 'child_process';
+import { mkdtemp, writeFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { parseUnifiedDiff, getGitDiff, isLineChanged } from '../../src/utils/git-diff.js';
+import { scan } from '../../src/scan.js';
+
+// Keep the integration scan deterministic + offline (no AI triage network calls).
+beforeAll(() => {
+  delete process.env.ANTHROPIC_API_KEY;
+  delete process.env.VLAYER_AI_KEY;
+});
+
+const dirs: string[] = [];
+afterAll(async () => {
+  await Promise.all(dirs.map(d => rm(d, { recursive: true, force: true })));
+});
+
+function git(cwd: string, ...args: string[]): void {
+  execFileSync('git', ['-c', 'user.name=test', '-c', 'user.email=test@example.com', ...args], { cwd, stdio: 'ignore' });
+}
+
+async function repoWithCommit(files: Record<string, string>): Promise<string> {
+  const dir = await mkdtemp(join(tmpdir(), 'vlayer-diff-'));
+  dirs.push(dir);
+  git(dir, 'init', '-q');
+  for (const [name, content] of Object.entries(files)) {
+    await writeFile(join(dir, name), content);
+  }
+  git(dir, 'add', '-A');
+  git(dir, 'commit', '-q', '-m', 'base');
+  return dir;
+}
+
+describe('parseUnifiedDiff', () => {
+  it('collects added line numbers per new path, ignoring pure deletions', () => {
+    const diff = [
+      'diff --git a/src/a.ts b/src/a.ts',
+      '--- a/src/a.ts',
+      '+++ b/src/a.ts',
+      '@@ -3,0 +4,2 @@',
+      '+one',
+      '+two',
+      '@@ -10 +12 @@',
+      '-old',
+      '+new',
+      '@@ -20,2 +21,0 @@',
+      '-gone',
+      'diff --git a/src/old.ts b/src/new.ts',
+      '--- a/src/old.ts',
+      '+++ b/src/new.ts',
+      '@@ -1 +1 @@',
+      '-x',
+      '+y',
+      'diff --git a/src/deleted.ts b/src/deleted.ts',
+      '--- a/src/deleted.ts',
+      '+++ /dev/null',
+      '@@ -1 +0,0 @@',
+    ].join('\n');
+
+    const files = parseUnifiedDiff(diff);
+    expect([...files.keys()]).toEqual(['src/a.ts', 'src/new.ts']);
+    expect([...files.get('src/a.ts')!]).toEqual([4, 5, 12]);
+    expect([...files.get('src/new.ts')!]).toEqual([1]);
+  });
+
+  it('reads C-quoted paths', () => {
+    const diff = [
+      'diff --git "a/src/na\\303\\257ve.ts" "b/src/na\\303\\257ve.ts"',
+      '--- "a/src/na\\303\\257ve.ts"',
+      '+++ "b/src/na\\303\\257ve.ts"',
+      '@@ -1 +1 @@',
+      '--- a/src/tab\\there.ts',
+      '+++ "b/src/tab\\there.ts"',
+      '@@ -2 +2 @@',
+    ].join('\n');
+
+    expect([...parseUnifiedDiff(diff).keys()]).toEqual(['src/naïve.ts', 'src/tab\there.ts']);
+  });
+
+  it('isLineChanged treats untracked files and line-less findings as changed', () => {
+    expect(isLineChanged('all', 99)).toBe(true);
+    expect(isLineChanged(new Set([3]), undefined)).toBe(true);
+    expect(isLineChanged(new Set([3]), 4)).toBe(false);
+    expect(isLineChanged(undefined, 3)).toBe(false);
+  });
+});
+
+describe('getGitDiff', () => {
+  it('reports modified lines and untracked files relative to a ref', async () => {
+    const dir = await repoWithCommit({ 'a.ts': 'const a = 1;\nconst b = 2;\n', 'b.ts': 'const c = 3;\n' });
+    await writeFile(join(dir, 'a.ts'), 'const a = 1;\nconst b = 20;\n');
+    await writeFile(join(dir, 'new.ts'), 'const d = 4;\n');
+
+    const diff = await getGitDiff(dir, 'HEAD');
+    expect(diff.files.get(join(dir, 'a.ts'))).toEqual(new Set([2]));
+    expect(diff.files.get(join(dir, 'new.ts'))).toBe('all');
+    expect(diff.files.has(join(dir, 'b.ts'))).toBe(false);
+  });
+
+  it('compares with the merge base, ignoring later commits on the ref', async () => {
+    const dir = await repoWithCommit({ 'a.ts': 'const a = 1;\n', 'b.ts': 'const b = 1;\n', 'naïve.ts': 'const n = 1;\n' });
+    git(dir, 'checkout', '-q', '-b', 'upstream');
+    await writeFile(join(dir, 'b.ts'), 'const b = 2;\n');
+    git(dir, 'commit', '-q', '-am', 'upstream change');
+    git(dir, 'checkout', '-q', '-');
+    await writeFile(join(dir, 'a.ts'), 'const a = 2;\n');
+    git(dir, 'commit', '-q', '-am', 'branch change');
+    await writeFile(join(dir, 'naïve.ts'), 'const n = 2;\n');
+
+    const diff = await getGitDiff(dir, 'upstream');
+    expect([...diff.files.keys()].sort()).toEqual([join(dir, 'a.ts'), join(dir, 'naïve.ts')]);
+  });
+
+  it('ignores diff prefix settings in the git config', async () => {
+    for (const [key, value] of [['diff.mnemonicPrefix', 'true'], ['diff.noprefix', 'true']]) {
+      const dir = await repoWithCommit({ 'a.ts': 'const a = 1;\n' });
+      git(dir, 'config', key, value);
+      await writeFile(join(dir, 'a.ts'), 'const a = 2;\n');
+
+      const diff = await getGitDiff(dir, 'HEAD');
+      expect([...diff.files.keys()], key).toEqual([join(dir, 'a.ts')]);
+    }
+  });
+
+  it('fails clearly for an unknown ref', async () => {
+    const dir = await repoWithCommit({ 'a.ts': 'x\n' });
+    await expect(getGitDiff(dir, 'no-such-ref')).rejects.toThrow(/no-such-ref/);
+  });
+});
+
+describe('scan with since', () => {
+  const leaky = 'console.log(patient.ssn);\n';
+
+  it('only scans changed files and skips project-level findings', async () => {
+    const dir = await repoWithCommit({
+      'package.json': '{"name":"x","dependencies":{}}',
+      'old.ts': `const ok = 1;\n${leaky}`,
+    });
+    await writeFile(join(dir, 'changed.ts'), leaky);
+
+    const full = await scan({ path: dir, enableAI: false });
+    expect(full.findings.some(f => f.file.endsWith('old.ts'))).toBe(true);
+
+    const result = await scan({ path: dir, enableAI: false, since: 'HEAD' });
+    expect(result.scannedFiles).toBe(1);
+    expect(result.findings.length).toBeGreaterThan(0);
+    expect(result.findings.every(f => f.file === join(dir, 'changed.ts'))).toBe(true);
+    expect(result.diff).toMatchObject({ since: 'HEAD', scope: 'file', changedFiles: 1 });
+  });
+
+  it('line scope keeps only findings on touched lines', async () => {
+    const dir = await repoWithCommit({ 'a.ts': `${leaky}const x = 1;\n` });
+    await writeFile(join(dir, 'a.ts'), `${leaky}const x = 1;\n${leaky}`);
+
+    const fileScope = await scan({ path: dir, enableAI: false, since: 'HEAD', diffScope: 'file' });
+    const lineScope = await scan({ path: dir, enableAI: false, since: 'HEAD', diffScope: 'line' });
+
+    expect(fileScope.findings.some(f => f.line === 1)).toBe(true);
+    expect(lineScope.findings.length).toBeGreaterThan(0);
+    expect(lineScope.findings.every(f => f.line === 3)).toBe(true);
+  });
+});
@@ -20,6 +20,9 @@ export async function scanWorkspace(workspacePath: string): Promise<ScanResult>
     path: workspacePath,
     categories,
     exclude,
+    // Unchanged files reuse findings from .vlayer/cache, so rescans on save
+    // only re-match the files that actually changed.
+    cache: config.get<boolean>('cache') ?? true,
   };
 
   // Check cache